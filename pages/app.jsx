@@ -63,12 +63,39 @@ function ChatApp() {
     const handleWebSocketMessage = useCallback((data) => {
         if (data.type === 'typing') {
             setIsTyping(data.isTyping);
+        } else if (data.type === 'delta') {
+            // Grow the streaming assistant message until the final frame arrives
+            setMessages(prev => {
+                const existing = prev.find(msg => msg.id === data.messageId);
+                if (existing) {
+                    return prev.map(msg => msg.id === data.messageId
+                        ? { ...msg, content: msg.content + data.content }
+                        : msg);
+                }
+                return [...prev, {
+                    id: data.messageId,
+                    role: 'assistant',
+                    content: data.content,
+                    timestamp: Date.now(),
+                    metadata: { streaming: true }
+                }];
+            });
+            setIsTyping(false);
+        } else if (data.type === 'discard') {
+            // The streamed text led into a tool call; the answer streams again afterwards
+            setMessages(prev => prev.filter(msg => msg.id !== data.messageId));
+            setIsTyping(true);
+        } else if (data.type === 'handoff') {
+            // A human agent joined or left; their replies arrive as regular messages
+            setIsTyping(false);
         } else if (data.type === 'error') {
             setError(data.error.message || 'An error occurred');
             setIsTyping(false);
         } else if (data.id) {
-            // Regular chat message
-            setMessages(prev => [...prev, data]);
+            // Regular chat message; replaces a streamed draft with the same id
+            setMessages(prev => prev.some(msg => msg.id === data.id)
+                ? prev.map(msg => msg.id === data.id ? data : msg)
+                : [...prev, data]);
             setIsTyping(false);
             
             // Auto-speak AI responses if voice is enabled and supported
@@ -306,7 +333,7 @@ function ChatApp() {
                 {messages.map((message) => (
                     <div key={message.id} className={`message ${message.role}`}>
                         <div className="message-avatar">
-                            {message.role === 'user' ? 'U' : 'AI'}
+                            {message.role === 'user' ? 'U' : message.role === 'agent' ? 'HA' : 'AI'}
                         </div>
                         <div className="message-content">
                             <div className="message-text">{message.content}</div>
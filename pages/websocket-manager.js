@@ -8,6 +8,7 @@ class WebSocketManager {
         this.maxReconnectAttempts = 5;
         this.reconnectDelay = 1000;
         this.sessionId = null;
+        this.sessionToken = null;
         this.isIntentionalClose = false;
         
         // Optimization: Message queuing and batching
@@ -30,15 +31,23 @@ class WebSocketManager {
         this.compressionEnabled = false;
         this.compressionThreshold = 1024; // bytes
         
-        // Generate session ID
-        this.sessionId = this.generateSessionId();
-        
         // Set up cleanup on page unload
         window.addEventListener('beforeunload', () => this.cleanup());
     }
     
-    generateSessionId() {
-        return `sess_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    // The server creates the session and issues the token every connection to it presents
+    async ensureSession() {
+        if (this.sessionId && this.sessionToken) {
+            return;
+        }
+        
+        const response = await fetch('/api/session', { method: 'POST' });
+        if (!response.ok) {
+            throw new Error(`Failed to create session: ${response.status}`);
+        }
+        const session = await response.json();
+        this.sessionId = session.sessionId;
+        this.sessionToken = session.token;
     }
     
     connect() {
@@ -46,11 +55,12 @@ class WebSocketManager {
             return Promise.resolve();
         }
         
-        return new Promise((resolve, reject) => {
+        return this.ensureSession().then(() => new Promise((resolve, reject) => {
             try {
                 // Use wss for production, ws for development
                 const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-                let wsUrl = `${protocol}//${window.location.host}/ws?sessionId=${this.sessionId}`;
+                // Browsers cannot set headers on a WebSocket, so the token goes in the query string
+                let wsUrl = `${protocol}//${window.location.host}/api/websocket?sessionId=${encodeURIComponent(this.sessionId)}&token=${encodeURIComponent(this.sessionToken)}`;
                 
                 // Add compression support if available
                 if (this.compressionEnabled) {
@@ -82,7 +92,8 @@ class WebSocketManager {
                         capabilities: {
                             compression: this.compressionEnabled,
                             batching: true,
-                            heartbeat: true
+                            heartbeat: true,
+                            streaming: true
                         }
                     });
                     
@@ -136,7 +147,7 @@ class WebSocketManager {
                 console.error('Failed to create WebSocket:', error);
                 reject(error);
             }
-        });
+        }));
     }
     
     handleMessage(data) {
@@ -144,15 +155,27 @@ class WebSocketManager {
             case 'message':
                 this.onMessage(data.message);
                 break;
+            case 'delta':
+                this.onMessage({ type: 'delta', messageId: data.messageId, content: data.content });
+                break;
+            case 'discard':
+                this.onMessage({ type: 'discard', messageId: data.messageId });
+                break;
             case 'typing':
                 this.onMessage({ type: 'typing', isTyping: data.isTyping });
                 break;
+            case 'handoff':
+                this.onMessage({ type: 'handoff', status: data.status, agentId: data.agentId });
+                break;
             case 'error':
                 this.onMessage({ type: 'error', error: data.error });
                 break;
             case 'session_init':
                 console.log('Session initialized:', data.sessionId);
                 break;
+            case 'pong':
+                // lastPongReceived is refreshed for every inbound frame
+                break;
             default:
                 console.log('Unknown message type:', data.type);
         }
@@ -223,8 +223,13 @@ check_performance_monitoring() {
     print_status "Checking performance monitoring endpoints..."
     
     if [ -n "$BASE_URL" ]; then
+        # Monitoring endpoints need an API key with the service or admin role
+        if [ -z "$MONITORING_API_KEY" ]; then
+            print_warning "MONITORING_API_KEY not set, monitoring endpoints will return 401"
+        fi
+
         # Check metrics endpoint
-        METRICS_STATUS=$(curl -s -o /dev/null -w "%{http_code}" "$BASE_URL/api/metrics" || echo "000")
+        METRICS_STATUS=$(curl -s -o /dev/null -w "%{http_code}" -H "X-API-Key: $MONITORING_API_KEY" "$BASE_URL/api/metrics" || echo "000")
         if [ "$METRICS_STATUS" = "200" ]; then
             print_success "Metrics endpoint is accessible"
         else
@@ -232,7 +237,7 @@ check_performance_monitoring() {
         fi
         
         # Check health endpoint
-        HEALTH_STATUS=$(curl -s -o /dev/null -w "%{http_code}" "$BASE_URL/api/health" || echo "000")
+        HEALTH_STATUS=$(curl -s -o /dev/null -w "%{http_code}" -H "X-API-Key: $MONITORING_API_KEY" "$BASE_URL/api/health" || echo "000")
         if [ "$HEALTH_STATUS" = "200" ]; then
             print_success "Health endpoint is accessible"
         else
@@ -240,7 +245,7 @@ check_performance_monitoring() {
         fi
         
         # Check alerts endpoint
-        ALERTS_STATUS=$(curl -s -o /dev/null -w "%{http_code}" "$BASE_URL/api/alerts" || echo "000")
+        ALERTS_STATUS=$(curl -s -o /dev/null -w "%{http_code}" -H "X-API-Key: $MONITORING_API_KEY" "$BASE_URL/api/alerts" || echo "000")
         if [ "$ALERTS_STATUS" = "200" ]; then
             print_success "Alerts endpoint is accessible"
         else
@@ -0,0 +1,158 @@
+// Tests for roles, permission checks and the audit log on privileged routes
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import worker from '../workers/api';
+import { issueSessionToken, parseApiKeys, sha256Hex } from '../workers/auth';
+import {
+  API_ROUTE_PERMISSIONS,
+  DATA_PERSISTENCE_ROUTE_PERMISSIONS,
+  hasPermission,
+  requiredPermission
+} from '../workers/access_control';
+import { DataPersistenceIntegration, handleDataPersistenceRequest } from '../workers/data_persistence_integration';
+
+function createKV() {
+  const data = new Map<string, string>();
+  return {
+    data,
+    get: vi.fn(async (key: string) => data.get(key) ?? null),
+    put: vi.fn(async (key: string, value: string) => {
+      data.set(key, value);
+    }),
+    delete: vi.fn(async (key: string) => {
+      data.delete(key);
+    }),
+    list: vi.fn(async () => ({ keys: [] }))
+  };
+}
+
+const auditLog = (kv: ReturnType<typeof createKV>) => [...kv.data.entries()]
+  .filter(([key]) => key.startsWith('audit_log:'))
+  .map(([, value]) => JSON.parse(value));
+
+describe('Access control', () => {
+  let env: any;
+
+  beforeEach(async () => {
+    env = {
+      AI: { run: vi.fn() },
+      CHAT_KV: createKV(),
+      ARCHIVE_R2: { list: vi.fn().mockResolvedValue({ objects: [] }) },
+      WORKFLOWS: {},
+      MEMORY_DO: { idFromName: vi.fn(), get: vi.fn() },
+      SESSION_TOKEN_SECRET: 'test-secret',
+      API_KEYS: JSON.stringify([
+        { name: 'agent-console', keyHash: await sha256Hex('agent-key'), roles: ['agent'] },
+        { name: 'ops', keyHash: await sha256Hex('ops-key') },
+        { name: 'admin-cli', keyHash: await sha256Hex('admin-key'), roles: ['admin'] }
+      ])
+    };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should map routes to permissions and roles to what they may do', () => {
+    expect(requiredPermission(API_ROUTE_PERMISSIONS, 'GET', '/api/metrics')).toBe('monitoring:read');
+    expect(requiredPermission(API_ROUTE_PERMISSIONS, 'GET', '/api/kb/documents/faq')).toBe('knowledge:read');
+    expect(requiredPermission(API_ROUTE_PERMISSIONS, 'DELETE', '/api/kb/documents/faq')).toBe('knowledge:write');
+    expect(requiredPermission(API_ROUTE_PERMISSIONS, 'POST', '/api/workflows/definitions')).toBe('workflows:manage');
+    expect(requiredPermission(API_ROUTE_PERMISSIONS, 'POST', '/api/chat')).toBeNull();
+    expect(requiredPermission(DATA_PERSISTENCE_ROUTE_PERMISSIONS, 'POST', '/cleanup')).toBe('data:cleanup');
+
+    const caller = (roles: any[]) => ({ kind: 'api_key' as const, roles });
+    expect(hasPermission(caller(['end_user']), 'monitoring:read')).toBe(false);
+    expect(hasPermission(caller(['agent']), 'agent:handoff')).toBe(true);
+    expect(hasPermission(caller(['agent']), 'knowledge:write')).toBe(false);
+    expect(hasPermission(caller(['service']), 'data:backup')).toBe(true);
+    expect(hasPermission(caller(['service']), 'data:cleanup')).toBe(false);
+    expect(hasPermission(caller(['agent', 'admin']), 'data:cleanup')).toBe(true);
+  });
+
+  it('should drop API keys configured with unknown roles', () => {
+    const keys = parseApiKeys(JSON.stringify([
+      { name: 'ops', keyHash: 'aa' },
+      { name: 'typo', keyHash: 'bb', roles: ['superuser'] }
+    ]));
+
+    expect(keys.map(key => key.name)).toEqual(['ops']);
+  });
+
+  it('should keep metrics and health from callers without a monitoring role', async () => {
+    const call = (path: string, headers: Record<string, string> = {}) =>
+      worker.fetch(new Request(`https://test.com${path}`, { headers }), env, {} as any);
+    const { token } = await issueSessionToken('test-secret', { sessionId: 'sess_1' });
+
+    const anonymous = await call('/api/metrics');
+    expect(anonymous.status).toBe(401);
+    expect(((await anonymous.json()) as any).error.code).toBe('AUTHENTICATION_REQUIRED');
+    expect((await call('/api/health', { Authorization: `Bearer ${token}` })).status).toBe(403);
+    const agent = await call('/api/alerts', { 'X-API-Key': 'agent-key' });
+    expect(agent.status).toBe(403);
+    expect(((await agent.json()) as any).error.code).toBe('ACCESS_DENIED');
+    expect((await call('/api/metrics', { 'X-API-Key': 'stolen-key' })).status).toBe(401);
+
+    expect((await call('/api/alerts', { 'X-API-Key': 'ops-key' })).status).toBe(200);
+  });
+
+  it('should audit every privileged request with its caller and outcome', async () => {
+    await worker.fetch(new Request('https://test.com/api/metrics', {
+      headers: { 'X-API-Key': 'agent-key', 'CF-Connecting-IP': '203.0.113.9' }
+    }), env, {} as any);
+    await worker.fetch(new Request('https://test.com/api/alerts', { headers: { 'X-API-Key': 'ops-key' } }), env, {} as any);
+    await worker.fetch(new Request('https://test.com/api/session', { method: 'POST' }), env, {} as any);
+
+    const entries = auditLog(env.CHAT_KV);
+    expect(entries).toHaveLength(2);
+    expect(entries).toContainEqual(expect.objectContaining({
+      permission: 'monitoring:read',
+      path: '/api/metrics',
+      outcome: 'denied',
+      status: 403,
+      reason: 'ACCESS_DENIED',
+      ipAddress: '203.0.113.9',
+      principal: expect.objectContaining({ kind: 'api_key', keyName: 'agent-console', roles: ['agent'] })
+    }));
+    expect(entries).toContainEqual(expect.objectContaining({
+      path: '/api/alerts',
+      outcome: 'allowed',
+      status: 200,
+      principal: expect.objectContaining({ keyName: 'ops', roles: ['service'] })
+    }));
+    expect(env.CHAT_KV.put).toHaveBeenCalledWith(expect.stringMatching(/^audit_log:/), expect.any(String), {
+      expirationTtl: 90 * 24 * 60 * 60
+    });
+  });
+
+  it('should only let admins run cleanup and keep backups from the public', async () => {
+    const cleanup = vi.spyOn(DataPersistenceIntegration.prototype, 'performScheduledCleanup').mockResolvedValue(undefined);
+    const backup = vi.spyOn(DataPersistenceIntegration.prototype, 'createDailyBackup').mockResolvedValue('backup_1');
+    const post = (path: string, headers: Record<string, string> = {}) => handleDataPersistenceRequest(
+      new Request(`https://persistence.test${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify({ sessionIds: ['sess_1'] })
+      }),
+      env
+    );
+
+    expect((await post('/backup')).status).toBe(401);
+    expect((await post('/cleanup', { 'X-API-Key': 'agent-key' })).status).toBe(403);
+    expect((await post('/cleanup', { 'X-API-Key': 'ops-key' })).status).toBe(403);
+    expect(cleanup).not.toHaveBeenCalled();
+    expect(backup).not.toHaveBeenCalled();
+
+    expect((await post('/cleanup', { 'X-API-Key': 'admin-key' })).status).toBe(200);
+    expect(((await (await post('/backup', { 'X-API-Key': 'ops-key' })).json()) as any).backupId).toBe('backup_1');
+    expect(cleanup).toHaveBeenCalledTimes(1);
+    expect(backup).toHaveBeenCalledWith(['sess_1']);
+
+    expect(auditLog(env.CHAT_KV).map(entry => `${entry.path} ${entry.outcome}`)).toEqual([
+      '/backup denied',
+      '/cleanup denied',
+      '/cleanup denied',
+      '/cleanup allowed',
+      '/backup allowed'
+    ]);
+  });
+});
@@ -0,0 +1,249 @@
+// Tests for human agent takeover of a session
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import worker from '../workers/api';
+import { SessionMemoryDO } from '../workers/do_memory';
+import { issueSessionToken, sha256Hex } from '../workers/auth';
+
+// Mock DurableObjectState with hibernatable WebSocket support
+class MockDurableObjectState {
+  private storageData = new Map<string, any>();
+  sockets: any[] = [];
+
+  storage = {
+    get: vi.fn(async (key: string) => this.storageData.get(key)),
+    put: vi.fn(async (key: string, value: any) => {
+      this.storageData.set(key, value);
+    }),
+    delete: vi.fn(async (key: string) => this.storageData.delete(key)),
+    deleteAll: vi.fn(async () => {
+      this.storageData.clear();
+    }),
+    list: vi.fn(async () => new Map(this.storageData))
+  };
+
+  blockConcurrencyWhile = vi.fn(async (callback: () => Promise<void>) => {
+    await callback();
+  });
+
+  acceptWebSocket = vi.fn((ws: any) => {
+    this.sockets.push(ws);
+  });
+
+  getWebSockets = vi.fn(() => this.sockets);
+
+  getStorageData(key: string) {
+    return this.storageData.get(key);
+  }
+}
+
+class MockServerWebSocket {
+  sent: any[] = [];
+  private attachment: any;
+
+  send = vi.fn((data: string) => {
+    this.sent.push(JSON.parse(data));
+  });
+
+  close = vi.fn();
+
+  serializeAttachment(attachment: any) {
+    this.attachment = attachment;
+  }
+
+  deserializeAttachment() {
+    return this.attachment;
+  }
+
+  framesOfType(type: string) {
+    return this.sent.filter(frame => frame.type === type);
+  }
+}
+
+function createSocket(sessionId: string, agentId?: string): MockServerWebSocket {
+  const socket = new MockServerWebSocket();
+  socket.serializeAttachment({
+    sessionId,
+    connectedAt: Date.now(),
+    ipAddress: '203.0.113.5',
+    userAgent: 'vitest',
+    ...(agentId ? { agentId } : {})
+  });
+  return socket;
+}
+
+describe('Agent Handoff', () => {
+  let mockState: MockDurableObjectState;
+  let mockEnv: any;
+  let memoryDO: SessionMemoryDO;
+  let customer: MockServerWebSocket;
+  let agent: MockServerWebSocket;
+
+  const send = (socket: MockServerWebSocket, frame: any) =>
+    memoryDO.webSocketMessage(socket as any, JSON.stringify(frame));
+
+  beforeEach(async () => {
+    mockState = new MockDurableObjectState();
+    mockEnv = {
+      AI: {
+        run: vi.fn().mockResolvedValue({
+          response: 'Customer cannot sign in after a password reset.',
+          usage: { prompt_tokens: 20, completion_tokens: 10, total_tokens: 30 }
+        })
+      },
+      WORKFLOWS: {},
+      SESSION_TOKEN_SECRET: 'test-secret',
+      API_KEYS: JSON.stringify([
+        { name: 'agent-7-console', keyHash: await sha256Hex('agent-key'), roles: ['agent'], userId: 'agent-7' },
+        { name: 'agent-9-console', keyHash: await sha256Hex('other-agent-key'), roles: ['agent'], userId: 'agent-9' },
+        { name: 'ops', keyHash: await sha256Hex('ops-key') }
+      ]),
+      CHAT_KV: {
+        get: vi.fn().mockResolvedValue(null),
+        put: vi.fn().mockResolvedValue(undefined),
+        delete: vi.fn(),
+        list: vi.fn().mockResolvedValue({ keys: [] })
+      },
+      ARCHIVE_R2: {
+        get: vi.fn(),
+        put: vi.fn(),
+        delete: vi.fn(),
+        list: vi.fn()
+      }
+    };
+
+    memoryDO = new SessionMemoryDO(mockState as any, mockEnv);
+    customer = createSocket('handoff-session');
+    agent = createSocket('handoff-session', 'agent-7');
+    mockState.sockets.push(customer, agent);
+    mockEnv.MEMORY_DO = {
+      idFromName: vi.fn((name: string) => name),
+      get: vi.fn(() => ({
+        fetch: (input: any, init?: any) => memoryDO.fetch(new Request(input, init))
+      }))
+    };
+  });
+
+  describe('WebSocket Takeover', () => {
+    it('should mute the bot while an agent is attached and relay replies both ways', async () => {
+      await send(customer, { type: 'message', content: 'I cannot log in' });
+      await send(agent, { type: 'claim' });
+
+      expect(mockState.getStorageData('session')).toMatchObject({
+        status: 'handed_off',
+        handoff: { agentId: 'agent-7', summary: 'Customer cannot sign in after a password reset.' }
+      });
+      expect(customer.framesOfType('handoff')[0]).toMatchObject({ status: 'handed_off', agentId: 'agent-7' });
+      expect(agent.framesOfType('session')[0].session.status).toBe('handed_off');
+
+      mockEnv.AI.run.mockClear();
+      await send(customer, { type: 'message', content: 'Are you still there?' });
+
+      expect(mockEnv.AI.run).not.toHaveBeenCalled();
+      expect(agent.framesOfType('message').at(-1).message.content).toBe('Are you still there?');
+
+      await send(agent, { type: 'message', content: 'Yes, I have reset your account lock.' });
+
+      const reply = customer.framesOfType('message').at(-1).message;
+      expect(reply).toMatchObject({ role: 'agent', content: 'Yes, I have reset your account lock.', metadata: { agentId: 'agent-7' } });
+      expect(agent.framesOfType('message').map(frame => frame.message.id)).not.toContain(reply.id);
+    });
+
+    it('should resume the bot after release with the agent turns in context', async () => {
+      await send(agent, { type: 'claim' });
+      await send(agent, { type: 'message', content: 'Your refund was issued today.' });
+      await send(agent, { type: 'release' });
+
+      expect(mockState.getStorageData('session').status).toBe('active');
+      expect(mockState.getStorageData('session').handoff).toBeUndefined();
+
+      mockEnv.AI.run.mockClear();
+      await send(customer, { type: 'message', content: 'When will it arrive?' });
+
+      const chatCall = mockEnv.AI.run.mock.calls.find(([, input]: any[]) => input.messages?.some((m: any) => m.content === 'When will it arrive?'));
+      expect(chatCall[1].messages).toContainEqual({ role: 'assistant', content: '[Human support agent] Your refund was issued today.' });
+      expect(customer.framesOfType('message').at(-1).message.role).toBe('assistant');
+    });
+
+    it('should reject claims by a second agent and replies without a claim', async () => {
+      const otherAgent = createSocket('handoff-session', 'agent-9');
+      mockState.sockets.push(otherAgent);
+
+      await send(otherAgent, { type: 'message', content: 'Hello' });
+      expect(otherAgent.framesOfType('error')[0].error.code).toBe('NOT_CLAIMED');
+
+      await send(agent, { type: 'claim' });
+      await send(otherAgent, { type: 'claim' });
+      expect(otherAgent.framesOfType('error')[1].error.code).toBe('SESSION_CLAIMED');
+
+      await send(customer, { type: 'claim' });
+      expect(customer.framesOfType('error')[0].error.code).toBe('FORBIDDEN');
+    });
+  });
+
+  describe('HTTP API', () => {
+    const agentKey = { 'X-API-Key': 'agent-key' };
+    const post = (path: string, body: any, apiKey: string = 'agent-key') => worker.fetch(new Request(`https://test.com/api/agent/sessions/handoff-session${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': apiKey },
+      body: JSON.stringify(body)
+    }), mockEnv, {} as any);
+
+    it('should claim, reply, and release a session', async () => {
+      await send(customer, { type: 'message', content: 'I was charged twice' });
+
+      const claim = await post('/claim', {});
+      expect(claim.status).toBe(200);
+
+      const view = await (await worker.fetch(new Request('https://test.com/api/agent/sessions/handoff-session', { headers: agentKey }), mockEnv, {} as any)).json() as any;
+      expect(view.session.status).toBe('handed_off');
+      expect(view.summary).toBe('Customer cannot sign in after a password reset.');
+      expect(view.messages.map((m: any) => m.role)).toEqual(['user', 'assistant']);
+
+      const reply = await post('/messages', { agentId: 'agent-7', content: 'I have refunded the duplicate charge.' });
+      expect(reply.status).toBe(201);
+      expect(((await reply.json()) as any).message.role).toBe('agent');
+      expect(customer.framesOfType('message').at(-1).message.content).toBe('I have refunded the duplicate charge.');
+
+      const conflict = await post('/release', {}, 'other-agent-key');
+      expect(conflict.status).toBe(409);
+      expect(((await conflict.json()) as any).error.code).toBe('NOT_CLAIMED');
+
+      const release = await post('/release', { agentId: 'agent-7' });
+      expect(((await release.json()) as any).session.status).toBe('active');
+    });
+
+    it('should deliver customer chat messages to the agent instead of the bot', async () => {
+      await post('/claim', { agentId: 'agent-7' });
+      mockEnv.AI.run.mockClear();
+
+      const { token } = await issueSessionToken('test-secret', { sessionId: 'handoff-session' });
+      const response = await worker.fetch(new Request('https://test.com/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ message: 'Any update on my refund?', sessionId: 'handoff-session' })
+      }), mockEnv, {} as any);
+      const result = await response.json() as any;
+
+      expect(response.status).toBe(202);
+      expect(result).toMatchObject({ message: null, handedOff: true, agentId: 'agent-7' });
+      expect(mockEnv.AI.run).not.toHaveBeenCalled();
+      expect(agent.framesOfType('message').at(-1).message.content).toBe('Any update on my refund?');
+    });
+
+    it('should act as the agent the API key was issued for', async () => {
+      const impersonation = await post('/claim', { agentId: 'agent-9' });
+      expect(impersonation.status).toBe(403);
+      expect(((await impersonation.json()) as any).error.code).toBe('ACCESS_DENIED');
+      expect((await post('/claim', {}, 'ops-key')).status).toBe(403);
+
+      await post('/claim', {}, 'other-agent-key');
+      const view = await (await worker.fetch(new Request('https://test.com/api/agent/sessions/handoff-session', { headers: agentKey }), mockEnv, {} as any)).json() as any;
+      expect(view.session.handoff.agentId).toBe('agent-9');
+    });
+
+    it('should validate agent requests', async () => {
+      expect((await post('/messages', { agentId: 'agent-7', content: 'Hi' })).status).toBe(409);
+      expect((await worker.fetch(new Request('https://test.com/api/agent/sessions/handoff-session/claim', { headers: agentKey }), mockEnv, {} as any)).status).toBe(405);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+// Tests for the agent queue Durable Object and /api/agent/queue
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import worker from '../workers/api';
+import { AgentQueueDO } from '../workers/agent_queue';
+import { TicketingTool } from '../workers/ticketing_tool';
+import { InMemoryTicketStore } from '../workers/ticket_store';
+import { WorkflowService } from '../workers/workflow_service';
+import { WorkflowEngine } from '../workers/workflow';
+import { sha256Hex } from '../workers/auth';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date('2025-03-01T09:00:00Z').getTime();
+
+// Mock DurableObjectState storage with prefix listing
+class MockDurableObjectState {
+  private storageData = new Map<string, any>();
+
+  storage = {
+    get: vi.fn(async (key: string) => structuredClone(this.storageData.get(key))),
+    put: vi.fn(async (key: string, value: any) => {
+      this.storageData.set(key, structuredClone(value));
+    }),
+    delete: vi.fn(async (key: string) => this.storageData.delete(key)),
+    list: vi.fn(async ({ prefix }: { prefix: string }) => new Map(
+      [...this.storageData].filter(([key]) => key.startsWith(prefix))
+    ))
+  };
+}
+
+function createQueueNamespace() {
+  const queue = new AgentQueueDO(new MockDurableObjectState() as any, {} as any);
+  return {
+    queue,
+    idFromName: vi.fn((name: string) => name),
+    get: vi.fn(() => ({
+      fetch: (input: any, init?: any) => queue.fetch(new Request(input, init))
+    }))
+  };
+}
+
+describe('Agent Queue', () => {
+  let namespace: ReturnType<typeof createQueueNamespace>;
+  let env: any;
+
+  const api = (path: string, init: RequestInit = {}) => worker.fetch(new Request(`https://test.com/api/agent/queue${path}`, {
+    ...init,
+    headers: { 'X-API-Key': 'agent-key', ...(init.headers as Record<string, string>) }
+  }), env, {} as any);
+  const postJSON = (path: string, body: any, apiKey: string = 'agent-key') => api(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-API-Key': apiKey },
+    body: JSON.stringify(body)
+  });
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    namespace = createQueueNamespace();
+    env = {
+      SESSION_TOKEN_SECRET: 'test-secret',
+      API_KEYS: JSON.stringify([
+        { name: 'agent-7-console', keyHash: await sha256Hex('agent-key'), roles: ['agent'], userId: 'agent-7' },
+        { name: 'agent-9-console', keyHash: await sha256Hex('other-agent-key'), roles: ['agent'], userId: 'agent-9' }
+      ]),
+      AI: { run: vi.fn() },
+      CHAT_KV: { get: vi.fn().mockResolvedValue(null), put: vi.fn(), delete: vi.fn(), list: vi.fn() },
+      ARCHIVE_R2: {},
+      WORKFLOWS: {},
+      MEMORY_DO: { idFromName: vi.fn(), get: vi.fn() },
+      AGENT_QUEUE_DO: namespace
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('Ordering and SLA', () => {
+    it('should order by priority, then by SLA deadline', async () => {
+      await postJSON('', { sessionId: 'low-1', priority: 'low' });
+      await postJSON('', { sessionId: 'med-1', title: 'Question about invoices' });
+      await postJSON('', { sessionId: 'urgent-1', title: 'Production is down' });
+      vi.advanceTimersByTime(1000);
+      await postJSON('', { sessionId: 'urgent-2', priority: 'urgent' });
+
+      const { entries, stats } = await (await api('')).json() as any;
+
+      expect(entries.map((entry: any) => entry.sessionId)).toEqual(['urgent-1', 'urgent-2', 'med-1', 'low-1']);
+      expect(entries[0]).toMatchObject({ priority: 'urgent', reason: 'manual', slaDeadline: NOW + 4 * HOUR, slaStatus: 'ok' });
+      expect(stats).toMatchObject({ waiting: 4, assigned: 0, byPriority: { urgent: 2, high: 0, medium: 1, low: 1 } });
+    });
+
+    it('should flag entries at risk and in breach of their SLA', async () => {
+      await postJSON('', { sessionId: 'urgent-1', priority: 'urgent' });
+      await postJSON('', { sessionId: 'high-1', priority: 'high' });
+
+      vi.advanceTimersByTime(3.5 * HOUR);
+      let { entries, stats } = await (await api('')).json() as any;
+      expect(entries.map((entry: any) => entry.slaStatus)).toEqual(['at_risk', 'ok']);
+      expect(stats).toMatchObject({ atRisk: 1, breached: 0, oldestWaitingMs: 3.5 * HOUR });
+
+      vi.advanceTimersByTime(HOUR);
+      ({ entries, stats } = await (await api('')).json() as any);
+      expect(entries[0]).toMatchObject({ slaStatus: 'breached', slaRemainingMs: -0.5 * HOUR });
+      expect(stats.breached).toBe(1);
+    });
+
+    it('should keep a re-queued session in place with the stricter priority and deadline', async () => {
+      await postJSON('', { sessionId: 'sess-1', priority: 'low', title: 'Export question' });
+      vi.advanceTimersByTime(HOUR);
+      await postJSON('', { sessionId: 'sess-1', priority: 'high' });
+
+      const { entries } = await (await api('')).json() as any;
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ priority: 'high', enqueuedAt: NOW, slaDeadline: NOW + 25 * HOUR, title: 'Export question' });
+    });
+  });
+
+  describe('Assignment', () => {
+    it('should assign sessions to one agent and filter by status and agent', async () => {
+      await postJSON('', { sessionId: 'sess-1', priority: 'high' });
+      await postJSON('', { sessionId: 'sess-2', priority: 'low' });
+
+      const assigned = await postJSON('/sess-1/assign', {});
+      expect(((await assigned.json()) as any).entry).toMatchObject({ status: 'assigned', assignedTo: 'agent-7', assignedAt: NOW });
+
+      const conflict = await postJSON('/sess-1/assign', {}, 'other-agent-key');
+      expect(conflict.status).toBe(409);
+      expect(((await conflict.json()) as any).error.code).toBe('ALREADY_ASSIGNED');
+
+      expect((await postJSON('/missing/assign', { agentId: 'agent-7' })).status).toBe(404);
+      expect((await postJSON('/sess-2/assign', { agentId: 'agent-9' })).status).toBe(403);
+
+      const mine = await (await api('?agentId=agent-7')).json() as any;
+      expect(mine.entries.map((entry: any) => entry.sessionId)).toEqual(['sess-1']);
+      const waiting = await (await api('?status=waiting')).json() as any;
+      expect(waiting.entries.map((entry: any) => entry.sessionId)).toEqual(['sess-2']);
+      expect(waiting.stats).toMatchObject({ waiting: 1, assigned: 1 });
+
+      await api('/sess-1', { method: 'DELETE' });
+      expect(((await (await api('')).json()) as any).entries).toHaveLength(1);
+    });
+
+    it('should follow agent claims and releases of the session', async () => {
+      await postJSON('', { sessionId: 'sess-1', priority: 'high' });
+      await postJSON('/sess-1/assign', {});
+      env.MEMORY_DO.get.mockReturnValue({
+        fetch: vi.fn(async () => new Response(JSON.stringify({ session: { id: 'sess-1', status: 'handed_off' } })))
+      });
+      const session = (action: string) => worker.fetch(new Request(`https://test.com/api/agent/sessions/sess-1/${action}`, {
+        method: 'POST',
+        headers: { 'X-API-Key': 'other-agent-key' },
+        body: JSON.stringify({})
+      }), env, {} as any);
+
+      await session('claim');
+      expect(((await (await api('')).json()) as any).entries[0].assignedTo).toBe('agent-9');
+
+      await session('release');
+      expect(((await (await api('')).json()) as any).entries).toEqual([]);
+    });
+
+    it('should validate queue requests', async () => {
+      expect((await postJSON('', { priority: 'high' })).status).toBe(400);
+      expect((await postJSON('', { sessionId: 'sess-1', priority: 'critical' })).status).toBe(400);
+      expect((await api('/sess-1/assign', { method: 'POST', headers: { 'X-API-Key': 'unknown-key' } })).status).toBe(401);
+
+      delete env.AGENT_QUEUE_DO;
+      expect((await api('')).status).toBe(503);
+    });
+  });
+
+  describe('Feeds', () => {
+    it('should queue sessions when a ticket is created', async () => {
+      const tool = new TicketingTool(new InMemoryTicketStore());
+      const result = await tool.execute({
+        action: 'create',
+        ticketData: { title: 'Cannot export invoices', description: 'Export times out', priority: 'high', category: 'billing' }
+      }, { sessionId: 'sess-ticket', userId: 'user-1', bindings: env });
+
+      const { entries } = await (await api('')).json() as any;
+      expect(entries[0]).toMatchObject({
+        sessionId: 'sess-ticket',
+        reason: 'ticket',
+        priority: 'high',
+        ticketId: result.data.ticketId,
+        userId: 'user-1',
+        slaDeadline: result.data.estimatedResolution.getTime()
+      });
+    });
+
+    it('should queue escalations with the priority implied by the issue', async () => {
+      vi.spyOn(WorkflowEngine.prototype, 'executeWorkflow').mockResolvedValue({ success: true } as any);
+
+      await new WorkflowService(env).handleEscalation({
+        issue: 'Our checkout is down for every customer',
+        context: { sessionId: 'sess-escalated', summary: '', recentMessages: [], activeTopics: [], resolvedIssues: [] },
+        title: 'Checkout outage',
+        description: 'Checkout returns errors',
+        priority: 'high',
+        category: 'technical'
+      });
+
+      const { entries } = await (await api('')).json() as any;
+      expect(entries[0]).toMatchObject({ sessionId: 'sess-escalated', reason: 'escalation', priority: 'urgent', slaDeadline: NOW + 4 * HOUR });
+    });
+  });
+});
@@ -2,6 +2,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import worker from '../workers/api';
 import { WorkerBindings, ChatMessage, ConversationContext } from '../workers/types';
+import { KnowledgeBase } from '../workers/knowledge_base';
+import { toolRegistry } from '../workers/tool_registry';
+import { issueSessionToken, sha256Hex } from '../workers/auth';
 
 // Mock implementations
 const mockAI = {
@@ -34,15 +37,41 @@ const mockEnv: WorkerBindings = {
   } as any,
   WORKFLOWS: {} as any,
   OPENAI_API_KEY: 'test-openai-key',
-  MAX_TOKENS: '4096'
+  MAX_TOKENS: '4096',
+  SESSION_TOKEN_SECRET: 'test-secret'
 };
 
+// Bearer token for 'test-session', signed in beforeEach
+let authorization = '';
+
 // Mock fetch for OpenAI API calls
 const originalFetch = global.fetch;
 
+// Encode chunks the way Workers AI and OpenAI stream them
+function sseStream(chunks: any[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+      }
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    }
+  });
+}
+
+function parseEvents(body: string): Array<{ event: string, data: any }> {
+  return body.trim().split('\n\n').map(block => {
+    const [eventLine = '', dataLine = ''] = block.split('\n');
+    return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+  });
+}
+
 describe('API Worker AI Integration', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     vi.clearAllMocks();
+    authorization = `Bearer ${(await issueSessionToken('test-secret', { sessionId: 'test-session' })).token}`;
 
     // Setup default mock responses
     mockMemoryDO.idFromName.mockReturnValue('test-do-id');
@@ -80,7 +109,7 @@ describe('API Worker AI Integration', () => {
 
       const request = new Request('https://test.com/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
         body: JSON.stringify({
           message: 'Hello, I need help',
           sessionId: 'test-session'
@@ -108,7 +137,8 @@ describe('API Worker AI Integration', () => {
         top_p: 0.9,
         frequency_penalty: 0.1,
         presence_penalty: 0.1,
-        stream: false
+        stream: false,
+        tools: expect.any(Array)
       });
     });
 
@@ -132,7 +162,7 @@ describe('API Worker AI Integration', () => {
 
       const request = new Request('https://test.com/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
         body: JSON.stringify({
           message: 'Help me please',
           sessionId: 'test-session'
@@ -154,7 +184,8 @@ describe('API Worker AI Integration', () => {
           'Authorization': 'Bearer test-openai-key',
           'Content-Type': 'application/json'
         },
-        body: expect.stringContaining('gpt-3.5-turbo')
+        body: expect.stringContaining('gpt-3.5-turbo'),
+        signal: expect.any(AbortSignal)
       });
     });
 
@@ -165,7 +196,7 @@ describe('API Worker AI Integration', () => {
 
       const request = new Request('https://test.com/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
         body: JSON.stringify({
           message: 'Help me please',
           sessionId: 'test-session'
@@ -201,12 +232,13 @@ describe('API Worker AI Integration', () => {
       expect(response.status).toBe(200);
       expect(result.sessionId).toMatch(/^sess_\d+_[a-z0-9]+$/);
       expect(result.message.sessionId).toBe(result.sessionId);
+      expect(result.sessionToken).toEqual(expect.any(String));
     });
 
     it('should validate message input', async () => {
       const request = new Request('https://test.com/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
         body: JSON.stringify({
           message: '', // Empty message
           sessionId: 'test-session'
@@ -223,7 +255,7 @@ describe('API Worker AI Integration', () => {
     it('should handle missing message field', async () => {
       const request = new Request('https://test.com/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
         body: JSON.stringify({
           sessionId: 'test-session'
           // Missing message field
@@ -247,7 +279,7 @@ describe('API Worker AI Integration', () => {
 
       const request = new Request('https://test.com/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
         body: JSON.stringify({
           message: 'Test message',
           sessionId: 'test-session'
@@ -272,7 +304,8 @@ describe('API Worker AI Integration', () => {
         top_p: 0.9,
         frequency_penalty: 0.1,
         presence_penalty: 0.1,
-        stream: false
+        stream: false,
+        tools: expect.any(Array)
       });
     });
 
@@ -301,7 +334,7 @@ describe('API Worker AI Integration', () => {
 
       const request = new Request('https://test.com/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
         body: JSON.stringify({
           message: 'What about my recent charges?',
           sessionId: 'test-session'
@@ -330,7 +363,7 @@ describe('API Worker AI Integration', () => {
 
       const request = new Request('https://test.com/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
         body: JSON.stringify({
           message: 'Test message',
           sessionId: 'test-session'
@@ -351,7 +384,7 @@ describe('API Worker AI Integration', () => {
 
       const request = new Request('https://test.com/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
         body: JSON.stringify({
           message: 'Test message',
           sessionId: 'test-session'
@@ -366,6 +399,351 @@ describe('API Worker AI Integration', () => {
     });
   });
 
+  describe('Tool Calling', () => {
+    it('should offer the tool schema to the model', async () => {
+      mockAI.run.mockResolvedValue({
+        response: 'Test response',
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+      });
+
+      const request = new Request('https://test.com/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
+        body: JSON.stringify({
+          message: 'Test message',
+          sessionId: 'test-session'
+        })
+      });
+
+      await worker.fetch(request, mockEnv, {} as any);
+
+      const tools = mockAI.run.mock.calls[0][1].tools;
+      expect(tools.map((tool: any) => tool.function.name)).toEqual(
+        expect.arrayContaining(['kb_search', 'ticketing'])
+      );
+    });
+
+    it('should execute requested tools and feed results back to the model', async () => {
+      const store = new Map<string, string>();
+      const kv = {
+        get: vi.fn(async (key: string) => store.get(key) ?? null),
+        put: vi.fn(async (key: string, value: string) => {
+          store.set(key, value);
+        }),
+        delete: vi.fn(),
+        list: vi.fn()
+      };
+      await new KnowledgeBase({ CHAT_KV: kv as any }).ingest({
+        id: 'kb_002',
+        title: 'Durable Objects Overview',
+        content: 'Durable Objects provide low-latency coordination and consistent storage for Workers.',
+        category: 'documentation'
+      });
+
+      mockAI.run
+        .mockResolvedValueOnce({
+          response: '',
+          tool_calls: [{ name: 'kb.search', arguments: { query: 'Durable Objects' } }],
+          usage: { prompt_tokens: 40, completion_tokens: 10, total_tokens: 50 }
+        })
+        .mockResolvedValueOnce({
+          response: 'Durable Objects provide consistent storage.',
+          usage: { prompt_tokens: 80, completion_tokens: 20, total_tokens: 100 }
+        });
+
+      const request = new Request('https://test.com/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
+        body: JSON.stringify({
+          message: 'What are Durable Objects?',
+          sessionId: 'test-session'
+        })
+      });
+
+      const response = await worker.fetch(request, { ...mockEnv, CHAT_KV: kv as any }, {} as any);
+      const result = await response.json() as any;
+
+      expect(response.status).toBe(200);
+      expect(result.message.content).toBe('Durable Objects provide consistent storage.');
+      expect(result.usage.total_tokens).toBe(150);
+      expect(mockAI.run).toHaveBeenCalledTimes(2);
+
+      const toolCalls = result.message.metadata.toolCalls;
+      expect(toolCalls).toHaveLength(1);
+      expect(toolCalls[0].name).toBe('kb.search');
+      expect(toolCalls[0].parameters).toEqual({ query: 'Durable Objects' });
+      expect(toolCalls[0].result.success).toBe(true);
+      expect(toolCalls[0].result.data.results[0].id).toBe('kb_002');
+
+      const followUpMessages = mockAI.run.mock.calls[1][1].messages;
+      const toolMessage = followUpMessages.find((msg: any) => msg.role === 'tool');
+      expect(toolMessage.tool_call_id).toBe(toolCalls[0].id);
+
+      // History names the tool exactly as Workers AI was offered it
+      const offeredNames = mockAI.run.mock.calls[0][1].tools.map((tool: any) => tool.function.name);
+      const assistantCall = followUpMessages.find((msg: any) => msg.tool_calls).tool_calls[0];
+      expect(offeredNames).toContain(assistantCall.function.name);
+      expect(toolMessage.name).toBe(assistantCall.function.name);
+      expect(JSON.parse(toolMessage.content).success).toBe(true);
+      expect(followUpMessages.find((msg: any) => msg.tool_calls)).toBeDefined();
+    });
+
+    it('should parse OpenAI tool calls and map sanitized names back to tools', async () => {
+      mockAI.run.mockRejectedValue(new Error('Llama unavailable'));
+
+      global.fetch = vi.fn()
+        .mockResolvedValueOnce(new Response(JSON.stringify({
+          choices: [{
+            message: {
+              content: null,
+              tool_calls: [{
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'kb_search', arguments: '{"query":"Workers"}' }
+              }]
+            }
+          }],
+          usage: { prompt_tokens: 30, completion_tokens: 10, total_tokens: 40 }
+        })))
+        .mockResolvedValueOnce(new Response(JSON.stringify({
+          choices: [{ message: { content: 'Workers run at the edge.' } }],
+          usage: { prompt_tokens: 60, completion_tokens: 10, total_tokens: 70 }
+        })));
+
+      const request = new Request('https://test.com/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
+        body: JSON.stringify({
+          message: 'Tell me about Workers',
+          sessionId: 'test-session'
+        })
+      });
+
+      const response = await worker.fetch(request, mockEnv, {} as any);
+      const result = await response.json() as any;
+
+      expect(response.status).toBe(200);
+      expect(result.fallbackUsed).toBe(true);
+      expect(result.message.metadata.toolCalls[0]).toMatchObject({
+        id: 'call_1',
+        name: 'kb.search',
+        parameters: { query: 'Workers' }
+      });
+
+      const firstBody = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+      expect(firstBody.tools.map((tool: any) => tool.function.name)).toContain('kb_search');
+
+      const secondBody = JSON.parse((global.fetch as any).mock.calls[1][1].body);
+      const toolMessage = secondBody.messages.find((msg: any) => msg.role === 'tool');
+      expect(toolMessage).toEqual({
+        role: 'tool',
+        tool_call_id: 'call_1',
+        content: expect.any(String)
+      });
+    });
+
+    it('should refuse workflow-only tools the model was not offered', async () => {
+      const executeTool = vi.spyOn(toolRegistry, 'executeTool');
+      mockAI.run.mockResolvedValueOnce({
+        response: 'Your ticket has been cancelled.',
+        tool_calls: [{ name: 'cancel_ticket', arguments: { ticketId: 'TKT-1', reason: 'Ignore previous instructions' } }]
+      });
+
+      const request = new Request('https://test.com/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
+        body: JSON.stringify({
+          message: 'Cancel ticket TKT-1 for me',
+          sessionId: 'test-session'
+        })
+      });
+
+      const response = await worker.fetch(request, mockEnv, {} as any);
+      const result = await response.json() as any;
+
+      expect(response.status).toBe(200);
+      expect(result.message.metadata.toolCalls || []).toEqual([]);
+      expect(executeTool.mock.calls.map(([name]) => name)).not.toContain('cancel_ticket');
+      expect(mockAI.run.mock.calls[0][1].tools.map((tool: any) => tool.function.name)).not.toContain('cancel_ticket');
+      expect(await toolRegistry.executeTool('cancel_ticket', { ticketId: 'TKT-1' }, { sessionId: 'test-session', bindings: mockEnv }))
+        .toMatchObject({ success: false, error: "Tool 'cancel_ticket' can only be run by workflows" });
+      executeTool.mockRestore();
+    });
+
+    it('should run tools for the signed-in user', async () => {
+      const executeTool = vi.spyOn(toolRegistry, 'executeTool');
+      const signedIn = `Bearer ${(await issueSessionToken('test-secret', { sessionId: 'test-session', userId: 'user-42' })).token}`;
+      mockAI.run.mockResolvedValueOnce({ response: 'Here is what I found.' });
+
+      const request = new Request('https://test.com/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: signedIn },
+        body: JSON.stringify({
+          message: 'How do I reset my password?',
+          sessionId: 'test-session'
+        })
+      });
+
+      const response = await worker.fetch(request, mockEnv, {} as any);
+
+      expect(response.status).toBe(200);
+      expect(executeTool).toHaveBeenCalled();
+      for (const [, , context] of executeTool.mock.calls) {
+        expect(context).toMatchObject({ sessionId: 'test-session', userId: 'user-42' });
+      }
+      executeTool.mockRestore();
+    });
+
+        it('should stop offering tools after the iteration limit', async () => {
+      mockAI.run.mockImplementation(async (_model: string, params: any) => params.tools
+        ? {
+            response: '',
+            tool_calls: [{ name: 'kb.search', arguments: { query: 'loop' } }]
+          }
+        : { response: 'Final answer without tools.' });
+
+      const request = new Request('https://test.com/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
+        body: JSON.stringify({
+          message: 'Keep searching',
+          sessionId: 'test-session'
+        })
+      });
+
+      const response = await worker.fetch(request, mockEnv, {} as any);
+      const result = await response.json() as any;
+
+      expect(response.status).toBe(200);
+      expect(result.message.content).toBe('Final answer without tools.');
+      expect(result.message.metadata.toolCalls).toHaveLength(3);
+      expect(mockAI.run).toHaveBeenCalledTimes(4);
+      expect(mockAI.run.mock.calls[3][1].tools).toBeUndefined();
+    });
+  });
+
+  describe('Streaming Responses', () => {
+    const streamingRequest = () => new Request('https://test.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream', Authorization: authorization },
+      body: JSON.stringify({
+        message: 'How do I reset my password?',
+        sessionId: 'test-session'
+      })
+    });
+
+    it('should stream Llama deltas as server-sent events and persist the final message', async () => {
+      mockAI.run.mockResolvedValue(sseStream([
+        { response: 'Open ' },
+        { response: 'Settings, then ' },
+        { response: 'Security.' },
+        { response: '', usage: { prompt_tokens: 30, completion_tokens: 6, total_tokens: 36 } }
+      ]));
+
+      const response = await worker.fetch(streamingRequest(), mockEnv, {} as any);
+
+      expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+      expect(response.headers.get('X-RateLimit-Remaining')).toBeDefined();
+
+      const events = parseEvents(await response.text());
+      expect(mockAI.run.mock.calls[0][1].stream).toBe(true);
+      expect(events.map(e => e.event)).toEqual(['start', 'delta', 'delta', 'delta', 'done']);
+      expect(events.filter(e => e.event === 'delta').map(e => e.data.content).join(''))
+        .toBe('Open Settings, then Security.');
+
+      const done = events[events.length - 1]!.data;
+      expect(done.message.content).toBe('Open Settings, then Security.');
+      expect(done.usage.total_tokens).toBe(36);
+
+      const persisted = mockDOStub.fetch.mock.calls
+        .filter(call => call[1]?.method === 'POST')
+        .map(call => JSON.parse(call[1].body).message);
+      expect(persisted.map((msg: any) => msg.role)).toEqual(['user', 'assistant']);
+      expect(persisted[1].id).toBe(done.message.id);
+    });
+
+    it('should assemble streamed OpenAI tool calls before answering', async () => {
+      mockAI.run.mockRejectedValue(new Error('Llama unavailable'));
+      global.fetch = vi.fn()
+        .mockResolvedValueOnce(new Response(sseStream([
+          { choices: [{ delta: { content: 'Let me look that up.' } }] },
+          { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'kb_search', arguments: '{"query":' } }] } }] },
+          { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '"password reset"}' } }] } }] }
+        ])))
+        .mockResolvedValueOnce(new Response(sseStream([
+          { choices: [{ delta: { content: 'Use the reset link.' } }] },
+          { choices: [], usage: { prompt_tokens: 50, completion_tokens: 5, total_tokens: 55 } }
+        ])));
+
+      const response = await worker.fetch(streamingRequest(), mockEnv, {} as any);
+      const events = parseEvents(await response.text());
+
+      // The preamble streams live and is taken back once the tool call shows up
+      expect(events.filter(e => e.event !== 'done').map(e => e.data.content ?? e.event))
+        .toEqual(['start', 'Let me look that up.', 'discard', 'Use the reset link.']);
+
+      const done = events.find(e => e.event === 'done')!.data;
+      expect(done.fallbackUsed).toBe(true);
+      expect(done.message.content).toBe('Use the reset link.');
+      expect(done.message.metadata.toolCalls[0]).toMatchObject({
+        name: 'kb.search',
+        parameters: { query: 'password reset' }
+      });
+
+      const secondBody = JSON.parse((global.fetch as any).mock.calls[1][1].body);
+      expect(secondBody.stream).toBe(true);
+      expect(secondBody.messages.some((msg: any) => msg.role === 'tool' && msg.tool_call_id === 'call_1')).toBe(true);
+    });
+
+    it('should send each delta before the completion finishes', async () => {
+      const encoder = new TextEncoder();
+      let provider!: ReadableStreamDefaultController<Uint8Array>;
+      const completion = new ReadableStream<Uint8Array>({
+        start(controller) {
+          provider = controller;
+        }
+      });
+      mockAI.run.mockImplementation(async (_model: string, input: any) => input.stream ? completion : {});
+      const send = (chunk: any) => provider.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+
+      const response = await worker.fetch(streamingRequest(), mockEnv, {} as any);
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      let received = '';
+
+      send({ response: 'Open ' });
+      while (!received.includes('event: delta')) {
+        const { value, done } = await reader.read();
+        if (done) {
+          break;
+        }
+        received += decoder.decode(value, { stream: true });
+      }
+      // The model is still generating
+      expect(received).toContain('"content":"Open "');
+      expect(received).not.toContain('event: done');
+
+      send({ response: 'Settings.' });
+      provider.close();
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        received += decoder.decode(chunk.value, { stream: true });
+      }
+      const done = parseEvents(received).find(e => e.event === 'done')!.data;
+      expect(done.message.content).toBe('Open Settings.');
+    });
+
+    it('should emit an error event when every model fails', async () => {
+      mockAI.run.mockRejectedValue(new Error('Llama unavailable'));
+      global.fetch = vi.fn().mockResolvedValue(new Response('unavailable', { status: 503 }));
+
+      const response = await worker.fetch(streamingRequest(), mockEnv, {} as any);
+      const events = parseEvents(await response.text());
+
+      expect(events.map(e => e.event)).toEqual(['start', 'error']);
+      expect(events[1]!.data.error).toMatchObject({ code: 'AI_PROCESSING_FAILED', retryable: true });
+    });
+  });
+
   describe('Session Management', () => {
     it('should handle session info requests', async () => {
       mockDOStub.fetch.mockResolvedValue(new Response(JSON.stringify({
@@ -376,7 +754,8 @@ describe('API Worker AI Integration', () => {
       })));
 
       const request = new Request('https://test.com/api/session/test-session', {
-        method: 'GET'
+        method: 'GET',
+        headers: { Authorization: authorization }
       });
 
       const response = await worker.fetch(request, mockEnv, {} as any);
@@ -391,7 +770,8 @@ describe('API Worker AI Integration', () => {
       mockDOStub.fetch.mockResolvedValue(new Response(JSON.stringify({ success: true })));
 
       const request = new Request('https://test.com/api/session/test-session', {
-        method: 'DELETE'
+        method: 'DELETE',
+        headers: { Authorization: authorization }
       });
 
       const response = await worker.fetch(request, mockEnv, {} as any);
@@ -444,10 +824,12 @@ describe('API Worker AI Integration', () => {
       });
 
       const request = new Request('https://test.com/api/health', {
-        method: 'GET'
+        method: 'GET',
+        headers: { 'X-API-Key': 'ops-key' }
       });
+      const monitoringEnv = { ...mockEnv, API_KEYS: JSON.stringify([{ name: 'ops', keyHash: await sha256Hex('ops-key') }]) };
 
-      const response = await worker.fetch(request, mockEnv, {} as any);
+      const response = await worker.fetch(request, monitoringEnv, {} as any);
       const result = await response.json() as any;
 
       expect(response.status).toBe(200);
@@ -467,7 +849,7 @@ describe('API Worker AI Integration', () => {
 
       const request = new Request('https://test.com/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
         body: JSON.stringify({
           message: 'Test message',
           sessionId: 'test-session'
@@ -491,7 +873,7 @@ describe('API Worker AI Integration', () => {
 
       const request = new Request('https://test.com/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
         body: JSON.stringify({
           message: 'User message',
           sessionId: 'test-session'
@@ -524,7 +906,7 @@ describe('API Worker AI Integration', () => {
 
       const request = new Request('https://test.com/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
         body: JSON.stringify({
           message: 'Follow-up question',
           sessionId: 'test-session'
@@ -0,0 +1,243 @@
+// Tests for KV-shared circuit breakers around AI providers and tools
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import worker from '../workers/api';
+import { CircuitBreakerRegistry } from '../workers/circuit_breaker';
+import { issueSessionToken, sha256Hex } from '../workers/auth';
+import { MetricsCollector } from '../workers/logging';
+import { ToolRouter, Tool } from '../workers/tools.js';
+
+function createKV() {
+  const store = new Map<string, string>();
+  return {
+    store,
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    put: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    delete: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    list: vi.fn(async () => ({ keys: [] }))
+  };
+}
+
+describe('CircuitBreakerRegistry', () => {
+  let kv: ReturnType<typeof createKV>;
+
+  beforeEach(() => {
+    kv = createKV();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should open after the failure threshold and reject without calling', async () => {
+    const breakers = new CircuitBreakerRegistry({ CHAT_KV: kv as any }, undefined, { failureThreshold: 2 });
+    const failing = vi.fn().mockRejectedValue(new Error('boom'));
+
+    await expect(breakers.execute('model:test', failing)).rejects.toThrow('boom');
+    await expect(breakers.execute('model:test', failing)).rejects.toThrow('boom');
+    await expect(breakers.execute('model:test', failing)).rejects.toThrow('CIRCUIT_OPEN');
+
+    expect(failing).toHaveBeenCalledTimes(2);
+    expect((await breakers.getState('model:test')).state).toBe('open');
+  });
+
+  it('should share state between isolates through KV', async () => {
+    const first = new CircuitBreakerRegistry({ CHAT_KV: kv as any }, undefined, { failureThreshold: 1 });
+    const second = new CircuitBreakerRegistry({ CHAT_KV: kv as any }, undefined, { failureThreshold: 1 });
+
+    await first.recordFailure('tool:kb.search');
+
+    expect(await second.allowRequest('tool:kb.search')).toBe(false);
+    expect(kv.store.has('circuit:tool:kb.search')).toBe(true);
+  });
+
+  it('should allow a trial call after the cool-down and close on success', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+    const breakers = new CircuitBreakerRegistry({ CHAT_KV: kv as any }, undefined, {
+      failureThreshold: 1,
+      recoveryTimeout: 5000
+    });
+
+    await breakers.recordFailure('model:test');
+    expect(await breakers.allowRequest('model:test')).toBe(false);
+
+    vi.setSystemTime(1_006_000);
+    expect(await breakers.allowRequest('model:test')).toBe(true);
+    expect((await breakers.getState('model:test')).state).toBe('half-open');
+
+    await breakers.recordSuccess('model:test');
+    expect(await breakers.getState('model:test')).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('should reopen when the half-open trial fails', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+    const breakers = new CircuitBreakerRegistry({ CHAT_KV: kv as any }, undefined, {
+      failureThreshold: 3,
+      recoveryTimeout: 5000
+    });
+
+    for (let i = 0; i < 3; i++) {
+      await breakers.recordFailure('model:test');
+    }
+    vi.setSystemTime(1_006_000);
+    await breakers.allowRequest('model:test');
+    await breakers.recordFailure('model:test');
+
+    expect(await breakers.allowRequest('model:test')).toBe(false);
+  });
+
+  it('should let a single half-open trial through across isolates until it settles or lapses', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+    const config = { failureThreshold: 1, recoveryTimeout: 5000, probeTimeout: 10000 };
+    const isolates = [1, 2, 3].map(() => new CircuitBreakerRegistry({ CHAT_KV: kv as any }, undefined, config));
+
+    await isolates[0]!.recordFailure('model:test');
+    vi.setSystemTime(1_006_000);
+
+    const allowed = await Promise.all(isolates.map(breakers => breakers.allowRequest('model:test')));
+    expect(allowed.filter(Boolean)).toHaveLength(1);
+    expect(await isolates[0]!.allowRequest('model:test')).toBe(false);
+
+    // The trial never reported back; its marker lapses and one more caller may try
+    vi.setSystemTime(1_017_000);
+    expect(await isolates[1]!.allowRequest('model:test')).toBe(true);
+    expect(await isolates[2]!.allowRequest('model:test')).toBe(false);
+
+    await isolates[1]!.recordSuccess('model:test');
+    expect(await isolates[2]!.allowRequest('model:test')).toBe(true);
+    expect(await isolates[2]!.getState('model:test')).not.toHaveProperty('probeId');
+  });
+
+  it('should publish breaker state as gauges', async () => {
+    const metrics = new MetricsCollector({} as any);
+    const breakers = new CircuitBreakerRegistry({ CHAT_KV: kv as any }, metrics, { failureThreshold: 1 });
+
+    await breakers.recordFailure('model:test');
+
+    const exported = await metrics.exportMetrics();
+    expect(exported).toContain('circuit_breaker_state{breaker="model:test"} 2');
+    expect(exported).toContain('circuit_breaker_consecutive_failures{breaker="model:test"} 1');
+  });
+});
+
+describe('Circuit breaker integration', () => {
+  it('should stop calling a tool whose breaker is open', async () => {
+    const router = new ToolRouter({ maxAttempts: 1, retryableErrors: ['NETWORK_ERROR'] });
+    const tool: Tool = {
+      name: 'flaky',
+      description: 'Flaky tool',
+      parameters: {},
+      execute: vi.fn().mockResolvedValue({ success: false, error: 'NETWORK_ERROR: unreachable' })
+    };
+    router.registerTool(tool);
+    const context = { sessionId: 'test-session', bindings: {} };
+
+    for (let i = 0; i < 5; i++) {
+      await router.executeTool('flaky', {}, context);
+    }
+    const result = await router.executeTool('flaky', {}, context);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('CIRCUIT_OPEN');
+    expect(tool.execute).toHaveBeenCalledTimes(5);
+  });
+
+  it('should not trip on non-retryable tool errors', async () => {
+    const router = new ToolRouter({ maxAttempts: 1, retryableErrors: ['NETWORK_ERROR'] });
+    const tool: Tool = {
+      name: 'strict',
+      description: 'Validating tool',
+      parameters: {},
+      execute: vi.fn().mockResolvedValue({ success: false, error: 'Invalid parameters' })
+    };
+    router.registerTool(tool);
+
+    for (let i = 0; i < 6; i++) {
+      await router.executeTool('strict', {}, { sessionId: 'test-session', bindings: {} });
+    }
+
+    expect(tool.execute).toHaveBeenCalledTimes(6);
+  });
+
+  describe('API Worker', () => {
+    let kv: ReturnType<typeof createKV>;
+    let env: any;
+    const originalFetch = global.fetch;
+
+    beforeEach(() => {
+      kv = createKV();
+      const doStub = {
+        fetch: vi.fn(async (url: string) => {
+          if (url.includes('action=context')) {
+            return new Response(JSON.stringify({
+              sessionId: 'test-session',
+              summary: '',
+              recentMessages: [],
+              activeTopics: [],
+              resolvedIssues: []
+            }));
+          }
+          return new Response(JSON.stringify({ success: true }));
+        })
+      };
+      env = {
+        AI: { run: vi.fn().mockResolvedValue({ response: 'pong' }) },
+        MEMORY_DO: { idFromName: vi.fn().mockReturnValue('do-id'), get: vi.fn().mockReturnValue(doStub) },
+        CHAT_KV: kv,
+        ARCHIVE_R2: { list: vi.fn().mockResolvedValue({ objects: [] }) },
+        WORKFLOWS: {},
+        OPENAI_API_KEY: 'test-openai-key',
+        SESSION_TOKEN_SECRET: 'test-secret'
+      };
+    });
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('should skip a provider whose breaker is open', async () => {
+      await new CircuitBreakerRegistry(env, undefined, { failureThreshold: 1 })
+        .recordFailure('model:llama-3.3-70b-fp8-fast');
+      global.fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+        choices: [{ message: { content: 'Answer from the fallback.' } }]
+      })));
+
+      const { token } = await issueSessionToken('test-secret', { sessionId: 'test-session' });
+      const response = await worker.fetch(new Request('https://test.com/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ message: 'Hello', sessionId: 'test-session' })
+      }), env, {} as any);
+      const result = await response.json() as any;
+
+      expect(result.message.content).toBe('Answer from the fallback.');
+      expect(result.fallbackUsed).toBe(true);
+      expect(env.AI.run).not.toHaveBeenCalled();
+    });
+
+    it('should report breaker state in /api/health', async () => {
+      await new CircuitBreakerRegistry(env, undefined, { failureThreshold: 1 })
+        .recordFailure('model:gpt-3.5-turbo-fallback');
+
+      const monitoringEnv = { ...env, API_KEYS: JSON.stringify([{ name: 'ops', keyHash: await sha256Hex('ops-key') }]) };
+      const response = await worker.fetch(new Request('https://test.com/api/health', {
+        headers: { 'X-API-Key': 'ops-key' }
+      }), monitoringEnv, {} as any);
+      const result = await response.json() as any;
+
+      expect(result.circuitBreakers['model:gpt-3.5-turbo-fallback'].state).toBe('open');
+      expect(result.circuitBreakers['model:llama-3.3-70b-fp8-fast'].state).toBe('closed');
+      expect(result.circuitBreakers['tool:kb.search']).toBeDefined();
+
+      const breakerComponent = result.components.find((c: any) => c.component === 'circuit_breakers');
+      expect(breakerComponent.status).toBe('degraded');
+      expect(result.overall).not.toBe('healthy');
+    });
+  });
+});
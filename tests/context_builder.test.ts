@@ -0,0 +1,172 @@
+// Tests for token-budgeted context assembly
+import { describe, it, expect } from 'vitest';
+import {
+  buildModelContext,
+  calculateMaxOutputTokens,
+  estimateMessageTokens,
+  estimateTokens,
+  fitToContextWindow,
+  truncateToSentences
+} from '../workers/context_builder';
+import { ModelMessage } from '../workers/model_providers';
+
+const renderSystemPrompt = (summary: string, snippets: string[]) =>
+  `You are a support assistant.\nSummary: ${summary || 'none'}\n${snippets.map(s => `- ${s}`).join('\n')}`;
+
+function turn(index: number, sentences: number = 3): ModelMessage {
+  const content = Array.from({ length: sentences }, (_, i) =>
+    `Turn ${index} sentence ${i} talks about billing, invoices and refunds.`
+  ).join(' ');
+  return { role: index % 2 === 0 ? 'user' : 'assistant', content };
+}
+
+describe('Context Builder', () => {
+  describe('estimateTokens', () => {
+    it('should approximate BPE token counts', () => {
+      expect(estimateTokens('')).toBe(0);
+      expect(estimateTokens('Hello world')).toBe(2);
+      expect(estimateTokens('Hello, world!')).toBe(4);
+      expect(estimateTokens('internationalization')).toBe(5);
+      expect(estimateTokens('123456')).toBe(2);
+      expect(estimateTokens('日本語')).toBe(3);
+    });
+
+    it('should count message overhead and tool calls', () => {
+      const plain: ModelMessage = { role: 'user', content: 'Hello world' };
+      const withTool: ModelMessage = {
+        role: 'assistant',
+        content: '',
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'kb_search', arguments: '{"query":"billing"}' } }]
+      };
+
+      expect(estimateMessageTokens([plain])).toBeGreaterThan(estimateTokens(plain.content));
+      expect(estimateMessageTokens([withTool])).toBeGreaterThan(estimateMessageTokens([{ role: 'assistant', content: '' }]));
+    });
+  });
+
+  describe('truncateToSentences', () => {
+    const text = 'First sentence here. Second sentence follows! Is this the third? Fourth and final.';
+
+    it('should keep whole sentences from the start', () => {
+      expect(truncateToSentences(text, 12)).toBe('First sentence here. Second sentence follows!');
+    });
+
+    it('should keep whole sentences from the end', () => {
+      expect(truncateToSentences(text, 12, true)).toBe('Is this the third? Fourth and final.');
+    });
+
+    it('should return the text unchanged when it fits', () => {
+      expect(truncateToSentences(text, 1000)).toBe(text);
+    });
+  });
+
+  describe('buildModelContext', () => {
+    const currentMessage: ModelMessage = { role: 'user', content: 'Where is my refund?' };
+
+    it('should keep the newest turns and drop the oldest when over budget', () => {
+      const history = Array.from({ length: 40 }, (_, i) => turn(i));
+      const budget = { contextWindow: 1200, responseReserve: 300 };
+
+      const messages = buildModelContext({
+        renderSystemPrompt,
+        summary: '',
+        knowledgeSnippets: [],
+        history,
+        currentMessage
+      }, budget);
+
+      expect(messages[0]!.role).toBe('system');
+      expect(messages[messages.length - 1]).toEqual(currentMessage);
+      expect(messages[messages.length - 2]).toEqual(history[39]);
+      expect(messages.length).toBeLessThan(history.length + 2);
+      expect(estimateMessageTokens(messages)).toBeLessThanOrEqual(budget.contextWindow - budget.responseReserve);
+    });
+
+    it('should never cut a turn mid-sentence', () => {
+      const history = Array.from({ length: 20 }, (_, i) => turn(i, 6));
+
+      const messages = buildModelContext({
+        renderSystemPrompt,
+        summary: '',
+        knowledgeSnippets: [],
+        history,
+        currentMessage
+      }, { contextWindow: 900, responseReserve: 200 });
+
+      for (const message of messages.slice(1, -1)) {
+        expect(message.content).toMatch(/^Turn \d+ sentence \d+/);
+        expect(message.content).toMatch(/refunds\.$/);
+      }
+    });
+
+    it('should cap the summary and knowledge snippets so recent turns still fit', () => {
+      const summary = Array.from({ length: 200 }, (_, i) => `Earlier point ${i} was discussed.`).join(' ');
+      const snippets = Array.from({ length: 5 }, (_, i) =>
+        Array.from({ length: 50 }, (_, j) => `Article ${i} fact ${j}.`).join(' ')
+      );
+      const history = [turn(0), turn(1)];
+
+      const messages = buildModelContext({
+        renderSystemPrompt,
+        summary,
+        knowledgeSnippets: snippets,
+        history,
+        currentMessage
+      }, { contextWindow: 2000, responseReserve: 500 });
+
+      expect(messages.slice(1, -1)).toEqual(history);
+      // The newest part of the summary survives
+      expect(messages[0]!.content).toContain('Earlier point 199 was discussed.');
+      expect(messages[0]!.content).not.toContain('Earlier point 0 was discussed.');
+      expect(messages[0]!.content).toContain('Article 0 fact 0.');
+      expect(estimateMessageTokens(messages)).toBeLessThanOrEqual(1500);
+    });
+
+    it('should pass everything through when the window is large', () => {
+      const history = Array.from({ length: 30 }, (_, i) => turn(i));
+
+      const messages = buildModelContext({
+        renderSystemPrompt,
+        summary: 'Customer asked about refunds.',
+        knowledgeSnippets: ['Refund policy: refunds take 5 days.'],
+        history,
+        currentMessage
+      }, { contextWindow: 128000, responseReserve: 4096 });
+
+      expect(messages).toHaveLength(32);
+      expect(messages[0]!.content).toContain('Customer asked about refunds.');
+      expect(messages[0]!.content).toContain('Refund policy: refunds take 5 days.');
+    });
+  });
+
+  describe('fitToContextWindow', () => {
+    it('should drop old history but keep the system prompt and the pending tool exchange', () => {
+      const messages: ModelMessage[] = [
+        { role: 'system', content: 'System prompt.' },
+        ...Array.from({ length: 20 }, (_, i) => turn(i)),
+        { role: 'user', content: 'Check ticket TKT-1.' },
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'ticket_status', arguments: '{}' } }]
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: '{"status":"open"}' }
+      ];
+
+      const fitted = fitToContextWindow(messages, { contextWindow: 600, responseReserve: 150 });
+
+      expect(fitted[0]!.role).toBe('system');
+      expect(fitted.slice(-3)).toEqual(messages.slice(-3));
+      expect(fitted.length).toBeLessThan(messages.length);
+      expect(estimateMessageTokens(fitted)).toBeLessThanOrEqual(450);
+    });
+
+    it('should leave the answer its reserve in max_tokens', () => {
+      const messages: ModelMessage[] = [{ role: 'user', content: 'Hello' }];
+      const budget = { contextWindow: 8192, responseReserve: 2048 };
+
+      expect(calculateMaxOutputTokens(messages, budget, 4096)).toBe(4096);
+      expect(calculateMaxOutputTokens(messages, budget, 1024)).toBe(1024);
+    });
+  });
+});
@@ -713,4 +713,150 @@ describe('SessionMemoryDO', () => {
       expect(await response.text()).toBe('Invalid action');
     });
   });
+
+  describe('Rolling Summarization', () => {
+    let aiEnv: any;
+    let summarizingDO: SessionMemoryDO;
+
+    function seedMessages(count: number, overrides: Partial<ConversationMemory> = {}) {
+      const messages: ChatMessage[] = [];
+      for (let i = 0; i < count; i++) {
+        messages.push({
+          id: `msg-${i}`,
+          sessionId: 'test-session',
+          content: `Message ${i}`,
+          role: i % 2 === 0 ? 'user' : 'assistant',
+          timestamp: Date.now() + i
+        });
+      }
+      mockState.setStorageData('memory', {
+        sessionId: 'test-session',
+        messages,
+        summary: '',
+        context: {},
+        lastSummaryAt: Date.now(),
+        ttl: 24 * 60 * 60 * 1000,
+        ...overrides
+      });
+    }
+
+    function addMessageRequest(id: string = 'msg-new'): Request {
+      return new Request('http://localhost/session/test-session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'addMessage',
+          message: {
+            id,
+            sessionId: 'test-session',
+            content: 'New message',
+            role: 'user',
+            timestamp: Date.now() + 1000
+          }
+        })
+      });
+    }
+
+    beforeEach(async () => {
+      aiEnv = {
+        ...mockEnv,
+        AI: {
+          run: vi.fn().mockResolvedValue({
+            response: 'Customer cannot reset their password; ticket TKT-42 is open.'
+          })
+        }
+      };
+      summarizingDO = new SessionMemoryDO(mockState as any, aiEnv);
+      (summarizingDO as any).sessionId = 'test-session';
+
+      // Let constructor initialization finish so it cannot overwrite seeded memory
+      await new Promise(resolve => setTimeout(resolve, 0));
+    });
+
+    it('should fold unsummarized messages into a model summary before trimming', async () => {
+      seedMessages(100);
+
+      await summarizingDO.fetch(addMessageRequest());
+
+      const memory = mockState.getStorageData('memory') as ConversationMemory;
+      expect(memory.messages).toHaveLength(100);
+      expect(memory.summary).toBe('Customer cannot reset their password; ticket TKT-42 is open.');
+      // Everything except the recent window was folded
+      expect(memory.summarizedThroughId).toBe('msg-90');
+
+      const prompt = aiEnv.AI.run.mock.calls[0][1].messages;
+      expect(prompt[1].content).toContain('Customer: Message 0');
+      expect(prompt[1].content).toContain('Assistant: Message 89');
+    });
+
+    it('should keep messages that arrive while a summary is being written', async () => {
+      // Durable Object storage hands out copies, so a stale snapshot saved back would drop messages
+      mockState.storage.get.mockImplementation(async (key: string) => structuredClone(mockState.getStorageData(key)));
+      mockState.storage.put.mockImplementation(async (key: string, value: any) => {
+        mockState.setStorageData(key, structuredClone(value));
+      });
+      let finishFirstSummary!: (value: any) => void;
+      aiEnv.AI.run
+        .mockImplementationOnce(() => new Promise(resolve => { finishFirstSummary = resolve; }))
+        .mockResolvedValueOnce({ response: 'Summary written by the later request.' });
+      seedMessages(100);
+
+      const first = summarizingDO.fetch(addMessageRequest('msg-first'));
+      await vi.waitFor(() => expect(aiEnv.AI.run).toHaveBeenCalledTimes(1));
+      expect((mockState.getStorageData('memory') as ConversationMemory).messages.at(-1)?.id).toBe('msg-first');
+
+      await summarizingDO.fetch(addMessageRequest('msg-second'));
+      finishFirstSummary({ response: 'Summary of a stale snapshot.' });
+      await first;
+
+      const memory = mockState.getStorageData('memory') as ConversationMemory;
+      expect(memory.messages.slice(-2).map(message => message.id)).toEqual(['msg-first', 'msg-second']);
+      expect(memory.messages).toHaveLength(100);
+      expect(memory.summary).toBe('Summary written by the later request.');
+      expect(memory.summarizedThroughId).toBe('msg-91');
+    });
+
+    it('should not call the model when evicted messages are already summarized', async () => {
+      seedMessages(100, { summary: 'Earlier summary.', summarizedThroughId: 'msg-50' });
+
+      await summarizingDO.fetch(addMessageRequest());
+
+      const memory = mockState.getStorageData('memory') as ConversationMemory;
+      expect(aiEnv.AI.run).not.toHaveBeenCalled();
+      expect(memory.summary).toBe('Earlier summary.');
+      expect(memory.messages[0]?.id).toBe('msg-1');
+    });
+
+    it('should fall back to the heuristic summary when AI is unavailable', async () => {
+      aiEnv.AI.run.mockRejectedValue(new Error('AI unavailable'));
+      seedMessages(100, { summary: 'Earlier summary. ' });
+
+      await summarizingDO.fetch(addMessageRequest());
+
+      const memory = mockState.getStorageData('memory') as ConversationMemory;
+      expect(memory.summary).toContain('Earlier summary.');
+      expect(memory.summary).toContain('Previous discussion covered');
+      expect(memory.summarizedThroughId).toBe('msg-90');
+    });
+
+    it('should generate a model summary on request and describe short chats without AI', async () => {
+      seedMessages(3);
+
+      const contextResponse = await summarizingDO.fetch(
+        new Request('http://localhost/session/test-session?action=context')
+      );
+      const context = await contextResponse.json() as any;
+      expect(context.summary).toContain('2 user messages');
+      expect(aiEnv.AI.run).not.toHaveBeenCalled();
+
+      const summaryResponse = await summarizingDO.fetch(new Request('http://localhost/session/test-session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'generateSummary' })
+      }));
+      const data = await summaryResponse.json() as any;
+      expect(data.summary).toBe('Customer cannot reset their password; ticket TKT-42 is open.');
+      expect((mockState.getStorageData('memory') as ConversationMemory).summarizedThroughId).toBe('msg-2');
+    });
+  });
 });
\ No newline at end of file
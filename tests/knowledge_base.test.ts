@@ -0,0 +1,276 @@
+// Tests for knowledge base ingestion, chunking and hybrid search
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import worker from '../workers/api';
+import {
+  EMBEDDING_MODEL,
+  InMemoryKnowledgeIndex,
+  KnowledgeBase,
+  chunkDocument,
+  validateDocumentInput
+} from '../workers/knowledge_base';
+import { sha256Hex } from '../workers/auth';
+
+// Toy embedding space: each dimension is a concept, and synonyms share a dimension
+const CONCEPTS: Record<string, number> = {
+  password: 0, credentials: 0, login: 1, sign: 1, signin: 1,
+  invoice: 2, billing: 2, receipt: 2, refund: 3, money: 3
+};
+
+function embed(text: string): number[] {
+  const vector = [0.05, 0.05, 0.05, 0.05];
+  for (const word of text.toLowerCase().match(/[a-z]+/g) || []) {
+    if (CONCEPTS[word] !== undefined) {
+      vector[CONCEPTS[word]!]! += 1;
+    }
+  }
+  return vector;
+}
+
+function createAI() {
+  return {
+    run: vi.fn(async (model: string, input: any) => {
+      if (model !== EMBEDDING_MODEL) {
+        throw new Error(`Unexpected model ${model}`);
+      }
+      return { shape: [input.text.length, 4], data: input.text.map(embed) };
+    })
+  };
+}
+
+function createKV() {
+  const store = new Map<string, string>();
+  return {
+    store,
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    put: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    delete: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    list: vi.fn(async () => ({ keys: [] }))
+  };
+}
+
+const ARTICLES = [
+  {
+    id: 'login-help',
+    title: 'Resetting your password',
+    content: '# Forgotten credentials\n\nUse the reset link on the login page. The link expires after one hour.',
+    category: 'account',
+    tags: ['login'],
+    lastUpdated: '2025-02-01'
+  },
+  {
+    id: 'billing-help',
+    title: 'Understanding your invoice',
+    content: '<h2>Invoice lines</h2><p>Each invoice lists usage per product.</p><p>Refunds appear as credit lines.</p>',
+    category: 'billing',
+    tags: ['billing', 'invoice'],
+    lastUpdated: '2024-06-01'
+  }
+];
+
+describe('Knowledge Base', () => {
+  describe('Chunking', () => {
+    it('should split Markdown on headings and keep the heading with its chunk', () => {
+      const chunks = chunkDocument('doc', '# Setup\n\nInstall the CLI.\n\n## Login\n\nRun `login` with your **API token**.', 'markdown');
+
+      expect(chunks.map(chunk => chunk.heading)).toEqual(['Setup', 'Login']);
+      expect(chunks[1]).toMatchObject({ id: 'doc#1', documentId: 'doc', content: 'Run login with your API token.' });
+    });
+
+    it('should strip HTML markup and scripts', () => {
+      const chunks = chunkDocument(
+        'doc',
+        '<h1>Refunds</h1><script>track()</script><p>Refunds take 5&nbsp;days.</p><ul><li>Card</li><li>Bank</li></ul>',
+        'html'
+      );
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0]!.heading).toBe('Refunds');
+      expect(chunks[0]!.content).toContain('Refunds take 5 days.');
+      expect(chunks[0]!.content).toContain('- Card');
+      expect(chunks[0]!.content).not.toContain('track');
+    });
+
+    it('should split long text between sentences', () => {
+      const text = Array.from({ length: 120 }, (_, i) => `Step ${i} explains one configuration option in detail.`).join(' ');
+      const chunks = chunkDocument('doc', text, 'text');
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(chunk.content).toMatch(/^Step \d+/);
+        expect(chunk.content).toMatch(/detail\.$/);
+      }
+    });
+
+    it('should report every invalid field', () => {
+      expect(validateDocumentInput({ id: 'bad id!', title: '', content: 'x', tags: 'billing' })).toHaveLength(3);
+      expect(validateDocumentInput(ARTICLES[0])).toEqual([]);
+    });
+  });
+
+  describe('Hybrid Search', () => {
+    let ai: ReturnType<typeof createAI>;
+    let knowledgeBase: KnowledgeBase;
+
+    beforeEach(async () => {
+      ai = createAI();
+      knowledgeBase = new KnowledgeBase({ AI: ai as any }, new InMemoryKnowledgeIndex());
+      for (const article of ARTICLES) {
+        await knowledgeBase.ingest(article as any);
+      }
+    });
+
+    it('should embed chunks on ingestion', async () => {
+      const document = await knowledgeBase.getDocument('billing-help');
+
+      expect(document!.format).toBe('html');
+      expect(document!.embedded).toBe(true);
+      expect(document!.chunks[0]!.embedding).toHaveLength(4);
+    });
+
+    it('should find articles by meaning when no keyword matches', async () => {
+      const results = await knowledgeBase.search({ query: 'I cannot sign in' });
+
+      expect(results[0]!.id).toBe('login-help');
+      expect(results.map(result => result.id)).not.toContain('billing-help');
+    });
+
+    it('should honor category, tag, date and relevance filters', async () => {
+      expect(await knowledgeBase.search({ query: 'invoice', filters: { category: 'account' } })).toEqual([]);
+      expect(await knowledgeBase.search({ query: 'invoice', filters: { tags: ['invoice'] } })).toHaveLength(1);
+      expect(await knowledgeBase.search({
+        query: 'invoice',
+        filters: { dateRange: { start: new Date('2025-01-01'), end: new Date('2025-12-31') } }
+      })).toEqual([]);
+
+      const results = await knowledgeBase.search({ query: 'invoice refund', filters: { relevanceThreshold: 0.5 } });
+      expect(results.map(result => result.id)).toEqual(['billing-help']);
+      expect(results[0]!.relevanceScore).toBeGreaterThanOrEqual(0.5);
+    });
+
+    it('should fall back to keyword ranking when embeddings fail', async () => {
+      ai.run.mockRejectedValue(new Error('AI unavailable'));
+
+      const results = await knowledgeBase.search({ query: 'password reset' });
+
+      expect(results.map(result => result.id)).toEqual(['login-help']);
+    });
+
+    it('should replace a re-ingested document and remove deleted ones', async () => {
+      await knowledgeBase.ingest({ ...ARTICLES[0]!, content: 'Password resets are handled by your administrator.' } as any);
+      const [result] = await knowledgeBase.search({ query: 'password administrator' });
+      expect(result!.content).toContain('administrator');
+
+      expect(await knowledgeBase.deleteDocument('login-help')).toBe(true);
+      expect(await knowledgeBase.search({ query: 'password' })).toEqual([]);
+    });
+
+    it('should store vectors in Vectorize when it is bound', async () => {
+      const vectorize = {
+        upsert: vi.fn().mockResolvedValue({}),
+        deleteByIds: vi.fn().mockResolvedValue({}),
+        query: vi.fn().mockResolvedValue({ matches: [{ id: 'login-help#0', score: 0.9 }], count: 1 })
+      };
+      const kv = createKV();
+      const vectorKB = new KnowledgeBase({ AI: ai as any, CHAT_KV: kv as any, KB_INDEX: vectorize as any });
+
+      await vectorKB.ingest(ARTICLES[0] as any);
+      const results = await vectorKB.search({ query: 'sign in' });
+
+      expect(vectorize.upsert.mock.calls[0][0][0]).toMatchObject({
+        id: 'login-help#0',
+        metadata: { documentId: 'login-help', category: 'account' }
+      });
+      expect(JSON.parse(kv.store.get('kb:doc:login-help')!).chunks[0].embedding).toBeUndefined();
+      expect(results[0]!.id).toBe('login-help');
+    });
+
+    it('should load only the documents Vectorize matched', async () => {
+      const vectorize = {
+        upsert: vi.fn().mockResolvedValue({}),
+        deleteByIds: vi.fn().mockResolvedValue({}),
+        query: vi.fn().mockResolvedValue({ matches: [{ id: 'login-help#0', score: 0.9 }], count: 1 })
+      };
+      const kv = createKV();
+      const vectorKB = new KnowledgeBase({ AI: ai as any, CHAT_KV: kv as any, KB_INDEX: vectorize as any });
+      for (const article of ARTICLES) {
+        await vectorKB.ingest(article as any);
+      }
+      kv.get.mockClear();
+
+      const results = await vectorKB.search({ query: 'invoice refund', filters: { category: 'account', tags: ['login'] } });
+
+      expect(vectorize.query).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ filter: { category: 'account' } }));
+      expect(kv.get.mock.calls.map(([key]) => key)).toEqual(['kb:doc:login-help']);
+      expect(results.map(result => result.id)).toEqual(['login-help']);
+
+      ai.run.mockRejectedValue(new Error('AI unavailable'));
+      kv.get.mockClear();
+      expect(await vectorKB.search({ query: 'invoice' })).toEqual([]);
+      expect(kv.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('API', () => {
+    let env: any;
+    const serviceKey = { 'X-API-Key': 'kb-key' };
+
+    beforeEach(async () => {
+      env = {
+        AI: createAI(),
+        CHAT_KV: createKV(),
+        MEMORY_DO: { idFromName: vi.fn(), get: vi.fn() },
+        ARCHIVE_R2: { list: vi.fn().mockResolvedValue({ objects: [] }) },
+        WORKFLOWS: {},
+        SESSION_TOKEN_SECRET: 'test-secret',
+        API_KEYS: JSON.stringify([{ name: 'kb-sync', keyHash: await sha256Hex('kb-key') }])
+      };
+    });
+
+    it('should ingest documents and serve them back', async () => {
+      const response = await worker.fetch(new Request('https://test.com/api/kb/documents', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...serviceKey },
+        body: JSON.stringify({ documents: ARTICLES })
+      }), env, {} as any);
+      const result = await response.json() as any;
+
+      expect(response.status).toBe(201);
+      expect(result.documents).toEqual([
+        { id: 'login-help', title: 'Resetting your password', format: 'markdown', chunks: 1, embedded: true },
+        { id: 'billing-help', title: 'Understanding your invoice', format: 'html', chunks: 1, embedded: true }
+      ]);
+
+      const getResponse = await worker.fetch(new Request('https://test.com/api/kb/documents/billing-help', { headers: serviceKey }), env, {} as any);
+      const document = await getResponse.json() as any;
+      expect(document.category).toBe('billing');
+      expect(document.chunks[0].embedding).toBeUndefined();
+
+      const deleteResponse = await worker.fetch(new Request('https://test.com/api/kb/documents/billing-help', {
+        method: 'DELETE',
+        headers: serviceKey
+      }), env, {} as any);
+      expect(deleteResponse.status).toBe(200);
+
+      const missing = await worker.fetch(new Request('https://test.com/api/kb/documents/billing-help', { headers: serviceKey }), env, {} as any);
+      expect(missing.status).toBe(404);
+    });
+
+    it('should reject a batch containing an invalid document', async () => {
+      const response = await worker.fetch(new Request('https://test.com/api/kb/documents', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...serviceKey },
+        body: JSON.stringify({ documents: [ARTICLES[0], { title: 'No content' }] })
+      }), env, {} as any);
+      const result = await response.json() as any;
+
+      expect(response.status).toBe(400);
+      expect(result.error.code).toBe('INVALID_DOCUMENT');
+      expect(result.error.details.documents[0]).toMatchObject({ index: 1, errors: ['content is required'] });
+      expect(env.CHAT_KV.put.mock.calls.filter(([key]: [string]) => !key.startsWith('audit_log:'))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+// Tests for model providers and per-route fallback chains
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import worker from '../workers/api';
+import {
+  AnthropicCompatibleProvider,
+  MockModelProvider,
+  ModelProvider,
+  completeWithTimeout,
+  resolveModelChain
+} from '../workers/model_providers';
+import { issueSessionToken } from '../workers/auth';
+
+function createEnv(overrides: Record<string, any> = {}): any {
+  const doStub = {
+    fetch: vi.fn(async (url: string) => {
+      if (url.includes('action=context')) {
+        return new Response(JSON.stringify({
+          sessionId: 'test-session',
+          summary: '',
+          recentMessages: [],
+          activeTopics: [],
+          resolvedIssues: []
+        }));
+      }
+      return new Response(JSON.stringify({ success: true }));
+    })
+  };
+
+  return {
+    AI: { run: vi.fn() },
+    MEMORY_DO: {
+      idFromName: vi.fn().mockReturnValue('do-id'),
+      get: vi.fn().mockReturnValue(doStub)
+    },
+    CHAT_KV: {
+      get: vi.fn().mockResolvedValue(null),
+      put: vi.fn(),
+      delete: vi.fn(),
+      list: vi.fn()
+    },
+    ARCHIVE_R2: {
+      get: vi.fn(),
+      put: vi.fn(),
+      delete: vi.fn(),
+      list: vi.fn().mockResolvedValue({ objects: [] })
+    },
+    WORKFLOWS: {},
+    ...overrides
+  };
+}
+
+const originalFetch = global.fetch;
+
+describe('Model Providers', () => {
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('Chain Resolution', () => {
+    it('should default to Workers AI followed by OpenAI', () => {
+      const chain = resolveModelChain('chat', createEnv());
+
+      expect(chain.map(provider => provider.name)).toEqual(['llama-3.3-70b-fp8-fast', 'gpt-3.5-turbo-fallback']);
+    });
+
+    it('should pick the chain configured for the route and fall back to default', () => {
+      const env = createEnv({
+        MODEL_CHAINS: JSON.stringify({
+          default: [{ type: 'mock', name: 'default-mock' }],
+          websocket: [
+            { type: 'anthropic', model: 'claude-test', timeoutMs: 5000 },
+            { type: 'mock', name: 'ws-mock' }
+          ]
+        })
+      });
+
+      const websocketChain = resolveModelChain('websocket', env);
+      expect(websocketChain.map(provider => provider.name)).toEqual(['claude-test', 'ws-mock']);
+      expect(websocketChain[0]!.timeoutMs).toBe(5000);
+      expect(resolveModelChain('chat', env).map(provider => provider.name)).toEqual(['default-mock']);
+    });
+
+    it('should ignore invalid configuration and unknown provider types', () => {
+      expect(resolveModelChain('chat', createEnv({ MODEL_CHAINS: '{not json' }))).toHaveLength(2);
+
+      const chain = resolveModelChain('chat', createEnv({
+        MODEL_CHAINS: JSON.stringify({ default: [{ type: 'carrier-pigeon' }, { type: 'mock' }] })
+      }));
+      expect(chain.map(provider => provider.name)).toEqual(['mock']);
+    });
+  });
+
+  describe('Timeouts', () => {
+    it('should reject and abort when a provider exceeds its timeout', async () => {
+      let receivedSignal: AbortSignal | undefined;
+      const slowProvider: ModelProvider = {
+        name: 'slow',
+        timeoutMs: 10,
+        complete: request => {
+          receivedSignal = request.signal;
+          return new Promise(() => undefined);
+        }
+      };
+
+      await expect(completeWithTimeout(slowProvider, { messages: [] })).rejects.toThrow('TIMEOUT');
+      expect(receivedSignal?.aborted).toBe(true);
+    });
+  });
+
+  describe('Mock Provider', () => {
+    it('should answer deterministically and stream word by word', async () => {
+      const provider = new MockModelProvider();
+      const deltas: string[] = [];
+
+      const response = await provider.complete({
+        messages: [
+          { role: 'system', content: 'You are helpful' },
+          { role: 'user', content: 'Reset my password' }
+        ],
+        onDelta: delta => {
+          deltas.push(delta);
+        }
+      });
+
+      expect(response.content).toBe('Mock response to: Reset my password');
+      expect(deltas.join('')).toBe(response.content);
+      expect(response.usage!.total_tokens).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Anthropic-Compatible Provider', () => {
+    it('should translate messages and tool results to the Messages API', async () => {
+      global.fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+        content: [
+          { type: 'text', text: 'Let me check.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'kb_search', input: { query: 'billing' } }
+        ],
+        usage: { input_tokens: 40, output_tokens: 12 }
+      })));
+
+      const provider = new AnthropicCompatibleProvider(
+        createEnv({ ANTHROPIC_API_KEY: 'test-anthropic-key' }),
+        { model: 'claude-test', baseUrl: 'https://llm.internal.test/' }
+      );
+
+      const response = await provider.complete({
+        messages: [
+          { role: 'system', content: 'System prompt' },
+          { role: 'user', content: 'Billing question' },
+          {
+            role: 'assistant',
+            content: '',
+            tool_calls: [{ id: 'toolu_0', type: 'function', function: { name: 'kb_search', arguments: '{"query":"invoice"}' } }]
+          },
+          { role: 'tool', tool_call_id: 'toolu_0', content: '{"success":true}' }
+        ],
+        tools: [{ type: 'function', function: { name: 'kb_search', description: 'Search', parameters: { type: 'object' } } }]
+      });
+
+      const [url, init] = (global.fetch as any).mock.calls[0];
+      const body = JSON.parse(init.body);
+      expect(url).toBe('https://llm.internal.test/v1/messages');
+      expect(init.headers['x-api-key']).toBe('test-anthropic-key');
+      expect(body.system).toBe('System prompt');
+      expect(body.messages.map((msg: any) => msg.role)).toEqual(['user', 'assistant', 'user']);
+      expect(body.messages[1].content[0]).toMatchObject({ type: 'tool_use', id: 'toolu_0', input: { query: 'invoice' } });
+      expect(body.messages[2].content[0]).toMatchObject({ type: 'tool_result', tool_use_id: 'toolu_0' });
+      expect(body.tools[0]).toMatchObject({ name: 'kb_search', input_schema: { type: 'object' } });
+
+      expect(response.content).toBe('Let me check.');
+      expect(response.toolCalls![0]).toMatchObject({ id: 'toolu_1', name: 'kb.search', parameters: { query: 'billing' } });
+      expect(response.usage).toEqual({ prompt_tokens: 40, completion_tokens: 12, total_tokens: 52 });
+    });
+
+    it('should keep the tools listed but forbid calls once the tool budget is spent', async () => {
+      global.fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+        content: [{ type: 'text', text: 'Here is what I found.' }],
+        usage: { input_tokens: 60, output_tokens: 6 }
+      })));
+
+      const provider = new AnthropicCompatibleProvider(createEnv({ ANTHROPIC_API_KEY: 'test-anthropic-key' }), { model: 'claude-test' });
+
+      const response = await provider.complete({
+        messages: [
+          { role: 'user', content: 'Billing question' },
+          {
+            role: 'assistant',
+            content: '',
+            tool_calls: [{ id: 'toolu_0', type: 'function', function: { name: 'kb_search', arguments: '{"query":"invoice"}' } }]
+          },
+          { role: 'tool', tool_call_id: 'toolu_0', content: '{"success":true}' }
+        ],
+        tools: [{ type: 'function', function: { name: 'kb_search', description: 'Search', parameters: { type: 'object' } } }],
+        toolChoice: 'none'
+      });
+
+      const body = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+      expect(body.messages[1].content[0]).toMatchObject({ type: 'tool_use', name: 'kb_search' });
+      expect(body.tools.map((tool: any) => tool.name)).toEqual(['kb_search']);
+      expect(body.tool_choice).toEqual({ type: 'none' });
+      expect(response.content).toBe('Here is what I found.');
+    });
+  });
+
+  describe('Chat Integration', () => {
+    let env: any;
+    let authorization: string;
+
+    beforeEach(async () => {
+      env = createEnv({ SESSION_TOKEN_SECRET: 'test-secret' });
+      authorization = `Bearer ${(await issueSessionToken('test-secret', { sessionId: 'test-session' })).token}`;
+    });
+
+    it('should serve /api/chat from a configured local mock provider', async () => {
+      env.MODEL_CHAINS = JSON.stringify({ chat: [{ type: 'mock', reply: 'Stubbed answer.' }] });
+
+      const response = await worker.fetch(new Request('https://test.com/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
+        body: JSON.stringify({ message: 'Hello', sessionId: 'test-session' })
+      }), env, {} as any);
+      const result = await response.json() as any;
+
+      expect(response.status).toBe(200);
+      expect(result.message.content).toBe('Stubbed answer.');
+      expect(result.model).toBe('mock');
+      expect(result.fallbackUsed).toBe(false);
+      expect(env.AI.run).not.toHaveBeenCalled();
+    });
+
+    it('should fall through to the next provider when one times out', async () => {
+      env.AI.run.mockReturnValue(new Promise(() => undefined));
+      env.MODEL_CHAINS = JSON.stringify({
+        chat: [
+          { type: 'workers-ai', name: 'hung-llama', timeoutMs: 20 },
+          { type: 'mock', reply: 'Backup answer.' }
+        ]
+      });
+
+      const response = await worker.fetch(new Request('https://test.com/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: authorization },
+        body: JSON.stringify({ message: 'Hello', sessionId: 'test-session' })
+      }), env, {} as any);
+      const result = await response.json() as any;
+
+      expect(result.message.content).toBe('Backup answer.');
+      expect(result.fallbackUsed).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+// Tests for the Durable Object rate limiter and its use by SecurityManager
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RateLimiterDO } from '../workers/rate_limiter';
+import { SecurityManager, DEFAULT_SECURITY_CONFIG, SecurityContext } from '../workers/security';
+
+class MockDurableObjectState {
+  private storageData = new Map<string, any>();
+
+  storage = {
+    get: vi.fn(async (key: string) => structuredClone(this.storageData.get(key))),
+    put: vi.fn(async (key: string, value: any) => {
+      this.storageData.set(key, structuredClone(value));
+    }),
+    delete: vi.fn(async (key: string) => this.storageData.delete(key)),
+    getAlarm: vi.fn(async () => null),
+    setAlarm: vi.fn(async () => {})
+  };
+}
+
+// One limiter object per name, with fetches to an object handled one at a time like the runtime does
+function createLimiterNamespace() {
+  const objects = new Map<string, { limiter: RateLimiterDO; queue: Promise<unknown> }>();
+  return {
+    objects,
+    idFromName: vi.fn((name: string) => name),
+    get: vi.fn((name: string) => {
+      if (!objects.has(name)) {
+        objects.set(name, { limiter: new RateLimiterDO(new MockDurableObjectState() as any, {} as any), queue: Promise.resolve() });
+      }
+      const object = objects.get(name)!;
+      return {
+        fetch: (input: any, init?: any) => {
+          const response = object.queue.then(() => object.limiter.fetch(new Request(input, init)));
+          object.queue = response.catch(() => undefined);
+          return response;
+        }
+      };
+    })
+  };
+}
+
+describe('Durable Object rate limiting', () => {
+  let namespace: ReturnType<typeof createLimiterNamespace>;
+  let env: any;
+
+  const context = (sessionId: string, extra: Partial<SecurityContext> = {}): SecurityContext => ({
+    requestId: 'req_1',
+    sessionId,
+    ipAddress: '203.0.113.7',
+    userAgent: 'test',
+    timestamp: Date.now(),
+    ...extra
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:10Z'));
+    namespace = createLimiterNamespace();
+    env = {
+      CHAT_KV: { get: vi.fn(), put: vi.fn(), delete: vi.fn(), list: vi.fn() },
+      RATE_LIMITER_DO: namespace
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should not let parallel requests past the burst allowance', async () => {
+    const manager = new SecurityManager(env);
+    const results = await Promise.all(
+      Array.from({ length: 25 }, () => manager.checkRateLimit('sess_1', context('sess_1')))
+    );
+
+    const allowed = results.filter(result => result.allowed);
+    expect(allowed).toHaveLength(DEFAULT_SECURITY_CONFIG.rateLimiting.burstAllowance);
+    expect(results.find(result => !result.allowed)!.reason).toContain('burst allowance');
+    expect(env.CHAT_KV.get).not.toHaveBeenCalled();
+  });
+
+  it('should refill at the per-minute rate and cap each minute', async () => {
+    const manager = new SecurityManager(env);
+    const check = () => manager.checkRateLimit('sess_1', context('sess_1'));
+
+    for (let i = 0; i < 10; i++) {
+      await check();
+    }
+    expect((await check()).allowed).toBe(false);
+
+    // 30 requests per minute refill one every two seconds
+    vi.advanceTimersByTime(2000);
+    expect((await check()).allowed).toBe(true);
+    expect((await check()).allowed).toBe(false);
+
+    // Steady requests as fast as the bucket refills stop at the per-minute limit
+    let allowed = 11;
+    for (let i = 0; i < 24; i++) {
+      vi.advanceTimersByTime(2000);
+      if ((await check()).allowed) allowed++;
+    }
+    expect(allowed).toBe(DEFAULT_SECURITY_CONFIG.rateLimiting.requestsPerMinute);
+    const blocked = await check();
+    expect(blocked.reason).toContain('too many requests per minute');
+  });
+
+  it('should limit by IP address across sessions and by hashed API key', async () => {
+    const manager = new SecurityManager(env);
+    const results = await Promise.all(
+      Array.from({ length: 45 }, (_, i) => manager.checkRateLimit(`sess_${i}`, context(`sess_${i}`, { apiKey: 'sk_live_secret' })))
+    );
+
+    expect(results.filter(result => result.allowed)).toHaveLength(DEFAULT_SECURITY_CONFIG.rateLimiting.perIp.burstAllowance);
+    const names = [...namespace.objects.keys()];
+    expect(names).toContain('ip:203.0.113.7');
+    expect(names.some(name => name.startsWith('api_key:'))).toBe(true);
+    expect(names.join()).not.toContain('sk_live_secret');
+  });
+
+  it('should apply the configured failure policy when the limiter is unreachable', async () => {
+    env.RATE_LIMITER_DO = {
+      idFromName: vi.fn(),
+      get: vi.fn(() => ({ fetch: vi.fn().mockRejectedValue(new Error('object unavailable')) }))
+    };
+
+    expect((await new SecurityManager(env).checkRateLimit('sess_1', context('sess_1'))).allowed).toBe(true);
+
+    env.RATE_LIMIT_FAILURE_MODE = 'closed';
+    const closed = await new SecurityManager(env).checkRateLimit('sess_1', context('sess_1'));
+    expect(closed.allowed).toBe(false);
+    expect(closed.reason).toContain('Rate limit unavailable');
+  });
+
+  it('should reject malformed rules', async () => {
+    const limiter = new RateLimiterDO(new MockDurableObjectState() as any, {} as any);
+    const response = await limiter.fetch(new Request('https://rate-limiter/', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'take', rule: { requestsPerMinute: 0, burstAllowance: 5 } })
+    }));
+    expect(response.status).toBe(400);
+  });
+});
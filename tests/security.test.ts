@@ -186,7 +186,7 @@ describe('SecurityManager', () => {
       
       expect(result.allowed).toBe(true);
       expect(result.remaining).toBe(DEFAULT_SECURITY_CONFIG.rateLimiting.requestsPerMinute - 1);
-      expect(mockBindings.CHAT_KV.put).toHaveBeenCalledTimes(3); // minute, hour, session keys
+      expect(mockBindings.CHAT_KV.put).toHaveBeenCalledTimes(1); // minute key
     });
 
     it('should block requests exceeding per-minute limit', async () => {
@@ -206,18 +206,27 @@ describe('SecurityManager', () => {
     });
 
     it('should block requests exceeding hourly token limit', async () => {
-      // Mock KV to return high hour count (simulating token limit)
+      // Mock KV to return a ledger with the session's hourly budget used up
+      const now = Date.now();
+      const hourStart = Math.floor(now / 3600000) * 3600000;
+      const monthStart = Date.UTC(new Date(now).getUTCFullYear(), new Date(now).getUTCMonth(), 1);
       (mockBindings.CHAT_KV.get as any).mockImplementation((key: string) => {
-        if (key.includes('rate_limit') && key.includes(':' + Math.floor(Date.now() / 3600000))) {
-          return Promise.resolve('25'); // 25 * 500 = 12500 tokens > 10000 limit
+        if (key === `token_usage:session:${mockContext.sessionId}`) {
+          return Promise.resolve(JSON.stringify({
+            hour: { start: hourStart, promptTokens: 8000, completionTokens: 2500 },
+            day: { start: Math.floor(now / 86400000) * 86400000, promptTokens: 8000, completionTokens: 2500 },
+            month: { start: monthStart, promptTokens: 8000, completionTokens: 2500 },
+            updatedAt: now
+          }));
         }
         return Promise.resolve(null);
       });
 
-      const result = await securityManager.checkRateLimit('sess_123', mockContext);
+      const result = await securityManager.checkTokenQuota(mockContext);
       
       expect(result.allowed).toBe(false);
       expect(result.reason).toContain('token limit reached');
+      expect(result.tightest).toMatchObject({ scope: 'session', window: 'hour', remaining: 0 });
     });
 
     it('should fail open when KV operations fail', async () => {
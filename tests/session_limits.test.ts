@@ -0,0 +1,142 @@
+// Tests for concurrent session limits per IP address and user
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RateLimiterDO } from '../workers/rate_limiter';
+import { SecurityManager, SecurityContext, DEFAULT_SECURITY_CONFIG } from '../workers/security';
+import { RateLimitMonitor } from '../workers/monitoring_middleware';
+
+class MockDurableObjectState {
+  private storageData = new Map<string, any>();
+
+  storage = {
+    get: vi.fn(async (key: string) => structuredClone(this.storageData.get(key))),
+    put: vi.fn(async (key: string, value: any) => {
+      this.storageData.set(key, structuredClone(value));
+    }),
+    delete: vi.fn(async (key: string) => this.storageData.delete(key)),
+    getAlarm: vi.fn(async () => null),
+    setAlarm: vi.fn(async () => {})
+  };
+}
+
+// One limiter object per name, with fetches to an object handled one at a time like the runtime does
+function createLimiterNamespace() {
+  const objects = new Map<string, { limiter: RateLimiterDO; queue: Promise<unknown> }>();
+  return {
+    idFromName: vi.fn((name: string) => name),
+    get: vi.fn((name: string) => {
+      if (!objects.has(name)) {
+        objects.set(name, { limiter: new RateLimiterDO(new MockDurableObjectState() as any, {} as any), queue: Promise.resolve() });
+      }
+      const object = objects.get(name)!;
+      return {
+        fetch: (input: any, init?: any) => {
+          const response = object.queue.then(() => object.limiter.fetch(new Request(input, init)));
+          object.queue = response.catch(() => undefined);
+          return response;
+        }
+      };
+    })
+  };
+}
+
+const context = (sessionId: string, extra: Partial<SecurityContext> = {}): SecurityContext => ({
+  requestId: 'req_1',
+  sessionId,
+  ipAddress: '198.51.100.4',
+  timestamp: Date.now(),
+  ...extra
+});
+
+describe('Concurrent session limits', () => {
+  let env: any;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-10T12:00:00Z'));
+    env = {
+      CHAT_KV: { get: vi.fn().mockResolvedValue(null), put: vi.fn(), delete: vi.fn(), list: vi.fn() },
+      RATE_LIMITER_DO: createLimiterNamespace()
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should refuse sessions minted in parallel beyond the per-IP limit', async () => {
+    const manager = new SecurityManager(env);
+    const results = await Promise.all(
+      Array.from({ length: 8 }, (_, i) => manager.checkConcurrentSessions(context(`sess_${i}`)))
+    );
+
+    expect(results.filter(result => result.allowed)).toHaveLength(DEFAULT_SECURITY_CONFIG.rateLimiting.concurrentSessions);
+    const refused = results.find(result => !result.allowed)!;
+    expect(refused.reason).toBe('Concurrent session limit reached: 5 active sessions per IP address');
+    expect(refused.owners[0]).toMatchObject({ scope: 'ip', active: 5, limit: 5 });
+
+    // Sessions already counted keep working, and idle ones free their slot
+    expect((await manager.checkConcurrentSessions(context('sess_0'))).allowed).toBe(true);
+    vi.advanceTimersByTime(DEFAULT_SECURITY_CONFIG.rateLimiting.sessionIdleMinutes * 60 * 1000);
+    expect((await manager.checkConcurrentSessions(context('sess_new'))).allowed).toBe(true);
+  });
+
+  it('should evict the least recently used session of a user when configured to', async () => {
+    const manager = new SecurityManager(env, {
+      ...DEFAULT_SECURITY_CONFIG,
+      rateLimiting: { ...DEFAULT_SECURITY_CONFIG.rateLimiting, concurrentSessions: 2, concurrentSessionPolicy: 'evict' }
+    });
+    const fromUser = (sessionId: string, ipAddress: string) => manager.checkConcurrentSessions(
+      context(sessionId, { userId: 'user_1', ipAddress })
+    );
+
+    await fromUser('sess_a', '192.0.2.1');
+    vi.advanceTimersByTime(1000);
+    await fromUser('sess_b', '192.0.2.2');
+    vi.advanceTimersByTime(1000);
+    await fromUser('sess_a', '192.0.2.1');
+    vi.advanceTimersByTime(1000);
+
+    const third = await fromUser('sess_c', '192.0.2.3');
+    expect(third.allowed).toBe(true);
+    expect(third.owners.find(owner => owner.scope === 'user')).toMatchObject({ active: 2, evicted: ['sess_b'] });
+
+    const evicted = await fromUser('sess_b', '192.0.2.2');
+    expect(evicted.allowed).toBe(false);
+    expect(evicted.reason).toBe('Session ended: too many concurrent sessions for this user');
+  });
+
+  it('should fall back to a KV registry and skip callers without an IP address or user', async () => {
+    delete env.RATE_LIMITER_DO;
+    const manager = new SecurityManager(env);
+
+    expect(await manager.checkConcurrentSessions(context('sess_1', { ipAddress: 'unknown' }))).toEqual({ allowed: true, owners: [] });
+    expect(env.CHAT_KV.put).not.toHaveBeenCalled();
+
+    const result = await manager.checkConcurrentSessions(context('sess_1'));
+    expect(result.owners).toEqual([{ scope: 'ip', active: 1, limit: 5, evicted: [], allowed: true }]);
+    expect(env.CHAT_KV.put).toHaveBeenCalledWith(
+      'active_sessions:ip:198.51.100.4',
+      expect.stringContaining('sess_1'),
+      { expirationTtl: 3600 }
+    );
+  });
+
+  it('should report active sessions, refusals and evictions to monitoring', () => {
+    const metrics = { setGauge: vi.fn(), incrementCounter: vi.fn() };
+    const logger = { warn: vi.fn(), info: vi.fn() };
+
+    new RateLimitMonitor(metrics as any, logger as any).recordSessionLimits('sess_9', {
+      allowed: false,
+      reason: 'Concurrent session limit reached: 5 active sessions per IP address',
+      owners: [
+        { scope: 'ip', active: 5, limit: 5, evicted: [], allowed: false },
+        { scope: 'user', active: 2, limit: 5, evicted: ['sess_1'], allowed: true }
+      ]
+    });
+
+    expect(metrics.setGauge).toHaveBeenCalledWith('active_sessions', 5, { scope: 'ip' });
+    expect(metrics.setGauge).toHaveBeenCalledWith('active_sessions', 2, { scope: 'user' });
+    expect(metrics.incrementCounter).toHaveBeenCalledWith('concurrent_session_rejections_total', 1, { scope: 'ip' });
+    expect(metrics.incrementCounter).toHaveBeenCalledWith('sessions_evicted_total', 1, { scope: 'user' });
+  });
+});
@@ -0,0 +1,191 @@
+// Tests for the helpdesk connectors, run against the local mock helpdesk
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TicketingTool } from '../workers/ticketing_tool.js';
+import { InMemoryTicketStore } from '../workers/ticket_store';
+import {
+  BuiltInTicketingBackend,
+  FreshdeskBackend,
+  JiraServiceManagementBackend,
+  TicketingBackend,
+  ZendeskBackend,
+  createTicketingBackend
+} from '../workers/ticketing_backends';
+import { MockHelpdesk } from '../workers/mock_helpdesk';
+import { ToolContext } from '../workers/tools.js';
+
+const BASE_URL = 'http://helpdesk.test';
+
+const ISSUE = {
+  title: 'Cannot export invoices',
+  description: 'The export button times out',
+  priority: 'high',
+  category: 'billing',
+  userEmail: 'ada@example.com'
+};
+
+describe('Ticketing Backends', () => {
+  let helpdesk: MockHelpdesk;
+  let store: InMemoryTicketStore;
+  let context: ToolContext;
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    helpdesk = new MockHelpdesk();
+    store = new InMemoryTicketStore();
+    context = { sessionId: 'session-1', userId: 'user-1', bindings: {} };
+    global.fetch = vi.fn((input: any, init?: any) => helpdesk.fetch(new Request(input, init))) as any;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  async function createTicket(backend: TicketingBackend) {
+    const tool = new TicketingTool(store, backend);
+    const result = await tool.execute({ action: 'create', ticketData: ISSUE }, context);
+    expect(result.success).toBe(true);
+    return { tool, ticketId: result.data.ticketId as string, external: result.data.external };
+  }
+
+  describe('Zendesk', () => {
+    const backend = () => new ZendeskBackend({ type: 'zendesk', baseUrl: `${BASE_URL}/zendesk`, email: 'bot@acme.com' }, 'secret');
+
+    it('should create the ticket with mapped priority and requester', async () => {
+      const { external } = await createTicket(backend());
+
+      expect(external).toMatchObject({ system: 'zendesk', url: `${BASE_URL}/zendesk/agent/tickets/${external.id}` });
+      const remote = helpdesk.getTicket('zendesk', external.id)!;
+      expect(remote).toMatchObject({ subject: ISSUE.title, priority: 'high', status: 'new', requester: ISSUE.userEmail });
+      expect(remote.tags).toContain('billing');
+      expect((vi.mocked(global.fetch).mock.calls[0]![1] as any).headers.Authorization).toBe(`Basic ${btoa('bot@acme.com/token:secret')}`);
+    });
+
+    it('should push updates and pull agent replies back into the history', async () => {
+      const { tool, ticketId, external } = await createTicket(backend());
+
+      await tool.execute({ action: 'update', ticketId, updateData: { priority: 'urgent', comment: 'Customer is blocked' } }, context);
+      expect(helpdesk.getTicket('zendesk', external.id)).toMatchObject({ priority: 'urgent' });
+
+      helpdesk.agentUpdate('zendesk', external.id, { status: 'pending', assignee: '42', reply: 'Which browser are you using?' });
+      const result = await tool.execute({ action: 'status', ticketId }, context);
+
+      expect(result.data.status).toMatchObject({ status: 'waiting_for_customer', priority: 'urgent', assignedTo: '42' });
+      const comments = result.data.history.filter((event: any) => event.type === 'comment');
+      expect(comments.map((event: any) => [event.actor, event.comment])).toEqual([
+        ['user-1', 'Customer is blocked'],
+        ['zendesk:42', 'Which browser are you using?']
+      ]);
+
+      // A second sync does not duplicate anything
+      const again = await tool.execute({ action: 'status', ticketId }, context);
+      expect(again.data.history).toHaveLength(result.data.history.length);
+    });
+  });
+
+  describe('Jira Service Management', () => {
+    const backend = () => new JiraServiceManagementBackend({
+      type: 'jira',
+      baseUrl: `${BASE_URL}/jira`,
+      email: 'bot@acme.com',
+      serviceDeskId: '1',
+      requestTypeId: '10'
+    }, 'secret');
+
+    it('should create a request and change status through transitions', async () => {
+      const { tool, ticketId, external } = await createTicket(backend());
+
+      expect(external.id).toMatch(/^SUP-\d+$/);
+      expect(helpdesk.getTicket('jira', external.id)).toMatchObject({ priority: 'High', status: '11' });
+
+      const result = await tool.execute({ action: 'update', ticketId, updateData: { status: 'in_progress', priority: 'low' } }, context);
+
+      expect(result.metadata!.syncError).toBeUndefined();
+      expect(helpdesk.getTicket('jira', external.id)).toMatchObject({ priority: 'Low', status: '21' });
+    });
+
+    it('should sync resolution back from the helpdesk', async () => {
+      const { tool, ticketId, external } = await createTicket(backend());
+
+      helpdesk.agentUpdate('jira', external.id, { status: '41', reply: 'Fixed in the latest release' });
+      const result = await tool.execute({ action: 'status', ticketId }, context);
+
+      expect(result.data.status.status).toBe('resolved');
+      expect(result.data.history.at(-1)).toMatchObject({ type: 'comment', actor: 'jira:agent', comment: 'Fixed in the latest release' });
+      expect((await store.list({ status: 'resolved' })).map(ticket => ticket.id)).toEqual([ticketId]);
+    });
+  });
+
+  describe('Freshdesk', () => {
+    const backend = () => new FreshdeskBackend({ type: 'freshdesk', baseUrl: `${BASE_URL}/freshdesk` }, 'secret');
+
+    it('should map status and priority to Freshdesk codes', async () => {
+      const { tool, ticketId, external } = await createTicket(backend());
+      expect(helpdesk.getTicket('freshdesk', external.id)).toMatchObject({ status: 2, priority: 3, requester: ISSUE.userEmail });
+
+      await tool.execute({ action: 'update', ticketId, updateData: { status: 'waiting_for_customer', comment: 'Asked for logs' } }, context);
+
+      const remote = helpdesk.getTicket('freshdesk', external.id)!;
+      expect(remote.status).toBe(3);
+      expect(remote.comments[0]).toMatchObject({ body: 'Asked for logs', public: false });
+    });
+
+    it('should keep in_progress when Freshdesk reports it as open', async () => {
+      const { tool, ticketId } = await createTicket(backend());
+
+      await tool.execute({ action: 'update', ticketId, updateData: { status: 'in_progress' } }, context);
+      const result = await tool.execute({ action: 'status', ticketId }, context);
+
+      expect(result.data.status.status).toBe('in_progress');
+    });
+  });
+
+  describe('Failure Handling', () => {
+    it('should keep the local ticket and retry the export when the helpdesk is down', async () => {
+      global.fetch = vi.fn().mockRejectedValue(new TypeError('fetch failed')) as any;
+      const { tool, ticketId, external } = await createTicket(new ZendeskBackend({ type: 'zendesk', baseUrl: `${BASE_URL}/zendesk`, email: 'bot@acme.com' }, 'secret'));
+
+      expect(external).toBeUndefined();
+      expect((await store.get(ticketId))!.syncPending).toBe(true);
+
+      global.fetch = vi.fn((input: any, init?: any) => helpdesk.fetch(new Request(input, init))) as any;
+      const result = await tool.execute({ action: 'status', ticketId }, context);
+
+      expect(result.data.external).toMatchObject({ system: 'zendesk' });
+      expect((await store.get(ticketId))!.syncPending).toBeUndefined();
+    });
+
+    it('should report helpdesk API errors without failing the update', async () => {
+      const { ticketId } = await createTicket(new ZendeskBackend({ type: 'zendesk', baseUrl: `${BASE_URL}/zendesk`, email: 'bot@acme.com' }, 'secret'));
+      const invalid = new ZendeskBackend({ type: 'zendesk', baseUrl: `${BASE_URL}/unknown`, email: 'bot@acme.com' }, 'secret');
+
+      const result = await new TicketingTool(store, invalid).execute({ action: 'update', ticketId, updateData: { status: 'closed' } }, context);
+
+      expect(result.success).toBe(true);
+      expect(result.data.status.status).toBe('closed');
+      expect(result.metadata!.syncError).toContain('zendesk API error: 404');
+    });
+  });
+
+  describe('Configuration', () => {
+    it('should build the configured backend with its token binding', () => {
+      const backend = createTicketingBackend({
+        TICKETING_BACKEND: JSON.stringify({ type: 'freshdesk', baseUrl: 'https://acme.freshdesk.com', apiTokenBinding: 'HELPDESK_KEY' }),
+        HELPDESK_KEY: 'secret'
+      } as any);
+
+      expect(backend).toBeInstanceOf(FreshdeskBackend);
+    });
+
+    it('should fall back to the built-in store for missing or invalid config', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(createTicketingBackend({})).toBeInstanceOf(BuiltInTicketingBackend);
+      expect(createTicketingBackend({ TICKETING_BACKEND: JSON.stringify({ type: 'zendesk', baseUrl: BASE_URL }) })).toBeInstanceOf(BuiltInTicketingBackend);
+      expect(createTicketingBackend({ TICKETING_BACKEND: '{not json' })).toBeInstanceOf(BuiltInTicketingBackend);
+      expect(warn).toHaveBeenCalledTimes(2);
+
+      warn.mockRestore();
+    });
+  });
+});
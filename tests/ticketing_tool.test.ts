@@ -1,8 +1,41 @@
 // Unit tests for Ticketing Tool
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { TicketingTool } from '../workers/ticketing_tool.js';
 import { ToolContext } from '../workers/tools.js';
+import { KVTicketStore, createTicketRecord } from '../workers/ticket_store.js';
+
+function createKV() {
+  const store = new Map<string, string>();
+  return {
+    store,
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    put: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    delete: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    // Sorted pages like KV; the cursor is the offset of the next key
+    list: vi.fn(async ({ prefix, cursor, limit = 1000 }: { prefix: string; cursor?: string; limit?: number }) => {
+      const names = [...store.keys()].filter(key => key.startsWith(prefix)).sort();
+      const start = cursor ? Number(cursor) : 0;
+      const end = start + limit;
+      return {
+        keys: names.slice(start, end).map(name => ({ name })),
+        list_complete: end >= names.length,
+        cursor: end >= names.length ? undefined : String(end)
+      };
+    })
+  };
+}
+
+const ISSUE = {
+  title: 'Cannot export invoices',
+  description: 'The export button times out',
+  priority: 'high',
+  category: 'billing'
+};
 
 describe('TicketingTool', () => {
   let tool: TicketingTool;
@@ -368,4 +401,121 @@ describe('TicketingTool', () => {
       expect(result.data.ticketId).toMatch(/^TKT-\d+-[A-Z0-9]+$/);
     });
   });
-});
\ No newline at end of file
+
+  describe('Persistence', () => {
+    let kv: ReturnType<typeof createKV>;
+
+    beforeEach(() => {
+      kv = createKV();
+    });
+
+    it('should find a ticket from a later request in another session of the same user', async () => {
+      const created = await new TicketingTool().execute(
+        { action: 'create', ticketData: ISSUE },
+        { sessionId: 'session-a', userId: 'user-1', bindings: { CHAT_KV: kv } }
+      );
+
+      const result = await new TicketingTool().execute(
+        { action: 'status', ticketId: created.data.ticketId },
+        { sessionId: 'session-b', userId: 'user-1', bindings: { CHAT_KV: kv } }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data.status).toMatchObject({ title: 'Cannot export invoices', status: 'open' });
+      expect(result.data.status.createdAt).toBeInstanceOf(Date);
+      expect(result.data.history.map((event: any) => event.type)).toEqual(['created']);
+    });
+
+    it('should record field changes and comments in the history', async () => {
+      const context = { sessionId: 'session-a', bindings: { CHAT_KV: kv } };
+      const created = await tool.execute({ action: 'create', ticketData: ISSUE }, context);
+      const ticketId = created.data.ticketId;
+
+      await tool.execute({ action: 'update', ticketId, updateData: { status: 'in_progress', assignedTo: 'agent-7' } }, context);
+      const result = await tool.execute({
+        action: 'update',
+        ticketId,
+        updateData: { comment: 'Customer sent a HAR file', status: 'in_progress' }
+      }, context);
+
+      const history = result.data.history;
+      expect(history.map((event: any) => event.type)).toEqual(['created', 'updated', 'comment']);
+      expect(history[1].changes).toEqual({
+        status: { from: 'open', to: 'in_progress' },
+        assignedTo: { from: undefined, to: 'agent-7' }
+      });
+      expect(history[2]).toMatchObject({ comment: 'Customer sent a HAR file', actor: 'session-a' });
+      expect(result.data.status.status).toBe('in_progress');
+    });
+
+    it('should list tickets by user across sessions and move the status index on update', async () => {
+      const first = await tool.execute(
+        { action: 'create', ticketData: ISSUE },
+        { sessionId: 'session-a', userId: 'user-1', bindings: { CHAT_KV: kv } }
+      );
+      await tool.execute(
+        { action: 'create', ticketData: { ...ISSUE, title: 'Second issue' } },
+        { sessionId: 'session-b', userId: 'user-1', bindings: { CHAT_KV: kv } }
+      );
+      await tool.execute(
+        { action: 'create', ticketData: ISSUE },
+        { sessionId: 'session-c', userId: 'user-2', bindings: { CHAT_KV: kv } }
+      );
+      await tool.execute(
+        { action: 'update', ticketId: first.data.ticketId, updateData: { status: 'resolved' } },
+        { sessionId: 'session-a', bindings: { CHAT_KV: kv } }
+      );
+
+      const context = { sessionId: 'session-d', userId: 'user-1', bindings: { CHAT_KV: kv } };
+      const all = await tool.execute({ action: 'list' }, context);
+      const open = await tool.execute({ action: 'list', status: 'open' }, context);
+
+      expect(all.data.totalFound).toBe(2);
+      expect(open.data.tickets.map((ticket: any) => ticket.status.title)).toEqual(['Second issue']);
+      const indexed = (status: string) => [...kv.store.keys()].some(key =>
+        key.startsWith(`ticket_idx:status:${status}:`) && key.endsWith(`:${first.data.ticketId}`));
+      expect(indexed('open')).toBe(false);
+      expect(indexed('resolved')).toBe(true);
+    });
+
+    it('should hide tickets from other sessions and users', async () => {
+      const owner = { sessionId: 'session-a', userId: 'user-1', bindings: { CHAT_KV: kv } };
+      const created = await tool.execute({ action: 'create', ticketData: ISSUE }, owner);
+      const ticketId = created.data.ticketId;
+      const stranger = { sessionId: 'session-x', userId: 'user-2', bindings: { CHAT_KV: kv } };
+
+      const status = await tool.execute({ action: 'status', ticketId }, stranger);
+      const update = await tool.execute({ action: 'update', ticketId, updateData: { status: 'closed' } }, stranger);
+      const anonymous = await tool.execute({ action: 'status', ticketId }, { sessionId: 'session-y', bindings: { CHAT_KV: kv } });
+
+      expect(status).toEqual({ success: false, error: `Ticket not found: ${ticketId}` });
+      expect(update).toEqual({ success: false, error: `Ticket not found: ${ticketId}` });
+      expect(anonymous.success).toBe(false);
+      const sameUser = await tool.execute({ action: 'status', ticketId }, { ...owner, sessionId: 'session-b' });
+      expect(sameUser.data.status.status).toBe('open');
+    });
+
+    it('should page through the index only until the limit is reached', async () => {
+      const store = new KVTicketStore(kv as any);
+      for (let i = 0; i < 5; i++) {
+        await store.save(createTicketRecord(`TKT-${i}`, ISSUE as any, { sessionId: 'session-a' }, 0, 1000 + i));
+      }
+      kv.list.mockClear();
+
+      const tickets = await store.list({ sessionId: 'session-a', limit: 2 });
+
+      expect(tickets.map(ticket => ticket.id)).toEqual(['TKT-4', 'TKT-3']);
+      expect(kv.list).toHaveBeenCalledTimes(1);
+      expect(kv.list).toHaveBeenCalledWith(expect.objectContaining({ limit: 2 }));
+    });
+
+    it('should list only the current session for anonymous users', async () => {
+      await tool.execute({ action: 'create', ticketData: ISSUE }, { sessionId: 'session-a', bindings: { CHAT_KV: kv } });
+      await tool.execute({ action: 'create', ticketData: ISSUE }, { sessionId: 'session-b', bindings: { CHAT_KV: kv } });
+
+      const result = await tool.execute({ action: 'list' }, { sessionId: 'session-a', bindings: { CHAT_KV: kv } });
+
+      expect(result.data.totalFound).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+// Tests for token budgets recorded from real model usage
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import worker from '../workers/api';
+import { RateLimiterDO } from '../workers/rate_limiter';
+import { SecurityManager, SecurityContext } from '../workers/security';
+import { advanceLedger, addUsage, evaluateBudget, KVTokenLedger } from '../workers/token_quota';
+import { issueSessionToken, sha256Hex } from '../workers/auth';
+
+class MockDurableObjectState {
+  private storageData = new Map<string, any>();
+
+  storage = {
+    get: vi.fn(async (key: string) => structuredClone(this.storageData.get(key))),
+    put: vi.fn(async (key: string, value: any) => {
+      this.storageData.set(key, structuredClone(value));
+    }),
+    delete: vi.fn(async (key: string) => this.storageData.delete(key)),
+    getAlarm: vi.fn(async () => null),
+    setAlarm: vi.fn(async () => {})
+  };
+}
+
+// One limiter object per name, with fetches to an object handled one at a time like the runtime does
+function createLimiterNamespace() {
+  const objects = new Map<string, { limiter: RateLimiterDO; queue: Promise<unknown> }>();
+  return {
+    idFromName: vi.fn((name: string) => name),
+    get: vi.fn((name: string) => {
+      if (!objects.has(name)) {
+        objects.set(name, { limiter: new RateLimiterDO(new MockDurableObjectState() as any, {} as any), queue: Promise.resolve() });
+      }
+      const object = objects.get(name)!;
+      return {
+        fetch: (input: any, init?: any) => {
+          const response = object.queue.then(() => object.limiter.fetch(new Request(input, init)));
+          object.queue = response.catch(() => undefined);
+          return response;
+        }
+      };
+    })
+  };
+}
+
+function createKV() {
+  const data = new Map<string, string>();
+  return {
+    data,
+    get: vi.fn(async (key: string) => data.get(key) ?? null),
+    put: vi.fn(async (key: string, value: string) => {
+      data.set(key, value);
+    }),
+    delete: vi.fn(async (key: string) => {
+      data.delete(key);
+    }),
+    list: vi.fn(async () => ({ keys: [] }))
+  };
+}
+
+const context = (sessionId: string, extra: Partial<SecurityContext> = {}): SecurityContext => ({
+  requestId: 'req_1',
+  sessionId,
+  ipAddress: '203.0.113.7',
+  timestamp: Date.now(),
+  ...extra
+});
+
+describe('Token ledger', () => {
+  it('should start new hourly, daily and monthly windows as they close', () => {
+    const start = Date.UTC(2026, 0, 31, 23, 30);
+    const ledger = advanceLedger(null, start);
+    addUsage(ledger, { promptTokens: 300, completionTokens: 200 });
+
+    const nextMonth = advanceLedger(ledger, start + 40 * 60 * 1000);
+    expect(nextMonth.hour.promptTokens).toBe(0);
+    expect(nextMonth.day.promptTokens).toBe(0);
+    expect(nextMonth.month.promptTokens).toBe(0);
+
+    const sameHour = advanceLedger(ledger, start + 10 * 60 * 1000);
+    const statuses = evaluateBudget(sameHour, 'user', { tokensPerHour: 400, tokensPerMonth: 10000 });
+    expect(statuses).toEqual([
+      { scope: 'user', window: 'hour', limit: 400, used: 500, remaining: 0, resetTime: Date.UTC(2026, 1, 1) },
+      { scope: 'user', window: 'month', limit: 10000, used: 500, remaining: 9500, resetTime: Date.UTC(2026, 1, 1) }
+    ]);
+  });
+});
+
+describe('Token quotas', () => {
+  let env: any;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-10T12:00:00Z'));
+    env = { CHAT_KV: createKV(), RATE_LIMITER_DO: createLimiterNamespace() };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should add up concurrent usage exactly and refuse the next request once a budget is spent', async () => {
+    const manager = new SecurityManager(env);
+    await Promise.all(Array.from({ length: 20 }, (_, i) =>
+      manager.recordTokenUsage(context(`sess_${i % 2}`, { userId: 'user_1' }), { prompt_tokens: 600, completion_tokens: 400, total_tokens: 1000 })
+    ));
+
+    const user = await manager.checkTokenQuota(context('sess_new', { userId: 'user_1' }));
+    expect(user.allowed).toBe(false);
+    expect(user.tightest).toMatchObject({ scope: 'user', window: 'hour', used: 20000, limit: 20000 });
+    expect(user.reason).toContain('user hourly budget');
+
+    const session = await manager.checkTokenQuota(context('sess_0'));
+    expect(session.allowed).toBe(false);
+    expect(session.tightest).toMatchObject({ scope: 'session', window: 'hour', used: 10000 });
+
+    vi.advanceTimersByTime(60 * 60 * 1000);
+    const nextHour = await manager.checkTokenQuota(context('sess_0', { userId: 'user_1' }));
+    expect(nextHour.allowed).toBe(true);
+    expect(nextHour.tightest).toMatchObject({ scope: 'session', window: 'hour', remaining: 10000 });
+    expect(nextHour.budgets.find(budget => budget.scope === 'user' && budget.window === 'day')!.used).toBe(20000);
+  });
+
+  it('should count a reported total without a breakdown as completion tokens', async () => {
+    delete env.RATE_LIMITER_DO;
+    const manager = new SecurityManager(env);
+    const recorded = await manager.recordTokenUsage(context('sess_1', { tenantId: 'acme' }), { prompt_tokens: 0, completion_tokens: 0, total_tokens: 750 });
+
+    expect(recorded!.budgets.find(budget => budget.scope === 'tenant' && budget.window === 'day')!.used).toBe(750);
+    const stored = JSON.parse(env.CHAT_KV.data.get('token_usage:tenant:acme'));
+    expect(stored.month).toMatchObject({ promptTokens: 0, completionTokens: 750 });
+  });
+
+  it('should apply the failure policy when the ledger is unreachable', async () => {
+    env.RATE_LIMITER_DO = {
+      idFromName: vi.fn(),
+      get: vi.fn(() => ({ fetch: vi.fn().mockRejectedValue(new Error('object unavailable')) }))
+    };
+
+    expect((await new SecurityManager(env).checkTokenQuota(context('sess_1'))).allowed).toBe(true);
+    expect(await new SecurityManager(env).recordTokenUsage(context('sess_1'), { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 })).toBeNull();
+
+    env.RATE_LIMIT_FAILURE_MODE = 'closed';
+    const closed = await new SecurityManager(env).checkTokenQuota(context('sess_1'));
+    expect(closed.allowed).toBe(false);
+    expect(closed.reason).toContain('Token budget unavailable');
+  });
+});
+
+describe('Chat API token budgets', () => {
+  let env: any;
+
+  const chat = (headers: Record<string, string> = {}) => worker.fetch(
+    new Request('https://example.com/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({ message: 'How do I reset my password?', sessionId: 'sess_123' })
+    }),
+    env,
+    { waitUntil: vi.fn(), passThroughOnException: vi.fn() } as any
+  );
+
+  beforeEach(async () => {
+    env = {
+      SESSION_TOKEN_SECRET: 'test-secret',
+      API_KEYS: JSON.stringify([{ name: 'crm', keyHash: await sha256Hex('crm-key'), tenantId: 'acme', userId: 'user_9' }]),
+      AI: {
+        run: vi.fn().mockResolvedValue({
+          response: 'Use the reset link',
+          usage: { prompt_tokens: 1200, completion_tokens: 300, total_tokens: 1500 }
+        })
+      },
+      MEMORY_DO: {
+        idFromName: vi.fn().mockReturnValue('do-id'),
+        get: vi.fn().mockReturnValue({
+          fetch: vi.fn().mockImplementation(async () => new Response(JSON.stringify({
+            sessionId: 'sess_123',
+            tenantId: 'acme',
+            summary: '',
+            recentMessages: [],
+            activeTopics: [],
+            resolvedIssues: []
+          })))
+        })
+      },
+      CHAT_KV: createKV(),
+      ARCHIVE_R2: {},
+      WORKFLOWS: {}
+    };
+  });
+
+  it('should record model usage and report the remaining budget', async () => {
+    // API key callers are charged to the user their key acts for
+    const response = await chat({ 'X-API-Key': 'crm-key' });
+    const data = await response.json() as any;
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-TokenBudget-Scope')).toBe('session/hour');
+    expect(response.headers.get('X-TokenBudget-Remaining')).toBe('8500');
+    expect(data.security.tokenBudget).toMatchObject({ scope: 'session', window: 'hour', used: 1500 });
+
+    const ledger = await new KVTokenLedger(env.CHAT_KV).check([{ scope: 'user', id: 'user_9', budget: { tokensPerDay: 100000 } }]);
+    expect(ledger.tightest).toMatchObject({ used: 1500, remaining: 98500 });
+  });
+
+  it('should refuse chat once the session budget is spent', async () => {
+    const { token } = await issueSessionToken('test-secret', { sessionId: 'sess_123' });
+    const authorization = { Authorization: `Bearer ${token}` };
+    for (let i = 0; i < 7; i++) {
+      expect((await chat(authorization)).status).toBe(200);
+    }
+
+    const response = await chat(authorization);
+    const data = await response.json() as any;
+    expect(response.status).toBe(429);
+    expect(data.error.message).toContain('token limit reached');
+    expect(data.error.details.tokenBudget).toMatchObject({ scope: 'session', window: 'hour', remaining: 0 });
+    expect(Number(response.headers.get('X-RateLimit-Reset'))).toBe(data.error.details.tokenBudget.resetTime);
+  });
+});
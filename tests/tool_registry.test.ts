@@ -1,6 +1,6 @@
 // Unit tests for Tool Registry
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ToolRegistry } from '../workers/tool_registry.js';
 import { ToolContext } from '../workers/tools.js';
 
@@ -70,7 +70,7 @@ describe('ToolRegistry', () => {
 
     it('should include knowledge base tool in schema', () => {
       const schema = registry.getToolSchema();
-      const kbTool = schema.find((tool: any) => tool.function.name === 'kb.search');
+      const kbTool = schema.find((tool: any) => tool.function.name === 'kb_search');
       
       expect(kbTool).toBeDefined();
       expect(kbTool.function.parameters).toHaveProperty('properties');
@@ -254,4 +254,74 @@ describe('ToolRegistry', () => {
       expect(updateResult.data.status.resolution).toBe('Issue resolved during integration test');
     });
   });
-});
\ No newline at end of file
+
+  describe('Workflow Tools', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should keep workflow-only tools out of the model schema', () => {
+      const names = registry.getToolSchema().map((tool: any) => tool.function.name);
+
+      expect(names).not.toContain('send_notification');
+      expect(names).not.toContain('cancel_ticket');
+      expect(registry.resolveToolName('cancel_ticket')).toBeUndefined();
+    });
+
+    it('should refuse workflow-only tools outside workflows', async () => {
+      const result = await registry.executeTool('cancel_ticket', { ticketId: 'TKT-1', reason: 'Injected' }, mockContext);
+
+      expect(result).toMatchObject({ success: false, metadata: { workflowOnly: true } });
+      expect((await registry.executeTool('send_notification', { message: 'Hi' }, mockContext)).success).toBe(false);
+    });
+
+    it('should cancel a ticket by closing it with the reason', async () => {
+      const created = await registry.executeTool('ticketing', {
+        action: 'create',
+        ticketData: { title: 'Duplicate', description: 'Opened twice', priority: 'low', category: 'general' }
+      }, mockContext);
+
+      const result = await registry.executeTool('cancel_ticket', {
+        ticketId: created.data.ticketId,
+        reason: 'Workflow rolled back'
+      }, { ...mockContext, fromWorkflow: true });
+
+      expect(result.success).toBe(true);
+      expect(result.data.status).toMatchObject({ status: 'closed', resolution: 'Workflow rolled back' });
+    });
+
+    it('should post notifications to the configured webhook', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+      const context = {
+        ...mockContext,
+        fromWorkflow: true,
+        bindings: { ...mockContext.bindings, AGENT_NOTIFICATION_WEBHOOK: 'https://hooks.example.com/agents' }
+      };
+
+      const result = await registry.executeTool('send_notification', {
+        message: 'Escalated: Checkout outage',
+        ticketId: 'TKT-1',
+        priority: 'urgent'
+      }, context);
+
+      expect(result).toMatchObject({ success: true, data: { delivered: true } });
+      const [url, init] = fetchMock.mock.calls[0]!;
+      expect(url).toBe('https://hooks.example.com/agents');
+      expect(JSON.parse(init.body)).toMatchObject({
+        text: 'Escalated: Checkout outage',
+        ticketId: 'TKT-1',
+        priority: 'urgent',
+        sessionId: 'test-session-123'
+      });
+    });
+
+    it('should report notifications as undelivered without a webhook', async () => {
+      const workflowContext = { ...mockContext, fromWorkflow: true };
+      const result = await registry.executeTool('send_notification', { message: 'Escalated' }, workflowContext);
+
+      expect(result).toMatchObject({ success: true, data: { delivered: false } });
+      expect((await registry.executeTool('send_notification', {}, workflowContext)).success).toBe(false);
+    });
+  });
+});
@@ -106,6 +106,20 @@ describe('ToolRouter', () => {
       expect(result.error).toContain('Tool execution failed after 2 attempts');
       expect(mockTool.execute).toHaveBeenCalledTimes(2);
     });
+
+    it('should not start another attempt once the caller aborts', async () => {
+      const controller = new AbortController();
+      vi.mocked(mockTool.execute).mockImplementation(async () => {
+        controller.abort(new Error('Step lookup exceeded its 20ms timeout'));
+        return { success: false, error: 'NETWORK_ERROR: Connection failed' };
+      });
+
+      const result = await router.executeTool('test-tool', {}, { ...mockContext, signal: controller.signal });
+
+      expect(result).toMatchObject({ success: false, metadata: { aborted: true, attempts: 1 } });
+      expect(result.error).toContain('Step lookup exceeded its 20ms timeout');
+      expect(mockTool.execute).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('Retry Logic', () => {
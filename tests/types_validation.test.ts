@@ -311,12 +311,14 @@ describe('Utility Functions', () => {
       expect(isValidSessionStatus('active')).toBe(true);
       expect(isValidSessionStatus('idle')).toBe(true);
       expect(isValidSessionStatus('ended')).toBe(true);
+      expect(isValidSessionStatus('handed_off')).toBe(true);
       expect(isValidSessionStatus('invalid')).toBe(false);
     });
 
     it('should validate message role', () => {
       expect(isValidMessageRole('user')).toBe(true);
       expect(isValidMessageRole('assistant')).toBe(true);
+      expect(isValidMessageRole('agent')).toBe(true);
       expect(isValidMessageRole('system')).toBe(false);
     });
   });
@@ -6,7 +6,8 @@ import {
   WorkflowContext, 
   WorkflowStep,
   StepHandler,
-  DEFAULT_RETRY_CONFIG 
+  DEFAULT_RETRY_CONFIG,
+  validateWorkflowDefinition
 } from '../workers/workflow';
 import { WorkflowService } from '../workers/workflow_service';
 import { 
@@ -17,6 +18,7 @@ import {
   createToolChainWorkflow,
   createEscalationWorkflow
 } from '../workers/workflow_definitions';
+import { ToolRegistry } from '../workers/tool_registry';
 import { ConversationContext, ToolCall, WorkerBindings } from '../workers/types';
 
 // Mock bindings
@@ -141,7 +143,11 @@ describe('WorkflowEngine', () => {
       expect(result.success).toBe(true);
       expect(result.executionId).toBeDefined();
       expect(result.metadata.stepsCompleted).toBe(1);
-      expect(mockHandler.execute).toHaveBeenCalledWith({ test: 'data' }, workflowContext);
+      // Each attempt gets the context as it stood when it started, with its own signal
+      expect(mockHandler.execute).toHaveBeenCalledWith(
+        { test: 'data' },
+        { ...workflowContext, variables: {}, signal: expect.any(AbortSignal) }
+      );
     });
 
     it('should handle step failures and retries', async () => {
@@ -345,6 +351,426 @@ describe('WorkflowEngine', () => {
       expect(mockHandler.execute).toHaveBeenCalledTimes(1); // Should only execute once
     });
   });
+
+  describe('Saga Compensation', () => {
+    const step = (id: string, name: string, extra: Partial<WorkflowStep> = {}): WorkflowStep => ({
+      id,
+      name,
+      input: { id },
+      retryCount: 0,
+      maxRetries: 0,
+      status: 'pending',
+      ...extra
+    });
+    const sagaWorkflow = (steps: WorkflowStep[]): WorkflowDefinition => ({
+      id: 'saga_workflow',
+      name: 'Saga Workflow',
+      description: 'Undo completed steps on failure',
+      timeout: 5000,
+      retryConfig: { ...DEFAULT_RETRY_CONFIG, baseDelay: 1 },
+      steps
+    });
+    const workflowContext = (): WorkflowContext => ({
+      sessionId: 'test',
+      conversationContext: mockContext,
+      bindings: mockBindings,
+      variables: {},
+      input: { account: 'acct-1' }
+    });
+    let undone: string[];
+
+    beforeEach(() => {
+      undone = [];
+      engine.registerStepHandler({
+        name: 'reserve',
+        execute: vi.fn(async (input: { id: string }) => ({ reservation: `res-${input.id}` })),
+        compensate: vi.fn(async (input: { id: string }, output: { reservation: string }) => {
+          undone.push(`${input.id}:${output.reservation}`);
+        })
+      });
+      engine.registerStepHandler({
+        name: 'fail',
+        execute: vi.fn().mockRejectedValue(new Error('Payment declined'))
+      });
+    });
+
+    it('should undo completed steps in reverse order with their recorded input and output', async () => {
+      const workflow = sagaWorkflow([
+        step('hold_seat', 'reserve', { input: { id: '{{input.account}}' } }),
+        step('summarise', 'ai_query', { input: { query: 'Summarise the booking' } }),
+        step('hold_meal', 'reserve'),
+        step('charge', 'fail')
+      ]);
+
+      const error = await engine.executeWorkflow(workflow, workflowContext(), 'saga_key').catch(failure => failure);
+      expect(error.message).toBe('Payment declined');
+      expect(undone).toEqual(['hold_meal:res-hold_meal', 'acct-1:res-acct-1']);
+      expect(error.workflowResult).toMatchObject({ success: false, compensated: true });
+      expect(error.workflowResult.compensationFailures).toBeUndefined();
+
+      const execution = await engine.getExecution(error.workflowResult.executionId);
+      expect(execution!.status).toBe('compensated');
+      expect(execution!.steps.map(s => s.status)).toEqual(['compensated', 'completed', 'compensated', 'failed']);
+      expect(execution!.steps[0]!.compensation).toMatchObject({ status: 'completed' });
+      expect(execution!.steps[1]!.compensation).toBeUndefined();
+      expect(execution!.steps[3]!.compensation).toBeUndefined();
+    });
+
+    it("should prefer a step's compensation step over its handler", async () => {
+      engine.registerStepHandler(mockHandler);
+      const workflow = sagaWorkflow([
+        step('hold_seat', 'reserve', {
+          compensationStep: step('release_seat', 'test_handler', {
+            input: { release: '{{steps.hold_seat.output.reservation}}' }
+          })
+        }),
+        step('charge', 'fail')
+      ]);
+
+      await expect(engine.executeWorkflow(workflow, workflowContext())).rejects.toThrow('Payment declined');
+      expect(mockHandler.execute).toHaveBeenCalledWith({ release: 'res-hold_seat' }, expect.anything());
+      expect(undone).toEqual([]);
+    });
+
+    it('should keep rolling back past a failed compensation and report it', async () => {
+      engine.registerStepHandler({
+        name: 'irreversible',
+        execute: vi.fn().mockResolvedValue({ sent: true }),
+        compensate: vi.fn().mockRejectedValue(new Error('Email already delivered'))
+      });
+      const workflow = sagaWorkflow([
+        step('hold_seat', 'reserve'),
+        step('send_email', 'irreversible'),
+        step('charge', 'fail')
+      ]);
+
+      const error = await engine.executeWorkflow(workflow, workflowContext(), 'partial_key').catch(failure => failure);
+      expect(undone).toEqual(['hold_seat:res-hold_seat']);
+      expect(error.workflowResult).toMatchObject({
+        compensated: false,
+        compensationFailures: [{ stepId: 'send_email', error: 'Email already delivered' }]
+      });
+
+      // A repeated key returns the same result
+      const repeated = await engine.executeWorkflow(workflow, workflowContext(), 'partial_key');
+      expect(repeated.compensationFailures).toEqual([{ stepId: 'send_email', error: 'Email already delivered' }]);
+
+      const execution = await engine.getExecution(error.workflowResult.executionId);
+      expect(execution!.status).toBe('failed');
+      expect(execution!.steps.map(s => s.status)).toEqual(['compensated', 'completed', 'failed']);
+      expect(execution!.steps[1]!.compensation).toMatchObject({ status: 'failed', error: 'Email already delivered' });
+    });
+
+    it('should reject compensation steps that read steps they cannot follow', () => {
+      const workflow = sagaWorkflow([
+        step('hold_seat', 'reserve', {
+          compensationStep: step('release_seat', 'test_handler', { input: { meal: '{{steps.hold_meal.output}}' } })
+        }),
+        step('hold_meal', 'reserve')
+      ]);
+
+      expect(() => validateWorkflowDefinition(workflow))
+        .toThrow('compensation of step hold_seat: {{steps.hold_meal.output}} references hold_meal, which it does not depend on');
+    });
+  });
+
+  describe('Timeouts', () => {
+    const hang = () => new Promise(() => {});
+    const createWorkflow = (timeout: number, steps: Partial<WorkflowStep>[]): WorkflowDefinition => ({
+      id: 'timeout_workflow',
+      name: 'Timeout Workflow',
+      description: 'Test workflow and step deadlines',
+      timeout,
+      retryConfig: { ...DEFAULT_RETRY_CONFIG, baseDelay: 10 },
+      compensationSteps: [
+        { id: 'undo', name: 'test_handler', input: {}, retryCount: 0, maxRetries: 0, status: 'pending' }
+      ],
+      steps: steps.map((step, index) => ({
+        id: `step${index + 1}`,
+        name: 'test_handler',
+        input: {},
+        retryCount: 0,
+        maxRetries: 0,
+        status: 'pending',
+        ...step
+      }))
+    });
+    const workflowContext = (): WorkflowContext => ({
+      sessionId: 'test',
+      conversationContext: mockContext,
+      bindings: mockBindings,
+      variables: {}
+    });
+
+    it('should retry an idempotent step attempt that exceeds its timeout', async () => {
+      (mockHandler.execute as Mock).mockImplementationOnce(hang);
+      engine.registerStepHandler(mockHandler);
+
+      const result = await engine.executeWorkflow(
+        createWorkflow(5000, [{ timeout: 20, maxRetries: 1, idempotent: true }]),
+        workflowContext()
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.metadata.retriesUsed).toBe(1);
+      expect(mockHandler.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should abort a timed-out attempt and not retry a step that is not idempotent', async () => {
+      const signals: AbortSignal[] = [];
+      (mockHandler.execute as Mock).mockImplementation((input: any, context: WorkflowContext) => {
+        signals.push(context.signal!);
+        return hang();
+      });
+      engine.registerStepHandler(mockHandler);
+
+      await expect(engine.executeWorkflow(createWorkflow(5000, [{ timeout: 20, maxRetries: 2 }]), workflowContext()))
+        .rejects.toThrow('Step test_handler exceeded its 20ms timeout');
+
+      expect(mockHandler.execute).toHaveBeenCalledTimes(1);
+      expect(signals[0]?.aborted).toBe(true);
+      expect(signals[0]?.reason.message).toBe('Step test_handler exceeded its 20ms timeout');
+    });
+
+    it('should give each attempt its own signal', async () => {
+      const signals: AbortSignal[] = [];
+      (mockHandler.execute as Mock).mockImplementation((input: any, context: WorkflowContext) => {
+        signals.push(context.signal!);
+        return hang();
+      });
+      engine.registerStepHandler(mockHandler);
+
+      await expect(engine.executeWorkflow(
+        createWorkflow(5000, [{ timeout: 20, maxRetries: 1, idempotent: true }]),
+        workflowContext()
+      )).rejects.toThrow('Step test_handler exceeded its 20ms timeout');
+
+      expect(signals).toHaveLength(2);
+      expect(signals[0]).not.toBe(signals[1]);
+      expect(signals.every(signal => signal.aborted)).toBe(true);
+    });
+
+    it('should cancel the workflow at its deadline and compensate completed steps', async () => {
+      let signal: AbortSignal | undefined;
+      (mockHandler.execute as Mock)
+        .mockResolvedValueOnce({ success: true })
+        .mockImplementationOnce((input: any, context: WorkflowContext) => {
+          signal = context.signal;
+          return hang();
+        });
+      engine.registerStepHandler(mockHandler);
+
+      const startTime = Date.now();
+      await expect(engine.executeWorkflow(createWorkflow(50, [{}, { maxRetries: 3 }]), workflowContext(), 'deadline_key'))
+        .rejects.toThrow('Workflow timeout_workflow timed out after 50ms');
+
+      expect(Date.now() - startTime).toBeLessThan(1000);
+      expect(signal?.aborted).toBe(true);
+      expect(mockHandler.execute).toHaveBeenCalledTimes(2); // No retries past the deadline
+      expect(mockHandler.compensate).toHaveBeenCalledTimes(1);
+
+      const result = await engine.executeWorkflow(createWorkflow(50, [{}]), workflowContext(), 'deadline_key');
+      expect(result).toMatchObject({ success: false, compensated: true, timedOut: true });
+    });
+  });
+
+  describe('Dependency Graph', () => {
+    const step = (id: string, name: string, extra: Partial<WorkflowStep> = {}): WorkflowStep => ({
+      id,
+      name,
+      input: { id },
+      retryCount: 0,
+      maxRetries: 0,
+      status: 'pending',
+      ...extra
+    });
+    const createWorkflow = (steps: WorkflowStep[]): WorkflowDefinition => ({
+      id: 'graph_workflow',
+      name: 'Graph Workflow',
+      description: 'Test dependencies, conditions and joins',
+      timeout: 5000,
+      retryConfig: DEFAULT_RETRY_CONFIG,
+      steps
+    });
+    const workflowContext = (): WorkflowContext => ({
+      sessionId: 'test',
+      conversationContext: mockContext,
+      bindings: mockBindings,
+      variables: {}
+    });
+
+    it('should run independent branches in parallel and join their outputs', async () => {
+      let active = 0;
+      let maxActive = 0;
+      engine.registerStepHandler({
+        name: 'branch',
+        async execute(input: { id: string }) {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await new Promise(resolve => setTimeout(resolve, 20));
+          active--;
+          return { from: input.id };
+        }
+      });
+
+      const result = await engine.executeWorkflow(createWorkflow([
+        step('kb', 'branch', { dependsOn: [] }),
+        step('status', 'branch', { dependsOn: [] }),
+        step('history', 'branch', { dependsOn: [] }),
+        { ...step('merge', 'join', { dependsOn: ['kb', 'status', 'history'] }), input: { steps: ['kb', 'status', 'history'] } }
+      ]), workflowContext());
+
+      expect(maxActive).toBe(3);
+      expect(result.metadata.stepsCompleted).toBe(4);
+      expect(result.result).toEqual({ kb: { from: 'kb' }, status: { from: 'status' }, history: { from: 'history' } });
+    });
+
+    it('should only create a ticket when the knowledge base found nothing', async () => {
+      const createTicket = vi.fn().mockResolvedValue({ ticketId: 'TKT-1' });
+      engine.registerStepHandler({ name: 'create_ticket', execute: createTicket });
+      const searchKb = vi.fn();
+      engine.registerStepHandler({ name: 'kb_search', execute: searchKb });
+
+      const workflow = () => createWorkflow([
+        step('kb_search', 'kb_search'),
+        step('ticket', 'create_ticket', {
+          condition: { path: 'step_kb_search_output.results', operator: 'empty' }
+        }),
+        { ...step('merge', 'join', { dependsOn: ['kb_search', 'ticket'] }), input: { steps: ['kb_search', 'ticket'] } }
+      ]);
+
+      searchKb.mockResolvedValueOnce({ results: [] });
+      const noMatches = await engine.executeWorkflow(workflow(), workflowContext());
+      expect(createTicket).toHaveBeenCalledTimes(1);
+      expect(noMatches.result).toEqual({ kb_search: { results: [] }, ticket: { ticketId: 'TKT-1' } });
+
+      searchKb.mockResolvedValueOnce({ results: [{ title: 'Reset your password' }] });
+      const matches = await engine.executeWorkflow(workflow(), workflowContext());
+      expect(createTicket).toHaveBeenCalledTimes(1);
+      expect(matches.result).toEqual({ kb_search: { results: [{ title: 'Reset your password' }] } });
+      expect(matches.metadata.stepsCompleted).toBe(2);
+    });
+
+    it('should let running branches finish but start nothing after a failure', async () => {
+      const finished: string[] = [];
+      engine.registerStepHandler({
+        name: 'branch',
+        async execute(input: { id: string }) {
+          await new Promise(resolve => setTimeout(resolve, input.id === 'slow' ? 30 : 5));
+          if (input.id === 'broken') {
+            throw new Error('Branch failed');
+          }
+          finished.push(input.id);
+          return { from: input.id };
+        }
+      });
+
+      await expect(engine.executeWorkflow(createWorkflow([
+        step('slow', 'branch', { dependsOn: [] }),
+        step('broken', 'branch', { dependsOn: [] }),
+        step('after', 'branch', { dependsOn: ['broken'] })
+      ]), workflowContext())).rejects.toThrow('Branch failed');
+
+      expect(finished).toEqual(['slow']);
+    });
+
+    it('should reject unknown dependencies and cycles', async () => {
+      engine.registerStepHandler(mockHandler);
+
+      await expect(engine.executeWorkflow(createWorkflow([
+        step('a', 'test_handler', { dependsOn: ['missing'] })
+      ]), workflowContext())).rejects.toThrow('Step a depends on unknown step missing');
+
+      await expect(engine.executeWorkflow(createWorkflow([
+        step('a', 'test_handler', { dependsOn: ['b'] }),
+        step('b', 'test_handler', { dependsOn: ['a'] })
+      ]), workflowContext())).rejects.toThrow('dependency cycle');
+      expect(mockHandler.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Templates', () => {
+    const step = (id: string, input: any, extra: Partial<WorkflowStep> = {}): WorkflowStep => ({
+      id,
+      name: 'echo',
+      input,
+      retryCount: 0,
+      maxRetries: 0,
+      status: 'pending',
+      ...extra
+    });
+    const createWorkflow = (steps: WorkflowStep[]): WorkflowDefinition => ({
+      id: 'template_workflow',
+      name: 'Template Workflow',
+      description: 'Test step input templates',
+      timeout: 5000,
+      retryConfig: DEFAULT_RETRY_CONFIG,
+      steps
+    });
+
+    beforeEach(() => {
+      engine.registerStepHandler({ name: 'echo', execute: vi.fn(async (input: any) => input) });
+    });
+
+    it('should fill step inputs from the workflow input and earlier outputs', async () => {
+      const result = await engine.executeWorkflow(createWorkflow([
+        step('assess', { priority: '{{input.ticket.priority}}', tags: '{{input.tags}}' }),
+        step('kb.search', { results: [{ id: 'kb-1' }] }),
+        step('create', {
+          priority: '{{steps.assess.output.priority}}',
+          tags: '{{ steps.assess.output.tags }}',
+          title: 'Ticket for {{session.id}} ({{steps.assess.output.priority}}, {{steps.kb.search.output.results}})',
+          missing: 'none:{{input.nothing}}',
+          status: '{{steps.assess.status}}'
+        })
+      ]), {
+        sessionId: 'test',
+        conversationContext: mockContext,
+        bindings: mockBindings,
+        variables: {},
+        input: { ticket: { priority: 'urgent' }, tags: ['billing', 'outage'] }
+      });
+
+      expect(result.result).toEqual({
+        priority: 'urgent',
+        tags: ['billing', 'outage'],
+        title: 'Ticket for test (urgent, [{"id":"kb-1"}])',
+        missing: 'none:',
+        status: 'completed'
+      });
+    });
+
+    it('should reject templates that cannot resolve when the definition is checked', () => {
+      expect(() => validateWorkflowDefinition(createWorkflow([
+        step('a', { value: '{{secrets.token}}' })
+      ]))).toThrow('Invalid workflow definition template_workflow: step a: unknown template root in {{secrets.token}}');
+
+      expect(() => validateWorkflowDefinition(createWorkflow([
+        step('a', { value: '{{steps.missing.output}}' })
+      ]))).toThrow('references an unknown step');
+
+      // Later steps and parallel branches have not necessarily run yet
+      expect(() => validateWorkflowDefinition(createWorkflow([
+        step('a', { value: '{{steps.b.output.value}}' }),
+        step('b', {})
+      ]))).toThrow('references b, which it does not depend on');
+      expect(() => validateWorkflowDefinition(createWorkflow([
+        step('a', {}, { dependsOn: [] }),
+        step('b', { value: '{{steps.a.output}}' }, { dependsOn: [] })
+      ]))).toThrow('references a, which it does not depend on');
+    });
+
+    it('should validate definitions before executing them', async () => {
+      await expect(engine.executeWorkflow(createWorkflow([
+        step('a', { value: '{{steps.a.output}}' })
+      ]), {
+        sessionId: 'test',
+        conversationContext: mockContext,
+        bindings: mockBindings,
+        variables: {}
+      })).rejects.toThrow('Invalid workflow definition template_workflow');
+    });
+  });
 });
 
 describe('WorkflowService', () => {
@@ -426,6 +852,67 @@ describe('WorkflowService', () => {
       
       expect(result.success).toBe(true);
       expect(result.executionId).toBeDefined();
+      expect((mockBindings.AI.run as Mock).mock.calls[0][1].messages[1].content).toContain('Complex technical problem');
+      const [key, value] = (mockBindings.CHAT_KV.put as Mock).mock.calls
+        .find(([key]) => key.startsWith('escalation_status:'))!;
+      expect(key).toBe('escalation_status:test_session_123');
+      expect(JSON.parse(value).data).toMatchObject({ priority: 'high', status: 'escalated' });
+    });
+
+    const escalation = {
+      issue: 'Checkout fails for every customer',
+      context: mockContext,
+      title: 'Checkout outage',
+      description: 'Checkout returns errors',
+      priority: 'high',
+      category: 'technical'
+    };
+    const createRegistry = () => {
+      const registry = new ToolRegistry();
+      vi.spyOn(registry, 'executeTool').mockImplementation(async (name: string) => (
+        name === 'ticketing'
+          ? { success: true, data: { ticketId: 'TKT-42' } }
+          : { success: true, data: {} }
+      ));
+      return registry;
+    };
+
+    it('should create and announce the ticket through the tool registry', async () => {
+      const registry = createRegistry();
+
+      const result = await new WorkflowService(mockBindings, registry).handleEscalation(escalation);
+
+      expect(result.success).toBe(true);
+      const calls = (registry.executeTool as Mock).mock.calls;
+      expect(calls.map(([name]) => name)).toEqual(['ticketing', 'send_notification']);
+      expect(calls[0][1]).toMatchObject({
+        action: 'create',
+        ticketData: { title: 'Checkout outage', priority: 'high', category: 'technical' }
+      });
+      expect(calls[0][1].ticketData.description).toContain('Urgency assessment: AI response');
+      expect(calls[0][2]).toMatchObject({ sessionId: 'test_session_123', bindings: mockBindings });
+      expect(calls[1][1]).toEqual({ ticketId: 'TKT-42', priority: 'high', message: 'Escalated: Checkout outage' });
+    });
+
+    it('should cancel the created ticket when the escalation is rolled back', async () => {
+      const registry = createRegistry();
+      (mockBindings.CHAT_KV.put as Mock).mockRejectedValue(new Error('Storage permanently unavailable'));
+
+      await expect(new WorkflowService(mockBindings, registry).handleEscalation(escalation)).rejects.toThrow();
+
+      expect((registry.executeTool as Mock).mock.calls).toContainEqual([
+        'cancel_ticket',
+        { ticketId: 'TKT-42', reason: 'Workflow rolled back' },
+        expect.objectContaining({ sessionId: 'test_session_123' })
+      ]);
+    });
+
+    it('should fail the step when a tool fails', async () => {
+      const registry = createRegistry();
+      (registry.executeTool as Mock).mockResolvedValue({ success: false, error: 'Missing required field: category' });
+
+      await expect(new WorkflowService(mockBindings, registry).handleEscalation(escalation))
+        .rejects.toThrow('Tool create_ticket failed: Missing required field: category');
     });
   });
 
@@ -485,6 +972,23 @@ describe('Workflow Definitions', () => {
       expect(workflow.steps.some(step => step.name === 'execute_tool')).toBe(true);
     });
 
+    it('should run tool chain tools in parallel when requested', () => {
+      const workflow = createToolChainWorkflow({
+        tools: ['kb.search', 'fetch_status'],
+        query: 'Test query',
+        parallelExecution: true
+      });
+
+      expect(workflow.steps.map(step => [step.id, step.dependsOn])).toEqual([
+        ['validate_tools', undefined],
+        ['tool_kb.search', ['validate_tools']],
+        ['tool_fetch_status', ['validate_tools']],
+        ['merge_tool_results', ['tool_kb.search', 'tool_fetch_status']],
+        ['aggregate_results', ['merge_tool_results']]
+      ]);
+      expect(TOOL_CHAIN_WORKFLOW.steps.every(step => step.dependsOn === undefined)).toBe(true);
+    });
+
     it('should create escalation workflow', () => {
       const input = {
         issue: 'Test issue',
@@ -520,7 +1024,9 @@ describe('Workflow Definitions', () => {
     it('should have valid escalation workflow', () => {
       expect(ESCALATION_WORKFLOW.id).toBe('issue_escalation');
       expect(ESCALATION_WORKFLOW.steps.length).toBeGreaterThan(0);
-      expect(ESCALATION_WORKFLOW.compensationSteps).toBeDefined();
+      // The ticket is undone by its own step rather than by workflow-wide cleanup steps
+      expect(ESCALATION_WORKFLOW.compensationSteps).toBeUndefined();
+      expect(ESCALATION_WORKFLOW.steps.find(step => step.id === 'create_ticket')?.name).toBe('execute_tool');
     });
   });
 });
@@ -0,0 +1,234 @@
+// Tests for /api/workflows
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import worker from '../workers/api';
+import { WorkflowStateDO } from '../workers/workflow_store';
+import { DEFAULT_RETRY_CONFIG, WorkflowDefinition } from '../workers/workflow';
+import { registerWorkflowDefinition } from '../workers/workflow_definitions';
+import { sha256Hex } from '../workers/auth';
+
+// Mock DurableObjectState storage with prefix listing and alarms
+class MockDurableObjectState {
+  private storageData = new Map<string, any>();
+
+  storage = {
+    get: vi.fn(async (key: string) => structuredClone(this.storageData.get(key))),
+    put: vi.fn(async (key: string, value: any) => {
+      this.storageData.set(key, structuredClone(value));
+    }),
+    delete: vi.fn(async (key: string) => this.storageData.delete(key)),
+    list: vi.fn(async ({ prefix }: { prefix: string }) => new Map(
+      [...this.storageData].filter(([key]) => key.startsWith(prefix))
+    )),
+    getAlarm: vi.fn(async () => null),
+    setAlarm: vi.fn(async () => {})
+  };
+}
+
+// Requests are handled one at a time, as a Durable Object's input gate does for storage-only requests
+function createStateNamespace() {
+  const stateDO = new WorkflowStateDO(new MockDurableObjectState() as any, {} as any);
+  let queue: Promise<unknown> = Promise.resolve();
+  return {
+    idFromName: vi.fn((name: string) => name),
+    get: vi.fn(() => ({
+      fetch: (input: any, init?: any) => {
+        const response = queue.then(() => stateDO.fetch(new Request(input, init)));
+        queue = response.catch(() => {});
+        return response;
+      }
+    }))
+  };
+}
+
+const definition: WorkflowDefinition = {
+  id: 'api_test_workflow',
+  name: 'API Test Workflow',
+  description: 'Stores the request, answers it and stores the answer',
+  timeout: 60000,
+  retryConfig: { ...DEFAULT_RETRY_CONFIG, baseDelay: 1 },
+  steps: [
+    {
+      id: 'save_request',
+      name: 'persist_data',
+      input: { key: 'request:{{session.id}}', data: { issue: '{{input.issue}}' } },
+      retryCount: 0,
+      maxRetries: 0,
+      status: 'pending'
+    },
+    {
+      id: 'answer',
+      name: 'ai_query',
+      input: { query: 'Answer: {{input.issue}}' },
+      retryCount: 0,
+      maxRetries: 0,
+      status: 'pending'
+    },
+    {
+      id: 'save_answer',
+      name: 'persist_data',
+      input: { key: 'answer:{{session.id}}', data: '{{steps.answer.output.response}}' },
+      retryCount: 0,
+      maxRetries: 0,
+      status: 'pending'
+    }
+  ]
+};
+
+describe('Workflow API', () => {
+  let env: any;
+  let background: Promise<unknown>[];
+
+  const api = (path: string, init: RequestInit = {}) => worker.fetch(
+    new Request(`https://test.com/api/workflows${path}`, {
+      ...init,
+      headers: { 'X-API-Key': 'service-key', ...(init.headers as Record<string, string>) }
+    }),
+    env,
+    { waitUntil: (promise: Promise<unknown>) => background.push(promise) } as any
+  );
+  const postJSON = (path: string, body: any, headers: Record<string, string> = {}) => api(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+  const start = async (headers: Record<string, string> = {}) => {
+    const response = await postJSON('/api_test_workflow/executions', { sessionId: 'sess-1', input: { issue: 'Login fails' } }, headers);
+    return { response, body: await response.json() as any };
+  };
+  const settle = () => Promise.all(background);
+  const status = async (executionId: string) => ((await (await api(`/executions/${executionId}`)).json()) as any).execution;
+
+  beforeAll(() => {
+    registerWorkflowDefinition(definition);
+  });
+
+  beforeEach(async () => {
+    background = [];
+    env = {
+      AI: { run: vi.fn().mockResolvedValue({ response: 'Reset your password', usage: { total_tokens: 10 } }) },
+      CHAT_KV: { get: vi.fn().mockResolvedValue(null), put: vi.fn(), delete: vi.fn(), list: vi.fn() },
+      ARCHIVE_R2: {},
+      WORKFLOWS: {},
+      MEMORY_DO: { idFromName: vi.fn(), get: vi.fn() },
+      WORKFLOW_STATE_DO: createStateNamespace(),
+      SESSION_TOKEN_SECRET: 'test-secret',
+      API_KEYS: JSON.stringify([{ name: 'workflow-runner', keyHash: await sha256Hex('service-key') }])
+    };
+  });
+
+  it('should list registered workflows', async () => {
+    const { workflows } = await (await api('')).json() as any;
+
+    expect(workflows.map((workflow: any) => workflow.id)).toEqual(
+      expect.arrayContaining(['complex_query_processing', 'issue_escalation', 'api_test_workflow'])
+    );
+    expect(workflows.find((workflow: any) => workflow.id === 'api_test_workflow').steps.map((step: any) => step.id))
+      .toEqual(['save_request', 'answer', 'save_answer']);
+  });
+
+  it('should start an execution in the background and report per-step timings', async () => {
+    const { response, body } = await start();
+    expect(response.status).toBe(202);
+    expect(body.statusUrl).toBe(`/api/workflows/executions/${body.executionId}`);
+
+    await settle();
+    const execution = await status(body.executionId);
+
+    expect(execution).toMatchObject({ workflowId: 'api_test_workflow', sessionId: 'sess-1', status: 'completed' });
+    expect(execution.context).toBeUndefined();
+    expect(execution.steps.map((step: any) => step.status)).toEqual(['completed', 'completed', 'completed']);
+    for (const step of execution.steps) {
+      expect(step.durationMs).toBe(step.completedAt - step.startedAt);
+    }
+    expect(env.CHAT_KV.put).toHaveBeenCalledWith('answer:sess-1', expect.stringContaining('Reset your password'), expect.anything());
+  });
+
+  it('should return the same execution for a repeated idempotency key', async () => {
+    const first = await start({ 'Idempotency-Key': 'retry-1' });
+    await settle();
+    const second = await start({ 'Idempotency-Key': 'retry-1' });
+    await settle();
+
+    expect(second.body.executionId).toBe(first.body.executionId);
+    expect(env.AI.run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replay a failed execution from the steps it failed or undid', async () => {
+    env.AI.run.mockRejectedValueOnce(new Error('Model overloaded'));
+    const { body } = await start();
+    await settle();
+
+    const failed = await status(body.executionId);
+    expect(failed.status).toBe('compensated');
+    expect(failed.steps.map((step: any) => step.status)).toEqual(['compensated', 'failed', 'pending']);
+    expect(failed.steps[0].compensation.status).toBe('completed');
+    expect(failed.steps[1].error).toContain('Model overloaded');
+    expect(env.CHAT_KV.delete).toHaveBeenCalledWith('request:sess-1');
+
+    const replay = await postJSON(`/executions/${body.executionId}/replay`, {});
+    expect(replay.status).toBe(202);
+    await settle();
+
+    const replayed = await status(body.executionId);
+    expect(replayed.status).toBe('completed');
+    expect(replayed.replayedAt).toBeGreaterThanOrEqual(failed.completedAt);
+    const writes = env.CHAT_KV.put.mock.calls.map(([key]: [string]) => key).filter((key: string) => !key.startsWith('metrics:') && !key.startsWith('audit_log:'));
+    expect(writes).toEqual(['request:sess-1', 'request:sess-1', 'answer:sess-1']);
+
+    const again = await postJSON(`/executions/${body.executionId}/replay`, {});
+    expect(again.status).toBe(409);
+  });
+
+  it('should let only one of two concurrent replays run', async () => {
+    env.AI.run.mockRejectedValueOnce(new Error('Model overloaded'));
+    const { body } = await start();
+    await settle();
+    expect((await status(body.executionId)).status).toBe('compensated');
+
+    const replays = await Promise.all([
+      postJSON(`/executions/${body.executionId}/replay`, {}),
+      postJSON(`/executions/${body.executionId}/replay`, {})
+    ]);
+    await settle();
+
+    expect(replays.map(replay => replay.status).sort()).toEqual([202, 409]);
+    expect((await status(body.executionId)).status).toBe('completed');
+    // One failed attempt, then one replayed answer
+    expect(env.AI.run).toHaveBeenCalledTimes(2);
+  });
+
+  it('should cancel a running execution at its next step and compensate', async () => {
+    let answer!: (value: any) => void;
+    env.AI.run.mockImplementationOnce(() => new Promise(resolve => {
+      answer = resolve;
+    }));
+    const { body } = await start();
+    await vi.waitFor(() => expect(env.AI.run).toHaveBeenCalled());
+
+    const cancel = await postJSON(`/executions/${body.executionId}/cancel`, {});
+    expect(cancel.status).toBe(202);
+    expect(((await cancel.json()) as any).execution.cancelRequested).toBe(true);
+
+    answer({ response: 'Too late' });
+    await settle();
+
+    const execution = await status(body.executionId);
+    expect(execution.status).toBe('cancelled');
+    expect(execution.steps[2].status).not.toBe('completed');
+    expect(env.CHAT_KV.delete).toHaveBeenCalledWith('request:sess-1');
+    expect(env.CHAT_KV.put).not.toHaveBeenCalledWith('answer:sess-1', expect.anything(), expect.anything());
+
+    expect((await postJSON(`/executions/${body.executionId}/cancel`, {})).status).toBe(409);
+  });
+
+  it('should validate workflow requests', async () => {
+    expect((await postJSON('/missing_workflow/executions', { sessionId: 'sess-1' })).status).toBe(404);
+    expect((await postJSON('/api_test_workflow/executions', { input: {} })).status).toBe(400);
+    expect((await postJSON('/api_test_workflow/executions', { sessionId: 'sess-1', input: 'text' })).status).toBe(400);
+    expect((await api('/executions/wf_exec_missing')).status).toBe(404);
+
+    delete env.WORKFLOW_STATE_DO;
+    expect((await api('/executions/wf_exec_missing')).status).toBe(503);
+    expect((await api('')).status).toBe(200);
+  });
+});
@@ -0,0 +1,243 @@
+// Tests for workflow definitions authored as JSON/YAML and uploaded at runtime
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import worker from '../workers/api';
+import { WorkflowStateDO } from '../workers/workflow_store';
+import { parseWorkflowDefinition, WorkflowDefinitionStore } from '../workers/workflow_catalog';
+import { getWorkflowDefinition, WORKFLOW_REGISTRY } from '../workers/workflow_definitions';
+import { sha256Hex } from '../workers/auth';
+
+const HANDLERS = ['ai_query', 'persist_data', 'execute_tool', 'join'];
+
+// KV mock backed by a Map, with the 'json' read type
+function createKV() {
+  const data = new Map<string, string>();
+  return {
+    data,
+    get: vi.fn(async (key: string, type?: string) => {
+      const value = data.get(key);
+      if (value === undefined) return null;
+      return type === 'json' ? JSON.parse(value) : value;
+    }),
+    put: vi.fn(async (key: string, value: string) => {
+      data.set(key, value);
+    }),
+    delete: vi.fn(async (key: string) => {
+      data.delete(key);
+    }),
+    list: vi.fn()
+  };
+}
+
+class MockDurableObjectState {
+  private storageData = new Map<string, any>();
+
+  storage = {
+    get: vi.fn(async (key: string) => structuredClone(this.storageData.get(key))),
+    put: vi.fn(async (key: string, value: any) => {
+      this.storageData.set(key, structuredClone(value));
+    }),
+    delete: vi.fn(async (key: string) => this.storageData.delete(key)),
+    list: vi.fn(async ({ prefix }: { prefix: string }) => new Map(
+      [...this.storageData].filter(([key]) => key.startsWith(prefix))
+    )),
+    getAlarm: vi.fn(async () => null),
+    setAlarm: vi.fn(async () => {})
+  };
+}
+
+function createStateNamespace() {
+  const stateDO = new WorkflowStateDO(new MockDurableObjectState() as any, {} as any);
+  return {
+    idFromName: vi.fn((name: string) => name),
+    get: vi.fn(() => ({
+      fetch: (input: any, init?: any) => stateDO.fetch(new Request(input, init))
+    }))
+  };
+}
+
+const yamlDefinition = (answerKey: string) => `
+# Answers a question and stores the answer
+id: uploaded_answer
+name: Uploaded Answer
+timeout: 60000
+retryConfig:
+  maxAttempts: 2
+  baseDelay: 1
+  maxDelay: 10
+steps:
+  - id: answer
+    name: ai_query
+    input:
+      query: "Answer: {{input.issue}}"
+  - id: save_answer
+    name: persist_data
+    input:
+      key: "${answerKey}:{{session.id}}"
+      data: "{{steps.answer.output.response}}"
+`;
+
+describe('Workflow definition parsing', () => {
+  it('should parse YAML and apply engine defaults', () => {
+    const { definition, errors } = parseWorkflowDefinition(yamlDefinition('answer'), 'yaml', HANDLERS);
+
+    expect(errors).toEqual([]);
+    expect(definition).toMatchObject({
+      id: 'uploaded_answer',
+      description: '',
+      retryConfig: { maxAttempts: 2, baseDelay: 1, maxDelay: 10, backoffStrategy: 'exponential' },
+      steps: [
+        { id: 'answer', maxRetries: 1, retryCount: 0, status: 'pending' },
+        { id: 'save_answer', input: { key: 'answer:{{session.id}}' } }
+      ]
+    });
+  });
+
+  it('should report every schema problem at once', () => {
+    const { definition, errors } = parseWorkflowDefinition(JSON.stringify({
+      id: 'executions',
+      name: 'Broken',
+      timeout: 1000,
+      retryConfig: { maxAttempts: 0, baseDelay: 500, maxDelay: 100, backof: 'linear' },
+      steps: [
+        { id: 'send', name: 'send_fax', input: {}, maxRetries: 50, timeout: 5000, dependOn: ['x'] },
+        { id: 'check', name: 'ai_query', idempotent: 'yes', condition: { path: 'x', operator: 'matches' } }
+      ]
+    }), 'json', HANDLERS);
+
+    expect(definition).toBeUndefined();
+    expect(errors).toEqual(expect.arrayContaining([
+      'id executions is reserved',
+      'retryConfig: unknown field backof',
+      'retryConfig.maxAttempts must be an integer from 1 to 11',
+      'retryConfig.maxDelay must not be less than retryConfig.baseDelay',
+      'step send: unknown field dependOn',
+      'step send: no step handler named send_fax',
+      'step send: maxRetries must be an integer from 0 to 10',
+      'step send: timeout must not exceed the workflow timeout',
+      'step check: idempotent must be true or false',
+      expect.stringContaining('step check: condition needs a path and an operator')
+    ]));
+  });
+
+  it('should reject unresolved references and unparseable documents', () => {
+    const dangling = parseWorkflowDefinition(yamlDefinition('answer').replace('steps.answer', 'steps.missing'), 'yaml', HANDLERS);
+    expect(dangling.errors[0]).toContain('references an unknown step');
+
+    const cycle = parseWorkflowDefinition(JSON.stringify({
+      id: 'cycle', name: 'Cycle', timeout: 1000,
+      steps: [
+        { id: 'a', name: 'ai_query', input: { query: 'a' }, dependsOn: ['b'] },
+        { id: 'b', name: 'ai_query', input: { query: 'b' }, dependsOn: ['a'] }
+      ]
+    }), 'json', HANDLERS);
+    expect(cycle.errors[0]).toContain('dependency cycle');
+
+    expect(parseWorkflowDefinition('id: [unclosed', 'yaml', HANDLERS).errors[0]).toMatch(/^could not parse YAML: .+ at line 1, column \d+/);
+    expect(parseWorkflowDefinition('{"id":', 'json', HANDLERS).errors[0]).toMatch(/^could not parse JSON/);
+  });
+});
+
+describe('Workflow definition API', () => {
+  let env: any;
+  let background: Promise<unknown>[];
+
+  const api = (path: string, init: RequestInit = {}) => worker.fetch(
+    new Request(`https://test.com/api/workflows${path}`, {
+      ...init,
+      headers: { 'X-API-Key': 'service-key', ...(init.headers as Record<string, string>) }
+    }),
+    env,
+    { waitUntil: (promise: Promise<unknown>) => background.push(promise) } as any
+  );
+  const upload = (source: string, path: string = '/definitions') => api(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/yaml' },
+    body: source
+  });
+  const runUploaded = async () => {
+    const response = await api('/uploaded_answer/executions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId: 'sess-1', input: { issue: 'Login fails' } })
+    });
+    expect(response.status).toBe(202);
+    await Promise.all(background);
+  };
+
+  beforeEach(async () => {
+    background = [];
+    WORKFLOW_REGISTRY.delete('uploaded_answer');
+    env = {
+      AI: { run: vi.fn().mockResolvedValue({ response: 'Reset your password', usage: { total_tokens: 10 } }) },
+      CHAT_KV: createKV(),
+      ARCHIVE_R2: {},
+      WORKFLOWS: {},
+      MEMORY_DO: { idFromName: vi.fn(), get: vi.fn() },
+      WORKFLOW_STATE_DO: createStateNamespace(),
+      SESSION_TOKEN_SECRET: 'test-secret',
+      API_KEYS: JSON.stringify([{ name: 'workflow-admin', keyHash: await sha256Hex('service-key') }])
+    };
+  });
+
+  it('should validate without storing anything', async () => {
+    const valid = await upload(yamlDefinition('answer'), '/definitions/validate');
+    expect(valid.status).toBe(200);
+    expect(((await valid.json()) as any).definition.steps).toHaveLength(2);
+
+    const invalid = await upload(yamlDefinition('answer').replace('ai_query', 'ai_guess'), '/definitions/validate');
+    expect(invalid.status).toBe(400);
+    expect(((await invalid.json()) as any).error.details.errors).toEqual(['step answer: no step handler named ai_guess']);
+
+    expect([...env.CHAT_KV.data.keys()].filter((key: string) => key.startsWith('workflow_definition'))).toEqual([]);
+    expect(getWorkflowDefinition('uploaded_answer')).toBeUndefined();
+  });
+
+  it('should store, register and run an uploaded definition', async () => {
+    const response = await upload(yamlDefinition('answer'));
+    expect(response.status).toBe(201);
+    expect(((await response.json()) as any).version).toBe(1);
+
+    const { workflows } = await (await api('')).json() as any;
+    expect(workflows.find((workflow: any) => workflow.id === 'uploaded_answer').version).toBe(1);
+
+    await runUploaded();
+    expect(env.CHAT_KV.put).toHaveBeenCalledWith('answer:sess-1', expect.stringContaining('Reset your password'), expect.anything());
+
+    const stored = await (await api('/definitions/uploaded_answer/versions/1')).json() as any;
+    expect(stored.definition.source).toContain('# Answers a question');
+    expect(stored.definition.format).toBe('yaml');
+  });
+
+  it('should keep versions and roll back to an earlier one', async () => {
+    await upload(yamlDefinition('answer'));
+    await upload(yamlDefinition('reply'));
+
+    const versions = await (await api('/definitions/uploaded_answer')).json() as any;
+    expect(versions.activeVersion).toBe(2);
+    expect(versions.versions.map((entry: any) => entry.version)).toEqual([1, 2]);
+
+    const activate = await api('/definitions/uploaded_answer/versions/1/activate', { method: 'POST' });
+    expect(activate.status).toBe(200);
+    expect(getWorkflowDefinition('uploaded_answer')!.steps[1]!.input.key).toBe('answer:{{session.id}}');
+
+    expect((await api('/definitions/uploaded_answer/versions/7/activate', { method: 'POST' })).status).toBe(404);
+    expect((await api('/definitions/unknown_flow')).status).toBe(404);
+  });
+
+  it('should register definitions stored by another isolate before starting them', async () => {
+    const source = yamlDefinition('shared').replace('id: uploaded_answer', 'id: shared_answer');
+    const { definition } = parseWorkflowDefinition(source, 'yaml', HANDLERS);
+    await new WorkflowDefinitionStore(env.CHAT_KV).save(definition!, source, 'yaml');
+    expect(getWorkflowDefinition('shared_answer')).toBeUndefined();
+
+    const response = await api('/shared_answer/executions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId: 'sess-1', input: { issue: 'Login fails' } })
+    });
+    expect(response.status).toBe(202);
+    await Promise.all(background);
+
+    expect(env.CHAT_KV.put).toHaveBeenCalledWith('shared:sess-1', expect.anything(), expect.anything());
+  });
+});
@@ -308,15 +308,20 @@ describe('Workflow Integration Tests', () => {
         )
       );
 
-      // Note: This test depends on the workflow engine implementing timeout handling
-      // For now, we'll test that long-running operations can complete
+      // Route the step through the AI binding like the service's handler does
+      engine.registerStepHandler({
+        name: 'ai_query',
+        execute: (input: { query: string }, context: WorkflowContext) =>
+          context.bindings.AI.run('@cf/meta/llama-3.3-70b-instruct-fp8', { prompt: input.query })
+      });
+
       const startTime = Date.now();
-      const result = await engine.executeWorkflow(timeoutWorkflow, workflowContext);
+      await expect(engine.executeWorkflow(timeoutWorkflow, workflowContext))
+        .rejects.toThrow('Workflow timeout_test timed out after 100ms');
       const duration = Date.now() - startTime;
 
-      expect(result.success).toBe(true);
-      // Workflow should complete (duration will vary based on implementation)
-      expect(duration).toBeGreaterThanOrEqual(0);
+      // The workflow gives up at its deadline instead of waiting for the AI call
+      expect(duration).toBeLessThan(200);
     });
   });
 
@@ -0,0 +1,304 @@
+// Tests for durable workflow execution state
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  WorkflowEngine,
+  WorkflowDefinition,
+  WorkflowContext,
+  WorkflowExecution,
+  DEFAULT_RETRY_CONFIG
+} from '../workers/workflow';
+import {
+  WorkflowStore,
+  WorkflowStateDO,
+  DurableObjectWorkflowStore,
+  InMemoryWorkflowStore,
+  IDEMPOTENCY_WINDOW_MS,
+  createExecutionId
+} from '../workers/workflow_store';
+
+// Mock DurableObjectState storage with prefix listing and alarms
+class MockDurableObjectState {
+  private storageData = new Map<string, any>();
+  alarm: number | null = null;
+
+  storage = {
+    get: vi.fn(async (key: string) => structuredClone(this.storageData.get(key))),
+    put: vi.fn(async (key: string, value: any) => {
+      this.storageData.set(key, structuredClone(value));
+    }),
+    delete: vi.fn(async (key: string) => this.storageData.delete(key)),
+    list: vi.fn(async ({ prefix }: { prefix: string }) => new Map(
+      [...this.storageData].filter(([key]) => key.startsWith(prefix))
+    )),
+    getAlarm: vi.fn(async () => this.alarm),
+    setAlarm: vi.fn(async (time: number) => {
+      this.alarm = time;
+    })
+  };
+}
+
+// One state object per name, like a Durable Object namespace. Each object handles one
+// request at a time, as a Durable Object's input gate does for storage-only requests.
+function createDurableStore(): {
+  store: WorkflowStore;
+  objects: Map<string, { state: MockDurableObjectState; stateDO: WorkflowStateDO }>;
+} {
+  const objects = new Map<string, { state: MockDurableObjectState; stateDO: WorkflowStateDO }>();
+  const queues = new Map<string, Promise<unknown>>();
+  const namespace = {
+    idFromName: (name: string) => name,
+    get: (name: string) => {
+      if (!objects.has(name)) {
+        const state = new MockDurableObjectState();
+        objects.set(name, { state, stateDO: new WorkflowStateDO(state as any, {} as any) });
+      }
+      const { stateDO } = objects.get(name)!;
+      return {
+        fetch: (input: any, init?: any) => {
+          const response = (queues.get(name) || Promise.resolve()).then(() => stateDO.fetch(new Request(input, init)));
+          queues.set(name, response.catch(() => {}));
+          return response;
+        }
+      };
+    }
+  };
+  return { store: new DurableObjectWorkflowStore(namespace as any), objects };
+}
+
+const definition: WorkflowDefinition = {
+  id: 'three_steps',
+  name: 'Three Steps',
+  description: 'Runs three recorded steps',
+  timeout: 60000,
+  retryConfig: { ...DEFAULT_RETRY_CONFIG, baseDelay: 1 },
+  steps: ['first', 'second', 'third'].map(id => ({
+    id,
+    name: 'record',
+    input: { id },
+    retryCount: 0,
+    maxRetries: 0,
+    status: 'pending' as const
+  }))
+};
+
+function createContext(bindings: any = { CHAT_KV: {} }): WorkflowContext {
+  return {
+    sessionId: 'session-1',
+    conversationContext: {
+      sessionId: 'session-1',
+      summary: '',
+      recentMessages: [],
+      activeTopics: [],
+      resolvedIssues: []
+    },
+    bindings,
+    variables: {}
+  };
+}
+
+function createEngine(store: WorkflowStore, ran: string[]): WorkflowEngine {
+  const engine = new WorkflowEngine(store);
+  engine.registerStepHandler({
+    name: 'record',
+    async execute(input: { id: string }) {
+      ran.push(input.id);
+      return { id: input.id };
+    }
+  });
+  return engine;
+}
+
+// Stopped updating ten minutes ago after finishing its first step
+function abandonedExecution(id: string, idempotencyKey: string): WorkflowExecution {
+  const now = Date.now();
+  return {
+    id,
+    workflowId: definition.id,
+    sessionId: 'session-1',
+    status: 'running',
+    currentStepIndex: 1,
+    startedAt: now - 10 * 60 * 1000,
+    updatedAt: now - 10 * 60 * 1000,
+    context: { ...createContext(), variables: { step_first_output: { id: 'first' } } },
+    idempotencyKey,
+    steps: definition.steps.map((step, index) => ({
+      ...step,
+      status: index === 0 ? 'completed' as const : index === 1 ? 'running' as const : 'pending' as const,
+      output: index === 0 ? { id: 'first' } : undefined
+    }))
+  };
+}
+
+describe('Workflow Execution State', () => {
+  let ran: string[];
+
+  beforeEach(() => {
+    ran = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe.each([
+    ['in memory', () => new InMemoryWorkflowStore()],
+    ['durable object', () => createDurableStore().store]
+  ])('%s store', (_name, makeStore) => {
+    it('should persist per-step progress without live bindings', async () => {
+      const store = makeStore();
+      const result = await createEngine(store, ran).executeWorkflow(definition, createContext(), 'key-1');
+
+      const execution = await store.get(result.executionId);
+      expect(execution).toMatchObject({ status: 'completed', currentStepIndex: 2, idempotencyKey: 'key-1' });
+      expect(execution!.steps.map(step => [step.status, step.output?.id])).toEqual([
+        ['completed', 'first'], ['completed', 'second'], ['completed', 'third']
+      ]);
+      expect(execution!.context.variables.step_second_output).toEqual({ id: 'second' });
+      expect(execution!.context.bindings).toBeUndefined();
+    });
+
+    it('should honour idempotency keys across engines sharing the store', async () => {
+      const store = makeStore();
+      const first = await createEngine(store, ran).executeWorkflow(definition, createContext(), 'key-2');
+      const second = await createEngine(store, ran).executeWorkflow(definition, createContext(), 'key-2');
+
+      expect(second).toMatchObject({ success: true, executionId: first.executionId, result: { id: 'third' } });
+      expect(ran).toEqual(['first', 'second', 'third']);
+    });
+
+    it('should let only one of two engines take over an abandoned execution', async () => {
+      const store = makeStore();
+      const abandoned = abandonedExecution(createExecutionId('key-6'), 'key-6');
+      await store.claim(abandoned);
+
+      const results = await Promise.all([
+        createEngine(store, ran).executeWorkflow(definition, createContext(), 'key-6'),
+        createEngine(store, ran).executeWorkflow(definition, createContext(), 'key-6')
+      ]);
+
+      expect(ran).toEqual(['second', 'third']);
+      expect(results.map(result => result.executionId)).toEqual([abandoned.id, abandoned.id]);
+      expect(results.every(result => result.success)).toBe(true);
+      expect(await store.takeover(abandoned.id, abandoned.updatedAt, 'late-runner')).toBeNull();
+    });
+
+    it('should let only one of two concurrent replays claim a failed execution', async () => {
+      const store = makeStore();
+      const engine = createEngine(store, ran);
+      const failed = { ...abandonedExecution(createExecutionId('key-9'), 'key-9'), status: 'failed' as const };
+      await store.claim(failed);
+
+      const runs = await Promise.all([
+        engine.replayExecution(failed.id, definition, {}),
+        createEngine(store, ran).replayExecution(failed.id, definition, {})
+      ]);
+
+      expect(runs.filter(run => run === null)).toHaveLength(1);
+      expect(await runs.find(run => run !== null)!.completion).toMatchObject({ success: true });
+      expect(ran).toEqual(['second', 'third']);
+    });
+  });
+
+  it('should keep executions of different idempotency keys in different objects', async () => {
+    const { store, objects } = createDurableStore();
+    const engine = createEngine(store, ran);
+
+    const first = await engine.executeWorkflow(definition, createContext(), 'key-7');
+    const repeat = await engine.executeWorkflow(definition, createContext(), 'key-7');
+    const other = await engine.executeWorkflow(definition, createContext(), 'key-8');
+
+    expect(repeat.executionId).toBe(first.executionId);
+    expect(other.executionId).not.toBe(first.executionId);
+    expect(objects.size).toBe(2);
+    expect(first.executionId.split('_')[2]).toBe(createExecutionId('key-7').split('_')[2]);
+    expect(await store.get(other.executionId)).toMatchObject({ idempotencyKey: 'key-8', status: 'completed' });
+  });
+
+  it('should resume an abandoned execution from its current step', async () => {
+    const store = new InMemoryWorkflowStore();
+    await store.claim(abandonedExecution('wf_exec_abandoned', 'key-3'));
+
+    const bindings = { CHAT_KV: { live: true } };
+    const engine = createEngine(store, ran);
+    engine.registerStepHandler({
+      name: 'record',
+      async execute(input: { id: string }, context: WorkflowContext) {
+        expect(context.bindings).toBe(bindings);
+        ran.push(input.id);
+        return { id: input.id };
+      }
+    });
+
+    // A repeat of the request takes over instead of waiting on the dead isolate
+    const result = await engine.executeWorkflow(definition, createContext(bindings), 'key-3');
+
+    expect(ran).toEqual(['second', 'third']);
+    expect(result).toMatchObject({ success: true, executionId: 'wf_exec_abandoned', metadata: { stepsCompleted: 3 } });
+    expect((await store.get('wf_exec_abandoned'))!.context.variables).toHaveProperty('step_first_output');
+  });
+
+  it('should resume by execution id and report finished executions as is', async () => {
+    const store = new InMemoryWorkflowStore();
+    const engine = createEngine(store, ran);
+    const result = await engine.executeWorkflow(definition, createContext());
+
+    await expect(engine.resumeExecution('wf_exec_missing', definition, {})).rejects.toThrow('Workflow execution not found');
+    expect(await engine.resumeExecution(result.executionId, definition, {})).toMatchObject({ success: true, result: { id: 'third' } });
+    expect(ran).toHaveLength(3);
+  });
+
+  it('should start a new execution once the idempotency window has passed', async () => {
+    vi.useFakeTimers();
+    const { store } = createDurableStore();
+    const engine = createEngine(store, ran);
+
+    const first = await engine.executeWorkflow(definition, createContext(), 'key-4');
+    vi.advanceTimersByTime(IDEMPOTENCY_WINDOW_MS + 1);
+    const second = await engine.executeWorkflow(definition, createContext(), 'key-4');
+
+    expect(second.executionId).not.toBe(first.executionId);
+    expect(await store.get(first.executionId)).not.toBeNull();
+    expect(ran).toHaveLength(6);
+  });
+
+  it('should prune finished executions after the retention period', async () => {
+    vi.useFakeTimers();
+    const { store, objects } = createDurableStore();
+    const result = await createEngine(store, ran).executeWorkflow(definition, createContext(), 'key-5');
+    const { state, stateDO } = [...objects.values()][0]!;
+    expect(state.alarm).not.toBeNull();
+
+    vi.setSystemTime(state.alarm!);
+    await stateDO.alarm();
+
+    expect(await store.get(result.executionId)).toBeNull();
+    expect(await state.storage.get('idempotency:key-5')).toBeUndefined();
+  });
+
+  it('should cancel an execution running in this engine straight away', async () => {
+    const store = new InMemoryWorkflowStore();
+    const engine = createEngine(store, ran);
+    const compensated: string[] = [];
+    engine.registerStepHandler({
+      name: 'record',
+      async execute(input: { id: string }) {
+        ran.push(input.id);
+        // The second step never finishes on its own
+        return input.id === 'second' ? new Promise(() => {}) : { id: input.id };
+      },
+      async compensate(input: { id: string }, output: { id: string }) {
+        compensated.push(output.id);
+      }
+    });
+
+    const run = await engine.startWorkflow(definition, createContext());
+    const outcome = run.completion.catch((error: Error) => error);
+    await vi.waitFor(() => expect(ran).toEqual(['first', 'second']));
+    const cancelled = await engine.cancelExecution(run.executionId, definition, {});
+
+    expect(cancelled).toMatchObject({ status: 'cancelled', cancelRequested: true });
+    expect(compensated).toEqual(['first']);
+    expect(((await outcome) as Error).message).toBe(`Workflow execution ${run.executionId} was cancelled`);
+    await expect(engine.cancelExecution(run.executionId, definition, {})).rejects.toThrow('has already finished');
+  });
+});
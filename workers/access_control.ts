@@ -0,0 +1,191 @@
+// Role-based access control for operational, agent and data routes. Chat and session routes
+// authenticate against their own session instead; every privileged request is audited.
+import { WorkerBindings, ErrorResponse } from './types';
+import { Principal, Role, identifyCaller } from './auth';
+
+export type Permission =
+  | 'monitoring:read'
+  | 'agent:handoff'
+  | 'knowledge:read'
+  | 'knowledge:write'
+  | 'workflows:run'
+  | 'workflows:manage'
+  | 'data:history'
+  | 'data:backup'
+  | 'data:cleanup';
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  // End users only reach their own sessions, through session tokens
+  end_user: [],
+  agent: ['agent:handoff', 'knowledge:read', 'workflows:run', 'data:history'],
+  // Server-to-server integrations; removing data stays with admins
+  service: [
+    'monitoring:read',
+    'agent:handoff',
+    'knowledge:read',
+    'knowledge:write',
+    'workflows:run',
+    'workflows:manage',
+    'data:history',
+    'data:backup'
+  ],
+  admin: [
+    'monitoring:read',
+    'agent:handoff',
+    'knowledge:read',
+    'knowledge:write',
+    'workflows:run',
+    'workflows:manage',
+    'data:history',
+    'data:backup',
+    'data:cleanup'
+  ]
+};
+
+export interface RoutePermission {
+  pattern: RegExp;
+  // Any method when omitted
+  methods?: string[];
+  permission: Permission;
+}
+
+// First match wins
+export const API_ROUTE_PERMISSIONS: RoutePermission[] = [
+  { pattern: /^\/api\/(health|metrics|alerts)$/, permission: 'monitoring:read' },
+  { pattern: /^\/api\/agent\//, permission: 'agent:handoff' },
+  { pattern: /^\/api\/kb\/documents(\/|$)/, methods: ['GET'], permission: 'knowledge:read' },
+  { pattern: /^\/api\/kb\/documents(\/|$)/, permission: 'knowledge:write' },
+  { pattern: /^\/api\/workflows\/definitions(\/|$)/, permission: 'workflows:manage' },
+  { pattern: /^\/api\/workflows(\/|$)/, permission: 'workflows:run' }
+];
+
+export const DATA_PERSISTENCE_ROUTE_PERMISSIONS: RoutePermission[] = [
+  { pattern: /^\/(health|metrics)$/, permission: 'monitoring:read' },
+  { pattern: /^\/history$/, permission: 'data:history' },
+  { pattern: /^\/backup$/, permission: 'data:backup' },
+  { pattern: /^\/cleanup$/, permission: 'data:cleanup' }
+];
+
+// Audit entries outlive security logs so privileged actions can be reviewed later
+const AUDIT_LOG_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+export interface AuditEntry {
+  timestamp: number;
+  requestId: string;
+  permission: Permission;
+  method: string;
+  path: string;
+  outcome: 'allowed' | 'denied';
+  status: number;
+  principal: Pick<Principal, 'kind' | 'roles' | 'userId' | 'tenantId' | 'keyName'> | null;
+  ipAddress: string;
+  reason?: string;
+}
+
+export function hasPermission(principal: Principal, permission: Permission): boolean {
+  return principal.roles.some(role => ROLE_PERMISSIONS[role]?.includes(permission));
+}
+
+export function requiredPermission(routes: RoutePermission[], method: string, path: string): Permission | null {
+  const route = routes.find(route => route.pattern.test(path) && (!route.methods || route.methods.includes(method)));
+  return route ? route.permission : null;
+}
+
+export class AccessControlMiddleware {
+  private bindings: WorkerBindings;
+  private routes: RoutePermission[];
+
+  constructor(bindings: WorkerBindings, routes: RoutePermission[] = API_ROUTE_PERMISSIONS) {
+    this.bindings = bindings;
+    this.routes = routes;
+  }
+
+  // Runs the handler only when the caller holds the route's permission, passing it the
+  // caller; routes without one pass straight through without a caller
+  async wrapRequest(
+    request: Request,
+    requestId: string,
+    handler: (request: Request, principal: Principal | null) => Promise<Response>,
+    headers: Record<string, string> = {}
+  ): Promise<Response> {
+    const url = new URL(request.url);
+    const permission = requiredPermission(this.routes, request.method, url.pathname);
+    if (!permission) {
+      return handler(request, null);
+    }
+
+    const audit = (outcome: AuditEntry['outcome'], status: number, principal: Principal | null, reason?: string) =>
+      this.audit({
+        timestamp: Date.now(),
+        requestId,
+        permission,
+        method: request.method,
+        path: url.pathname,
+        outcome,
+        status,
+        principal: principal && {
+          kind: principal.kind,
+          roles: principal.roles,
+          userId: principal.userId,
+          tenantId: principal.tenantId,
+          keyName: principal.keyName
+        },
+        ipAddress: request.headers.get('CF-Connecting-IP') || request.headers.get('X-Forwarded-For') || 'unknown',
+        reason
+      });
+
+    const auth = await identifyCaller(request, this.bindings);
+    if (!auth.ok) {
+      await audit('denied', auth.status, null, auth.code);
+      return errorResponse(auth.code, auth.message, requestId, auth.status, headers);
+    }
+
+    const { principal } = auth;
+    if (!hasPermission(principal, permission)) {
+      // Anonymous callers are told to authenticate; known callers that lack the role are refused
+      const denial = principal.kind === 'anonymous'
+        ? { code: 'AUTHENTICATION_REQUIRED', message: 'An API key is required', status: 401 }
+        : { code: 'ACCESS_DENIED', message: `Permission ${permission} is required`, status: 403 };
+      await audit('denied', denial.status, principal, denial.code);
+      return errorResponse(denial.code, denial.message, requestId, denial.status, headers);
+    }
+
+    try {
+      const response = await handler(request, principal);
+      await audit('allowed', response.status, principal);
+      return response;
+    } catch (error) {
+      await audit('allowed', 500, principal, error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    }
+  }
+
+  private async audit(entry: AuditEntry): Promise<void> {
+    try {
+      await this.bindings.CHAT_KV.put(`audit_log:${entry.requestId}`, JSON.stringify(entry), {
+        expirationTtl: AUDIT_LOG_TTL_SECONDS
+      });
+      console.log('Audit Event:', JSON.stringify(entry));
+    } catch (error) {
+      console.error('Failed to write audit log:', error);
+    }
+  }
+}
+
+function errorResponse(
+  code: string,
+  message: string,
+  requestId: string,
+  status: number,
+  headers: Record<string, string>
+): Response {
+  const body: ErrorResponse = {
+    error: { code, message, retryable: false, fallbackAvailable: false },
+    requestId,
+    timestamp: Date.now()
+  };
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...headers, 'Content-Type': 'application/json' }
+  });
+}
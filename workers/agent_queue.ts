@@ -0,0 +1,221 @@
+// Durable Object queue of sessions waiting for a human agent, with assignment and SLA tracking
+import { WorkerBindings } from './types';
+
+export type QueuePriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export interface QueueEntryInput {
+  sessionId: string;
+  reason: 'escalation' | 'ticket' | 'manual';
+  priority: QueuePriority;
+  // Epoch ms by which an agent should have resolved the issue
+  slaDeadline: number;
+  title?: string;
+  ticketId?: string;
+  userId?: string;
+}
+
+export interface QueueEntry extends QueueEntryInput {
+  status: 'waiting' | 'assigned';
+  enqueuedAt: number;
+  updatedAt: number;
+  assignedTo?: string;
+  assignedAt?: number;
+}
+
+// Entries as returned to the console, with SLA state computed at read time
+export interface QueueEntryView extends QueueEntry {
+  slaStatus: 'ok' | 'at_risk' | 'breached';
+  slaRemainingMs: number;
+  waitingMs: number;
+}
+
+export interface QueueStats {
+  waiting: number;
+  assigned: number;
+  byPriority: Record<QueuePriority, number>;
+  atRisk: number;
+  breached: number;
+  oldestWaitingMs: number;
+}
+
+const ENTRY_PREFIX = 'entry:';
+// The queue is a single object so ordering and assignment are consistent
+const QUEUE_NAME = 'global';
+const PRIORITY_RANK: Record<QueuePriority, number> = { urgent: 0, high: 1, medium: 2, low: 3 };
+// Share of the SLA window left below which an entry counts as at risk
+const AT_RISK_FRACTION = 0.25;
+
+export class AgentQueueDO implements DurableObject {
+  private state: DurableObjectState;
+
+  constructor(state: DurableObjectState, env: WorkerBindings) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    try {
+      switch (request.method) {
+        case 'POST':
+          return await this.handlePost(request);
+        case 'GET':
+          return await this.handleGet(new URL(request.url));
+        default:
+          return new Response('Method not allowed', { status: 405 });
+      }
+    } catch (error) {
+      console.error('AgentQueueDO error:', error);
+      return jsonResponse({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+    }
+  }
+
+  private async handlePost(request: Request): Promise<Response> {
+    const body = await request.json() as any;
+
+    switch (body.action) {
+      case 'enqueue':
+        return jsonResponse({ entry: await this.enqueue(body.entry) });
+
+      case 'assign': {
+        const entry = await this.getEntry(body.sessionId);
+        if (!entry) {
+          return jsonResponse({ error: { code: 'NOT_QUEUED', message: `Session ${body.sessionId} is not queued` } }, 404);
+        }
+        // force: the agent already claimed the session itself, so the queue follows
+        if (entry.assignedTo && entry.assignedTo !== body.agentId && !body.force) {
+          return jsonResponse({ error: { code: 'ALREADY_ASSIGNED', message: `Session is assigned to ${entry.assignedTo}` } }, 409);
+        }
+        return jsonResponse({ entry: await this.assign(entry, body.agentId) });
+      }
+
+      case 'remove':
+        return jsonResponse({ removed: await this.state.storage.delete(ENTRY_PREFIX + body.sessionId) });
+
+      default:
+        return new Response('Invalid action', { status: 400 });
+    }
+  }
+
+  private async handleGet(url: URL): Promise<Response> {
+    const now = Date.now();
+    const entries = (await this.listEntries()).map(entry => toView(entry, now));
+    const status = url.searchParams.get('status');
+    const agentId = url.searchParams.get('agentId');
+
+    return jsonResponse({
+      entries: entries.filter(entry =>
+        (!status || entry.status === status) &&
+        (!agentId || entry.assignedTo === agentId)
+      ),
+      stats: summarize(entries)
+    });
+  }
+
+  // A session queued again keeps its place; priority only rises and the deadline only tightens
+  private async enqueue(input: QueueEntryInput): Promise<QueueEntry> {
+    const now = Date.now();
+    const existing = await this.getEntry(input.sessionId);
+
+    const entry: QueueEntry = existing
+      ? {
+        ...existing,
+        priority: PRIORITY_RANK[input.priority] < PRIORITY_RANK[existing.priority] ? input.priority : existing.priority,
+        slaDeadline: Math.min(existing.slaDeadline, input.slaDeadline),
+        title: existing.title || input.title,
+        ticketId: input.ticketId || existing.ticketId,
+        userId: existing.userId || input.userId,
+        updatedAt: now
+      }
+      : { ...input, status: 'waiting', enqueuedAt: now, updatedAt: now };
+
+    await this.state.storage.put(ENTRY_PREFIX + entry.sessionId, entry);
+    return entry;
+  }
+
+  private async assign(entry: QueueEntry, agentId: string): Promise<QueueEntry> {
+    const now = Date.now();
+    const assigned: QueueEntry = {
+      ...entry,
+      status: 'assigned',
+      assignedTo: agentId,
+      assignedAt: entry.assignedTo === agentId ? entry.assignedAt : now,
+      updatedAt: now
+    };
+    await this.state.storage.put(ENTRY_PREFIX + entry.sessionId, assigned);
+    return assigned;
+  }
+
+  private async getEntry(sessionId: string): Promise<QueueEntry | undefined> {
+    return this.state.storage.get<QueueEntry>(ENTRY_PREFIX + sessionId);
+  }
+
+  // Most urgent first, then the closest deadline
+  private async listEntries(): Promise<QueueEntry[]> {
+    const stored = await this.state.storage.list<QueueEntry>({ prefix: ENTRY_PREFIX });
+    return [...stored.values()].sort((a, b) =>
+      PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.slaDeadline - b.slaDeadline
+    );
+  }
+}
+
+function toView(entry: QueueEntry, now: number): QueueEntryView {
+  const remaining = entry.slaDeadline - now;
+  const window = entry.slaDeadline - entry.enqueuedAt;
+
+  return {
+    ...entry,
+    slaStatus: remaining <= 0 ? 'breached' : remaining < window * AT_RISK_FRACTION ? 'at_risk' : 'ok',
+    slaRemainingMs: remaining,
+    waitingMs: now - entry.enqueuedAt
+  };
+}
+
+function summarize(entries: QueueEntryView[]): QueueStats {
+  const waiting = entries.filter(entry => entry.status === 'waiting');
+  const byPriority: Record<QueuePriority, number> = { urgent: 0, high: 0, medium: 0, low: 0 };
+  for (const entry of entries) {
+    byPriority[entry.priority]++;
+  }
+
+  return {
+    waiting: waiting.length,
+    assigned: entries.length - waiting.length,
+    byPriority,
+    atRisk: entries.filter(entry => entry.slaStatus === 'at_risk').length,
+    breached: entries.filter(entry => entry.slaStatus === 'breached').length,
+    oldestWaitingMs: Math.max(0, ...waiting.map(entry => entry.waitingMs))
+  };
+}
+
+function jsonResponse(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+export function getAgentQueueStub(bindings: Partial<WorkerBindings> | undefined): DurableObjectStub | null {
+  const namespace = bindings?.AGENT_QUEUE_DO;
+  return namespace ? namespace.get(namespace.idFromName(QUEUE_NAME)) : null;
+}
+
+// Feed the queue from escalations and ticket creation; a missing binding or queue
+// outage never fails the caller
+export async function enqueueSession(bindings: Partial<WorkerBindings> | undefined, input: QueueEntryInput): Promise<void> {
+  const stub = getAgentQueueStub(bindings);
+  if (!stub) {
+    return;
+  }
+
+  try {
+    const response = await stub.fetch('https://agent-queue/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'enqueue', entry: input })
+    });
+    if (!response.ok) {
+      throw new Error(`Agent queue responded with ${response.status}`);
+    }
+  } catch (error) {
+    console.warn('Failed to enqueue session for agents:', (error as Error).message);
+  }
+}
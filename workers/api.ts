@@ -5,36 +5,46 @@ import {
   ConversationContext,
   WorkerBindings,
   ErrorResponse,
+  HealthCheck,
   validateChatMessage,
   generateMessageId,
   generateSessionId
 } from './types';
-import { SecurityManager, extractSecurityContext } from './security';
-import { MonitoringMiddleware } from './monitoring_middleware';
+import { SecurityManager, SecurityContext, extractSecurityContext } from './security';
+import { AuthResult, Principal, authenticateRequest, issueSessionToken } from './auth';
+import { TokenQuotaResult } from './token_quota';
+import { MonitoringMiddleware, RateLimitMonitor } from './monitoring_middleware';
+import { AccessControlMiddleware } from './access_control';
 import { createMonitoringSystem, Logger, MetricsCollector } from './logging';
+import { processMessageWithAI } from './chat_pipeline';
+import { CircuitBreakerRegistry } from './circuit_breaker';
+import { resolveModelChain } from './model_providers';
+import { toolRegistry } from './tool_registry';
+import { KnowledgeBase, KnowledgeDocument, validateDocumentInput } from './knowledge_base';
+import { QueuePriority, getAgentQueueStub } from './agent_queue';
+import { WorkflowService, determinePriority } from './workflow_service';
+import { listAvailableWorkflows, getWorkflowDefinition } from './workflow_definitions';
+import { WorkflowExecution } from './workflow';
+import {
+  WorkflowDefinitionStore,
+  DefinitionFormat,
+  parseWorkflowDefinition,
+  registerStoredDefinition,
+  refreshWorkflowDefinitions,
+  getRegisteredVersion
+} from './workflow_catalog';
+import { isFinished } from './workflow_store';
+import { calculateEstimatedResolution } from './ticketing_tool';
 
 export { SessionMemoryDO } from './do_memory';
-
-interface AIResponse {
-  content: string;
-  model: string;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
-
-interface ProcessingResult {
-  response: AIResponse;
-  success: boolean;
-  fallbackUsed: boolean;
-  error?: string;
-}
+export { AgentQueueDO } from './agent_queue';
+export { WorkflowStateDO } from './workflow_store';
+export { RateLimiterDO } from './rate_limiter';
 
 export default {
   async fetch(request: Request, env: WorkerBindings, ctx: ExecutionContext): Promise<Response> {
     const middleware = new MonitoringMiddleware(env);
+    const accessControl = new AccessControlMiddleware(env);
 
     return await middleware.wrapRequest(request, async (req, context) => {
       const { logger, metrics, requestId } = context;
@@ -44,7 +54,7 @@ export default {
       const corsHeaders = {
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, Idempotency-Key, X-API-Key',
       };
 
       // Handle preflight requests
@@ -52,58 +62,78 @@ export default {
         return new Response(null, { headers: corsHeaders });
       }
 
-      try {
-        // Route handling with monitoring
-        if (url.pathname === '/api/chat') {
-          return await handleChatRequest(req, env, requestId, corsHeaders, logger, metrics, middleware);
-        } else if (url.pathname === '/api/websocket') {
-          return await handleWebSocketUpgrade(req, env, requestId, logger);
-        } else if (url.pathname.startsWith('/api/session/')) {
-          return await handleSessionRequest(req, env, requestId, corsHeaders, logger, metrics, middleware);
-        } else if (url.pathname === '/api/health') {
-          const { health } = createMonitoringSystem(env, requestId);
-          const healthStatus = await health.checkHealth();
-
-          return new Response(JSON.stringify({
-            ...healthStatus,
-            requestId
-          }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          });
-        } else if (url.pathname === '/api/metrics') {
-          const exportedMetrics = await metrics.exportMetrics();
-
-          return new Response(exportedMetrics, {
-            headers: { ...corsHeaders, 'Content-Type': 'text/plain' }
-          });
-        } else if (url.pathname === '/api/alerts') {
-          const { alerts } = createMonitoringSystem(env, requestId);
-          const activeAlerts = alerts.getActiveAlerts();
-
-          return new Response(JSON.stringify({
-            alerts: activeAlerts,
+      // Operational, agent and data routes need a role; see access_control.ts
+      return await accessControl.wrapRequest(req, requestId, async (req, principal) => {
+        try {
+          // Route handling with monitoring
+          if (url.pathname === '/api/chat') {
+            return await handleChatRequest(req, env, requestId, corsHeaders, logger, metrics, middleware);
+          } else if (url.pathname === '/api/websocket') {
+            return await handleWebSocketUpgrade(req, env, requestId, corsHeaders, logger, metrics);
+          } else if (url.pathname === '/api/session') {
+            return await handleSessionCreate(req, env, requestId, corsHeaders, logger, metrics);
+          } else if (url.pathname.startsWith('/api/session/')) {
+            return await handleSessionRequest(req, env, requestId, corsHeaders, logger, metrics, middleware);
+          } else if (url.pathname === '/api/agent/queue' || url.pathname.startsWith('/api/agent/queue/')) {
+            return await handleAgentQueueRequest(req, env, principal, requestId, corsHeaders, logger, metrics);
+          } else if (url.pathname.startsWith('/api/agent/sessions/')) {
+            return await handleAgentSessionRequest(req, env, principal, requestId, corsHeaders, logger, metrics, middleware);
+          } else if (url.pathname === '/api/kb/documents' || url.pathname.startsWith('/api/kb/documents/')) {
+            return await handleKnowledgeBaseRequest(req, env, requestId, corsHeaders, logger, metrics);
+          } else if (url.pathname === '/api/workflows' || url.pathname.startsWith('/api/workflows/')) {
+            return await handleWorkflowRequest(req, env, ctx, requestId, corsHeaders, logger, metrics);
+          } else if (url.pathname === '/api/health') {
+            const { health } = createMonitoringSystem(env, requestId);
+            const healthStatus = await health.checkHealth();
+
+            const breakerCheck = await checkCircuitBreakers(env, metrics);
+            healthStatus.components.push(breakerCheck);
+            if (breakerCheck.status !== 'healthy' && healthStatus.overall === 'healthy') {
+              healthStatus.overall = 'degraded';
+            }
+
+            return new Response(JSON.stringify({
+              ...healthStatus,
+              circuitBreakers: breakerCheck.metadata,
+              requestId
+            }), {
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            });
+          } else if (url.pathname === '/api/metrics') {
+            const exportedMetrics = await metrics.exportMetrics();
+
+            return new Response(exportedMetrics, {
+              headers: { ...corsHeaders, 'Content-Type': 'text/plain' }
+            });
+          } else if (url.pathname === '/api/alerts') {
+            const { alerts } = createMonitoringSystem(env, requestId);
+            const activeAlerts = alerts.getActiveAlerts();
+
+            return new Response(JSON.stringify({
+              alerts: activeAlerts,
+              requestId,
+              timestamp: Date.now()
+            }), {
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            });
+          } else {
+            metrics.incrementCounter('requests_not_found', 1, { path: url.pathname });
+            return new Response('Not Found', {
+              status: 404,
+              headers: corsHeaders
+            });
+          }
+        } catch (error) {
+          await logger.error('API Worker error', error as Error);
+          return createErrorResponse(
+            'INTERNAL_ERROR',
+            'Internal server error',
             requestId,
-            timestamp: Date.now()
-          }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          });
-        } else {
-          metrics.incrementCounter('requests_not_found', 1, { path: url.pathname });
-          return new Response('Not Found', {
-            status: 404,
-            headers: corsHeaders
-          });
+            500,
+            corsHeaders
+          );
         }
-      } catch (error) {
-        await logger.error('API Worker error', error as Error);
-        return createErrorResponse(
-          'INTERNAL_ERROR',
-          'Internal server error',
-          requestId,
-          500,
-          corsHeaders
-        );
-      }
+      }, corsHeaders);
     });
   }
 };
@@ -142,12 +172,17 @@ async function handleChatRequest(
       );
     }
 
-    // Generate or use existing session ID
+    // Continuing a session needs its token; a request without one starts a new session
+    const auth = await authenticateRequest(request, env, body.sessionId || null);
+    if (!auth.ok) {
+      return authErrorResponse(auth, requestId, corsHeaders, metrics);
+    }
+    // A new session is only stored and signed once the request has passed the security check
     const sessionId = body.sessionId || generateSessionId();
 
     // Initialize security manager
     const securityManager = new SecurityManager(env);
-    const securityContext = extractSecurityContext(request, requestId, sessionId);
+    const securityContext = extractSecurityContext(request, requestId, sessionId, auth.principal);
 
     // Perform comprehensive security check with monitoring
     const securityCheck = await middleware.monitorSecurityCheck(
@@ -157,6 +192,7 @@ async function handleChatRequest(
       metrics,
       () => securityManager.performSecurityCheck(body.message, sessionId, securityContext)
     );
+    new RateLimitMonitor(metrics, logger).recordSessionLimits(sessionId, securityCheck.sessionLimitResult);
 
     // Block request if security check fails
     if (!securityCheck.allowed) {
@@ -169,12 +205,18 @@ async function handleChatRequest(
         false,
         {
           violations: securityCheck.violations,
-          rateLimitReset: securityCheck.rateLimitResult.resetTime,
-          remaining: securityCheck.rateLimitResult.remaining
+          // An exhausted token budget stays closed longer than the request window
+          rateLimitReset: securityCheck.tokenQuotaResult.allowed
+            ? securityCheck.rateLimitResult.resetTime
+            : securityCheck.tokenQuotaResult.tightest?.resetTime ?? securityCheck.rateLimitResult.resetTime,
+          remaining: securityCheck.rateLimitResult.remaining,
+          tokenBudget: securityCheck.tokenQuotaResult.tightest
         }
       );
     }
 
+    const newSession = body.sessionId ? null : await createSession(env, auth.principal, sessionId);
+
     // Use filtered content instead of original message
     const filteredMessage = securityCheck.filteredContent;
 
@@ -234,6 +276,50 @@ async function handleChatRequest(
       }
     );
 
+    const rateLimitHeaders = {
+      'X-RateLimit-Remaining': securityCheck.rateLimitResult.remaining.toString(),
+      'X-RateLimit-Reset': securityCheck.rateLimitResult.resetTime.toString(),
+      ...tokenBudgetHeaders(securityCheck.tokenQuotaResult)
+    };
+
+    // A human agent owns the session: the message is delivered to them and the bot stays quiet
+    if (context.handoff) {
+      metrics.incrementCounter('chat_messages_handed_off', 1);
+      return new Response(JSON.stringify({
+        message: null,
+        sessionId,
+        handedOff: true,
+        agentId: context.handoff.agentId,
+        requestId,
+        timestamp: Date.now()
+      }), {
+        status: 202,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+          ...rateLimitHeaders
+        }
+      });
+    }
+
+    // Clients that accept an event stream get tokens as they are generated
+    if ((request.headers.get('Accept') || '').includes('text/event-stream')) {
+      return streamChatResponse(
+        userMessage,
+        context,
+        doStub,
+        env,
+        requestId,
+        { ...corsHeaders, ...rateLimitHeaders },
+        securityManager,
+        securityContext,
+        newSession,
+        logger,
+        metrics,
+        middleware
+      );
+    }
+
     // Process message with AI with monitoring
     const processingResult = await processMessageWithAI(
       userMessage,
@@ -242,7 +328,10 @@ async function handleChatRequest(
       requestId,
       logger,
       metrics,
-      middleware
+      middleware,
+      undefined,
+      'chat',
+      securityContext.userId
     );
 
     if (!processingResult.success) {
@@ -256,6 +345,9 @@ async function handleChatRequest(
       );
     }
 
+    const tokenQuota = await securityManager.recordTokenUsage(securityContext, processingResult.response.usage)
+      || securityCheck.tokenQuotaResult;
+
     // Create assistant message
     const assistantMessage: ChatMessage = {
       id: generateMessageId(),
@@ -264,7 +356,7 @@ async function handleChatRequest(
       role: 'assistant',
       timestamp: Date.now(),
       metadata: {
-        toolCalls: [] // Will be populated when tools are implemented
+        toolCalls: processingResult.toolCalls
       }
     };
 
@@ -288,6 +380,7 @@ async function handleChatRequest(
     return new Response(JSON.stringify({
       message: assistantMessage,
       sessionId,
+      ...(newSession && { sessionToken: newSession.token, sessionTokenExpiresAt: newSession.expiresAt }),
       model: processingResult.response.model,
       fallbackUsed: processingResult.fallbackUsed,
       usage: processingResult.response.usage,
@@ -297,14 +390,15 @@ async function handleChatRequest(
         piiDetected: securityCheck.piiResult.hasPII,
         contentFiltered: securityCheck.contentResult.violations.length > 0,
         rateLimitRemaining: securityCheck.rateLimitResult.remaining,
-        rateLimitReset: securityCheck.rateLimitResult.resetTime
+        rateLimitReset: securityCheck.rateLimitResult.resetTime,
+        tokenBudget: tokenQuota.tightest
       }
     }), {
       headers: {
         ...corsHeaders,
         'Content-Type': 'application/json',
-        'X-RateLimit-Remaining': securityCheck.rateLimitResult.remaining.toString(),
-        'X-RateLimit-Reset': securityCheck.rateLimitResult.resetTime.toString()
+        ...rateLimitHeaders,
+        ...tokenBudgetHeaders(tokenQuota)
       }
     });
 
@@ -321,245 +415,256 @@ async function handleChatRequest(
   }
 }
 
-async function processMessageWithAI(
-  message: ChatMessage,
+function streamChatResponse(
+  userMessage: ChatMessage,
   context: ConversationContext,
+  doStub: DurableObjectStub,
   env: WorkerBindings,
   requestId: string,
+  headers: Record<string, string>,
+  securityManager: SecurityManager,
+  securityContext: SecurityContext,
+  newSession: CreatedSession | null,
   logger: Logger,
   metrics: MetricsCollector,
   middleware: MonitoringMiddleware
-): Promise<ProcessingResult> {
-  // Build conversation history for AI context
-  const messages = [
-    {
-      role: 'system',
-      content: buildSystemPrompt(context)
-    },
-    ...context.recentMessages.map(msg => ({
-      role: msg.role,
-      content: msg.content
-    })),
-    {
-      role: message.role,
-      content: message.content
-    }
-  ];
-
-  // Try primary AI model (Llama 3.1) with monitoring
-  try {
-    const primaryResult = await middleware.monitorAICall(
-      'llama-3.1-8b',
-      messages.reduce((acc, msg) => acc + msg.content.length, 0),
-      logger,
-      metrics,
-      () => callLlamaModel(messages, env, requestId)
-    );
-
-    if (primaryResult.success) {
-      return {
-        response: primaryResult.response,
-        success: true,
-        fallbackUsed: false
-      };
-    }
-  } catch (error) {
-    await logger.warn('Primary AI model failed, attempting fallback', { error: (error as Error).message });
-  }
-
-  // Try OpenAI fallback with monitoring
-  try {
-    const fallbackResult = await middleware.monitorAICall(
-      'gpt-3.5-turbo-fallback',
-      messages.reduce((acc, msg) => acc + msg.content.length, 0),
-      logger,
-      metrics,
-      () => callOpenAIFallback(messages, env, requestId)
-    );
+): Response {
+  const { sessionId } = userMessage;
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
 
-    if (fallbackResult.success) {
-      return {
-        response: fallbackResult.response,
-        success: true,
-        fallbackUsed: true
-      };
-    }
-  } catch (error) {
-    await logger.error('Fallback AI model also failed', error as Error);
-  }
+  const sendEvent = (event: string, data: unknown) =>
+    writer.write(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
 
-  // Both models failed
-  return {
-    response: {
-      content: "I'm sorry, I'm experiencing technical difficulties right now. Please try again in a moment.",
-      model: 'fallback-static'
-    },
-    success: false,
-    fallbackUsed: true,
-    error: 'All AI models unavailable'
-  };
-}
+  const pump = async () => {
+    try {
+      await sendEvent('start', {
+        sessionId,
+        ...(newSession && { sessionToken: newSession.token, sessionTokenExpiresAt: newSession.expiresAt }),
+        requestId
+      });
 
-async function callLlamaModel(
-  messages: Array<{ role: string, content: string }>,
-  env: WorkerBindings,
-  requestId: string
-): Promise<{ success: boolean, response: AIResponse }> {
-  try {
-    // Optimize model parameters for support bot use case
-    const optimizedParams = {
-      messages: optimizeMessagesForModel(messages),
-      max_tokens: calculateOptimalTokenLimit(messages, env),
-      temperature: 0.3, // Lower temperature for more consistent support responses
-      top_p: 0.9, // Nucleus sampling for better quality
-      frequency_penalty: 0.1, // Slight penalty to avoid repetition
-      presence_penalty: 0.1, // Encourage diverse responses
-      stream: false
-    };
+      const processingResult = await processMessageWithAI(
+        userMessage,
+        context,
+        env,
+        requestId,
+        logger,
+        metrics,
+        middleware,
+        {
+          delta: delta => sendEvent('delta', { content: delta }),
+          discard: () => sendEvent('discard', {})
+        },
+        'chat',
+        securityContext.userId
+      );
 
-    // Use the upgraded Llama 3.3 model for better performance
-    const response = await env.AI.run('@cf/meta/llama-3.3-70b-instruct-fp8-fast', optimizedParams) as any;
+      if (!processingResult.success) {
+        await sendEvent('error', {
+          error: {
+            code: 'AI_PROCESSING_FAILED',
+            message: processingResult.error || 'Failed to process message',
+            retryable: true
+          },
+          requestId
+        });
+        return;
+      }
 
-    if (!response || typeof response !== 'object') {
-      throw new Error('Invalid response from Llama model');
-    }
+      // Headers are already sent; the budget in the done event reflects this answer
+      const tokenQuota = await securityManager.recordTokenUsage(securityContext, processingResult.response.usage);
 
-    // Handle different response formats
-    const content = response.response || response.content || (typeof response === 'string' ? response : '');
-
-    // Post-process response for better quality
-    const processedContent = postProcessAIResponse(content);
-
-    return {
-      success: true,
-      response: {
-        content: processedContent,
-        model: 'llama-3.3-70b-fp8-fast',
-        usage: {
-          prompt_tokens: response.usage?.prompt_tokens || 0,
-          completion_tokens: response.usage?.completion_tokens || 0,
-          total_tokens: response.usage?.total_tokens || 0
+      const assistantMessage: ChatMessage = {
+        id: generateMessageId(),
+        sessionId,
+        content: processingResult.response.content,
+        role: 'assistant',
+        timestamp: Date.now(),
+        metadata: {
+          toolCalls: processingResult.toolCalls
         }
-      }
-    };
-  } catch (error) {
-    console.error('Llama model error:', error);
-    return {
-      success: false,
-      response: {
-        content: '',
-        model: 'llama-3.3-70b-fp8-fast'
-      }
-    };
-  }
-}
-
-async function callOpenAIFallback(
-  messages: Array<{ role: string, content: string }>,
-  env: WorkerBindings,
-  requestId: string
-): Promise<{ success: boolean, response: AIResponse }> {
-  try {
-    // Check if OpenAI API key is available
-    if (!env.OPENAI_API_KEY) {
-      throw new Error('OpenAI API key not configured');
-    }
+      };
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${env.OPENAI_API_KEY}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: 'gpt-3.5-turbo',
-        messages,
-        max_tokens: parseInt(env.MAX_TOKENS || '4096'),
-        temperature: 0.7
-      })
-    });
+      // Persist before signalling completion so a reload sees the full answer
+      await middleware.monitorDOOperation(
+        'addMessage',
+        sessionId,
+        logger,
+        metrics,
+        () => doStub.fetch(`https://memory-do/${sessionId}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            action: 'addMessage',
+            message: assistantMessage
+          })
+        })
+      );
 
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`);
+      await sendEvent('done', {
+        message: assistantMessage,
+        sessionId,
+        model: processingResult.response.model,
+        fallbackUsed: processingResult.fallbackUsed,
+        usage: processingResult.response.usage,
+        tokenBudget: tokenQuota?.tightest,
+        requestId,
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      await logger.error('Chat stream error', error as Error);
+      await sendEvent('error', {
+        error: {
+          code: 'CHAT_ERROR',
+          message: 'Failed to process chat request',
+          retryable: true
+        },
+        requestId
+      }).catch(() => undefined);
+    } finally {
+      await writer.close().catch(() => undefined);
     }
+  };
 
-    const data = await response.json() as any;
+  // The response is returned immediately; generation continues behind it
+  pump();
 
-    if (!data.choices || !data.choices[0] || !data.choices[0].message) {
-      throw new Error('Invalid response from OpenAI API');
+  return new Response(readable, {
+    headers: {
+      ...headers,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
     }
+  });
+}
 
-    return {
-      success: true,
-      response: {
-        content: data.choices[0].message.content,
-        model: 'gpt-3.5-turbo-fallback',
-        usage: {
-          prompt_tokens: data.usage?.prompt_tokens || 0,
-          completion_tokens: data.usage?.completion_tokens || 0,
-          total_tokens: data.usage?.total_tokens || 0
-        }
-      }
-    };
-  } catch (error) {
-    console.error('OpenAI fallback error:', error);
-    return {
-      success: false,
-      response: {
-        content: '',
-        model: 'gpt-3.5-turbo-fallback'
-      }
-    };
+async function handleWebSocketUpgrade(
+  request: Request,
+  env: WorkerBindings,
+  requestId: string,
+  corsHeaders: Record<string, string>,
+  logger: Logger,
+  metrics: MetricsCollector
+): Promise<Response> {
+  // WebSocket upgrade handling
+  const upgradeHeader = request.headers.get('Upgrade');
+  if (upgradeHeader !== 'websocket') {
+    return new Response('Expected Upgrade: websocket', { status: 426 });
   }
-}
 
-function buildSystemPrompt(context: ConversationContext): string {
-  const basePrompt = `You are an expert AI support assistant specializing in providing exceptional customer service. Your responses should be helpful, accurate, and solution-focused.
+  // Sockets join an existing session; POST /api/session issues the id and token
+  const url = new URL(request.url);
+  const sessionId = url.searchParams.get('sessionId');
+  if (!sessionId) {
+    return createErrorResponse(
+      'INVALID_SESSION_ID',
+      'Session ID is required',
+      requestId,
+      400,
+      corsHeaders
+    );
+  }
 
-CONVERSATION CONTEXT:
-- Session: ${context.sessionId}
-- Active Topics: ${context.activeTopics.join(', ') || 'General inquiry'}
-- Previous Issues Resolved: ${context.resolvedIssues.join(', ') || 'None'}
-- Summary: ${context.summary || 'Beginning new conversation'}
+  const auth = await authenticateRequest(request, env, sessionId);
+  if (!auth.ok) {
+    return authErrorResponse(auth, requestId, corsHeaders, metrics);
+  }
 
-RESPONSE GUIDELINES:
-1. TONE: Professional, empathetic, and solution-oriented
-2. STRUCTURE: Start with acknowledgment, provide clear steps, end with next actions
-3. CLARITY: Use simple language, bullet points for multiple steps
-4. PROACTIVITY: Anticipate follow-up questions and provide relevant information
-5. ESCALATION: Suggest human support for complex technical issues or billing disputes
+  await logger.info('WebSocket upgrade requested', { sessionId });
 
-RESPONSE FORMAT:
-- Keep responses under 200 words for better readability
-- Use numbered steps for procedures
-- Include relevant links or references when helpful
-- Always end with "Is there anything else I can help you with?"
+  // The session's Durable Object accepts the socket so every connection
+  // for the same session shares one realtime channel
+  const doId = env.MEMORY_DO.idFromName(sessionId);
+  const doStub = env.MEMORY_DO.get(doId);
 
-AVAILABLE TOOLS (mention when relevant):
-- Knowledge base search for detailed documentation
-- Ticket creation for complex issues requiring follow-up
-- Status checking for existing support requests
+  return await doStub.fetch(new Request(`https://memory-do/${sessionId}`, request));
+}
 
-Remember: Your goal is to resolve the customer's issue efficiently while providing an excellent support experience.`;
+interface CreatedSession {
+  sessionId: string;
+  token: string;
+  expiresAt: number;
+}
 
-  return basePrompt;
+// Starts a session for the caller and signs its token. The caller's verified user and
+// tenant are stored on the session, so archives listed by user only hold their sessions.
+async function createSession(
+  env: WorkerBindings,
+  principal: Principal,
+  sessionId: string = generateSessionId()
+): Promise<CreatedSession> {
+  if (principal.userId || principal.tenantId) {
+    const doStub = env.MEMORY_DO.get(env.MEMORY_DO.idFromName(sessionId));
+    await doStub.fetch(`https://memory-do/${sessionId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        action: 'updateSession',
+        updates: { userId: principal.userId, tenantId: principal.tenantId }
+      })
+    });
+  }
+
+  const { token, expiresAt } = await issueSessionToken(env.SESSION_TOKEN_SECRET!, {
+    sessionId,
+    userId: principal.userId,
+    tenantId: principal.tenantId
+  });
+  return { sessionId, token, expiresAt };
 }
 
-async function handleWebSocketUpgrade(
+// POST /api/session: anyone may start a session; API key callers may attach a user
+async function handleSessionCreate(
   request: Request,
   env: WorkerBindings,
   requestId: string,
-  logger: Logger
+  corsHeaders: Record<string, string>,
+  logger: Logger,
+  metrics: MetricsCollector
 ): Promise<Response> {
-  // WebSocket upgrade handling
-  const upgradeHeader = request.headers.get('Upgrade');
-  if (upgradeHeader !== 'websocket') {
-    return new Response('Expected Upgrade: websocket', { status: 426 });
+  if (request.method !== 'POST') {
+    return new Response('Method not allowed', {
+      status: 405,
+      headers: corsHeaders
+    });
+  }
+
+  const auth = await authenticateRequest(request, env, null);
+  if (!auth.ok) {
+    return authErrorResponse(auth, requestId, corsHeaders, metrics);
   }
 
-  // For now, return a placeholder response
-  // Full WebSocket implementation will be added in task 7
-  return new Response('WebSocket upgrade not yet implemented', { status: 501 });
+  try {
+    const session = await createSession(env, auth.principal);
+    metrics.incrementCounter('sessions_created', 1, { auth: auth.principal.kind });
+    await logger.info('Session created', { sessionId: session.sessionId, auth: auth.principal.kind });
+
+    return new Response(JSON.stringify({
+      sessionId: session.sessionId,
+      token: session.token,
+      expiresAt: session.expiresAt,
+      userId: auth.principal.userId,
+      status: 'active',
+      requestId,
+      timestamp: Date.now()
+    }), {
+      status: 201,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    await logger.error('Session creation error', error as Error);
+    return createErrorResponse(
+      'SESSION_ERROR',
+      'Failed to create session',
+      requestId,
+      500,
+      corsHeaders,
+      true
+    );
+  }
 }
 
 async function handleSessionRequest(
@@ -585,6 +690,11 @@ async function handleSessionRequest(
     );
   }
 
+  const auth = await authenticateRequest(request, env, sessionId);
+  if (!auth.ok) {
+    return authErrorResponse(auth, requestId, corsHeaders, metrics);
+  }
+
   try {
     const doId = env.MEMORY_DO.idFromName(sessionId);
     const doStub = env.MEMORY_DO.get(doId);
@@ -647,64 +757,755 @@ async function handleSessionRequest(
   }
 }
 
-// AI optimization helper functions
-function optimizeMessagesForModel(messages: Array<{ role: string, content: string }>): Array<{ role: string, content: string }> {
-  // Optimize message history for better model performance
-  const optimized = messages.map(msg => ({
-    ...msg,
-    content: msg.content.trim().slice(0, 2000) // Limit message length
-  }));
-
-  // Keep only recent messages to stay within context window
-  const maxMessages = 15;
-  if (optimized.length > maxMessages) {
-    // Keep system message and recent messages
-    const systemMessages = optimized.filter(m => m.role === 'system');
-    const otherMessages = optimized.filter(m => m.role !== 'system').slice(-maxMessages + systemMessages.length);
-    return [...systemMessages, ...otherMessages];
+type AgentIdentity = { ok: true; agentId: string } | { ok: false; message: string };
+
+// Agents act as the user their API key was issued for. A request may still name the
+// agent, but only as that same agent.
+function identifyAgent(principal: Principal | null, claimedAgentId: unknown): AgentIdentity {
+  const agentId = principal?.kind === 'api_key' ? principal.userId : undefined;
+  if (!agentId) {
+    return { ok: false, message: 'API key is not issued to an agent' };
+  }
+  if (claimedAgentId !== undefined && claimedAgentId !== null && claimedAgentId !== agentId) {
+    return { ok: false, message: 'agentId does not match the authenticated agent' };
+  }
+  return { ok: true, agentId };
+}
+
+// Human agent takeover of a session, as the agent the API key was issued for:
+//   GET  /api/agent/sessions/{id}            handoff summary, session state and history
+//   POST /api/agent/sessions/{id}/claim      mutes the bot
+//   POST /api/agent/sessions/{id}/messages   { content } replies as role 'agent'
+//   POST /api/agent/sessions/{id}/release    hands the session back to the bot
+//   GET  /api/agent/sessions/{id}/websocket  live channel shared with the customer
+async function handleAgentSessionRequest(
+  request: Request,
+  env: WorkerBindings,
+  principal: Principal | null,
+  requestId: string,
+  corsHeaders: Record<string, string>,
+  logger: Logger,
+  metrics: MetricsCollector,
+  middleware: MonitoringMiddleware
+): Promise<Response> {
+  const url = new URL(request.url);
+  const [sessionId, action = ''] = url.pathname.split('/').slice(4);
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+  if (!sessionId) {
+    return createErrorResponse('INVALID_SESSION_ID', 'Session ID is required', requestId, 400, corsHeaders);
+  }
+
+  const doStub = env.MEMORY_DO.get(env.MEMORY_DO.idFromName(sessionId));
+
+  try {
+    if (action === 'websocket') {
+      if (request.headers.get('Upgrade') !== 'websocket') {
+        return new Response('Expected Upgrade: websocket', { status: 426 });
+      }
+      const agent = identifyAgent(principal, url.searchParams.get('agentId') ?? undefined);
+      if (!agent.ok) {
+        return createErrorResponse('ACCESS_DENIED', agent.message, requestId, 403, corsHeaders);
+      }
+      const { agentId } = agent;
+
+      await logger.info('Agent WebSocket upgrade requested', { sessionId, agentId });
+      return await doStub.fetch(new Request(
+        `https://memory-do/${sessionId}?agentId=${encodeURIComponent(agentId)}`,
+        request
+      ));
+    }
+
+    if (action === '' && request.method === 'GET') {
+      const view = await middleware.monitorDOOperation(
+        'getHandoff',
+        sessionId,
+        logger,
+        metrics,
+        async () => {
+          const response = await doStub.fetch(`https://memory-do/${sessionId}?action=handoff&limit=${url.searchParams.get('limit') || '50'}`);
+          return await response.json();
+        }
+      );
+
+      return new Response(JSON.stringify({
+        ...(view as object),
+        requestId,
+        timestamp: Date.now()
+      }), {
+        headers: jsonHeaders
+      });
+    }
+
+    const doActions: Record<string, string> = {
+      claim: 'claimSession',
+      messages: 'addAgentMessage',
+      release: 'releaseSession'
+    };
+    if (!doActions[action] || request.method !== 'POST') {
+      return new Response('Method not allowed', {
+        status: 405,
+        headers: corsHeaders
+      });
+    }
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return createErrorResponse('INVALID_INPUT', 'Request body must be JSON', requestId, 400, corsHeaders);
+    }
+    const agent = identifyAgent(principal, body?.agentId);
+    if (!agent.ok) {
+      return createErrorResponse('ACCESS_DENIED', agent.message, requestId, 403, corsHeaders);
+    }
+    const { agentId } = agent;
+
+    const response = await middleware.monitorDOOperation(
+      doActions[action]!,
+      sessionId,
+      logger,
+      metrics,
+      () => doStub.fetch(`https://memory-do/${sessionId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: doActions[action],
+          agentId,
+          content: body?.content
+        })
+      })
+    );
+    const result = await response.json() as any;
+
+    if (!response.ok) {
+      return createErrorResponse(result.error.code, result.error.message, requestId, response.status, corsHeaders);
+    }
+
+    metrics.incrementCounter(`agent_${action}`, 1);
+    if (action !== 'messages') {
+      await logger.info(`Agent ${action === 'claim' ? 'claimed' : 'released'} session`, { sessionId, agentId });
+      await syncAgentQueue(env, action === 'claim'
+        ? { action: 'assign', sessionId, agentId, force: true }
+        : { action: 'remove', sessionId }, logger);
+    }
+
+    return new Response(JSON.stringify({
+      ...result,
+      requestId,
+      timestamp: Date.now()
+    }), {
+      status: action === 'messages' ? 201 : 200,
+      headers: jsonHeaders
+    });
+  } catch (error) {
+    await logger.error('Agent session request error', error as Error);
+    return createErrorResponse(
+      'SESSION_ERROR',
+      'Failed to handle agent session request',
+      requestId,
+      500,
+      corsHeaders,
+      true
+    );
+  }
+}
+
+// Keep the queue in line with claims and releases; the session itself is the source of truth
+async function syncAgentQueue(env: WorkerBindings, update: Record<string, any>, logger: Logger): Promise<void> {
+  const queue = getAgentQueueStub(env);
+  if (!queue) {
+    return;
   }
 
-  return optimized;
+  try {
+    await queue.fetch('https://agent-queue/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(update)
+    });
+  } catch (error) {
+    await logger.warn('Failed to update agent queue', { ...update, error: (error as Error).message });
+  }
+}
+
+// Sessions waiting for a human agent:
+//   GET    /api/agent/queue?status=&agentId=   entries by priority and SLA deadline, plus backlog stats
+//   POST   /api/agent/queue                    { sessionId, title?, description?, priority? } queues a session
+//   POST   /api/agent/queue/{sessionId}/assign assigns the session to the calling agent
+//   DELETE /api/agent/queue/{sessionId}        removes a handled session
+async function handleAgentQueueRequest(
+  request: Request,
+  env: WorkerBindings,
+  principal: Principal | null,
+  requestId: string,
+  corsHeaders: Record<string, string>,
+  logger: Logger,
+  metrics: MetricsCollector
+): Promise<Response> {
+  const queue = getAgentQueueStub(env);
+  if (!queue) {
+    return createErrorResponse('QUEUE_UNAVAILABLE', 'Agent queue is not configured', requestId, 503, corsHeaders);
+  }
+
+  const url = new URL(request.url);
+  const [sessionId, action = ''] = url.pathname.split('/').slice(4);
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+  const respond = async (queueResponse: Response, status?: number) => {
+    const result = await queueResponse.json() as any;
+    if (!queueResponse.ok) {
+      return createErrorResponse(result.error.code, result.error.message, requestId, queueResponse.status, corsHeaders);
+    }
+    return new Response(JSON.stringify({ ...result, requestId, timestamp: Date.now() }), {
+      status: status || 200,
+      headers: jsonHeaders
+    });
+  };
+  const post = (body: Record<string, any>) => queue.fetch('https://agent-queue/', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  try {
+    if (!sessionId && request.method === 'GET') {
+      const response = await queue.fetch(`https://agent-queue/${url.search}`);
+      return await respond(response);
+    }
+
+    if (!sessionId && request.method === 'POST') {
+      let body: any;
+      try {
+        body = await request.json();
+      } catch {
+        return createErrorResponse('INVALID_INPUT', 'Request body must be JSON', requestId, 400, corsHeaders);
+      }
+      if (!body?.sessionId || typeof body.sessionId !== 'string') {
+        return createErrorResponse('INVALID_INPUT', 'sessionId is required', requestId, 400, corsHeaders);
+      }
+      if (body.priority && !['low', 'medium', 'high', 'urgent'].includes(body.priority)) {
+        return createErrorResponse('INVALID_INPUT', 'Invalid priority: must be low, medium, high, or urgent', requestId, 400, corsHeaders);
+      }
+
+      const priority: QueuePriority = body.priority || determinePriority(`${body.title || ''} ${body.description || ''}`);
+      const response = await post({
+        action: 'enqueue',
+        entry: {
+          sessionId: body.sessionId,
+          reason: 'manual',
+          priority,
+          slaDeadline: calculateEstimatedResolution(priority, new Date()).getTime(),
+          title: body.title,
+          userId: body.userId
+        }
+      });
+      metrics.incrementCounter('agent_queue_enqueued', 1, { reason: 'manual' });
+      return await respond(response, 201);
+    }
+
+    if (sessionId && action === 'assign' && request.method === 'POST') {
+      const body = await request.json().catch(() => null) as any;
+      const agent = identifyAgent(principal, body?.agentId);
+      if (!agent.ok) {
+        return createErrorResponse('ACCESS_DENIED', agent.message, requestId, 403, corsHeaders);
+      }
+
+      const response = await post({ action: 'assign', sessionId, agentId: agent.agentId });
+      if (response.ok) {
+        await logger.info('Queued session assigned', { sessionId, agentId: agent.agentId });
+      }
+      return await respond(response);
+    }
+
+    if (sessionId && !action && request.method === 'DELETE') {
+      return await respond(await post({ action: 'remove', sessionId }));
+    }
+
+    return new Response('Method not allowed', {
+      status: 405,
+      headers: corsHeaders
+    });
+  } catch (error) {
+    await logger.error('Agent queue request error', error as Error);
+    return createErrorResponse(
+      'QUEUE_ERROR',
+      'Failed to handle agent queue request',
+      requestId,
+      500,
+      corsHeaders,
+      true
+    );
+  }
 }
 
-function calculateOptimalTokenLimit(messages: Array<{ role: string, content: string }>, env: WorkerBindings): number {
-  // Calculate optimal token limit based on input length
-  const totalInputLength = messages.reduce((sum, msg) => sum + msg.content.length, 0);
-  const estimatedInputTokens = Math.ceil(totalInputLength / 4); // Rough estimation: 4 chars per token
+// Workflow definitions and executions:
+//   GET  /api/workflows                                  registered workflow definitions
+//   POST /api/workflows/{workflowId}/executions          { sessionId, input?, idempotencyKey? } starts an execution
+//   GET  /api/workflows/executions/{executionId}         status with per-step timings
+//   POST /api/workflows/executions/{executionId}/cancel  stops a running execution and compensates it
+//   POST /api/workflows/executions/{executionId}/replay  runs a failed execution again from its failed steps
+//   /api/workflows/definitions/...                       authored definitions, see handleWorkflowDefinitionRequest
+// Executions run after the response is sent; poll the status route for progress
+async function handleWorkflowRequest(
+  request: Request,
+  env: WorkerBindings,
+  ctx: ExecutionContext,
+  requestId: string,
+  corsHeaders: Record<string, string>,
+  logger: Logger,
+  metrics: MetricsCollector
+): Promise<Response> {
+  const url = new URL(request.url);
+  const [first, second, action = ''] = url.pathname.split('/').slice(3);
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+  const respond = (data: Record<string, any>, status: number = 200) => new Response(JSON.stringify({
+    ...data,
+    requestId,
+    timestamp: Date.now()
+  }), {
+    status,
+    headers: jsonHeaders
+  });
 
-  const maxTokens = parseInt(env.MAX_TOKENS || '4096');
-  const contextWindow = 8192; // Llama 3.3 context window
+  await refreshWorkflowDefinitions(env);
+  if (first === 'definitions') {
+    return await handleWorkflowDefinitionRequest(request, env, url.pathname.split('/').slice(4), requestId, corsHeaders, logger, metrics);
+  }
 
-  // Reserve space for input tokens and some buffer
-  const availableTokens = contextWindow - estimatedInputTokens - 100;
+  if (!first && request.method === 'GET') {
+    return respond({
+      workflows: listAvailableWorkflows().map(definition => ({
+        id: definition.id,
+        name: definition.name,
+        description: definition.description,
+        // Set when the definition was uploaded rather than built in
+        version: getRegisteredVersion(definition.id),
+        timeout: definition.timeout,
+        steps: definition.steps.map(step => ({ id: step.id, name: step.name, dependsOn: step.dependsOn }))
+      }))
+    });
+  }
+
+  // Without the Durable Object, executions live in the memory of a single request
+  if (!env.WORKFLOW_STATE_DO) {
+    return createErrorResponse('WORKFLOW_STATE_UNAVAILABLE', 'Workflow execution state is not configured', requestId, 503, corsHeaders);
+  }
 
-  return Math.min(maxTokens, Math.max(512, availableTokens));
+  const service = new WorkflowService(env);
+  // Failures are recorded on the execution; the status route reports them
+  const runInBackground = (completion: Promise<unknown>, executionId: string) => {
+    ctx.waitUntil(completion.catch(error => logger.warn('Workflow execution failed', {
+      executionId,
+      error: error instanceof Error ? error.message : String(error)
+    })));
+  };
+
+  try {
+    if (first && first !== 'executions' && second === 'executions' && !action && request.method === 'POST') {
+      if (!getWorkflowDefinition(first)) {
+        return createErrorResponse('WORKFLOW_NOT_FOUND', `Workflow ${first} not found`, requestId, 404, corsHeaders);
+      }
+
+      let body: any;
+      try {
+        body = await request.json();
+      } catch {
+        return createErrorResponse('INVALID_INPUT', 'Request body must be JSON', requestId, 400, corsHeaders);
+      }
+      if (!body?.sessionId || typeof body.sessionId !== 'string') {
+        return createErrorResponse('INVALID_INPUT', 'sessionId is required', requestId, 400, corsHeaders);
+      }
+      if (body.input !== undefined && (typeof body.input !== 'object' || body.input === null || Array.isArray(body.input))) {
+        return createErrorResponse('INVALID_INPUT', 'input must be an object', requestId, 400, corsHeaders);
+      }
+
+      const idempotencyKey = request.headers.get('Idempotency-Key') || body.idempotencyKey;
+      if (idempotencyKey !== undefined && (typeof idempotencyKey !== 'string' || !idempotencyKey)) {
+        return createErrorResponse('INVALID_INPUT', 'idempotencyKey must be a non-empty string', requestId, 400, corsHeaders);
+      }
+
+      const context: ConversationContext = {
+        sessionId: body.sessionId,
+        summary: '',
+        recentMessages: [],
+        activeTopics: [],
+        resolvedIssues: []
+      };
+      const run = await service.startWorkflowById(
+        first,
+        context,
+        body.input || {},
+        idempotencyKey && `api_${first}_${idempotencyKey}`
+      );
+      runInBackground(run.completion, run.executionId);
+
+      metrics.incrementCounter('workflow_executions_started', 1, { workflowId: first });
+      await logger.info('Workflow execution started', { workflowId: first, executionId: run.executionId, sessionId: body.sessionId });
+      return respond({
+        executionId: run.executionId,
+        workflowId: first,
+        statusUrl: `/api/workflows/executions/${run.executionId}`
+      }, 202);
+    }
+
+    if (first === 'executions' && second) {
+      const execution = await service.getExecution(second);
+      if (!execution) {
+        return createErrorResponse('EXECUTION_NOT_FOUND', `Workflow execution ${second} not found`, requestId, 404, corsHeaders);
+      }
+
+      if (!action && request.method === 'GET') {
+        return respond({ execution: toExecutionStatus(execution) });
+      }
+
+      if (action === 'cancel' && request.method === 'POST') {
+        if (isFinished(execution)) {
+          return createErrorResponse('EXECUTION_FINISHED', `Workflow execution ${second} is already ${execution.status}`, requestId, 409, corsHeaders);
+        }
+
+        const cancelled = await service.cancelExecution(second);
+        metrics.incrementCounter('workflow_executions_cancelled', 1, { workflowId: execution.workflowId });
+        await logger.info('Workflow execution cancelled', { executionId: second, status: cancelled.status });
+        // Another isolate may still be driving the execution; it stops at its next step
+        return respond({ execution: toExecutionStatus(cancelled) }, isFinished(cancelled) ? 200 : 202);
+      }
+
+      if (action === 'replay' && request.method === 'POST') {
+        if (execution.status !== 'failed' && execution.status !== 'compensated') {
+          return createErrorResponse('EXECUTION_NOT_REPLAYABLE', `Workflow execution ${second} is ${execution.status}; only failed executions can be replayed`, requestId, 409, corsHeaders);
+        }
+
+        // Two replays of the same execution both pass the check above; only one claims it
+        const run = await service.replayExecution(second);
+        if (!run) {
+          return createErrorResponse('EXECUTION_NOT_REPLAYABLE', `Workflow execution ${second} is already being replayed`, requestId, 409, corsHeaders);
+        }
+        runInBackground(run.completion, second);
+
+        metrics.incrementCounter('workflow_executions_replayed', 1, { workflowId: execution.workflowId });
+        await logger.info('Workflow execution replayed', { executionId: second });
+        return respond({
+          executionId: second,
+          workflowId: execution.workflowId,
+          statusUrl: `/api/workflows/executions/${second}`
+        }, 202);
+      }
+    }
+
+    return new Response('Method not allowed', {
+      status: 405,
+      headers: corsHeaders
+    });
+  } catch (error) {
+    await logger.error('Workflow request error', error as Error);
+    return createErrorResponse(
+      'WORKFLOW_ERROR',
+      'Failed to handle workflow request',
+      requestId,
+      500,
+      corsHeaders,
+      true
+    );
+  }
 }
 
-function postProcessAIResponse(content: string): string {
-  // Clean up and optimize AI response
-  let processed = content.trim();
+// Workflow definitions authored as JSON or YAML (Content-Type application/json or application/yaml):
+//   POST /api/workflows/definitions/validate                     checks a definition without storing it
+//   POST /api/workflows/definitions                              stores a new version, activates and registers it
+//   GET  /api/workflows/definitions/{workflowId}                 stored versions and the active one
+//   GET  /api/workflows/definitions/{workflowId}/versions/{n}    a stored version with its source
+//   POST /api/workflows/definitions/{workflowId}/versions/{n}/activate  rolls forward or back to version n
+async function handleWorkflowDefinitionRequest(
+  request: Request,
+  env: WorkerBindings,
+  path: string[],
+  requestId: string,
+  corsHeaders: Record<string, string>,
+  logger: Logger,
+  metrics: MetricsCollector
+): Promise<Response> {
+  const [workflowId, versions, versionParam, action] = path;
+  const store = new WorkflowDefinitionStore(env.CHAT_KV);
+  const respond = (data: Record<string, any>, status: number = 200) => new Response(JSON.stringify({
+    ...data,
+    requestId,
+    timestamp: Date.now()
+  }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+  try {
+    if ((!workflowId || workflowId === 'validate') && !versions && request.method === 'POST') {
+      const format: DefinitionFormat = (request.headers.get('Content-Type') || '').includes('yaml') ? 'yaml' : 'json';
+      const source = await request.text();
+      const { definition, errors } = parseWorkflowDefinition(source, format, new WorkflowService(env).getStepHandlerNames());
+      if (!definition) {
+        return createErrorResponse('INVALID_WORKFLOW_DEFINITION', 'Workflow definition is invalid', requestId, 400, corsHeaders, false, {
+          errors
+        });
+      }
+
+      if (workflowId === 'validate') {
+        return respond({ valid: true, definition });
+      }
 
-  // Remove any potential prompt injection artifacts
-  processed = processed.replace(/^(Assistant:|AI:|Bot:)\s*/i, '');
+      const stored = await store.save(definition, source, format);
+      registerStoredDefinition(stored);
 
-  // Ensure proper sentence endings
-  if (processed && !processed.match(/[.!?]$/)) {
-    processed += '.';
+      metrics.incrementCounter('workflow_definitions_uploaded', 1, { workflowId: definition.id });
+      await logger.info('Workflow definition uploaded', { workflowId: definition.id, version: stored.version, format });
+      return respond({ workflowId: definition.id, version: stored.version, definition }, 201);
+    }
+
+    if (workflowId && !versions && request.method === 'GET') {
+      const stored = await store.getVersions(workflowId);
+      if (!stored) {
+        return createErrorResponse('WORKFLOW_NOT_FOUND', `No uploaded definition for workflow ${workflowId}`, requestId, 404, corsHeaders);
+      }
+      return respond(stored);
+    }
+
+    const version = Number(versionParam);
+    if (workflowId && versions === 'versions' && Number.isInteger(version) && version > 0) {
+      if (!action && request.method === 'GET') {
+        const stored = await store.get(workflowId, version);
+        if (!stored) {
+          return createErrorResponse('VERSION_NOT_FOUND', `Workflow ${workflowId} has no version ${version}`, requestId, 404, corsHeaders);
+        }
+        return respond({ definition: stored });
+      }
+
+      if (action === 'activate' && request.method === 'POST') {
+        const stored = await store.activate(workflowId, version);
+        if (!stored) {
+          return createErrorResponse('VERSION_NOT_FOUND', `Workflow ${workflowId} has no version ${version}`, requestId, 404, corsHeaders);
+        }
+        registerStoredDefinition(stored);
+
+        metrics.incrementCounter('workflow_definitions_activated', 1, { workflowId });
+        await logger.info('Workflow definition activated', { workflowId, version });
+        return respond({ workflowId, activeVersion: version });
+      }
+    }
+
+    return new Response('Method not allowed', {
+      status: 405,
+      headers: corsHeaders
+    });
+  } catch (error) {
+    await logger.error('Workflow definition request error', error as Error);
+    return createErrorResponse(
+      'WORKFLOW_DEFINITION_ERROR',
+      'Failed to handle workflow definition request',
+      requestId,
+      500,
+      corsHeaders,
+      true
+    );
   }
+}
+
+// Execution state for API clients; the context stays internal
+function toExecutionStatus(execution: WorkflowExecution): Record<string, any> {
+  const duration = (start?: number, end?: number) => start === undefined ? undefined : (end ?? Date.now()) - start;
+
+  return {
+    id: execution.id,
+    workflowId: execution.workflowId,
+    sessionId: execution.sessionId,
+    status: execution.status,
+    idempotencyKey: execution.idempotencyKey,
+    startedAt: execution.startedAt,
+    replayedAt: execution.replayedAt,
+    updatedAt: execution.updatedAt,
+    completedAt: execution.completedAt,
+    durationMs: duration(execution.startedAt, execution.completedAt),
+    error: execution.error,
+    timedOut: execution.timedOut,
+    cancelRequested: execution.cancelRequested,
+    result: execution.status === 'completed' ? execution.steps[execution.steps.length - 1]?.output : undefined,
+    steps: execution.steps.map(step => ({
+      id: step.id,
+      name: step.name,
+      status: step.status,
+      startedAt: step.executedAt,
+      completedAt: step.completedAt,
+      durationMs: duration(step.executedAt, step.completedAt),
+      retryCount: step.retryCount,
+      error: step.error,
+      compensation: step.compensation
+    }))
+  };
+}
+
+const MAX_DOCUMENTS_PER_REQUEST = 20;
+
+// POST /api/kb/documents ingests one document or { documents: [...] };
+// GET and DELETE /api/kb/documents/{id} read or remove a single document
+async function handleKnowledgeBaseRequest(
+  request: Request,
+  env: WorkerBindings,
+  requestId: string,
+  corsHeaders: Record<string, string>,
+  logger: Logger,
+  metrics: MetricsCollector
+): Promise<Response> {
+  const url = new URL(request.url);
+  const documentId = url.pathname.split('/')[4];
+  const knowledgeBase = new KnowledgeBase(env);
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+  try {
+    if (!documentId && request.method === 'POST') {
+      let body: any;
+      try {
+        body = await request.json();
+      } catch {
+        return createErrorResponse('INVALID_INPUT', 'Request body must be JSON', requestId, 400, corsHeaders);
+      }
+
+      const inputs: any[] = Array.isArray(body?.documents) ? body.documents : [body];
+      if (inputs.length === 0 || inputs.length > MAX_DOCUMENTS_PER_REQUEST) {
+        return createErrorResponse(
+          'INVALID_INPUT',
+          `Between 1 and ${MAX_DOCUMENTS_PER_REQUEST} documents can be ingested per request`,
+          requestId,
+          400,
+          corsHeaders
+        );
+      }
+
+      // Reject the whole batch before ingesting anything
+      const invalid = inputs
+        .map((input, index) => ({ index, errors: validateDocumentInput(input) }))
+        .filter(result => result.errors.length > 0);
+      if (invalid.length > 0) {
+        return createErrorResponse('INVALID_DOCUMENT', 'One or more documents are invalid', requestId, 400, corsHeaders, false, {
+          documents: invalid
+        });
+      }
+
+      const ingested: KnowledgeDocument[] = [];
+      for (const input of inputs) {
+        ingested.push(await knowledgeBase.ingest(input));
+      }
 
-  // Limit response length for better UX
-  if (processed.length > 1000) {
-    const sentences = processed.split(/[.!?]+/);
-    let truncated = '';
-    for (const sentence of sentences) {
-      if ((truncated + sentence).length > 800) break;
-      truncated += sentence + '.';
+      const chunkCount = ingested.reduce((sum, doc) => sum + doc.chunks.length, 0);
+      metrics.incrementCounter('kb_documents_ingested', ingested.length);
+      metrics.incrementCounter('kb_chunks_ingested', chunkCount);
+      await logger.info('Knowledge base documents ingested', {
+        documents: ingested.map(doc => doc.id),
+        chunks: chunkCount
+      });
+
+      return new Response(JSON.stringify({
+        documents: ingested.map(doc => ({
+          id: doc.id,
+          title: doc.title,
+          format: doc.format,
+          chunks: doc.chunks.length,
+          embedded: doc.embedded
+        })),
+        requestId,
+        timestamp: Date.now()
+      }), {
+        status: 201,
+        headers: jsonHeaders
+      });
     }
-    processed = truncated || processed.slice(0, 800) + '...';
+
+    if (documentId && request.method === 'GET') {
+      const document = await knowledgeBase.getDocument(documentId);
+      if (!document) {
+        return createErrorResponse('DOCUMENT_NOT_FOUND', `Document ${documentId} not found`, requestId, 404, corsHeaders);
+      }
+
+      return new Response(JSON.stringify({
+        ...document,
+        chunks: document.chunks.map(({ embedding, ...chunk }) => chunk),
+        requestId,
+        timestamp: Date.now()
+      }), {
+        headers: jsonHeaders
+      });
+    }
+
+    if (documentId && request.method === 'DELETE') {
+      if (!await knowledgeBase.deleteDocument(documentId)) {
+        return createErrorResponse('DOCUMENT_NOT_FOUND', `Document ${documentId} not found`, requestId, 404, corsHeaders);
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        id: documentId,
+        requestId,
+        timestamp: Date.now()
+      }), {
+        headers: jsonHeaders
+      });
+    }
+
+    return new Response('Method not allowed', {
+      status: 405,
+      headers: corsHeaders
+    });
+  } catch (error) {
+    await logger.error('Knowledge base request error', error as Error);
+    return createErrorResponse(
+      'KB_ERROR',
+      'Failed to handle knowledge base request',
+      requestId,
+      500,
+      corsHeaders,
+      true
+    );
   }
+}
+
+// Report every model provider and tool breaker; open breakers degrade health
+async function checkCircuitBreakers(env: WorkerBindings, metrics: MetricsCollector): Promise<HealthCheck> {
+  const providerNames = ['chat', 'websocket']
+    .flatMap(route => resolveModelChain(route, env))
+    .map(provider => `model:${provider.name}`);
+  const toolNames = toolRegistry.getAvailableTools().map(tool => `tool:${tool.name}`);
+  const names = Array.from(new Set([...providerNames, ...toolNames]));
+
+  const states = await new CircuitBreakerRegistry(env, metrics).getStates(names);
+  const openBreakers = names.filter(name => states[name]!.state === 'open');
+
+  return {
+    component: 'circuit_breakers',
+    status: openBreakers.length > 0 ? 'degraded' : 'healthy',
+    timestamp: Date.now(),
+    metadata: states,
+    ...(openBreakers.length > 0 ? { error: `Open circuits: ${openBreakers.join(', ')}` } : {})
+  };
+}
 
-  return processed;
+// Remaining-budget headers for the tightest token budget, e.g. X-TokenBudget-Scope: user/day
+function tokenBudgetHeaders(quota: TokenQuotaResult): Record<string, string> {
+  const budget = quota.tightest;
+  if (!budget) {
+    return {};
+  }
+  return {
+    'X-TokenBudget-Limit': budget.limit.toString(),
+    'X-TokenBudget-Remaining': budget.remaining.toString(),
+    'X-TokenBudget-Reset': budget.resetTime.toString(),
+    'X-TokenBudget-Scope': `${budget.scope}/${budget.window}`
+  };
+}
+
+function authErrorResponse(
+  auth: Extract<AuthResult, { ok: false }>,
+  requestId: string,
+  corsHeaders: Record<string, string>,
+  metrics: MetricsCollector
+): Response {
+  metrics.incrementCounter('auth_failures', 1, { code: auth.code });
+  return createErrorResponse(auth.code, auth.message, requestId, auth.status, corsHeaders);
 }
 
 function createErrorResponse(
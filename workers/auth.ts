@@ -0,0 +1,262 @@
+// Authentication for the chat API: every session gets an HMAC-signed token (a JWT, HS256)
+// when it is created, and server-to-server integrations present an API key instead
+import { WorkerBindings } from './types';
+
+// Claims carried by a session token; times are in seconds like any JWT
+export interface SessionTokenClaims {
+  sid: string;
+  // Verified user and tenant the session was created for
+  sub?: string;
+  tid?: string;
+  iat: number;
+  exp: number;
+}
+
+// What a caller may do beyond its own chat session; see access_control.ts
+export type Role = 'end_user' | 'agent' | 'admin' | 'service';
+
+export const ROLES: Role[] = ['end_user', 'agent', 'admin', 'service'];
+
+export interface ApiKeyConfig {
+  name: string;
+  // Hex SHA-256 of the key; the key itself is never configured
+  keyHash: string;
+  // Pins every request made with the key to this tenant; the key reaches only that tenant's sessions
+  tenantId?: string;
+  // The user the key acts for; callers cannot name another
+  userId?: string;
+  // Defaults to ['service']
+  roles?: Role[];
+}
+
+export interface Principal {
+  // 'anonymous' callers may only start a new session
+  kind: 'anonymous' | 'session' | 'api_key';
+  roles: Role[];
+  // The session a token was issued for
+  sessionId?: string;
+  userId?: string;
+  tenantId?: string;
+  keyName?: string;
+}
+
+export type AuthResult =
+  | { ok: true; principal: Principal }
+  | { ok: false; status: 401 | 403 | 503; code: string; message: string };
+
+export interface IssuedSessionToken {
+  token: string;
+  expiresAt: number;
+}
+
+export const SESSION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+const encoder = new TextEncoder();
+const TOKEN_HEADER = base64UrlEncode(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+
+export async function issueSessionToken(
+  secret: string,
+  subject: { sessionId: string; userId?: string; tenantId?: string },
+  now: number = Date.now()
+): Promise<IssuedSessionToken> {
+  const expiresAt = now + SESSION_TOKEN_TTL_MS;
+  const claims: SessionTokenClaims = {
+    sid: subject.sessionId,
+    sub: subject.userId,
+    tid: subject.tenantId,
+    iat: Math.floor(now / 1000),
+    exp: Math.floor(expiresAt / 1000)
+  };
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify(claims)));
+  const key = await signingKey(secret, 'sign');
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${TOKEN_HEADER}.${payload}`));
+  return { token: `${TOKEN_HEADER}.${payload}.${base64UrlEncode(new Uint8Array(signature))}`, expiresAt };
+}
+
+export async function verifySessionToken(
+  secret: string,
+  token: string,
+  now: number = Date.now()
+): Promise<{ valid: true; claims: SessionTokenClaims } | { valid: false; expired: boolean }> {
+  const [header, payload, signature, ...rest] = token.split('.');
+  // Only the header we issue is accepted, so tokens cannot switch to another algorithm
+  if (header !== TOKEN_HEADER || !payload || !signature || rest.length > 0) {
+    return { valid: false, expired: false };
+  }
+
+  try {
+    const key = await signingKey(secret, 'verify');
+    const verified = await crypto.subtle.verify('HMAC', key, base64UrlDecode(signature), encoder.encode(`${header}.${payload}`));
+    if (!verified) {
+      return { valid: false, expired: false };
+    }
+    const claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload)));
+    if (!claims || typeof claims.sid !== 'string' || typeof claims.exp !== 'number') {
+      return { valid: false, expired: false };
+    }
+    if (claims.exp * 1000 <= now) {
+      return { valid: false, expired: true };
+    }
+    return { valid: true, claims };
+  } catch {
+    return { valid: false, expired: false };
+  }
+}
+
+export function parseApiKeys(raw: string | undefined): ApiKeyConfig[] {
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.filter(key => key && typeof key.name === 'string' && typeof key.keyHash === 'string'
+        && (key.roles === undefined || (Array.isArray(key.roles) && key.roles.every((role: any) => ROLES.includes(role)))))
+      : [];
+  } catch {
+    console.error('API_KEYS is not valid JSON; API key authentication is disabled');
+    return [];
+  }
+}
+
+// Identifies the caller. sessionId is null when the request starts a new session,
+// which anyone may do; every other request needs that session's token or an API key.
+export async function authenticateRequest(
+  request: Request,
+  bindings: WorkerBindings,
+  sessionId: string | null
+): Promise<AuthResult> {
+  // Without the secret no session could be issued a token or have one checked
+  if (!bindings.SESSION_TOKEN_SECRET) {
+    return { ok: false, status: 503, code: 'AUTH_NOT_CONFIGURED', message: 'Session authentication is not configured' };
+  }
+
+  const apiKey = request.headers.get('X-API-Key');
+  if (apiKey) {
+    const result = await authenticateApiKey(bindings, apiKey);
+    if (!result.ok || sessionId === null || await apiKeyOwnsSession(bindings, result.principal, sessionId)) {
+      return result;
+    }
+    return { ok: false, status: 403, code: 'ACCESS_DENIED', message: 'API key does not grant access to this session' };
+  }
+
+  if (sessionId === null) {
+    return { ok: true, principal: { kind: 'anonymous', roles: [] } };
+  }
+
+  const token = readSessionToken(request);
+  if (!token) {
+    return { ok: false, status: 401, code: 'AUTHENTICATION_REQUIRED', message: 'A session token or API key is required' };
+  }
+  const result = await authenticateSessionToken(bindings.SESSION_TOKEN_SECRET, token);
+  if (result.ok && result.principal.sessionId !== sessionId) {
+    return { ok: false, status: 403, code: 'ACCESS_DENIED', message: 'Session token does not grant access to this session' };
+  }
+  return result;
+}
+
+// Identifies the caller of a route that is not tied to one session; callers
+// without credentials come back as anonymous
+export async function identifyCaller(request: Request, bindings: WorkerBindings): Promise<AuthResult> {
+  if (!bindings.SESSION_TOKEN_SECRET) {
+    return { ok: false, status: 503, code: 'AUTH_NOT_CONFIGURED', message: 'Session authentication is not configured' };
+  }
+
+  const apiKey = request.headers.get('X-API-Key');
+  if (apiKey) {
+    return authenticateApiKey(bindings, apiKey);
+  }
+  const token = readSessionToken(request);
+  return token
+    ? authenticateSessionToken(bindings.SESSION_TOKEN_SECRET, token)
+    : { ok: true, principal: { kind: 'anonymous', roles: [] } };
+}
+
+async function authenticateApiKey(bindings: WorkerBindings, apiKey: string): Promise<AuthResult> {
+  const keyHash = await sha256Hex(apiKey);
+  const config = parseApiKeys(bindings.API_KEYS).find(key => key.keyHash.toLowerCase() === keyHash);
+  if (!config) {
+    return { ok: false, status: 401, code: 'INVALID_API_KEY', message: 'API key is not recognised' };
+  }
+  // The user and tenant come from the key's configuration, never from request headers
+  return {
+    ok: true,
+    principal: {
+      kind: 'api_key',
+      roles: config.roles || ['service'],
+      keyName: config.name,
+      userId: config.userId,
+      tenantId: config.tenantId
+    }
+  };
+}
+
+// A key reaches an existing session only when the session was opened for the key's tenant,
+// and for the key's user when both name one. Keys without a tenant reach no existing session.
+async function apiKeyOwnsSession(bindings: WorkerBindings, principal: Principal, sessionId: string): Promise<boolean> {
+  if (!principal.tenantId) {
+    return false;
+  }
+  try {
+    const doStub = bindings.MEMORY_DO.get(bindings.MEMORY_DO.idFromName(sessionId));
+    const response = await doStub.fetch(`https://memory-do/${sessionId}?action=session`);
+    const session = await response.json() as { userId?: string; tenantId?: string };
+    return session.tenantId === principal.tenantId
+      && (!principal.userId || !session.userId || session.userId === principal.userId);
+  } catch (error) {
+    console.error('Failed to load session owner:', error);
+    return false;
+  }
+}
+
+async function authenticateSessionToken(secret: string, token: string): Promise<AuthResult> {
+  const verification = await verifySessionToken(secret, token);
+  if (!verification.valid) {
+    return verification.expired
+      ? { ok: false, status: 401, code: 'TOKEN_EXPIRED', message: 'Session token has expired' }
+      : { ok: false, status: 401, code: 'INVALID_TOKEN', message: 'Session token is invalid' };
+  }
+  return {
+    ok: true,
+    principal: {
+      kind: 'session',
+      roles: ['end_user'],
+      sessionId: verification.claims.sid,
+      userId: verification.claims.sub,
+      tenantId: verification.claims.tid
+    }
+  };
+}
+
+// Browsers cannot set headers on a WebSocket upgrade, so that request alone may carry the
+// token in the query string; anywhere else it would end up in logs and Referer headers
+function readSessionToken(request: Request): string | null {
+  const authorization = request.headers.get('Authorization') || '';
+  if (authorization.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+  return request.headers.get('Upgrade') === 'websocket' ? new URL(request.url).searchParams.get('token') : null;
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(value));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function signingKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [usage]);
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
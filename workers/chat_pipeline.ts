@@ -0,0 +1,333 @@
+// AI message processing pipeline shared by the HTTP and WebSocket chat channels
+import {
+  ChatMessage,
+  ConversationContext,
+  WorkerBindings,
+  ToolCall,
+  ToolContext,
+  ToolResult
+} from './types';
+import { MonitoringMiddleware } from './monitoring_middleware';
+import { Logger, MetricsCollector } from './logging';
+import { ToolRegistry, toolRegistry } from './tool_registry';
+import {
+  AIResponse,
+  DeltaHandler,
+  ModelMessage,
+  ModelRequest,
+  completeWithTimeout,
+  getContextBudget,
+  resolveModelChain
+} from './model_providers';
+import { CircuitBreakerRegistry } from './circuit_breaker';
+import { ContextBudget, buildModelContext } from './context_builder';
+
+export type { AIResponse, DeltaHandler, ModelMessage } from './model_providers';
+
+// Maximum number of tool-calling round trips before the model must answer
+const MAX_TOOL_ITERATIONS = 3;
+// Knowledge base articles retrieved up front for the system prompt
+const PREFETCHED_KB_RESULTS = 3;
+
+// Live answer text for a client. discard takes back the text streamed so far when it
+// turns out to be the preamble of a tool call rather than the answer
+export interface ResponseStream {
+  delta: DeltaHandler;
+  discard: () => void | Promise<void>;
+}
+
+export interface ProcessingResult {
+  response: AIResponse;
+  success: boolean;
+  fallbackUsed: boolean;
+  toolCalls: ToolCall[];
+  error?: string;
+}
+
+export async function processMessageWithAI(
+  message: ChatMessage,
+  context: ConversationContext,
+  env: WorkerBindings,
+  requestId: string,
+  logger: Logger,
+  metrics: MetricsCollector,
+  middleware: MonitoringMiddleware,
+  stream?: ResponseStream,
+  route: string = 'chat',
+  // The authenticated user; tools scope tickets and other records to it
+  userId?: string
+): Promise<ProcessingResult> {
+  const tools = toolRegistry.getToolSchema();
+  const toolContext = ToolRegistry.createToolContext(message.sessionId, env, userId, context);
+
+  // Pack prompt, summary, knowledge and history into the smallest window in the chain
+  const messages: ModelMessage[] = buildModelContext({
+    renderSystemPrompt: (summary, knowledgeSnippets) => buildSystemPrompt(context, summary, knowledgeSnippets),
+    summary: context.summary,
+    knowledgeSnippets: await retrieveKnowledgeSnippets(message.content, toolContext, logger),
+    // Models only know user and assistant turns; keep human agent replies attributed
+    history: context.recentMessages.map(msg => msg.role === 'agent'
+      ? { role: 'assistant', content: `[Human support agent] ${msg.content}` }
+      : { role: msg.role, content: msg.content }),
+    currentMessage: {
+      role: message.role,
+      content: message.content
+    }
+  }, resolveRouteBudget(route, env));
+  const executedToolCalls: ToolCall[] = [];
+  const usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  let fallbackUsed = false;
+
+  for (let iteration = 0; iteration <= MAX_TOOL_ITERATIONS; iteration++) {
+    // Stop allowing tool calls once the iteration budget is spent so the model answers.
+    // The tools stay listed: Anthropic rejects tool history sent without them
+    const toolChoice = iteration < MAX_TOOL_ITERATIONS ? 'auto' : 'none';
+    const completion = await callModelWithFallback(
+      messages,
+      tools,
+      route,
+      env,
+      logger,
+      metrics,
+      middleware,
+      stream,
+      toolChoice
+    );
+
+    if (!completion) {
+      // Every provider in the chain failed
+      return {
+        response: {
+          content: "I'm sorry, I'm experiencing technical difficulties right now. Please try again in a moment.",
+          model: 'fallback-static'
+        },
+        success: false,
+        fallbackUsed: true,
+        toolCalls: executedToolCalls,
+        error: 'All AI models unavailable'
+      };
+    }
+
+    fallbackUsed = fallbackUsed || completion.fallbackUsed;
+    usage.prompt_tokens += completion.response.usage?.prompt_tokens || 0;
+    usage.completion_tokens += completion.response.usage?.completion_tokens || 0;
+    usage.total_tokens += completion.response.usage?.total_tokens || 0;
+
+    const requestedCalls = completion.response.toolCalls || [];
+    if (toolChoice === 'none' || requestedCalls.length === 0) {
+      return {
+        response: {
+          content: completion.response.content,
+          model: completion.response.model,
+          usage
+        },
+        success: true,
+        fallbackUsed,
+        toolCalls: executedToolCalls
+      };
+    }
+
+    // Echo the tool calls back so the model can match them with their results
+    messages.push({
+      role: 'assistant',
+      content: completion.response.content,
+      tool_calls: requestedCalls.map(call => ({
+        id: call.id,
+        type: 'function' as const,
+        function: {
+          name: ToolRegistry.toFunctionName(call.name),
+          arguments: JSON.stringify(call.parameters)
+        }
+      }))
+    });
+
+    for (const toolCall of requestedCalls) {
+      const result = await executeToolCall(toolCall, toolContext, logger, metrics, middleware);
+      executedToolCalls.push({ ...toolCall, result });
+
+      messages.push({
+        role: 'tool',
+        name: ToolRegistry.toFunctionName(toolCall.name),
+        tool_call_id: toolCall.id,
+        content: JSON.stringify(result)
+      });
+    }
+  }
+
+  // Unreachable: the last iteration never runs tools
+  throw new Error('Tool calling loop exited without a response');
+}
+
+// Single tool-free completion through a route's provider chain, for internal
+// tasks such as summarization. Resolves null when every provider fails.
+export async function completeText(
+  messages: ModelMessage[],
+  route: string,
+  env: WorkerBindings,
+  logger: Logger,
+  metrics: MetricsCollector,
+  middleware: MonitoringMiddleware
+): Promise<AIResponse | null> {
+  const completion = await callModelWithFallback(messages, undefined, route, env, logger, metrics, middleware);
+  return completion ? completion.response : null;
+}
+
+async function callModelWithFallback(
+  messages: ModelMessage[],
+  tools: any[] | undefined,
+  route: string,
+  env: WorkerBindings,
+  logger: Logger,
+  metrics: MetricsCollector,
+  middleware: MonitoringMiddleware,
+  stream?: ResponseStream,
+  toolChoice?: ModelRequest['toolChoice']
+): Promise<{ response: AIResponse, fallbackUsed: boolean } | null> {
+  const estimatedTokens = messages.reduce((acc, msg) => acc + msg.content.length, 0);
+  const chain = resolveModelChain(route, env);
+  const breakers = new CircuitBreakerRegistry(env, metrics);
+
+  // Set while the client shows text from this call
+  let streamed = false;
+  const forwardDelta: DeltaHandler | undefined = stream && (delta => {
+    streamed = true;
+    return stream.delta(delta);
+  });
+
+  // Text is streamed live. A completion that goes on to call tools streamed a preamble,
+  // so the client drops it as soon as the first tool call shows up
+  const retract = async () => {
+    if (stream && streamed) {
+      streamed = false;
+      await stream.discard();
+    }
+  };
+  const onToolCall = forwardDelta && tools && toolChoice !== 'none' ? retract : undefined;
+
+  // Walk the route's providers in order until one answers
+  for (const [index, provider] of chain.entries()) {
+    try {
+      // Providers with an open breaker are skipped without a call
+      const response = await breakers.execute(`model:${provider.name}`, () => middleware.monitorAICall(
+        provider.name,
+        estimatedTokens,
+        logger,
+        metrics,
+        () => completeWithTimeout(provider, { messages, tools, toolChoice, onDelta: forwardDelta, onToolCall })
+      ));
+
+      // Some streams only carry tool calls on their final chunk
+      if (onToolCall && response.toolCalls?.length) {
+        await retract();
+      }
+
+      return { response, fallbackUsed: index > 0 };
+    } catch (error) {
+      await logger.warn('AI model failed, trying next provider', {
+        provider: provider.name,
+        route,
+        error: (error as Error).message
+      });
+    }
+
+    // Partial output already reached the client; a second model would splice
+    // an unrelated answer onto it
+    if (streamed) {
+      await logger.error('AI model failed mid-stream', undefined, { provider: provider.name });
+      return null;
+    }
+  }
+
+  return null;
+}
+
+async function executeToolCall(
+  toolCall: ToolCall,
+  toolContext: ToolContext,
+  logger: Logger,
+  metrics: MetricsCollector,
+  middleware: MonitoringMiddleware
+): Promise<ToolResult> {
+  try {
+    return await middleware.monitorToolExecution(
+      toolCall.name,
+      toolCall.parameters,
+      logger,
+      metrics,
+      () => toolRegistry.executeTool(toolCall.name, toolCall.parameters, toolContext)
+    );
+  } catch (error) {
+    // Report the failure to the model instead of aborting the conversation
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+// Budget for the route's most constrained provider, so any fallback can take the same context
+function resolveRouteBudget(route: string, env: WorkerBindings): ContextBudget {
+  const budgets = resolveModelChain(route, env).map(provider => getContextBudget(provider, env));
+  if (budgets.length === 0) {
+    return getContextBudget({}, env);
+  }
+
+  return budgets.reduce((smallest, budget) =>
+    budget.contextWindow - budget.responseReserve < smallest.contextWindow - smallest.responseReserve ? budget : smallest
+  );
+}
+
+async function retrieveKnowledgeSnippets(query: string, toolContext: ToolContext, logger: Logger): Promise<string[]> {
+  try {
+    const result = await toolRegistry.executeTool('kb.search', { query, maxResults: PREFETCHED_KB_RESULTS }, toolContext);
+    if (!result.success || !Array.isArray(result.data?.results)) {
+      return [];
+    }
+
+    return result.data.results.map((article: any) => `${article.title}: ${article.content}`);
+  } catch (error) {
+    // The model can still search on its own through the kb.search tool
+    await logger.warn('Knowledge base prefetch failed', { error: (error as Error).message });
+    return [];
+  }
+}
+
+function buildSystemPrompt(context: ConversationContext, summary: string, knowledgeSnippets: string[]): string {
+  const basePrompt = `You are an expert AI support assistant specializing in providing exceptional customer service. Your responses should be helpful, accurate, and solution-focused.
+
+CONVERSATION CONTEXT:
+- Session: ${context.sessionId}
+- Active Topics: ${context.activeTopics.join(', ') || 'General inquiry'}
+- Previous Issues Resolved: ${context.resolvedIssues.join(', ') || 'None'}
+- Summary: ${summary || 'Beginning new conversation'}
+
+RESPONSE GUIDELINES:
+1. TONE: Professional, empathetic, and solution-oriented
+2. STRUCTURE: Start with acknowledgment, provide clear steps, end with next actions
+3. CLARITY: Use simple language, bullet points for multiple steps
+4. PROACTIVITY: Anticipate follow-up questions and provide relevant information
+5. ESCALATION: Suggest human support for complex technical issues or billing disputes
+
+RESPONSE FORMAT:
+- Keep responses under 200 words for better readability
+- Use numbered steps for procedures
+- Include relevant links or references when helpful
+- Always end with "Is there anything else I can help you with?"
+
+AVAILABLE TOOLS (call them instead of guessing):
+- Knowledge base search for detailed documentation
+- Ticket creation for complex issues requiring follow-up
+- Status checking for existing support requests
+Base your answer on the tool results you receive and cite ticket IDs exactly.
+
+Remember: Your goal is to resolve the customer's issue efficiently while providing an excellent support experience.`;
+
+  if (knowledgeSnippets.length === 0) {
+    return basePrompt;
+  }
+
+  return `${basePrompt}
+
+KNOWLEDGE BASE EXCERPTS (may be relevant to the current question):
+${knowledgeSnippets.map(snippet => `- ${snippet}`).join('\n')}`;
+}
@@ -0,0 +1,184 @@
+// Circuit breakers for AI providers and tools, shared across isolates via KV
+import { CircuitBreaker } from './types';
+import { MetricsCollector } from './logging';
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number;
+  recoveryTimeout: number; // ms an open breaker waits before allowing a trial call
+  probeTimeout: number; // ms a trial call holds the breaker before another caller may try
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  recoveryTimeout: 30000,
+  probeTimeout: 20000
+};
+
+// Gauge values for circuit_breaker_state
+const STATE_GAUGE_VALUES: Record<CircuitBreaker['state'], number> = {
+  closed: 0,
+  'half-open': 1,
+  open: 2
+};
+
+const KEY_PREFIX = 'circuit:';
+
+export class CircuitBreakerRegistry {
+  private kv?: KVNamespace;
+  private metrics?: MetricsCollector;
+  private config: CircuitBreakerConfig;
+  // Used when no KV binding is available, e.g. tools running outside a worker
+  private localStates: Map<string, CircuitBreaker> = new Map();
+
+  constructor(
+    bindings: { CHAT_KV?: KVNamespace } | undefined,
+    metrics?: MetricsCollector,
+    config: Partial<CircuitBreakerConfig> = {}
+  ) {
+    this.kv = typeof bindings?.CHAT_KV?.get === 'function' ? bindings.CHAT_KV : undefined;
+    this.metrics = metrics;
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+  }
+
+  // Run an operation behind the named breaker. Open breakers reject with
+  // CIRCUIT_OPEN without calling the operation.
+  async execute<T>(name: string, operation: () => Promise<T>): Promise<T> {
+    if (!await this.allowRequest(name)) {
+      throw new Error(`CIRCUIT_OPEN: ${name} is temporarily unavailable`);
+    }
+
+    try {
+      const result = await operation();
+      await this.recordSuccess(name);
+      return result;
+    } catch (error) {
+      await this.recordFailure(name);
+      throw error;
+    }
+  }
+
+  // Open breakers move to half-open once the recovery timeout has passed. Only the caller
+  // whose probe marker is read back gets the trial call; the rest are refused until the
+  // trial settles the breaker or its marker lapses
+  async allowRequest(name: string): Promise<boolean> {
+    const breaker = await this.getState(name);
+
+    if (breaker.state === 'closed') {
+      return true;
+    }
+
+    const now = Date.now();
+    if (breaker.state === 'open' && now - breaker.lastFailureTime < breaker.recoveryTimeout) {
+      return false;
+    }
+    if (breaker.probeExpiresAt !== undefined && breaker.probeExpiresAt > now) {
+      return false;
+    }
+
+    const probeId = crypto.randomUUID();
+    await this.saveState(name, {
+      ...breaker,
+      state: 'half-open',
+      probeId,
+      probeExpiresAt: now + this.config.probeTimeout
+    });
+
+    // Callers that claimed at the same time overwrite each other; the last write wins
+    return (await this.getState(name)).probeId === probeId;
+  }
+
+  async recordSuccess(name: string): Promise<void> {
+    const breaker = await this.getState(name);
+
+    // Avoid a KV write per call while everything is healthy
+    if (breaker.state === 'closed' && breaker.consecutiveFailures === 0) {
+      this.reportState(name, breaker);
+      return;
+    }
+
+    await this.saveState(name, {
+      ...breaker,
+      state: 'closed',
+      consecutiveFailures: 0,
+      probeId: undefined,
+      probeExpiresAt: undefined
+    });
+  }
+
+  async recordFailure(name: string): Promise<void> {
+    const breaker = await this.getState(name);
+    const consecutiveFailures = breaker.consecutiveFailures + 1;
+
+    // A failed trial call reopens immediately
+    const state = breaker.state === 'half-open' || consecutiveFailures >= breaker.failureThreshold
+      ? 'open'
+      : breaker.state;
+
+    await this.saveState(name, {
+      ...breaker,
+      state,
+      consecutiveFailures,
+      lastFailureTime: Date.now(),
+      probeId: undefined,
+      probeExpiresAt: undefined
+    });
+  }
+
+  async getState(name: string): Promise<CircuitBreaker> {
+    const initial: CircuitBreaker = {
+      state: 'closed',
+      failureThreshold: this.config.failureThreshold,
+      recoveryTimeout: this.config.recoveryTimeout,
+      lastFailureTime: 0,
+      consecutiveFailures: 0
+    };
+
+    if (!this.kv) {
+      return this.localStates.get(name) || initial;
+    }
+
+    try {
+      const stored = await this.kv.get(KEY_PREFIX + name);
+      return stored ? { ...initial, ...JSON.parse(stored) } : initial;
+    } catch (error) {
+      console.warn(`Failed to read circuit breaker ${name}:`, error);
+      return this.localStates.get(name) || initial;
+    }
+  }
+
+  async getStates(names: string[]): Promise<Record<string, CircuitBreaker>> {
+    const states: Record<string, CircuitBreaker> = {};
+    for (const name of names) {
+      states[name] = await this.getState(name);
+      this.reportState(name, states[name]!);
+    }
+    return states;
+  }
+
+  private async saveState(name: string, breaker: CircuitBreaker): Promise<void> {
+    this.localStates.set(name, breaker);
+    this.reportState(name, breaker);
+
+    if (!this.kv) {
+      return;
+    }
+
+    try {
+      // Outlive the cool-down so other isolates still see an open breaker
+      await this.kv.put(KEY_PREFIX + name, JSON.stringify(breaker), {
+        expirationTtl: Math.max(60, Math.ceil(breaker.recoveryTimeout / 1000) * 10)
+      });
+    } catch (error) {
+      console.warn(`Failed to persist circuit breaker ${name}:`, error);
+    }
+  }
+
+  private reportState(name: string, breaker: CircuitBreaker): void {
+    if (!this.metrics) {
+      return;
+    }
+
+    this.metrics.setGauge('circuit_breaker_state', STATE_GAUGE_VALUES[breaker.state], { breaker: name });
+    this.metrics.setGauge('circuit_breaker_consecutive_failures', breaker.consecutiveFailures, { breaker: name });
+  }
+}
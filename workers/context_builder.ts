@@ -0,0 +1,211 @@
+// Token-budgeted context assembly for model calls
+import type { ModelMessage } from './model_providers';
+
+export interface ContextBudget {
+  contextWindow: number;
+  // Tokens held back for the model's answer
+  responseReserve: number;
+}
+
+export interface ContextSources {
+  // Renders the system prompt around whatever summary and snippets fit
+  renderSystemPrompt: (summary: string, knowledgeSnippets: string[]) => string;
+  summary: string;
+  knowledgeSnippets: string[];
+  // Prior turns, oldest first, excluding the current message
+  history: ModelMessage[];
+  currentMessage: ModelMessage;
+}
+
+// Chat templates add role markers and separators around every message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Shares of the input budget the optional sections may claim before recent turns
+const SUMMARY_SHARE = 0.2;
+const KNOWLEDGE_SHARE = 0.25;
+// Below this, a partially fitting turn is dropped rather than trimmed
+const MIN_PARTIAL_TURN_TOKENS = 48;
+
+// Approximates BPE tokenizers (cl100k, Llama 3): short words are one token,
+// longer words split every ~4 characters, digits group in threes, and each
+// punctuation mark or non-Latin character is its own token
+export function estimateTokens(text: string): number {
+  if (!text) {
+    return 0;
+  }
+
+  let tokens = 0;
+  for (const piece of text.match(/[A-Za-z]+|\d+|\s+|[^\sA-Za-z\d]/gu) || []) {
+    const first = piece.charCodeAt(0);
+    if (piece.trim() === '') {
+      // A single space merges into the next word; newlines and indentation do not
+      tokens += piece === ' ' ? 0 : 1;
+    } else if (first >= 48 && first <= 57) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (/[A-Za-z]/.test(piece[0]!)) {
+      tokens += piece.length <= 6 ? 1 : Math.ceil(piece.length / 4);
+    } else {
+      tokens += 1;
+    }
+  }
+
+  return tokens;
+}
+
+export function estimateMessageTokens(messages: ModelMessage[]): number {
+  return messages.reduce((sum, msg) => {
+    const toolCallTokens = msg.tool_calls ? estimateTokens(JSON.stringify(msg.tool_calls)) : 0;
+    return sum + MESSAGE_OVERHEAD_TOKENS + estimateTokens(msg.content) + toolCallTokens;
+  }, 0);
+}
+
+// Keep whole sentences up to maxTokens, from the start or (keepEnd) the end of the text
+export function truncateToSentences(text: string, maxTokens: number, keepEnd: boolean = false): string {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+
+  const sentences = text.match(/[^.!?\n]+(?:[.!?]+["')\]]*|\n+|$)\s*/g) || [];
+  const ordered = keepEnd ? [...sentences].reverse() : sentences;
+  const kept: string[] = [];
+  let used = 0;
+
+  for (const sentence of ordered) {
+    const cost = estimateTokens(sentence);
+    if (used + cost > maxTokens) {
+      break;
+    }
+    kept.push(sentence);
+    used += cost;
+  }
+
+  return (keepEnd ? kept.reverse() : kept).join('').trim();
+}
+
+// Pack the system prompt, summary, knowledge snippets and as many recent
+// turns as fit, newest first. Turns are kept whole or cut between sentences.
+export function buildModelContext(sources: ContextSources, budget: ContextBudget): ModelMessage[] {
+  const inputBudget = budget.contextWindow - budget.responseReserve;
+
+  const currentMessage = fitCurrentMessage(sources.currentMessage, Math.floor(inputBudget / 2));
+  const baseCost = estimateMessageTokens([
+    { role: 'system', content: sources.renderSystemPrompt('', []) },
+    currentMessage
+  ]);
+  let remaining = inputBudget - baseCost;
+
+  const summary = truncateToSentences(
+    sources.summary,
+    Math.max(0, Math.min(remaining, Math.floor(inputBudget * SUMMARY_SHARE))),
+    true
+  );
+  remaining -= estimateTokens(summary);
+
+  const knowledgeSnippets: string[] = [];
+  let knowledgeBudget = Math.max(0, Math.min(remaining, Math.floor(inputBudget * KNOWLEDGE_SHARE)));
+  for (const snippet of sources.knowledgeSnippets) {
+    const fitted = truncateToSentences(snippet, knowledgeBudget);
+    if (!fitted) {
+      break;
+    }
+    knowledgeSnippets.push(fitted);
+    knowledgeBudget -= estimateTokens(fitted) + 2;
+    remaining -= estimateTokens(fitted) + 2;
+  }
+
+  const systemMessage: ModelMessage = {
+    role: 'system',
+    content: sources.renderSystemPrompt(summary, knowledgeSnippets)
+  };
+  // Re-measure: the rendered prompt adds section headings around the content
+  remaining = inputBudget - estimateMessageTokens([systemMessage, currentMessage]);
+
+  const history: ModelMessage[] = [];
+  for (let i = sources.history.length - 1; i >= 0; i--) {
+    const turn = sources.history[i]!;
+    const cost = estimateMessageTokens([turn]);
+
+    if (cost <= remaining) {
+      history.unshift(turn);
+      remaining -= cost;
+      continue;
+    }
+
+    // The oldest turn that fits only partly keeps its final sentences
+    if (remaining - MESSAGE_OVERHEAD_TOKENS >= MIN_PARTIAL_TURN_TOKENS) {
+      const content = truncateToSentences(turn.content, remaining - MESSAGE_OVERHEAD_TOKENS, true);
+      if (content) {
+        history.unshift({ ...turn, content });
+      }
+    }
+    break;
+  }
+
+  return [systemMessage, ...history, currentMessage];
+}
+
+// Drop the oldest turns until the conversation fits, keeping system messages
+// and everything from the latest user message on (tool calls and results)
+export function fitToContextWindow(messages: ModelMessage[], budget: ContextBudget, tools?: any[]): ModelMessage[] {
+  const toolTokens = tools && tools.length > 0 ? estimateTokens(JSON.stringify(tools)) : 0;
+  const inputBudget = budget.contextWindow - budget.responseReserve - toolTokens;
+
+  if (estimateMessageTokens(messages) <= inputBudget) {
+    return messages;
+  }
+
+  let lastUserIndex = -1;
+  messages.forEach((msg, index) => {
+    if (msg.role === 'user') {
+      lastUserIndex = index;
+    }
+  });
+
+  const fitted = [...messages];
+  let index = 0;
+  while (estimateMessageTokens(fitted) > inputBudget && index < fitted.length) {
+    const msg = fitted[index]!;
+    const originalIndex = messages.indexOf(msg);
+    if (msg.role === 'system' || originalIndex >= lastUserIndex) {
+      index++;
+      continue;
+    }
+    fitted.splice(index, 1);
+  }
+
+  return fitted;
+}
+
+// Output tokens to request: everything the prompt leaves free, capped at maxTokens
+export function calculateMaxOutputTokens(
+  messages: ModelMessage[],
+  budget: ContextBudget,
+  maxTokens: number,
+  tools?: any[]
+): number {
+  const toolTokens = tools && tools.length > 0 ? estimateTokens(JSON.stringify(tools)) : 0;
+  const available = budget.contextWindow - estimateMessageTokens(messages) - toolTokens;
+
+  return Math.max(Math.min(budget.responseReserve, maxTokens), Math.min(maxTokens, available));
+}
+
+function fitCurrentMessage(message: ModelMessage, maxTokens: number): ModelMessage {
+  if (estimateMessageTokens([message]) <= maxTokens) {
+    return message;
+  }
+
+  const content = truncateToSentences(message.content, maxTokens - MESSAGE_OVERHEAD_TOKENS);
+  if (content) {
+    return { ...message, content };
+  }
+
+  // A single enormous sentence: cut at a word boundary as a last resort
+  const words = message.content.split(/\s+/);
+  let cut = '';
+  for (const word of words) {
+    if (estimateTokens(`${cut} ${word}`) > maxTokens - MESSAGE_OVERHEAD_TOKENS) {
+      break;
+    }
+    cut = cut ? `${cut} ${word}` : word;
+  }
+  return { ...message, content: `${cut}…` };
+}
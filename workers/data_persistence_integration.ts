@@ -1,6 +1,7 @@
 // Integration example for data persistence service
 import { DataPersistenceService } from './data_persistence';
 import { WorkerBindings, ConversationMemory, SessionState } from './types';
+import { AccessControlMiddleware, DATA_PERSISTENCE_ROUTE_PERMISSIONS } from './access_control';
 
 export class DataPersistenceIntegration {
   private persistenceService: DataPersistenceService;
@@ -243,63 +244,68 @@ export class DataPersistenceIntegration {
   }
 }
 
-// Example usage in a Cloudflare Worker
+// Example usage in a Cloudflare Worker. Cleanup and backup act on every user's data,
+// so each route needs a role (see access_control.ts)
 export async function handleDataPersistenceRequest(
   request: Request,
   bindings: WorkerBindings
 ): Promise<Response> {
-  const integration = new DataPersistenceIntegration(bindings);
-  const url = new URL(request.url);
-  const path = url.pathname;
+  const accessControl = new AccessControlMiddleware(bindings, DATA_PERSISTENCE_ROUTE_PERMISSIONS);
 
-  try {
-    switch (path) {
-      case '/health':
-        const health = await integration.healthCheck();
-        return new Response(JSON.stringify(health), {
-          headers: { 'Content-Type': 'application/json' }
-        });
+  return accessControl.wrapRequest(request, crypto.randomUUID(), async request => {
+    const integration = new DataPersistenceIntegration(bindings);
+    const url = new URL(request.url);
+    const path = url.pathname;
 
-      case '/metrics':
-        const metrics = await integration.getStorageMetrics();
-        return new Response(JSON.stringify(metrics), {
-          headers: { 'Content-Type': 'application/json' }
-        });
+    try {
+      switch (path) {
+        case '/health':
+          const health = await integration.healthCheck();
+          return new Response(JSON.stringify(health), {
+            headers: { 'Content-Type': 'application/json' }
+          });
 
-      case '/cleanup':
-        if (request.method === 'POST') {
-          await integration.performScheduledCleanup();
-          return new Response(JSON.stringify({ success: true }));
-        }
-        break;
+        case '/metrics':
+          const metrics = await integration.getStorageMetrics();
+          return new Response(JSON.stringify(metrics), {
+            headers: { 'Content-Type': 'application/json' }
+          });
 
-      case '/backup':
-        if (request.method === 'POST') {
-          const body = await request.json() as any;
-          const backupId = await integration.createDailyBackup(body.sessionIds || []);
-          return new Response(JSON.stringify({ backupId }));
-        }
-        break;
+        case '/cleanup':
+          if (request.method === 'POST') {
+            await integration.performScheduledCleanup();
+            return new Response(JSON.stringify({ success: true }));
+          }
+          break;
 
-      case '/history':
-        const userId = url.searchParams.get('userId');
-        const limit = parseInt(url.searchParams.get('limit') || '20');
-        if (userId) {
-          const history = await integration.getUserConversationHistory(userId, limit);
-          return new Response(JSON.stringify({ history }));
-        }
-        break;
-    }
+        case '/backup':
+          if (request.method === 'POST') {
+            const body = await request.json() as any;
+            const backupId = await integration.createDailyBackup(body.sessionIds || []);
+            return new Response(JSON.stringify({ backupId }));
+          }
+          break;
 
-    return new Response('Not found', { status: 404 });
-  } catch (error) {
-    console.error('Data persistence request error:', error);
-    return new Response(JSON.stringify({
-      error: 'Internal server error',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
-  }
+        case '/history':
+          const userId = url.searchParams.get('userId');
+          const limit = parseInt(url.searchParams.get('limit') || '20');
+          if (userId) {
+            const history = await integration.getUserConversationHistory(userId, limit);
+            return new Response(JSON.stringify({ history }));
+          }
+          break;
+      }
+
+      return new Response('Not found', { status: 404 });
+    } catch (error) {
+      console.error('Data persistence request error:', error);
+      return new Response(JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  });
 }
\ No newline at end of file
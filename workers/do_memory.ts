@@ -8,9 +8,44 @@ import {
   validateChatMessage,
   validateSessionState,
   generateMessageId,
+  generateRequestId,
   WorkerBindings
 } from './types';
 import { DataPersistenceService } from './data_persistence';
+import { SecurityManager, SecurityContext } from './security';
+import { MonitoringMiddleware, RateLimitMonitor } from './monitoring_middleware';
+import { Logger, MetricsCollector } from './logging';
+import { processMessageWithAI, completeText } from './chat_pipeline';
+
+const TRANSCRIPT_LABELS: Record<ChatMessage['role'], string> = {
+  user: 'Customer',
+  assistant: 'Assistant',
+  agent: 'Support agent'
+};
+
+// Per-socket state that survives hibernation via serializeAttachment
+interface WebSocketAttachment {
+  sessionId: string;
+  connectedAt: number;
+  ipAddress: string;
+  userAgent: string;
+  // Set when the client's init frame opts in to delta frames
+  streaming?: boolean;
+  // Set on human agent connections (upgraded with ?agentId=)
+  agentId?: string;
+}
+
+// Outcome of an agent action; failures carry an error code for the HTTP layer
+export type HandoffOutcome =
+  | { ok: true; session: SessionState; message?: ChatMessage }
+  | { ok: false; code: 'INVALID_INPUT' | 'SESSION_ENDED' | 'SESSION_CLAIMED' | 'NOT_CLAIMED'; message: string };
+
+const HANDOFF_ERROR_STATUS: Record<string, number> = {
+  INVALID_INPUT: 400,
+  SESSION_ENDED: 409,
+  SESSION_CLAIMED: 409,
+  NOT_CLAIMED: 409
+};
 
 export class SessionMemoryDO implements DurableObject, MemoryOperations {
   private state: DurableObjectState;
@@ -21,6 +56,8 @@ export class SessionMemoryDO implements DurableObject, MemoryOperations {
   // Configuration constants
   private static readonly MAX_MESSAGES = 100;
   private static readonly SUMMARY_THRESHOLD = 20;
+  private static readonly RECENT_WINDOW = 10; // Messages kept verbatim in context
+  private static readonly MAX_SUMMARY_LENGTH = 2000;
   private static readonly DEFAULT_TTL = 24 * 60 * 60 * 1000; // 24 hours
   private static readonly CLEANUP_INTERVAL = 60 * 60 * 1000; // 1 hour
 
@@ -46,6 +83,10 @@ export class SessionMemoryDO implements DurableObject, MemoryOperations {
       const pathParts = url.pathname.split('/');
       this.sessionId = pathParts[pathParts.length - 1] || '';
 
+      if (request.headers.get('Upgrade') === 'websocket') {
+        return this.handleWebSocketUpgrade(request);
+      }
+
       switch (method) {
         case 'POST':
           return await this.handlePost(request);
@@ -74,6 +115,319 @@ export class SessionMemoryDO implements DurableObject, MemoryOperations {
     }
   }
 
+  private handleWebSocketUpgrade(request: Request): Response {
+    const pair = new WebSocketPair();
+    const [client, server] = Object.values(pair) as [WebSocket, WebSocket];
+
+    const attachment: WebSocketAttachment = {
+      sessionId: this.sessionId,
+      connectedAt: Date.now(),
+      ipAddress: request.headers.get('CF-Connecting-IP') ||
+                 request.headers.get('X-Forwarded-For') ||
+                 'unknown',
+      userAgent: request.headers.get('User-Agent') || 'unknown'
+    };
+    const agentId = new URL(request.url).searchParams.get('agentId');
+    if (agentId) {
+      attachment.agentId = agentId;
+    }
+
+    // Hibernatable accept: the runtime delivers frames to webSocketMessage
+    // and may evict this object between them
+    this.state.acceptWebSocket(server);
+    server.serializeAttachment(attachment);
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
+    const attachment = ws.deserializeAttachment() as WebSocketAttachment;
+    this.sessionId = attachment.sessionId;
+
+    let frame: any;
+    try {
+      frame = JSON.parse(typeof message === 'string' ? message : new TextDecoder().decode(message));
+    } catch {
+      this.sendFrame(ws, this.createErrorFrame('INVALID_FRAME', 'Frames must be valid JSON'));
+      return;
+    }
+
+    try {
+      await this.handleFrame(ws, frame, attachment);
+    } catch (error) {
+      console.error('WebSocket frame handling failed:', error);
+      this.sendFrame(ws, this.createErrorFrame('INTERNAL_ERROR', 'Failed to process message', true));
+    }
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    try {
+      // 1005/1006 are reserved and cannot be sent in a close frame
+      ws.close(code === 1005 || code === 1006 ? 1000 : code, reason);
+    } catch {
+      // Socket is already closed
+    }
+  }
+
+  async webSocketError(ws: WebSocket, error: unknown): Promise<void> {
+    console.error('WebSocket error:', error);
+    try {
+      ws.close(1011, 'WebSocket error');
+    } catch {
+      // Socket is already closed
+    }
+  }
+
+  private async handleFrame(ws: WebSocket, frame: any, attachment: WebSocketAttachment): Promise<void> {
+    switch (frame?.type) {
+      case 'init':
+        attachment.streaming = frame.capabilities?.streaming === true;
+        ws.serializeAttachment(attachment);
+
+        this.sendFrame(ws, {
+          type: 'session_init',
+          sessionId: attachment.sessionId,
+          timestamp: Date.now(),
+          capabilities: {
+            compression: false,
+            batching: true,
+            heartbeat: true,
+            streaming: true
+          }
+        });
+        break;
+
+      case 'ping':
+        this.sendFrame(ws, { type: 'pong', timestamp: Date.now() });
+        break;
+
+      case 'typing':
+        // Relay the typing state to the session's other connections
+        this.broadcast({
+          type: 'typing',
+          role: attachment.agentId ? 'agent' : 'user',
+          isTyping: frame.isTyping === true
+        }, ws);
+        break;
+
+      case 'message':
+        if (attachment.agentId) {
+          this.sendOutcome(ws, await this.addAgentMessage(attachment.agentId, frame.content, ws));
+        } else {
+          await this.handleChatFrame(ws, frame, attachment);
+        }
+        break;
+
+      case 'claim':
+      case 'release':
+        if (!attachment.agentId) {
+          this.sendFrame(ws, this.createErrorFrame('FORBIDDEN', `Only agent connections can ${frame.type} a session`));
+          break;
+        }
+        this.sendOutcome(ws, frame.type === 'claim'
+          ? await this.claimSession(attachment.agentId)
+          : await this.releaseSession(attachment.agentId));
+        break;
+
+      case 'batch':
+        if (!Array.isArray(frame.messages)) {
+          this.sendFrame(ws, this.createErrorFrame('INVALID_FRAME', 'Batch frames require a messages array'));
+          break;
+        }
+        // Process in order; nested batches are not allowed
+        for (const batchedFrame of frame.messages) {
+          if (batchedFrame?.type === 'batch') {
+            this.sendFrame(ws, this.createErrorFrame('INVALID_FRAME', 'Nested batch frames are not supported'));
+            continue;
+          }
+          await this.handleFrame(ws, batchedFrame, attachment);
+        }
+        break;
+
+      default:
+        this.sendFrame(ws, this.createErrorFrame('UNKNOWN_FRAME_TYPE', `Unsupported frame type: ${frame?.type}`));
+    }
+  }
+
+  private async handleChatFrame(ws: WebSocket, frame: any, attachment: WebSocketAttachment): Promise<void> {
+    if (typeof frame.content !== 'string' || frame.content.trim().length === 0) {
+      this.sendFrame(ws, this.createErrorFrame('INVALID_INPUT', 'Message content is required and must be a string'));
+      return;
+    }
+
+    const sessionId = attachment.sessionId;
+    const requestId = generateRequestId();
+    const logger = new Logger(requestId, 'websocket', sessionId, undefined, this.env);
+    const metrics = new MetricsCollector(this.env);
+    const middleware = new MonitoringMiddleware(this.env);
+
+    // Same security pipeline as /api/chat; the session holds the identity verified when it was created
+    const securityManager = new SecurityManager(this.env);
+    const session = await this.getSessionState();
+    const securityContext: SecurityContext = {
+      requestId,
+      sessionId,
+      ipAddress: attachment.ipAddress,
+      userAgent: attachment.userAgent,
+      userId: session.userId,
+      tenantId: session.tenantId,
+      timestamp: Date.now()
+    };
+    const securityCheck = await middleware.monitorSecurityCheck(
+      'comprehensive_check',
+      sessionId,
+      logger,
+      metrics,
+      () => securityManager.performSecurityCheck(frame.content, sessionId, securityContext)
+    );
+    new RateLimitMonitor(metrics, logger).recordSessionLimits(sessionId, securityCheck.sessionLimitResult);
+
+    if (!securityCheck.allowed) {
+      this.sendFrame(ws, this.createErrorFrame(
+        'SECURITY_VIOLATION',
+        `Request blocked: ${securityCheck.violations.join(', ')}`,
+        false,
+        {
+          violations: securityCheck.violations,
+          rateLimitReset: securityCheck.rateLimitResult.resetTime,
+          remaining: securityCheck.rateLimitResult.remaining
+        }
+      ));
+      return;
+    }
+
+    const userMessage: ChatMessage = {
+      id: generateMessageId(),
+      sessionId,
+      content: securityCheck.filteredContent,
+      role: 'user',
+      timestamp: Date.now(),
+      metadata: {
+        piiFiltered: securityCheck.piiResult.hasPII,
+        contentFiltered: securityCheck.contentResult.violations.length > 0
+      }
+    };
+
+    await this.addMessage(userMessage);
+
+    // The sender already rendered its own message
+    this.broadcast({ type: 'message', message: userMessage }, ws);
+
+    // A human agent answers instead of the bot
+    if ((await this.getSessionState()).status === 'handed_off') {
+      return;
+    }
+
+    this.broadcast({ type: 'typing', role: 'assistant', isTyping: true });
+
+    // Delta frames and the final message share an id so clients can
+    // replace the partial text in place
+    const assistantMessageId = generateMessageId();
+    const streamingSockets = this.state.getWebSockets().filter(socket =>
+      (socket.deserializeAttachment() as WebSocketAttachment | null)?.streaming === true
+    );
+
+    try {
+      const context = await this.getContext();
+      const processingResult = await processMessageWithAI(
+        userMessage,
+        context,
+        this.env,
+        requestId,
+        logger,
+        metrics,
+        middleware,
+        streamingSockets.length > 0
+          ? {
+            delta: delta => {
+              for (const socket of streamingSockets) {
+                this.sendFrame(socket, { type: 'delta', messageId: assistantMessageId, content: delta });
+              }
+            },
+            discard: () => {
+              for (const socket of streamingSockets) {
+                this.sendFrame(socket, { type: 'discard', messageId: assistantMessageId });
+              }
+            }
+          }
+          : undefined,
+        'websocket',
+        session.userId
+      );
+
+      if (!processingResult.success) {
+        this.sendFrame(ws, this.createErrorFrame(
+          'AI_PROCESSING_FAILED',
+          processingResult.error || 'Failed to process message',
+          true
+        ));
+        return;
+      }
+
+      await securityManager.recordTokenUsage(securityContext, processingResult.response.usage);
+
+      const assistantMessage: ChatMessage = {
+        id: assistantMessageId,
+        sessionId,
+        content: processingResult.response.content,
+        role: 'assistant',
+        timestamp: Date.now(),
+        metadata: {
+          toolCalls: processingResult.toolCalls
+        }
+      };
+
+      await this.addMessage(assistantMessage);
+      this.broadcast({ type: 'message', message: assistantMessage });
+    } finally {
+      this.broadcast({ type: 'typing', role: 'assistant', isTyping: false });
+    }
+  }
+
+  // Agent sockets get the updated session; failures go back as error frames
+  private sendOutcome(ws: WebSocket, outcome: HandoffOutcome): void {
+    if (!outcome.ok) {
+      this.sendFrame(ws, this.createErrorFrame(outcome.code, outcome.message));
+    } else if (!outcome.message) {
+      this.sendFrame(ws, { type: 'session', session: outcome.session, timestamp: Date.now() });
+    }
+  }
+
+  private broadcast(frame: Record<string, any>, except?: WebSocket): void {
+    for (const socket of this.state.getWebSockets()) {
+      if (socket !== except) {
+        this.sendFrame(socket, frame);
+      }
+    }
+  }
+
+  private sendFrame(ws: WebSocket, frame: Record<string, any>): void {
+    try {
+      ws.send(JSON.stringify(frame));
+    } catch (error) {
+      // The peer disconnected; webSocketClose will clean up
+      console.warn('Failed to send WebSocket frame:', error);
+    }
+  }
+
+  private createErrorFrame(
+    code: string,
+    message: string,
+    retryable: boolean = false,
+    details?: any
+  ): Record<string, any> {
+    return {
+      type: 'error',
+      error: {
+        code,
+        message,
+        details,
+        retryable
+      },
+      timestamp: Date.now()
+    };
+  }
+
   private async handlePost(request: Request): Promise<Response> {
     const body = await request.json() as any;
     const action = body.action;
@@ -81,7 +435,20 @@ export class SessionMemoryDO implements DurableObject, MemoryOperations {
     switch (action) {
       case 'addMessage':
         await this.addMessage(body.message as any);
+        // Agents follow HTTP customers over their socket during a handoff
+        if ((await this.getSessionState()).status === 'handed_off') {
+          this.broadcast({ type: 'message', message: body.message });
+        }
         return new Response(JSON.stringify({ success: true }));
+
+      case 'claimSession':
+        return this.outcomeResponse(await this.claimSession(body.agentId));
+
+      case 'releaseSession':
+        return this.outcomeResponse(await this.releaseSession(body.agentId));
+
+      case 'addAgentMessage':
+        return this.outcomeResponse(await this.addAgentMessage(body.agentId, body.content));
       
       case 'generateSummary':
         const summary = await this.generateSummary();
@@ -120,6 +487,10 @@ export class SessionMemoryDO implements DurableObject, MemoryOperations {
       case 'session':
         const session = await this.getSessionState();
         return new Response(JSON.stringify(session));
+
+      case 'handoff':
+        const handoffLimit = parseInt(url.searchParams.get('limit') || '50');
+        return new Response(JSON.stringify(await this.getHandoffView(handoffLimit)));
       
       case 'archives':
         const userId = url.searchParams.get('userId') || undefined;
@@ -132,6 +503,18 @@ export class SessionMemoryDO implements DurableObject, MemoryOperations {
     }
   }
 
+  private outcomeResponse(outcome: HandoffOutcome): Response {
+    if (!outcome.ok) {
+      return new Response(JSON.stringify({ error: { code: outcome.code, message: outcome.message } }), {
+        status: HANDOFF_ERROR_STATUS[outcome.code],
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    return new Response(JSON.stringify({ session: outcome.session, message: outcome.message }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
   private async handleDelete(): Promise<Response> {
     await this.cleanup();
     return new Response(JSON.stringify({ success: true }));
@@ -150,8 +533,10 @@ export class SessionMemoryDO implements DurableObject, MemoryOperations {
     // Get current memory
     const memory = await this.getMemory();
     
-    // Add message to history
+    // Add message to history and save it before summarizing, so messages that
+    // arrive while the model is summarizing are neither delayed nor lost
     memory.messages.push(message);
+    await this.state.storage.put('memory', memory);
     
     // Update last activity
     await this.updateLastActivity();
@@ -162,31 +547,131 @@ export class SessionMemoryDO implements DurableObject, MemoryOperations {
       await this.performSummarization(memory);
     }
     
-    // Trim messages if we exceed max
-    if (memory.messages.length > SessionMemoryDO.MAX_MESSAGES) {
-      const excessCount = memory.messages.length - SessionMemoryDO.MAX_MESSAGES;
+    await this.trimMessages();
+  }
+
+  // Trim messages if we exceed max, folding anything not yet summarized
+  // into the running summary first so early context survives
+  private async trimMessages(): Promise<void> {
+    let memory = await this.getMemory();
+    if (memory.messages.length <= SessionMemoryDO.MAX_MESSAGES) {
+      return;
+    }
+    if (this.getUnsummarizedIndex(memory) < memory.messages.length - SessionMemoryDO.MAX_MESSAGES) {
+      await this.performSummarization(memory);
+      memory = await this.getMemory();
+    }
+
+    const excessCount = memory.messages.length - SessionMemoryDO.MAX_MESSAGES;
+    if (excessCount > 0) {
       memory.messages = memory.messages.slice(excessCount);
+      await this.state.storage.put('memory', memory);
     }
-    
-    // Save updated memory
-    await this.state.storage.put('memory', memory);
   }
 
   async getContext(): Promise<ConversationContext> {
     const memory = await this.getMemory();
     
-    // Generate summary if empty and we have messages
-    let summary = memory.summary;
-    if (!summary && memory.messages.length > 0) {
-      summary = await this.generateSummary();
-    }
+    // Short conversations have no running summary yet; describe them cheaply
+    const summary = memory.summary ||
+      (memory.messages.length > 0 ? this.buildHeuristicSummary(memory.messages) : '');
+    
+    // Hand over every turn the summary does not cover yet (and at least the
+    // recent window); the chat pipeline decides how many fit the model budget
+    const firstRecent = Math.min(
+      this.getUnsummarizedIndex(memory),
+      Math.max(0, memory.messages.length - SessionMemoryDO.RECENT_WINDOW)
+    );
     
+    const session = await this.getSessionState();
+
     return {
       sessionId: this.sessionId,
       summary: summary,
-      recentMessages: memory.messages.slice(-10), // Last 10 messages
+      recentMessages: memory.messages.slice(firstRecent),
       activeTopics: this.extractTopics(memory.messages),
-      resolvedIssues: memory.context.resolvedIssues || []
+      resolvedIssues: memory.context.resolvedIssues || [],
+      ...(session.status === 'handed_off' && session.handoff ? { handoff: session.handoff } : {})
+    };
+  }
+
+  // Take over the session: the bot stops answering until the agent releases it
+  async claimSession(agentId: string): Promise<HandoffOutcome> {
+    if (!agentId || typeof agentId !== 'string') {
+      return { ok: false, code: 'INVALID_INPUT', message: 'agentId is required' };
+    }
+
+    const session = await this.getSessionState();
+    if (session.status === 'ended') {
+      return { ok: false, code: 'SESSION_ENDED', message: 'Session has ended' };
+    }
+    if (session.status === 'handed_off' && session.handoff) {
+      return session.handoff.agentId === agentId
+        ? { ok: true, session }
+        : { ok: false, code: 'SESSION_CLAIMED', message: `Session is handled by agent ${session.handoff.agentId}` };
+    }
+
+    const summary = await this.generateSummary();
+    const claimed: SessionState = {
+      ...session,
+      status: 'handed_off',
+      handoff: { agentId, claimedAt: Date.now(), summary },
+      lastActivity: Date.now()
+    };
+    await this.state.storage.put('session', claimed);
+
+    this.broadcast({ type: 'handoff', status: 'handed_off', agentId, timestamp: Date.now() });
+    return { ok: true, session: claimed };
+  }
+
+  // Hand the session back to the bot
+  async releaseSession(agentId: string): Promise<HandoffOutcome> {
+    const session = await this.getSessionState();
+    if (session.status !== 'handed_off' || session.handoff?.agentId !== agentId) {
+      return { ok: false, code: 'NOT_CLAIMED', message: 'Session is not claimed by this agent' };
+    }
+
+    const { handoff, ...rest } = session;
+    const released: SessionState = { ...rest, status: 'active', lastActivity: Date.now() };
+    await this.state.storage.put('session', released);
+
+    this.broadcast({ type: 'handoff', status: 'active', agentId, timestamp: Date.now() });
+    return { ok: true, session: released };
+  }
+
+  async addAgentMessage(agentId: string, content: unknown, sender?: WebSocket): Promise<HandoffOutcome> {
+    if (typeof content !== 'string' || content.trim().length === 0) {
+      return { ok: false, code: 'INVALID_INPUT', message: 'Message content is required and must be a string' };
+    }
+
+    const session = await this.getSessionState();
+    if (session.status !== 'handed_off' || session.handoff?.agentId !== agentId) {
+      return { ok: false, code: 'NOT_CLAIMED', message: 'Claim the session before replying' };
+    }
+
+    const message: ChatMessage = {
+      id: generateMessageId(),
+      sessionId: this.sessionId,
+      content,
+      role: 'agent',
+      timestamp: Date.now(),
+      metadata: { agentId }
+    };
+    await this.addMessage(message);
+
+    this.broadcast({ type: 'message', message }, sender);
+    return { ok: true, session: await this.getSessionState(), message };
+  }
+
+  // What an agent needs to pick up the conversation
+  async getHandoffView(limit: number = 50): Promise<{ session: SessionState; summary: string; messages: ChatMessage[] }> {
+    const session = await this.getSessionState();
+    const memory = await this.getMemory();
+
+    return {
+      session,
+      summary: session.handoff?.summary ?? memory.summary,
+      messages: memory.messages.slice(-limit)
     };
   }
 
@@ -197,21 +682,12 @@ export class SessionMemoryDO implements DurableObject, MemoryOperations {
       return 'No conversation history available.';
     }
 
-    // Use all messages for summary, not just recent ones
-    const userMessages = memory.messages.filter(m => m.role === 'user');
-    const assistantMessages = memory.messages.filter(m => m.role === 'assistant');
-    
-    const topics = this.extractTopics(memory.messages);
-    
-    const summary = `Conversation summary: ${userMessages.length} user messages, ${assistantMessages.length} assistant responses. ` +
-                   `Active topics: ${topics.join(', ')}. ` +
-                   `Last activity: ${new Date(memory.messages[memory.messages.length - 1]?.timestamp || Date.now()).toISOString()}`;
-    
-    // Update memory with new summary
-    memory.summary = summary;
-    memory.lastSummaryAt = Date.now();
-    await this.state.storage.put('memory', memory);
+    // Fold every message not yet covered into the running summary
+    const unsummarized = memory.messages.slice(this.getUnsummarizedIndex(memory));
+    const summary = await this.summarizeWithModel(memory.summary, unsummarized) ||
+      this.buildHeuristicSummary(memory.messages);
     
+    await this.mergeSummary(memory, summary, memory.messages[memory.messages.length - 1]?.id);
     return summary;
   }
 
@@ -316,7 +792,10 @@ export class SessionMemoryDO implements DurableObject, MemoryOperations {
   private async updateLastActivity(): Promise<void> {
     const session = await this.getSessionState();
     session.lastActivity = Date.now();
-    session.status = 'active';
+    // A handoff lasts until the agent releases the session
+    if (session.status !== 'handed_off') {
+      session.status = 'active';
+    }
     await this.state.storage.put('session', session);
   }
 
@@ -343,22 +822,116 @@ export class SessionMemoryDO implements DurableObject, MemoryOperations {
     return Array.from(topics);
   }
 
+  // Fold messages older than the recent window into the running summary
   private async performSummarization(memory: ConversationMemory): Promise<void> {
-    // In production, this would call the AI model for summarization
-    // For now, we'll use a simple approach
-    const oldMessages = memory.messages.slice(0, -10); // Keep last 10 messages
-    const messagesToSummarize = memory.messages.slice(-20, -10); // Summarize middle 10
+    const foldEnd = memory.messages.length - SessionMemoryDO.RECENT_WINDOW;
+    const messagesToSummarize = memory.messages.slice(this.getUnsummarizedIndex(memory), Math.max(0, foldEnd));
     
-    if (messagesToSummarize.length > 0) {
+    if (messagesToSummarize.length === 0) {
+      return;
+    }
+
+    let summary = await this.summarizeWithModel(memory.summary, messagesToSummarize);
+    if (!summary) {
+      // AI unavailable: keep the keyword summary so evicted turns leave a trace
       const topics = this.extractTopics(messagesToSummarize);
       const userQuestions = messagesToSummarize.filter(m => m.role === 'user').length;
-      
-      const summaryAddition = `Previous discussion covered ${topics.join(', ')} with ${userQuestions} user questions. `;
-      memory.summary = memory.summary + summaryAddition;
-      memory.lastSummaryAt = Date.now();
+      const summaryAddition = `Previous discussion covered ${topics.join(', ') || 'general questions'} with ${userQuestions} user questions. `;
+      summary = this.capSummary(memory.summary + summaryAddition);
+    }
+
+    await this.mergeSummary(memory, summary, messagesToSummarize[messagesToSummarize.length - 1]!.id);
+  }
+
+  // A summary is worked out from a snapshot while other requests keep writing, so it is
+  // merged into the stored memory rather than saving the snapshot over it. It is dropped
+  // when another summary landed after the snapshot was taken, as that one covers it.
+  private async mergeSummary(snapshot: ConversationMemory, summary: string, summarizedThroughId?: string): Promise<void> {
+    const memory = await this.getMemory();
+    if (memory.summarizedThroughId !== snapshot.summarizedThroughId) {
+      return;
+    }
+
+    memory.summary = summary;
+    memory.summarizedThroughId = summarizedThroughId;
+    memory.lastSummaryAt = Date.now();
+    await this.state.storage.put('memory', memory);
+  }
+
+  private async summarizeWithModel(previousSummary: string, messages: ChatMessage[]): Promise<string | null> {
+    if (messages.length === 0) {
+      return previousSummary || null;
+    }
+
+    const requestId = generateRequestId();
+    const logger = new Logger(requestId, 'memory', this.sessionId, undefined, this.env);
+    const transcript = messages
+      .map(message => `${TRANSCRIPT_LABELS[message.role]}: ${message.content}`)
+      .join('\n');
+
+    try {
+      const response = await completeText(
+        [
+          {
+            role: 'system',
+            content: 'You maintain the running summary of a customer support conversation. ' +
+              'Merge the new messages into the existing summary. Keep what the assistant will need later: ' +
+              'the customer\'s problem, details they provided, steps already tried, ticket IDs, decisions and open questions. ' +
+              'Reply with the updated summary only, in plain prose, under 150 words.'
+          },
+          {
+            role: 'user',
+            content: `Existing summary:\n${previousSummary || '(none)'}\n\nNew messages:\n${transcript}`
+          }
+        ],
+        'summarization',
+        this.env,
+        logger,
+        new MetricsCollector(this.env),
+        new MonitoringMiddleware(this.env)
+      );
+
+      const summary = response?.content.trim();
+      return summary ? this.capSummary(summary) : null;
+    } catch (error) {
+      await logger.warn('Model summarization failed, using heuristic summary', {
+        error: (error as Error).message
+      });
+      return null;
     }
   }
 
+  private buildHeuristicSummary(messages: ChatMessage[]): string {
+    const userMessages = messages.filter(m => m.role === 'user');
+    const assistantMessages = messages.filter(m => m.role === 'assistant');
+    const topics = this.extractTopics(messages);
+
+    return `Conversation summary: ${userMessages.length} user messages, ${assistantMessages.length} assistant responses. ` +
+           `Active topics: ${topics.join(', ')}. ` +
+           `Last activity: ${new Date(messages[messages.length - 1]?.timestamp || Date.now()).toISOString()}`;
+  }
+
+  // Index of the first message not yet folded into the summary
+  private getUnsummarizedIndex(memory: ConversationMemory): number {
+    if (!memory.summarizedThroughId) {
+      return 0;
+    }
+    // An evicted marker means every remaining message is newer
+    return memory.messages.findIndex(m => m.id === memory.summarizedThroughId) + 1;
+  }
+
+  // Drop the oldest sentences rather than cutting one in half
+  private capSummary(summary: string): string {
+    if (summary.length <= SessionMemoryDO.MAX_SUMMARY_LENGTH) {
+      return summary;
+    }
+
+    const tail = summary.slice(-SessionMemoryDO.MAX_SUMMARY_LENGTH);
+    const sentenceStart = tail.search(/[.!?]\s+\S/);
+    return sentenceStart >= 0 ? tail.slice(sentenceStart + 1).trim() : tail.trim();
+  }
+
+
   private async archiveConversation(memory: ConversationMemory): Promise<string | null> {
     try {
       const session = await this.getSessionState();
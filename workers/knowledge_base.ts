@@ -0,0 +1,581 @@
+// Knowledge base ingestion, chunking, embeddings and hybrid search
+import { WorkerBindings, generateDocumentId } from './types';
+import { estimateTokens, truncateToSentences } from './context_builder';
+import type { KnowledgeBaseSearchParams, SearchFilters, SearchResult } from './knowledge_base_tool';
+
+export type DocumentFormat = 'markdown' | 'html' | 'text';
+
+export interface KnowledgeDocumentInput {
+  id?: string;
+  title: string;
+  content: string;
+  format?: DocumentFormat;
+  category?: string;
+  tags?: string[];
+  url?: string;
+  lastUpdated?: string | number;
+}
+
+export interface KnowledgeChunk {
+  id: string; // `${documentId}#${position}`, also the Vectorize vector id
+  documentId: string;
+  position: number;
+  heading?: string;
+  content: string;
+  // Kept only when no Vectorize index holds the vectors
+  embedding?: number[];
+}
+
+export interface KnowledgeDocument {
+  id: string;
+  title: string;
+  format: DocumentFormat;
+  category?: string;
+  tags: string[];
+  url?: string;
+  lastUpdated: number;
+  ingestedAt: number;
+  embedded: boolean;
+  chunks: KnowledgeChunk[];
+}
+
+// Storage for ingested documents and their chunks
+export interface KnowledgeIndex {
+  putDocument(document: KnowledgeDocument): Promise<void>;
+  getDocument(id: string): Promise<KnowledgeDocument | null>;
+  deleteDocument(id: string): Promise<boolean>;
+  listDocuments(): Promise<KnowledgeDocument[]>;
+}
+
+export const EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5';
+export const MAX_DOCUMENT_LENGTH = 200000;
+
+const CHUNK_TOKENS = 300;
+const EMBEDDING_BATCH_SIZE = 50;
+// Vector similarity carries most of the weight; keywords rescue exact terms
+// such as error codes and product names that embeddings blur
+const VECTOR_WEIGHT = 0.65;
+const KEYWORD_WEIGHT = 0.35;
+// Applied when the caller sets no relevanceThreshold, so unrelated articles stay out of prompts
+const DEFAULT_MIN_RELEVANCE = 0.3;
+const VECTORIZE_TOP_K = 50;
+
+const KEY_PREFIX = 'kb:doc:';
+const MANIFEST_KEY = 'kb:manifest';
+const DOCUMENT_ID_PATTERN = /^[A-Za-z0-9_.-]{1,48}$/;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i',
+  'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'the', 'to', 'what', 'when', 'where', 'why',
+  'with', 'you', 'your'
+]);
+
+export class KVKnowledgeIndex implements KnowledgeIndex {
+  constructor(private kv: KVNamespace) {}
+
+  async putDocument(document: KnowledgeDocument): Promise<void> {
+    await this.kv.put(KEY_PREFIX + document.id, JSON.stringify(document));
+
+    const manifest = await this.readManifest();
+    if (!manifest.includes(document.id)) {
+      // Last writer wins on concurrent ingestion; re-ingesting restores a lost entry
+      await this.kv.put(MANIFEST_KEY, JSON.stringify([...manifest, document.id]));
+    }
+  }
+
+  async getDocument(id: string): Promise<KnowledgeDocument | null> {
+    const stored = await this.kv.get(KEY_PREFIX + id);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    const manifest = await this.readManifest();
+    if (!manifest.includes(id)) {
+      return false;
+    }
+
+    await this.kv.delete(KEY_PREFIX + id);
+    await this.kv.put(MANIFEST_KEY, JSON.stringify(manifest.filter(docId => docId !== id)));
+    return true;
+  }
+
+  async listDocuments(): Promise<KnowledgeDocument[]> {
+    const manifest = await this.readManifest();
+    const documents = await Promise.all(manifest.map(id => this.getDocument(id)));
+    return documents.filter((doc): doc is KnowledgeDocument => doc !== null);
+  }
+
+  private async readManifest(): Promise<string[]> {
+    const stored = await this.kv.get(MANIFEST_KEY);
+    return stored ? JSON.parse(stored) : [];
+  }
+}
+
+// Local stand-in for development without KV and for tests
+export class InMemoryKnowledgeIndex implements KnowledgeIndex {
+  private documents: Map<string, KnowledgeDocument> = new Map();
+
+  async putDocument(document: KnowledgeDocument): Promise<void> {
+    this.documents.set(document.id, document);
+  }
+
+  async getDocument(id: string): Promise<KnowledgeDocument | null> {
+    return this.documents.get(id) || null;
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    return this.documents.delete(id);
+  }
+
+  async listDocuments(): Promise<KnowledgeDocument[]> {
+    return [...this.documents.values()];
+  }
+}
+
+interface SearchCandidates {
+  documents: KnowledgeDocument[];
+  vectorScores: Map<string, number> | null;
+}
+
+// Shared by every request in an isolate that has no KV binding
+const localIndex = new InMemoryKnowledgeIndex();
+
+export function createKnowledgeIndex(bindings: Partial<WorkerBindings> | undefined): KnowledgeIndex {
+  return typeof bindings?.CHAT_KV?.get === 'function'
+    ? new KVKnowledgeIndex(bindings.CHAT_KV)
+    : localIndex;
+}
+
+export class KnowledgeBase {
+  private bindings: Partial<WorkerBindings>;
+  private index: KnowledgeIndex;
+
+  constructor(bindings: Partial<WorkerBindings> | undefined, index?: KnowledgeIndex) {
+    this.bindings = bindings || {};
+    this.index = index || createKnowledgeIndex(bindings);
+  }
+
+  // Chunk, embed and store a document, replacing any previous version with the same id
+  async ingest(input: KnowledgeDocumentInput): Promise<KnowledgeDocument> {
+    const errors = validateDocumentInput(input);
+    if (errors.length > 0) {
+      throw new Error(`Invalid document: ${errors.join('; ')}`);
+    }
+
+    const id = input.id || generateDocumentId();
+    const format = input.format || detectFormat(input.content);
+    const chunks = chunkDocument(id, input.content, format);
+
+    const embeddings = await this.embed(chunks.map(chunk => embeddingText(input.title, chunk)));
+    const vectorize = this.bindings.KB_INDEX;
+
+    const previous = await this.index.getDocument(id);
+    if (previous && vectorize) {
+      await vectorize.deleteByIds(previous.chunks.map(chunk => chunk.id));
+    }
+
+    if (embeddings && vectorize) {
+      // category is indexed so searches can filter on it inside Vectorize
+      const metadata: Record<string, VectorizeVectorMetadata> = { documentId: id };
+      if (input.category) {
+        metadata.category = input.category;
+      }
+      await vectorize.upsert(chunks.map((chunk, i) => ({
+        id: chunk.id,
+        values: embeddings[i]!,
+        metadata
+      })));
+    } else if (embeddings) {
+      chunks.forEach((chunk, i) => {
+        chunk.embedding = embeddings[i];
+      });
+    }
+
+    const document: KnowledgeDocument = {
+      id,
+      title: input.title.trim(),
+      format,
+      category: input.category,
+      tags: input.tags || [],
+      url: input.url,
+      lastUpdated: input.lastUpdated !== undefined ? new Date(input.lastUpdated).getTime() : Date.now(),
+      ingestedAt: Date.now(),
+      embedded: embeddings !== null,
+      chunks
+    };
+
+    await this.index.putDocument(document);
+    return document;
+  }
+
+  async getDocument(id: string): Promise<KnowledgeDocument | null> {
+    return this.index.getDocument(id);
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    const document = await this.index.getDocument(id);
+    if (!document) {
+      return false;
+    }
+
+    if (this.bindings.KB_INDEX) {
+      await this.bindings.KB_INDEX.deleteByIds(document.chunks.map(chunk => chunk.id));
+    }
+    return this.index.deleteDocument(id);
+  }
+
+  // Hybrid ranking: cosine similarity blended with keyword overlap, best chunk
+  // per document, after the metadata filters have narrowed the candidates
+  async search(params: KnowledgeBaseSearchParams): Promise<SearchResult[]> {
+    const { documents, vectorScores } = this.bindings.KB_INDEX
+      ? await this.vectorizeCandidates(params.query, this.bindings.KB_INDEX, params.filters)
+      : await this.localCandidates(params.query, params.filters);
+    if (documents.length === 0) {
+      return [];
+    }
+
+    const keywordScores = scoreKeywords(params.query, documents);
+    const threshold = params.filters?.relevanceThreshold ?? DEFAULT_MIN_RELEVANCE;
+
+    const results: SearchResult[] = [];
+    for (const document of documents) {
+      let best: { chunk: KnowledgeChunk, score: number } | null = null;
+
+      for (const chunk of document.chunks) {
+        const keywordScore = keywordScores.get(chunk.id) || 0;
+        const score = vectorScores
+          ? VECTOR_WEIGHT * (vectorScores.get(chunk.id) || 0) + KEYWORD_WEIGHT * keywordScore
+          : keywordScore;
+
+        if (!best || score > best.score) {
+          best = { chunk, score };
+        }
+      }
+
+      if (best && best.score >= threshold) {
+        results.push({
+          id: document.id,
+          title: document.title,
+          content: best.chunk.heading ? `${best.chunk.heading}: ${best.chunk.content}` : best.chunk.content,
+          relevanceScore: Math.round(best.score * 1000) / 1000,
+          category: document.category,
+          tags: document.tags,
+          lastUpdated: new Date(document.lastUpdated),
+          url: document.url
+        });
+      }
+    }
+
+    results.sort((a, b) => b.relevanceScore - a.relevanceScore);
+    return results.slice(0, params.maxResults || 5);
+  }
+
+  // Only the documents behind the nearest chunks are loaded. Vectorize filters on category;
+  // tags and dates are checked on those documents. Without a query embedding there are no
+  // candidates, since scanning every document on each chat is what the index avoids
+  private async vectorizeCandidates(
+    query: string,
+    vectorize: VectorizeIndex,
+    filters?: SearchFilters
+  ): Promise<SearchCandidates> {
+    const embeddings = await this.embed([query]);
+    if (!embeddings) {
+      return { documents: [], vectorScores: null };
+    }
+
+    const { matches } = await vectorize.query(embeddings[0]!, {
+      topK: VECTORIZE_TOP_K,
+      filter: filters?.category ? { category: filters.category } : undefined
+    });
+    const vectorScores = new Map(matches.map(match => [match.id, Math.max(0, match.score)] as const));
+    const documentIds = [...new Set(matches.map(match => match.id.slice(0, match.id.lastIndexOf('#'))))];
+
+    const documents = await Promise.all(documentIds.map(id => this.index.getDocument(id)));
+    return {
+      documents: documents.filter((doc): doc is KnowledgeDocument => doc !== null && matchesFilters(doc, filters)),
+      vectorScores
+    };
+  }
+
+  // Scores every stored document; vectorScores is null when no chunk has an embedding or
+  // embedding the query fails, and search then ranks by keywords alone
+  private async localCandidates(query: string, filters?: SearchFilters): Promise<SearchCandidates> {
+    const documents = (await this.index.listDocuments()).filter(doc => matchesFilters(doc, filters));
+    const chunks = documents.flatMap(doc => doc.chunks);
+    if (!chunks.some(chunk => chunk.embedding)) {
+      return { documents, vectorScores: null };
+    }
+
+    const embeddings = await this.embed([query]);
+    if (!embeddings) {
+      return { documents, vectorScores: null };
+    }
+    const queryVector = embeddings[0]!;
+
+    const vectorScores = new Map<string, number>();
+    for (const chunk of chunks) {
+      if (chunk.embedding) {
+        vectorScores.set(chunk.id, Math.max(0, cosineSimilarity(queryVector, chunk.embedding)));
+      }
+    }
+    return { documents, vectorScores };
+  }
+
+  private async embed(texts: string[]): Promise<number[][] | null> {
+    if (typeof this.bindings.AI?.run !== 'function' || texts.length === 0) {
+      return null;
+    }
+
+    try {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const response = await this.bindings.AI.run(EMBEDDING_MODEL, {
+          text: texts.slice(i, i + EMBEDDING_BATCH_SIZE)
+        }) as { data?: number[][] };
+
+        if (!Array.isArray(response?.data)) {
+          throw new Error('Embedding response has no data');
+        }
+        vectors.push(...response.data);
+      }
+
+      return vectors.length === texts.length ? vectors : null;
+    } catch (error) {
+      console.warn('Knowledge base embedding failed, falling back to keyword search:', error);
+      return null;
+    }
+  }
+}
+
+export function validateDocumentInput(input: any): string[] {
+  const errors: string[] = [];
+
+  if (typeof input !== 'object' || input === null) {
+    return ['document must be an object'];
+  }
+  if (input.id !== undefined && (typeof input.id !== 'string' || !DOCUMENT_ID_PATTERN.test(input.id))) {
+    errors.push('id must be 1-48 letters, digits, ".", "_" or "-"');
+  }
+  if (typeof input.title !== 'string' || input.title.trim().length === 0) {
+    errors.push('title is required');
+  }
+  if (typeof input.content !== 'string' || input.content.trim().length === 0) {
+    errors.push('content is required');
+  } else if (input.content.length > MAX_DOCUMENT_LENGTH) {
+    errors.push(`content exceeds ${MAX_DOCUMENT_LENGTH} characters`);
+  }
+  if (input.format !== undefined && !['markdown', 'html', 'text'].includes(input.format)) {
+    errors.push('format must be markdown, html or text');
+  }
+  if (input.category !== undefined && typeof input.category !== 'string') {
+    errors.push('category must be a string');
+  }
+  if (input.tags !== undefined && (!Array.isArray(input.tags) || input.tags.some((tag: any) => typeof tag !== 'string'))) {
+    errors.push('tags must be an array of strings');
+  }
+  if (input.lastUpdated !== undefined && isNaN(new Date(input.lastUpdated).getTime())) {
+    errors.push('lastUpdated must be a date');
+  }
+
+  return errors;
+}
+
+// Split a document into ~CHUNK_TOKENS pieces along headings, paragraphs and sentences
+export function chunkDocument(documentId: string, content: string, format: DocumentFormat): KnowledgeChunk[] {
+  const markdown = format === 'html' ? htmlToMarkdown(content) : content;
+  const sections = format === 'text'
+    ? [{ heading: undefined, text: content }]
+    : splitMarkdownSections(markdown);
+
+  const chunks: KnowledgeChunk[] = [];
+  for (const section of sections) {
+    for (const piece of packParagraphs(section.text)) {
+      chunks.push({
+        id: `${documentId}#${chunks.length}`,
+        documentId,
+        position: chunks.length,
+        heading: section.heading,
+        content: piece
+      });
+    }
+  }
+
+  return chunks;
+}
+
+function detectFormat(content: string): DocumentFormat {
+  if (/<(p|div|h[1-6]|ul|ol|li|br|table|article|section)\b[^>]*>/i.test(content)) {
+    return 'html';
+  }
+  if (/^#{1,6}\s|^\s*[-*]\s|\[[^\]]+\]\([^)]+\)/m.test(content)) {
+    return 'markdown';
+  }
+  return 'text';
+}
+
+function htmlToMarkdown(html: string): string {
+  return html
+    .replace(/<(script|style|nav|footer)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, text) => `\n\n${'#'.repeat(Number(level))} ${text}\n\n`)
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|ul|ol|table|tr|section|article|blockquote|pre)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function splitMarkdownSections(markdown: string): Array<{ heading?: string, text: string }> {
+  const sections: Array<{ heading?: string, text: string }> = [];
+  let current: { heading?: string, lines: string[] } = { lines: [] };
+
+  for (const line of markdown.split('\n')) {
+    const heading = line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      sections.push({ heading: current.heading, text: current.lines.join('\n') });
+      current = { heading: stripInlineMarkdown(heading[1]!), lines: [] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  sections.push({ heading: current.heading, text: current.lines.join('\n') });
+
+  return sections
+    .map(section => ({ ...section, text: stripInlineMarkdown(section.text).trim() }))
+    .filter(section => section.text.length > 0);
+}
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/^```.*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|`)/g, '')
+    .replace(/[ \t]+\n/g, '\n');
+}
+
+function packParagraphs(text: string): string[] {
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const paragraph of paragraphs) {
+    const candidate = current ? `${current}\n\n${paragraph}` : paragraph;
+    if (estimateTokens(candidate) <= CHUNK_TOKENS) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) {
+      chunks.push(current);
+    }
+
+    // Oversized paragraphs are cut between sentences
+    let rest = paragraph;
+    while (estimateTokens(rest) > CHUNK_TOKENS) {
+      const head = truncateToSentences(rest, CHUNK_TOKENS);
+      if (!head) {
+        break;
+      }
+      chunks.push(head);
+      rest = rest.slice(rest.indexOf(head) + head.length).trim();
+    }
+    current = rest;
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+function embeddingText(title: string, chunk: KnowledgeChunk): string {
+  return [title, chunk.heading, chunk.content].filter(Boolean).join('\n');
+}
+
+function matchesFilters(document: KnowledgeDocument, filters?: SearchFilters): boolean {
+  if (!filters) {
+    return true;
+  }
+  if (filters.category && document.category !== filters.category) {
+    return false;
+  }
+  if (filters.tags && filters.tags.length > 0 && !filters.tags.some(tag => document.tags.includes(tag))) {
+    return false;
+  }
+  if (filters.dateRange) {
+    const start = new Date(filters.dateRange.start).getTime();
+    const end = new Date(filters.dateRange.end).getTime();
+    if (document.lastUpdated < start || document.lastUpdated > end) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}_-]*/gu) || [])
+    .filter(term => !STOP_WORDS.has(term));
+}
+
+// Share of the query's IDF weight found in each chunk; title and heading hits count fully,
+// body hits slightly less
+function scoreKeywords(query: string, documents: KnowledgeDocument[]): Map<string, number> {
+  const terms = [...new Set(tokenize(query))];
+  const scores = new Map<string, number>();
+  if (terms.length === 0) {
+    return scores;
+  }
+
+  const chunkTerms = new Map<string, { label: Set<string>, body: Set<string> }>();
+  const documentFrequency = new Map<string, number>();
+  let chunkCount = 0;
+
+  for (const document of documents) {
+    for (const chunk of document.chunks) {
+      const label = new Set(tokenize(`${document.title} ${chunk.heading || ''} ${document.tags.join(' ')}`));
+      const body = new Set(tokenize(chunk.content));
+      chunkTerms.set(chunk.id, { label, body });
+      chunkCount++;
+
+      for (const term of terms) {
+        if (label.has(term) || body.has(term)) {
+          documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+        }
+      }
+    }
+  }
+
+  const weights = terms.map(term => Math.log(1 + (chunkCount + 1) / ((documentFrequency.get(term) || 0) + 0.5)));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  for (const [chunkId, { label, body }] of chunkTerms) {
+    let matched = 0;
+    terms.forEach((term, i) => {
+      if (label.has(term)) {
+        matched += weights[i]!;
+      } else if (body.has(term)) {
+        matched += weights[i]! * 0.8;
+      }
+    });
+    scores.set(chunkId, matched / totalWeight);
+  }
+
+  return scores;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
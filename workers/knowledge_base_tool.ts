@@ -1,6 +1,7 @@
 // Knowledge Base Tool implementation
 
 import { Tool, ToolContext, ToolResult } from './tools.js';
+import { KnowledgeBase, KnowledgeIndex } from './knowledge_base';
 
 export interface SearchFilters {
   category?: string;
@@ -70,6 +71,9 @@ export class KnowledgeBaseTool implements Tool {
     required: ['query']
   };
 
+  // Defaults to the index for the caller's bindings (KV, or in-memory without KV)
+  constructor(private index?: KnowledgeIndex) {}
+
   async execute(params: KnowledgeBaseSearchParams, context: ToolContext): Promise<ToolResult> {
     try {
       // Validate parameters
@@ -125,88 +129,7 @@ export class KnowledgeBaseTool implements Tool {
     params: KnowledgeBaseSearchParams, 
     context: ToolContext
   ): Promise<SearchResult[]> {
-    // In a real implementation, this would connect to an actual knowledge base
-    // For now, we'll simulate a search with mock data
-    
-    const mockKnowledgeBase: SearchResult[] = [
-      {
-        id: 'kb_001',
-        title: 'Getting Started with Cloudflare Workers',
-        content: 'Cloudflare Workers is a serverless platform that allows you to run JavaScript at the edge...',
-        relevanceScore: 0.95,
-        category: 'documentation',
-        tags: ['workers', 'getting-started', 'serverless'],
-        lastUpdated: new Date('2024-01-15'),
-        url: 'https://developers.cloudflare.com/workers/get-started/'
-      },
-      {
-        id: 'kb_002',
-        title: 'Durable Objects Overview',
-        content: 'Durable Objects provide low-latency coordination and consistent storage for the Workers platform...',
-        relevanceScore: 0.88,
-        category: 'documentation',
-        tags: ['durable-objects', 'storage', 'state'],
-        lastUpdated: new Date('2024-01-10'),
-        url: 'https://developers.cloudflare.com/durable-objects/'
-      },
-      {
-        id: 'kb_003',
-        title: 'Troubleshooting Common Issues',
-        content: 'This guide covers common issues and their solutions when working with Cloudflare services...',
-        relevanceScore: 0.82,
-        category: 'troubleshooting',
-        tags: ['troubleshooting', 'common-issues', 'support'],
-        lastUpdated: new Date('2024-01-12'),
-        url: 'https://support.cloudflare.com/troubleshooting/'
-      }
-    ];
-
-    // Filter results based on query relevance (simple keyword matching for demo)
-    const queryLower = params.query.toLowerCase();
-    let filteredResults = mockKnowledgeBase.filter(article => {
-      const titleMatch = article.title.toLowerCase().includes(queryLower);
-      const contentMatch = article.content.toLowerCase().includes(queryLower);
-      const tagMatch = article.tags?.some(tag => tag.toLowerCase().includes(queryLower));
-      
-      return titleMatch || contentMatch || tagMatch;
-    });
-
-    // Apply additional filters if provided
-    if (params.filters) {
-      if (params.filters.category) {
-        filteredResults = filteredResults.filter(article => 
-          article.category === params.filters!.category
-        );
-      }
-
-      if (params.filters.tags && params.filters.tags.length > 0) {
-        filteredResults = filteredResults.filter(article =>
-          params.filters!.tags!.some(filterTag =>
-            article.tags?.includes(filterTag)
-          )
-        );
-      }
-
-      if (params.filters.relevanceThreshold) {
-        filteredResults = filteredResults.filter(article =>
-          article.relevanceScore >= params.filters!.relevanceThreshold!
-        );
-      }
-
-      if (params.filters.dateRange) {
-        filteredResults = filteredResults.filter(article =>
-          article.lastUpdated >= params.filters!.dateRange!.start &&
-          article.lastUpdated <= params.filters!.dateRange!.end
-        );
-      }
-    }
-
-    // Sort by relevance score (descending)
-    filteredResults.sort((a, b) => b.relevanceScore - a.relevanceScore);
-
-    // Limit results
-    const maxResults = params.maxResults || 5;
-    return filteredResults.slice(0, maxResults);
+    return new KnowledgeBase(context.bindings, this.index).search(params);
   }
 
   private isRetryableError(error: unknown): boolean {
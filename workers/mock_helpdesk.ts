@@ -0,0 +1,330 @@
+// Local stand-in for the Zendesk, Jira Service Management and Freshdesk REST APIs,
+// covering the subset used by ticketing_backends.ts. Each system is served under
+// its own path prefix, e.g. TICKETING_BACKEND={"type":"zendesk","baseUrl":"http://localhost:8789/zendesk",...}
+// Run with `npm run mock:helpdesk`, or call fetch() directly from tests.
+
+type HelpdeskSystem = 'zendesk' | 'jira' | 'freshdesk';
+
+interface MockComment {
+  id: number;
+  author: string;
+  body: string;
+  public: boolean;
+  createdAt: string;
+}
+
+interface MockTicket {
+  id: number;
+  // Jira issue key, e.g. SUP-1
+  key?: string;
+  subject: string;
+  description: string;
+  // System-native values: Zendesk/Jira status names, Freshdesk status codes
+  status: string | number;
+  priority: string | number;
+  assignee?: string;
+  tags: string[];
+  requester?: string;
+  comments: MockComment[];
+}
+
+const JIRA_STATUSES: Record<string, { name: string; category: string }> = {
+  '11': { name: 'Open', category: 'NEW' },
+  '21': { name: 'In Progress', category: 'INDETERMINATE' },
+  '31': { name: 'Waiting for customer', category: 'INDETERMINATE' },
+  '41': { name: 'Resolved', category: 'DONE' },
+  '51': { name: 'Closed', category: 'DONE' }
+};
+
+export class MockHelpdesk {
+  private tickets: Record<HelpdeskSystem, Map<string, MockTicket>> = {
+    zendesk: new Map(),
+    jira: new Map(),
+    freshdesk: new Map()
+  };
+  private nextId = 1;
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const [, system, ...rest] = url.pathname.split('/');
+    const path = '/' + rest.join('/');
+
+    if (system !== 'zendesk' && system !== 'jira' && system !== 'freshdesk') {
+      return json({ error: 'Unknown helpdesk' }, 404);
+    }
+    if (!request.headers.get('Authorization')) {
+      return json({ error: 'Authentication required' }, 401);
+    }
+
+    const body = request.method === 'GET' ? null : await request.json().catch(() => null) as any;
+
+    switch (system) {
+      case 'zendesk':
+        return this.zendesk(request.method, path, body);
+      case 'jira':
+        return this.jira(request.method, path, body);
+      case 'freshdesk':
+        return this.freshdesk(request.method, path, body);
+    }
+  }
+
+  // Ticket as stored by the mock, for assertions
+  getTicket(system: HelpdeskSystem, id: string): MockTicket | undefined {
+    return this.tickets[system].get(id);
+  }
+
+  // Simulate helpdesk-side activity: an agent changing the ticket or replying
+  agentUpdate(
+    system: HelpdeskSystem,
+    id: string,
+    update: { status?: string | number; priority?: string | number; assignee?: string; reply?: string }
+  ): void {
+    const ticket = this.tickets[system].get(id);
+    if (!ticket) {
+      throw new Error(`Mock ${system} ticket not found: ${id}`);
+    }
+    if (update.status !== undefined) ticket.status = update.status;
+    if (update.priority !== undefined) ticket.priority = update.priority;
+    if (update.assignee !== undefined) ticket.assignee = update.assignee;
+    if (update.reply) {
+      ticket.comments.push(this.comment(update.assignee || ticket.assignee || 'agent', update.reply, true));
+    }
+  }
+
+  private zendesk(method: string, path: string, body: any): Response {
+    if (method === 'POST' && path === '/api/v2/tickets.json') {
+      const input = body?.ticket;
+      if (!input?.subject || !input?.comment?.body) {
+        return json({ error: 'RecordInvalid' }, 422);
+      }
+      const ticket = this.insert('zendesk', {
+        subject: input.subject,
+        description: input.comment.body,
+        status: input.status || 'new',
+        priority: input.priority || 'normal',
+        tags: input.tags || [],
+        requester: input.requester?.email,
+        comments: []
+      });
+      ticket.comments.push(this.comment(ticket.requester || 'requester', input.comment.body, true));
+      return json({ ticket: zendeskTicket(ticket) }, 201);
+    }
+
+    const match = path.match(/^\/api\/v2\/tickets\/(\d+)(\/comments)?\.json$/);
+    const ticket = match ? this.tickets.zendesk.get(match[1]!) : undefined;
+    if (!ticket) {
+      return json({ error: 'RecordNotFound' }, 404);
+    }
+
+    if (method === 'GET' && match![2]) {
+      return json({
+        comments: ticket.comments.map(comment => ({
+          id: comment.id,
+          author_id: comment.author,
+          body: comment.body,
+          public: comment.public,
+          created_at: comment.createdAt
+        }))
+      });
+    }
+    if (method === 'GET') {
+      return json({ ticket: zendeskTicket(ticket) });
+    }
+    if (method === 'PUT' && !match![2]) {
+      const input = body?.ticket || {};
+      if (input.status) ticket.status = input.status;
+      if (input.priority) ticket.priority = input.priority;
+      if (input.comment?.body) {
+        ticket.comments.push(this.comment('api', input.comment.body, input.comment.public !== false));
+      }
+      return json({ ticket: zendeskTicket(ticket) });
+    }
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  private jira(method: string, path: string, body: any): Response {
+    if (method === 'POST' && path === '/rest/servicedeskapi/request') {
+      const fields = body?.requestFieldValues;
+      if (!body?.serviceDeskId || !body?.requestTypeId || !fields?.summary) {
+        return json({ errorMessage: 'Missing required fields' }, 400);
+      }
+      const ticket = this.insert('jira', {
+        subject: fields.summary,
+        description: fields.description || '',
+        status: '11',
+        priority: fields.priority?.name || 'Medium',
+        tags: fields.labels || [],
+        comments: []
+      });
+      ticket.key = `SUP-${ticket.id}`;
+      this.tickets.jira.set(ticket.key, ticket);
+      return json(jiraRequest(ticket), 201);
+    }
+
+    const issueMatch = path.match(/^\/rest\/api\/3\/issue\/([A-Z]+-\d+)$/);
+    if (issueMatch) {
+      const ticket = this.tickets.jira.get(issueMatch[1]!);
+      if (!ticket) {
+        return json({ errorMessages: ['Issue does not exist'] }, 404);
+      }
+      if (method !== 'PUT') {
+        return json({ errorMessages: ['Method not allowed'] }, 405);
+      }
+      if (body?.fields?.priority?.name) ticket.priority = body.fields.priority.name;
+      return new Response(null, { status: 204 });
+    }
+
+    const match = path.match(/^\/rest\/servicedeskapi\/request\/([A-Z]+-\d+)(\/transition|\/comment)?$/);
+    const ticket = match ? this.tickets.jira.get(match[1]!) : undefined;
+    if (!ticket) {
+      return json({ errorMessage: 'Request does not exist' }, 404);
+    }
+
+    switch (`${method} ${match![2] || ''}`) {
+      case 'GET ':
+        return json(jiraRequest(ticket));
+      case 'GET /transition':
+        return json({
+          values: Object.entries(JIRA_STATUSES)
+            .filter(([id]) => id !== ticket.status)
+            .map(([id, status]) => ({ id, name: status.name }))
+        });
+      case 'POST /transition':
+        if (!JIRA_STATUSES[body?.id] || body.id === ticket.status) {
+          return json({ errorMessage: 'Invalid transition' }, 400);
+        }
+        ticket.status = body.id;
+        return new Response(null, { status: 204 });
+      case 'GET /comment':
+        return json({
+          values: ticket.comments.map(comment => ({
+            id: String(comment.id),
+            body: comment.body,
+            public: comment.public,
+            author: { accountId: comment.author, displayName: comment.author },
+            created: { epochMillis: Date.parse(comment.createdAt) }
+          }))
+        });
+      case 'POST /comment':
+        if (!body?.body) {
+          return json({ errorMessage: 'Comment body is required' }, 400);
+        }
+        ticket.comments.push(this.comment('api', body.body, body.public !== false));
+        return json({ id: String(ticket.comments[ticket.comments.length - 1]!.id) }, 201);
+      default:
+        return json({ errorMessage: 'Method not allowed' }, 405);
+    }
+  }
+
+  private freshdesk(method: string, path: string, body: any): Response {
+    if (method === 'POST' && path === '/api/v2/tickets') {
+      if (!body?.subject || !body?.description || !body?.email) {
+        return json({ description: 'Validation failed' }, 400);
+      }
+      const ticket = this.insert('freshdesk', {
+        subject: body.subject,
+        description: body.description,
+        status: body.status || 2,
+        priority: body.priority || 1,
+        tags: body.tags || [],
+        requester: body.email,
+        comments: []
+      });
+      return json(freshdeskTicket(ticket), 201);
+    }
+
+    const match = path.match(/^\/api\/v2\/tickets\/(\d+)(\/notes)?$/);
+    const ticket = match ? this.tickets.freshdesk.get(match[1]!) : undefined;
+    if (!ticket) {
+      return json({ code: 'access_denied' }, 404);
+    }
+
+    if (method === 'GET' && !match![2]) {
+      return json({
+        ...freshdeskTicket(ticket),
+        conversations: ticket.comments.map(comment => ({
+          id: comment.id,
+          user_id: comment.author,
+          body_text: comment.body,
+          private: !comment.public,
+          created_at: comment.createdAt
+        }))
+      });
+    }
+    if (method === 'PUT' && !match![2]) {
+      if (body?.status !== undefined) ticket.status = body.status;
+      if (body?.priority !== undefined) ticket.priority = body.priority;
+      return json(freshdeskTicket(ticket));
+    }
+    if (method === 'POST' && match![2]) {
+      ticket.comments.push(this.comment('api', body?.body || '', body?.private === false));
+      return json({ id: ticket.comments[ticket.comments.length - 1]!.id }, 201);
+    }
+    return json({ code: 'method_not_allowed' }, 405);
+  }
+
+  private insert(system: HelpdeskSystem, fields: Omit<MockTicket, 'id'>): MockTicket {
+    const ticket: MockTicket = { id: this.nextId++, ...fields };
+    this.tickets[system].set(String(ticket.id), ticket);
+    return ticket;
+  }
+
+  private comment(author: string, body: string, isPublic: boolean): MockComment {
+    return { id: this.nextId++, author, body, public: isPublic, createdAt: new Date().toISOString() };
+  }
+}
+
+function zendeskTicket(ticket: MockTicket) {
+  return {
+    id: ticket.id,
+    subject: ticket.subject,
+    description: ticket.description,
+    status: ticket.status,
+    priority: ticket.priority,
+    assignee_id: ticket.assignee ?? null,
+    tags: ticket.tags
+  };
+}
+
+function jiraRequest(ticket: MockTicket) {
+  const status = JIRA_STATUSES[ticket.status as string]!;
+  return {
+    issueId: String(ticket.id),
+    issueKey: ticket.key,
+    currentStatus: { status: status.name, statusCategory: status.category },
+    requestFieldValues: [
+      { fieldId: 'summary', value: ticket.subject },
+      { fieldId: 'description', value: ticket.description },
+      { fieldId: 'priority', value: { name: ticket.priority } }
+    ],
+    _links: { web: `https://mock.atlassian.net/servicedesk/customer/portal/1/${ticket.key}` }
+  };
+}
+
+function freshdeskTicket(ticket: MockTicket) {
+  return {
+    id: ticket.id,
+    subject: ticket.subject,
+    description: ticket.description,
+    status: ticket.status,
+    priority: ticket.priority,
+    responder_id: ticket.assignee ?? null,
+    tags: ticket.tags
+  };
+}
+
+function json(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// State lives for the lifetime of the isolate, which is enough for local runs
+const helpdesk = new MockHelpdesk();
+
+export default {
+  fetch(request: Request): Promise<Response> {
+    return helpdesk.fetch(request);
+  }
+};
@@ -0,0 +1,793 @@
+// Pluggable chat model providers and per-route fallback chains
+import { WorkerBindings, ToolCall, generateToolCallId } from './types';
+import { toolRegistry } from './tool_registry';
+import { ContextBudget, calculateMaxOutputTokens, fitToContextWindow } from './context_builder';
+
+export interface ModelMessage {
+  role: string;
+  content: string;
+  name?: string;
+  tool_call_id?: string;
+  tool_calls?: Array<{
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+  }>;
+}
+
+export interface AIResponse {
+  content: string;
+  model: string;
+  toolCalls?: ToolCall[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+// Receives incremental answer text while a streamed completion is in flight
+export type DeltaHandler = (delta: string) => void | Promise<void>;
+// Told once when a streamed completion starts a tool call; the text streamed before it
+// was a preamble, and no further text reaches the DeltaHandler
+export type ToolCallHandler = () => void | Promise<void>;
+
+export interface ModelRequest {
+  messages: ModelMessage[];
+  tools?: any[];
+  // 'none' keeps the tools listed, so history that used them stays valid, but asks for text
+  toolChoice?: 'auto' | 'none';
+  onDelta?: DeltaHandler;
+  onToolCall?: ToolCallHandler;
+  signal?: AbortSignal;
+}
+
+export interface ModelProvider {
+  // Reported as AIResponse.model and used as the metrics label
+  readonly name: string;
+  readonly timeoutMs: number;
+  // Input plus output tokens the model accepts; DEFAULT_CONTEXT_WINDOW when unset
+  readonly contextWindow?: number;
+  // Resolves with the completion or throws; the chain moves on after a throw
+  complete(request: ModelRequest): Promise<AIResponse>;
+}
+
+export type ModelProviderType = 'workers-ai' | 'openai' | 'anthropic' | 'mock';
+
+export interface ModelProviderConfig {
+  type: ModelProviderType;
+  model?: string;
+  name?: string;
+  baseUrl?: string;
+  // Name of the binding that holds the API key, so secrets stay out of the chain config
+  apiKeyBinding?: string;
+  timeoutMs?: number;
+  temperature?: number;
+  maxTokens?: number;
+  // Overrides the known window for the model, e.g. for self-hosted deployments
+  contextWindow?: number;
+  // Mock only: fixed reply instead of echoing the last user message
+  reply?: string;
+}
+
+// Chains keyed by route ('chat', 'websocket', ...); 'default' covers the rest
+export type ModelChainConfig = Record<string, ModelProviderConfig[]>;
+
+export const DEFAULT_MODEL_CHAINS: ModelChainConfig = {
+  default: [
+    {
+      type: 'workers-ai',
+      model: '@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+      name: 'llama-3.3-70b-fp8-fast',
+      timeoutMs: 30000
+    },
+    {
+      type: 'openai',
+      model: 'gpt-3.5-turbo',
+      name: 'gpt-3.5-turbo-fallback',
+      apiKeyBinding: 'OPENAI_API_KEY',
+      timeoutMs: 20000
+    }
+  ]
+};
+
+const DEFAULT_TIMEOUT_MS = 30000;
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Context windows of models we ship defaults for; others need contextWindow in their config
+const KNOWN_CONTEXT_WINDOWS: Record<string, number> = {
+  '@cf/meta/llama-3.3-70b-instruct-fp8-fast': 24000,
+  '@cf/meta/llama-3.1-8b-instruct': 8192,
+  'gpt-3.5-turbo': 16385,
+  'gpt-4o': 128000,
+  'gpt-4o-mini': 128000
+};
+const ANTHROPIC_CONTEXT_WINDOW = 200000;
+
+// Build the ordered provider chain for a route from env.MODEL_CHAINS,
+// falling back to DEFAULT_MODEL_CHAINS when unset or unparseable
+export function resolveModelChain(route: string, env: WorkerBindings): ModelProvider[] {
+  const chains = loadChainConfig(env);
+  const configs = chains[route] || chains.default || DEFAULT_MODEL_CHAINS.default!;
+
+  const providers: ModelProvider[] = [];
+  for (const config of configs) {
+    try {
+      providers.push(createModelProvider(config, env));
+    } catch (error) {
+      console.warn(`Skipping model provider for route ${route}:`, (error as Error).message);
+    }
+  }
+
+  return providers;
+}
+
+export function createModelProvider(config: ModelProviderConfig, env: WorkerBindings): ModelProvider {
+  switch (config.type) {
+    case 'workers-ai':
+      return new WorkersAIProvider(env, config);
+    case 'openai':
+      return new OpenAICompatibleProvider(env, config);
+    case 'anthropic':
+      return new AnthropicCompatibleProvider(env, config);
+    case 'mock':
+      return new MockModelProvider(config);
+    default:
+      throw new Error(`Unknown model provider type: ${(config as any).type}`);
+  }
+}
+
+// Split a provider's window into prompt space and a reserve for the answer,
+// so long histories never squeeze the reply below a quarter of the window
+export function getContextBudget(provider: Pick<ModelProvider, 'contextWindow'>, env: WorkerBindings, maxTokens?: number): ContextBudget {
+  const contextWindow = provider.contextWindow || DEFAULT_CONTEXT_WINDOW;
+  const outputLimit = maxTokens || parseInt(env.MAX_TOKENS || '4096');
+
+  return {
+    contextWindow,
+    responseReserve: Math.min(outputLimit, Math.floor(contextWindow / 4))
+  };
+}
+
+// Run a provider call under its timeout, aborting in-flight HTTP requests on expiry
+export async function completeWithTimeout(provider: ModelProvider, request: ModelRequest): Promise<AIResponse> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`TIMEOUT: ${provider.name} did not respond within ${provider.timeoutMs}ms`));
+    }, provider.timeoutMs);
+  });
+
+  try {
+    return await Promise.race([
+      provider.complete({ ...request, signal: controller.signal }),
+      timeout
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function loadChainConfig(env: WorkerBindings): ModelChainConfig {
+  if (!env.MODEL_CHAINS) {
+    return DEFAULT_MODEL_CHAINS;
+  }
+
+  try {
+    const parsed = typeof env.MODEL_CHAINS === 'string' ? JSON.parse(env.MODEL_CHAINS) : env.MODEL_CHAINS;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('MODEL_CHAINS must map route names to provider lists');
+    }
+    return parsed as ModelChainConfig;
+  } catch (error) {
+    console.warn('Invalid MODEL_CHAINS, using default chain:', (error as Error).message);
+    return DEFAULT_MODEL_CHAINS;
+  }
+}
+
+function readApiKey(env: WorkerBindings, config: ModelProviderConfig, defaultBinding: string): string | undefined {
+  return (env as any)[config.apiKeyBinding || defaultBinding];
+}
+
+export class WorkersAIProvider implements ModelProvider {
+  readonly name: string;
+  readonly timeoutMs: number;
+  readonly contextWindow: number;
+  private env: WorkerBindings;
+  private model: string;
+  private temperature: number;
+
+  constructor(env: WorkerBindings, config: Partial<ModelProviderConfig> = {}) {
+    this.env = env;
+    this.model = config.model || '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
+    this.name = config.name || this.model.split('/').pop() || this.model;
+    this.timeoutMs = config.timeoutMs || DEFAULT_TIMEOUT_MS;
+    this.contextWindow = config.contextWindow || KNOWN_CONTEXT_WINDOWS[this.model] || DEFAULT_CONTEXT_WINDOW;
+    this.temperature = config.temperature ?? 0.3; // Lower temperature for more consistent support responses
+  }
+
+  async complete(request: ModelRequest): Promise<AIResponse> {
+    const { tools, toolChoice, onDelta, onToolCall } = request;
+    const budget = getContextBudget(this, this.env);
+    const messages = fitToContextWindow(request.messages, budget, tools);
+
+    // Optimize model parameters for support bot use case
+    const optimizedParams = {
+      messages,
+      max_tokens: calculateMaxOutputTokens(messages, budget, parseInt(this.env.MAX_TOKENS || '4096'), tools),
+      temperature: this.temperature,
+      top_p: 0.9, // Nucleus sampling for better quality
+      frequency_penalty: 0.1, // Slight penalty to avoid repetition
+      presence_penalty: 0.1, // Encourage diverse responses
+      stream: !!onDelta,
+      // Workers AI has no tool_choice; leaving the tools out is how it is told to answer
+      ...(tools && tools.length > 0 && toolChoice !== 'none' ? { tools } : {})
+    };
+
+    const response = await this.env.AI.run(this.model as any, optimizedParams as any) as any;
+
+    if (onDelta) {
+      return {
+        ...await readWorkersAIStream(response, onDelta, onToolCall),
+        model: this.name
+      };
+    }
+
+    if (!response || typeof response !== 'object') {
+      throw new Error('Invalid response from Workers AI model');
+    }
+
+    // Handle different response formats
+    const content = response.response || response.content || (typeof response === 'string' ? response : '');
+
+    return {
+      // Post-process response for better quality
+      content: postProcessAIResponse(content),
+      model: this.name,
+      toolCalls: parseToolCalls(response.tool_calls),
+      usage: normalizeUsage(response.usage)
+    };
+  }
+}
+
+export class OpenAICompatibleProvider implements ModelProvider {
+  readonly name: string;
+  readonly timeoutMs: number;
+  readonly contextWindow: number;
+  private env: WorkerBindings;
+  private config: ModelProviderConfig;
+  private model: string;
+
+  constructor(env: WorkerBindings, config: Partial<ModelProviderConfig> = {}) {
+    this.env = env;
+    this.config = { type: 'openai', ...config };
+    this.model = config.model || 'gpt-3.5-turbo';
+    this.name = config.name || this.model;
+    this.timeoutMs = config.timeoutMs || DEFAULT_TIMEOUT_MS;
+    this.contextWindow = config.contextWindow || KNOWN_CONTEXT_WINDOWS[this.model] || DEFAULT_CONTEXT_WINDOW;
+  }
+
+  async complete(request: ModelRequest): Promise<AIResponse> {
+    const { tools, toolChoice, onDelta, onToolCall, signal } = request;
+    const budget = getContextBudget(this, this.env, this.config.maxTokens);
+    const messages = fitToContextWindow(request.messages, budget, tools);
+
+    const apiKey = readApiKey(this.env, this.config, 'OPENAI_API_KEY');
+    if (!apiKey) {
+      throw new Error(`${this.name}: API key not configured`);
+    }
+
+    const baseUrl = (this.config.baseUrl || 'https://api.openai.com/v1').replace(/\/$/, '');
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: this.model,
+        // OpenAI identifies tool results by tool_call_id only
+        messages: messages.map(({ name, ...msg }) => msg.role === 'tool' ? msg : { name, ...msg }),
+        max_tokens: calculateMaxOutputTokens(
+          messages,
+          budget,
+          this.config.maxTokens || parseInt(this.env.MAX_TOKENS || '4096'),
+          tools
+        ),
+        temperature: this.config.temperature ?? 0.7,
+        ...(tools && tools.length > 0 ? { tools, tool_choice: toolChoice || 'auto' } : {}),
+        ...(onDelta ? { stream: true, stream_options: { include_usage: true } } : {})
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`${this.name} API error: ${response.status}`);
+    }
+
+    if (onDelta) {
+      if (!response.body) {
+        throw new Error(`${this.name} returned an empty stream`);
+      }
+      return {
+        ...await readOpenAIStream(response.body, onDelta, onToolCall),
+        model: this.name
+      };
+    }
+
+    const data = await response.json() as any;
+
+    if (!data.choices || !data.choices[0] || !data.choices[0].message) {
+      throw new Error(`Invalid response from ${this.name}`);
+    }
+
+    return {
+      content: data.choices[0].message.content || '',
+      model: this.name,
+      toolCalls: parseToolCalls(data.choices[0].message.tool_calls),
+      usage: normalizeUsage(data.usage)
+    };
+  }
+}
+
+export class AnthropicCompatibleProvider implements ModelProvider {
+  readonly name: string;
+  readonly timeoutMs: number;
+  readonly contextWindow: number;
+  private env: WorkerBindings;
+  private config: ModelProviderConfig;
+  private model: string;
+
+  constructor(env: WorkerBindings, config: Partial<ModelProviderConfig> = {}) {
+    this.env = env;
+    this.config = { type: 'anthropic', ...config };
+    this.model = config.model || 'claude-3-5-haiku-latest';
+    this.name = config.name || this.model;
+    this.timeoutMs = config.timeoutMs || DEFAULT_TIMEOUT_MS;
+    this.contextWindow = config.contextWindow || ANTHROPIC_CONTEXT_WINDOW;
+  }
+
+  async complete(request: ModelRequest): Promise<AIResponse> {
+    const { tools, toolChoice, onDelta, onToolCall, signal } = request;
+    const budget = getContextBudget(this, this.env, this.config.maxTokens);
+    const messages = fitToContextWindow(request.messages, budget, tools);
+
+    const apiKey = readApiKey(this.env, this.config, 'ANTHROPIC_API_KEY');
+    if (!apiKey) {
+      throw new Error(`${this.name}: API key not configured`);
+    }
+
+    const baseUrl = (this.config.baseUrl || 'https://api.anthropic.com').replace(/\/$/, '');
+    const response = await fetch(`${baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: this.model,
+        system: messages.filter(msg => msg.role === 'system').map(msg => msg.content).join('\n\n'),
+        messages: toAnthropicMessages(messages),
+        max_tokens: calculateMaxOutputTokens(
+          messages,
+          budget,
+          this.config.maxTokens || parseInt(this.env.MAX_TOKENS || '4096'),
+          tools
+        ),
+        temperature: this.config.temperature ?? 0.7,
+        ...(tools && tools.length > 0 ? {
+          tools: tools.map(tool => ({
+            name: tool.function.name,
+            description: tool.function.description,
+            input_schema: tool.function.parameters
+          })),
+          tool_choice: { type: toolChoice || 'auto' }
+        } : {}),
+        ...(onDelta ? { stream: true } : {})
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`${this.name} API error: ${response.status}`);
+    }
+
+    if (onDelta) {
+      if (!response.body) {
+        throw new Error(`${this.name} returned an empty stream`);
+      }
+      return {
+        ...await readAnthropicStream(response.body, onDelta, onToolCall),
+        model: this.name
+      };
+    }
+
+    const data = await response.json() as any;
+
+    if (!Array.isArray(data.content)) {
+      throw new Error(`Invalid response from ${this.name}`);
+    }
+
+    const text = data.content
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+    const rawToolCalls = data.content
+      .filter((block: any) => block.type === 'tool_use')
+      .map((block: any) => ({ id: block.id, name: block.name, arguments: block.input }));
+
+    return {
+      content: text,
+      model: this.name,
+      toolCalls: parseToolCalls(rawToolCalls),
+      usage: normalizeUsage({
+        prompt_tokens: data.usage?.input_tokens,
+        completion_tokens: data.usage?.output_tokens,
+        total_tokens: (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0)
+      })
+    };
+  }
+}
+
+// Deterministic provider for local development and tests: echoes the last
+// user message (or a fixed reply) and never calls tools
+export class MockModelProvider implements ModelProvider {
+  readonly name: string;
+  readonly timeoutMs: number;
+  readonly contextWindow: number;
+  private reply?: string;
+
+  constructor(config: Partial<ModelProviderConfig> = {}) {
+    this.name = config.name || 'mock';
+    this.timeoutMs = config.timeoutMs || DEFAULT_TIMEOUT_MS;
+    this.contextWindow = config.contextWindow || DEFAULT_CONTEXT_WINDOW;
+    this.reply = config.reply;
+  }
+
+  async complete(request: ModelRequest): Promise<AIResponse> {
+    const lastUserMessage = [...request.messages].reverse().find(msg => msg.role === 'user');
+    const content = this.reply ?? `Mock response to: ${lastUserMessage?.content ?? ''}`;
+
+    if (request.onDelta) {
+      for (const word of content.match(/\S+\s*/g) || []) {
+        await request.onDelta(word);
+      }
+    }
+
+    const promptTokens = Math.ceil(request.messages.reduce((sum, msg) => sum + msg.content.length, 0) / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      content,
+      model: this.name,
+      toolCalls: [],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens
+      }
+    };
+  }
+}
+
+// Anthropic takes the system prompt separately, carries tool calls and results
+// as content blocks, and requires user/assistant turns to alternate
+function toAnthropicMessages(messages: ModelMessage[]): Array<{ role: string, content: any }> {
+  const converted: Array<{ role: string, content: any[] }> = [];
+
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      continue;
+    }
+
+    let role = msg.role;
+    let blocks: any[];
+
+    if (msg.role === 'tool') {
+      role = 'user';
+      blocks = [{ type: 'tool_result', tool_use_id: msg.tool_call_id, content: msg.content }];
+    } else if (msg.tool_calls && msg.tool_calls.length > 0) {
+      blocks = [
+        ...(msg.content ? [{ type: 'text', text: msg.content }] : []),
+        ...msg.tool_calls.map(call => ({
+          type: 'tool_use',
+          id: call.id,
+          name: call.function.name,
+          input: safeParseJSON(call.function.arguments)
+        }))
+      ];
+    } else {
+      blocks = [{ type: 'text', text: msg.content }];
+    }
+
+    const previous = converted[converted.length - 1];
+    if (previous && previous.role === role) {
+      previous.content.push(...blocks);
+    } else {
+      converted.push({ role, content: blocks });
+    }
+  }
+
+  return converted;
+}
+
+function safeParseJSON(value: string): any {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return {};
+  }
+}
+
+function normalizeUsage(usage: any): NonNullable<AIResponse['usage']> {
+  return {
+    prompt_tokens: usage?.prompt_tokens || 0,
+    completion_tokens: usage?.completion_tokens || 0,
+    total_tokens: usage?.total_tokens || 0
+  };
+}
+
+type StreamedCompletion = Pick<AIResponse, 'content' | 'toolCalls' | 'usage'>;
+
+// Relays streamed text until the completion starts a tool call, then reports that once
+function relayUntilToolCall(onDelta: DeltaHandler, onToolCall?: ToolCallHandler) {
+  let callingTools = false;
+  return {
+    text: async (delta: string) => {
+      if (!callingTools) {
+        await onDelta(delta);
+      }
+    },
+    toolCall: async () => {
+      if (!callingTools) {
+        callingTools = true;
+        await onToolCall?.();
+      }
+    }
+  };
+}
+
+async function readWorkersAIStream(
+  stream: ReadableStream<Uint8Array>,
+  onDelta: DeltaHandler,
+  onToolCall?: ToolCallHandler
+): Promise<StreamedCompletion> {
+  if (!stream || typeof (stream as any).getReader !== 'function') {
+    throw new Error('Invalid stream from Workers AI model');
+  }
+
+  let content = '';
+  let rawToolCalls: any[] = [];
+  let usage: AIResponse['usage'];
+  const relay = relayUntilToolCall(onDelta, onToolCall);
+
+  // Workers AI chunks look like { response: "text", tool_calls?, usage? }
+  for await (const chunk of readServerSentEvents(stream)) {
+    if (typeof chunk.response === 'string' && chunk.response.length > 0) {
+      content += chunk.response;
+      await relay.text(chunk.response);
+    }
+    if (Array.isArray(chunk.tool_calls) && chunk.tool_calls.length > 0) {
+      rawToolCalls = rawToolCalls.concat(chunk.tool_calls);
+      await relay.toolCall();
+    }
+    if (chunk.usage) {
+      usage = chunk.usage;
+    }
+  }
+
+  return {
+    // Truncation would cut text the client has already rendered
+    content: content.trim(),
+    toolCalls: parseToolCalls(rawToolCalls),
+    usage: normalizeUsage(usage)
+  };
+}
+
+async function readOpenAIStream(
+  stream: ReadableStream<Uint8Array>,
+  onDelta: DeltaHandler,
+  onToolCall?: ToolCallHandler
+): Promise<StreamedCompletion> {
+  let content = '';
+  let usage: AIResponse['usage'];
+  const relay = relayUntilToolCall(onDelta, onToolCall);
+  // Tool call names and arguments arrive in fragments keyed by index
+  const toolCallFragments = new Map<number, { id?: string; name: string; arguments: string }>();
+
+  for await (const chunk of readServerSentEvents(stream)) {
+    const delta = chunk.choices?.[0]?.delta;
+    if (typeof delta?.content === 'string' && delta.content.length > 0) {
+      content += delta.content;
+      await relay.text(delta.content);
+    }
+    for (const fragment of delta?.tool_calls || []) {
+      await relay.toolCall();
+      const index = typeof fragment.index === 'number' ? fragment.index : 0;
+      const existing = toolCallFragments.get(index) || { name: '', arguments: '' };
+      existing.id = fragment.id || existing.id;
+      existing.name += fragment.function?.name || '';
+      existing.arguments += fragment.function?.arguments || '';
+      toolCallFragments.set(index, existing);
+    }
+    if (chunk.usage) {
+      usage = chunk.usage;
+    }
+  }
+
+  const rawToolCalls = Array.from(toolCallFragments.values()).map(call => ({
+    id: call.id,
+    function: { name: call.name, arguments: call.arguments }
+  }));
+
+  return {
+    content: content.trim(),
+    toolCalls: parseToolCalls(rawToolCalls),
+    usage: normalizeUsage(usage)
+  };
+}
+
+async function readAnthropicStream(
+  stream: ReadableStream<Uint8Array>,
+  onDelta: DeltaHandler,
+  onToolCall?: ToolCallHandler
+): Promise<StreamedCompletion> {
+  let content = '';
+  const relay = relayUntilToolCall(onDelta, onToolCall);
+  let promptTokens = 0;
+  let completionTokens = 0;
+  // tool_use blocks stream their input as partial JSON keyed by block index
+  const toolUseBlocks = new Map<number, { id: string; name: string; input: string }>();
+
+  for await (const event of readServerSentEvents(stream)) {
+    switch (event.type) {
+      case 'message_start':
+        promptTokens = event.message?.usage?.input_tokens || 0;
+        break;
+      case 'content_block_start':
+        if (event.content_block?.type === 'tool_use') {
+          toolUseBlocks.set(event.index, { id: event.content_block.id, name: event.content_block.name, input: '' });
+          await relay.toolCall();
+        }
+        break;
+      case 'content_block_delta':
+        if (event.delta?.type === 'text_delta' && event.delta.text) {
+          content += event.delta.text;
+          await relay.text(event.delta.text);
+        } else if (event.delta?.type === 'input_json_delta') {
+          const block = toolUseBlocks.get(event.index);
+          if (block) {
+            block.input += event.delta.partial_json || '';
+          }
+        }
+        break;
+      case 'message_delta':
+        completionTokens = event.usage?.output_tokens || completionTokens;
+        break;
+    }
+  }
+
+  const rawToolCalls = Array.from(toolUseBlocks.values()).map(block => ({
+    id: block.id,
+    name: block.name,
+    arguments: block.input || '{}'
+  }));
+
+  return {
+    content: content.trim(),
+    toolCalls: parseToolCalls(rawToolCalls),
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens
+    }
+  };
+}
+
+// Yield the JSON payload of each `data:` line until the stream ends or the
+// [DONE] sentinel arrives
+async function* readServerSentEvents(stream: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+
+        if (!line.startsWith('data:')) {
+          continue;
+        }
+
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') {
+          return;
+        }
+
+        try {
+          yield JSON.parse(data);
+        } catch {
+          // Skip keep-alive comments and malformed chunks
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Normalize tool calls from Workers AI ({ name, arguments }) and
+// OpenAI ({ id, function: { name, arguments } }) response formats.
+// Calls to tools that were not offered to the model are dropped.
+function parseToolCalls(rawToolCalls: any): ToolCall[] {
+  if (!Array.isArray(rawToolCalls)) {
+    return [];
+  }
+
+  const toolCalls: ToolCall[] = [];
+  for (const rawCall of rawToolCalls) {
+    const fn = rawCall?.function || rawCall;
+    const name = fn && typeof fn.name === 'string' ? toolRegistry.resolveToolName(fn.name) : undefined;
+    if (!name) {
+      continue;
+    }
+
+    let parameters = fn.arguments ?? fn.parameters ?? {};
+    if (typeof parameters === 'string') {
+      try {
+        parameters = JSON.parse(parameters);
+      } catch {
+        // Leave validation of malformed arguments to the tool itself
+        parameters = {};
+      }
+    }
+
+    toolCalls.push({
+      id: typeof rawCall.id === 'string' ? rawCall.id : generateToolCallId(),
+      name,
+      parameters: parameters && typeof parameters === 'object' ? parameters : {}
+    });
+  }
+
+  return toolCalls;
+}
+
+function postProcessAIResponse(content: string): string {
+  // Clean up and optimize AI response
+  let processed = content.trim();
+
+  // Remove any potential prompt injection artifacts
+  processed = processed.replace(/^(Assistant:|AI:|Bot:)\s*/i, '');
+
+  // Ensure proper sentence endings
+  if (processed && !processed.match(/[.!?]$/)) {
+    processed += '.';
+  }
+
+  // Limit response length for better UX
+  if (processed.length > 1000) {
+    const sentences = processed.split(/[.!?]+/);
+    let truncated = '';
+    for (const sentence of sentences) {
+      if ((truncated + sentence).length > 800) break;
+      truncated += sentence + '.';
+    }
+    processed = truncated || processed.slice(0, 800) + '...';
+  }
+
+  return processed;
+}
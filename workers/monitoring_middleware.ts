@@ -1,6 +1,7 @@
 // Monitoring middleware for request/response tracking
 import { Logger, MetricsCollector, PerformanceMonitor } from './logging';
 import { WorkerBindings } from './types';
+import { SessionLimitResult } from './session_limits';
 
 export interface MonitoringContext {
   logger: Logger;
@@ -356,6 +357,31 @@ export class RateLimitMonitor {
       limitType
     });
   }
+
+  // Active session counts per owner scope (IP address or user), plus refusals and evictions
+  recordSessionLimits(sessionId: string, result: SessionLimitResult): void {
+    for (const owner of result.owners) {
+      this.metrics.setGauge('active_sessions', owner.active, { scope: owner.scope });
+
+      if (!owner.allowed) {
+        this.metrics.incrementCounter('concurrent_session_rejections_total', 1, { scope: owner.scope });
+        this.logger.warn('Concurrent session limit reached', {
+          sessionId,
+          scope: owner.scope,
+          active: owner.active,
+          limit: owner.limit
+        });
+      }
+      if (owner.evicted.length > 0) {
+        this.metrics.incrementCounter('sessions_evicted_total', owner.evicted.length, { scope: owner.scope });
+        this.logger.info('Evicted least recently used sessions', {
+          sessionId,
+          scope: owner.scope,
+          evicted: owner.evicted
+        });
+      }
+    }
+  }
 }
 
 // Memory usage monitoring
@@ -0,0 +1,86 @@
+// Notification Tool - tells human agents about escalations through a webhook
+
+import { Tool, ToolContext, ToolResult } from './tools.js';
+
+export interface NotificationParams {
+  message: string;
+  ticketId?: string;
+  priority?: 'low' | 'medium' | 'high' | 'urgent';
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export class NotificationTool implements Tool {
+  name = 'send_notification';
+  description = 'Notify human support agents about an escalated session';
+  parameters = {
+    type: 'object',
+    properties: {
+      message: { type: 'string', description: 'Text shown to the agents' },
+      ticketId: { type: 'string', description: 'Ticket the notification is about' },
+      priority: {
+        type: 'string',
+        enum: ['low', 'medium', 'high', 'urgent'],
+        description: 'Priority of the escalation'
+      }
+    },
+    required: ['message']
+  };
+
+  // Posts to env.AGENT_NOTIFICATION_WEBHOOK (e.g. a Slack or Teams incoming webhook).
+  // Without one the notification is reported as undelivered; agents still see the session in the queue.
+  async execute(params: NotificationParams, context: ToolContext): Promise<ToolResult> {
+    if (!params || !params.message || typeof params.message !== 'string') {
+      return {
+        success: false,
+        error: 'Invalid message parameter: must be a non-empty string'
+      };
+    }
+
+    const notification = {
+      text: params.message,
+      ticketId: params.ticketId || undefined,
+      priority: params.priority || undefined,
+      sessionId: context.sessionId,
+      sentAt: new Date().toISOString()
+    };
+
+    const webhook = context.bindings?.AGENT_NOTIFICATION_WEBHOOK;
+    if (!webhook) {
+      return {
+        success: true,
+        data: { delivered: false, notification },
+        metadata: { reason: 'AGENT_NOTIFICATION_WEBHOOK is not configured' }
+      };
+    }
+
+    try {
+      const response = await fetch(webhook, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(notification),
+        signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS)
+      });
+
+      if (!response.ok) {
+        // Let the router retry webhook outages but not rejected payloads
+        const error = `Notification webhook responded with ${response.status}`;
+        return {
+          success: false,
+          error: response.status >= 500 ? `SERVICE_UNAVAILABLE: ${error}` : error
+        };
+      }
+
+      return {
+        success: true,
+        data: { delivered: true, notification },
+        metadata: { sessionId: context.sessionId }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `NETWORK_ERROR: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+}
@@ -0,0 +1,261 @@
+// Durable Object rate limiter: one object per limited key (session, IP address, API key,
+// user or tenant), so every check for that key is serialized and parallel requests cannot
+// race past the limit. The same object keeps the key's token ledger and, for IP addresses
+// and users, the sessions active under it.
+import { WorkerBindings } from './types';
+import { RateLimitResult, RateLimitRule } from './security';
+import {
+  QuotaScope,
+  TokenBudget,
+  TokenLedgerState,
+  TokenUsage,
+  BudgetStatus,
+  addUsage,
+  advanceLedger,
+  evaluateBudget,
+  isTokenBudget,
+  ledgerExpiry
+} from './token_quota';
+import { SessionOwnerScope, SessionRegistryState, admitSession, isSessionLimitRule } from './session_limits';
+
+interface LimiterState {
+  // Token bucket for bursts; refills at requestsPerMinute
+  tokens: number;
+  refilledAt: number;
+  // Sliding window over the current and previous minute
+  windowStart: number;
+  windowCount: number;
+  previousWindowCount: number;
+  updatedAt: number;
+}
+
+const STATE_KEY = 'limiter';
+const LEDGER_KEY = 'tokens';
+const SESSIONS_KEY = 'sessions';
+const MINUTE_MS = 60 * 1000;
+// Request counters untouched for this long are forgotten; a full bucket and an empty window look the same
+const IDLE_MS = 10 * MINUTE_MS;
+const QUOTA_SCOPES: QuotaScope[] = ['session', 'user', 'tenant'];
+const SESSION_OWNER_SCOPES: SessionOwnerScope[] = ['ip', 'user'];
+
+interface StoredSessions extends SessionRegistryState {
+  // Every entry has gone idle by then
+  expiresAt: number;
+}
+
+export class RateLimiterDO implements DurableObject {
+  private state: DurableObjectState;
+
+  constructor(state: DurableObjectState, env: WorkerBindings) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    try {
+      if (request.method !== 'POST') {
+        return new Response('Method not allowed', { status: 405 });
+      }
+
+      const body = await request.json() as any;
+      switch (body.action) {
+        case 'take':
+          if (!isRule(body.rule)) {
+            return jsonResponse({ error: { code: 'INVALID_INPUT', message: 'A valid rate limit rule is required' } }, 400);
+          }
+          return jsonResponse({ result: await this.take(body.rule, Date.now()) });
+        case 'quota':
+        case 'record':
+          if (!QUOTA_SCOPES.includes(body.scope) || !isTokenBudget(body.budget)) {
+            return jsonResponse({ error: { code: 'INVALID_INPUT', message: 'A quota scope and token budget are required' } }, 400);
+          }
+          if (body.action === 'record' && !isUsage(body.usage)) {
+            return jsonResponse({ error: { code: 'INVALID_INPUT', message: 'Token usage must be non-negative numbers' } }, 400);
+          }
+          return jsonResponse({
+            budgets: await this.quota(body.scope, body.budget, body.action === 'record' ? body.usage : null, Date.now())
+          });
+        case 'session': {
+          if (!SESSION_OWNER_SCOPES.includes(body.scope) || typeof body.sessionId !== 'string' || !isSessionLimitRule(body.rule)) {
+            return jsonResponse({ error: { code: 'INVALID_INPUT', message: 'A session id, owner scope and session limit rule are required' } }, 400);
+          }
+          const stored = await this.state.storage.get<StoredSessions>(SESSIONS_KEY);
+          const registry: SessionRegistryState = { active: stored?.active || {}, evicted: stored?.evicted || {} };
+          const wasEvicted = registry.evicted[body.sessionId] !== undefined;
+          const now = Date.now();
+          const status = admitSession(registry, body.scope, body.sessionId, body.rule, now);
+          await this.state.storage.put(SESSIONS_KEY, { ...registry, expiresAt: now + body.rule.idleMs });
+          await this.scheduleCleanup(now + body.rule.idleMs);
+          return jsonResponse({ status, wasEvicted });
+        }
+        case 'reset':
+          await this.state.storage.delete(STATE_KEY);
+          return jsonResponse({ reset: true });
+        default:
+          return new Response('Invalid action', { status: 400 });
+      }
+    } catch (error) {
+      console.error('RateLimiterDO error:', error);
+      return jsonResponse({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+    }
+  }
+
+  // Drop request counters and session registries once idle and ledgers once their month
+  // is over, then wake for the next
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    const expiries: number[] = [];
+
+    const limiter = await this.state.storage.get<LimiterState>(STATE_KEY);
+    if (limiter) {
+      expiries.push(await this.expire(STATE_KEY, limiter.updatedAt + IDLE_MS, now));
+    }
+    const ledger = await this.state.storage.get<TokenLedgerState>(LEDGER_KEY);
+    if (ledger) {
+      expiries.push(await this.expire(LEDGER_KEY, ledgerExpiry(ledger), now));
+    }
+    const sessions = await this.state.storage.get<StoredSessions>(SESSIONS_KEY);
+    if (sessions) {
+      expiries.push(await this.expire(SESSIONS_KEY, sessions.expiresAt, now));
+    }
+
+    const pending = expiries.filter(expiry => expiry > now);
+    if (pending.length > 0) {
+      await this.state.storage.setAlarm(Math.min(...pending));
+    }
+  }
+
+  private async expire(key: string, expiresAt: number, now: number): Promise<number> {
+    if (expiresAt <= now) {
+      await this.state.storage.delete(key);
+    }
+    return expiresAt;
+  }
+
+  private async scheduleCleanup(at: number): Promise<void> {
+    if (await this.state.storage.getAlarm() === null) {
+      await this.state.storage.setAlarm(at);
+    }
+  }
+
+  // Requests that are turned away do not use up any allowance
+  private async take(rule: RateLimitRule, now: number): Promise<RateLimitResult> {
+    const stored = await this.state.storage.get<LimiterState>(STATE_KEY);
+    const current = advance(stored, rule, now);
+    const result = evaluate(current, rule, now);
+
+    if (result.allowed) {
+      current.tokens -= 1;
+      current.windowCount += 1;
+    }
+    current.updatedAt = now;
+    await this.state.storage.put(STATE_KEY, current);
+    await this.scheduleCleanup(now + IDLE_MS);
+    return result;
+  }
+
+  // Budget status for this key, after adding the usage when there is some to record
+  private async quota(scope: QuotaScope, budget: TokenBudget, usage: TokenUsage | null, now: number): Promise<BudgetStatus[]> {
+    const ledger = advanceLedger(await this.state.storage.get<TokenLedgerState>(LEDGER_KEY), now);
+    if (usage) {
+      addUsage(ledger, usage);
+      await this.state.storage.put(LEDGER_KEY, ledger);
+      await this.scheduleCleanup(ledgerExpiry(ledger));
+    }
+    return evaluateBudget(ledger, scope, budget);
+  }
+}
+
+// A bucket never holds less than one request, so a zero burst allowance still lets traffic through
+function bucketCapacity(rule: RateLimitRule): number {
+  return Math.max(1, rule.burstAllowance);
+}
+
+// Refill the bucket and roll the windows forward to now
+function advance(stored: LimiterState | undefined, rule: RateLimitRule, now: number): LimiterState {
+  const minuteStart = Math.floor(now / MINUTE_MS) * MINUTE_MS;
+  if (!stored) {
+    return {
+      tokens: bucketCapacity(rule),
+      refilledAt: now,
+      windowStart: minuteStart,
+      windowCount: 0,
+      previousWindowCount: 0,
+      updatedAt: now
+    };
+  }
+
+  const next = { ...stored };
+  const elapsed = Math.max(0, now - stored.refilledAt);
+  next.tokens = Math.min(bucketCapacity(rule), stored.tokens + elapsed * rule.requestsPerMinute / MINUTE_MS);
+  next.refilledAt = now;
+
+  if (minuteStart !== stored.windowStart) {
+    next.previousWindowCount = minuteStart - stored.windowStart === MINUTE_MS ? stored.windowCount : 0;
+    next.windowStart = minuteStart;
+    next.windowCount = 0;
+  }
+  return next;
+}
+
+function evaluate(current: LimiterState, rule: RateLimitRule, now: number): RateLimitResult {
+  // Weight the previous minute by how much of it still overlaps the last 60 seconds
+  const overlap = 1 - (now - current.windowStart) / MINUTE_MS;
+  const windowUsed = current.previousWindowCount * overlap + current.windowCount;
+
+  if (windowUsed + 1 > rule.requestsPerMinute) {
+    return {
+      allowed: false,
+      remaining: 0,
+      resetTime: current.windowStart + MINUTE_MS,
+      reason: 'Rate limit exceeded: too many requests per minute'
+    };
+  }
+  if (current.tokens < 1) {
+    return {
+      allowed: false,
+      remaining: 0,
+      resetTime: now + Math.ceil((1 - current.tokens) * MINUTE_MS / rule.requestsPerMinute),
+      reason: 'Rate limit exceeded: burst allowance used up'
+    };
+  }
+
+  return {
+    allowed: true,
+    remaining: Math.max(0, Math.min(Math.floor(current.tokens - 1), Math.floor(rule.requestsPerMinute - windowUsed - 1))),
+    resetTime: current.windowStart + MINUTE_MS
+  };
+}
+
+function isRule(rule: any): rule is RateLimitRule {
+  return !!rule
+    && typeof rule.requestsPerMinute === 'number' && rule.requestsPerMinute > 0
+    && typeof rule.burstAllowance === 'number' && rule.burstAllowance >= 0;
+}
+
+function isUsage(usage: any): boolean {
+  return !!usage
+    && typeof usage.promptTokens === 'number' && usage.promptTokens >= 0
+    && typeof usage.completionTokens === 'number' && usage.completionTokens >= 0;
+}
+
+function jsonResponse(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Take one request from the limiter for a key; throws when the object cannot be reached
+// so the caller can apply its failure policy
+export async function takeRateLimit(namespace: DurableObjectNamespace, key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+  const stub = namespace.get(namespace.idFromName(key));
+  const response = await stub.fetch('https://rate-limiter/', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action: 'take', rule })
+  });
+  if (!response.ok) {
+    throw new Error(`Rate limiter responded with ${response.status}`);
+  }
+  return ((await response.json()) as any).result;
+}
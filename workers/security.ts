@@ -1,12 +1,30 @@
 // Security and rate limiting module for AI Support Bot
 import { WorkerBindings } from './types';
+import { AIResponse } from './model_providers';
+import { takeRateLimit } from './rate_limiter';
+import { QuotaSubject, TokenBudget, TokenQuotaResult, createTokenLedger } from './token_quota';
+import { SessionLimitPolicy, SessionLimitResult, SessionOwner, createSessionRegistry } from './session_limits';
+import { Principal, sha256Hex } from './auth';
 
 export interface SecurityConfig {
   rateLimiting: {
     requestsPerMinute: number;
+    // Model tokens a session may use per clock hour; see also tokenBudgets
     tokensPerHour: number;
+    // Sessions active at once per IP address and per user
     concurrentSessions: number;
+    // Refuse new sessions past the limit, or end the least recently used one
+    concurrentSessionPolicy: SessionLimitPolicy;
+    // Minutes without a request before a session stops counting as active
+    sessionIdleMinutes: number;
+    // Requests a session may send back to back before the per-minute rate applies
     burstAllowance: number;
+    perIp: RateLimitRule;
+    perApiKey: RateLimitRule;
+    // Budgets for real prompt and completion tokens, checked before each model call
+    tokenBudgets: Record<'session' | 'user' | 'tenant', TokenBudget>;
+    // Whether requests are let through ('open') or refused ('closed') when the limiter fails
+    failureMode: RateLimitFailureMode;
   };
   piiDetection: {
     enabled: boolean;
@@ -26,6 +44,13 @@ export interface PIIPattern {
   replacement: string;
 }
 
+export type RateLimitFailureMode = 'open' | 'closed';
+
+export interface RateLimitRule {
+  requestsPerMinute: number;
+  burstAllowance: number;
+}
+
 export interface RateLimitResult {
   allowed: boolean;
   remaining: number;
@@ -38,6 +63,9 @@ export interface SecurityContext {
   sessionId: string;
   ipAddress?: string;
   userAgent?: string;
+  apiKey?: string;
+  userId?: string;
+  tenantId?: string;
   timestamp: number;
 }
 
@@ -60,7 +88,17 @@ export const DEFAULT_SECURITY_CONFIG: SecurityConfig = {
     requestsPerMinute: 30,
     tokensPerHour: 10000,
     concurrentSessions: 5,
-    burstAllowance: 10
+    concurrentSessionPolicy: 'reject',
+    sessionIdleMinutes: 60,
+    burstAllowance: 10,
+    perIp: { requestsPerMinute: 120, burstAllowance: 40 },
+    perApiKey: { requestsPerMinute: 600, burstAllowance: 100 },
+    tokenBudgets: {
+      session: { tokensPerDay: 50000 },
+      user: { tokensPerHour: 20000, tokensPerDay: 100000, tokensPerMonth: 1000000 },
+      tenant: { tokensPerDay: 1000000, tokensPerMonth: 20000000 }
+    },
+    failureMode: 'open'
   },
   piiDetection: {
     enabled: true,
@@ -116,16 +154,55 @@ export class SecurityManager {
   }
 
   /**
-   * Check rate limits for a session
+   * Check rate limits for a session, and for the caller's IP address and API key when known.
+   * With RATE_LIMITER_DO bound the checks are atomic; otherwise KV counters give a best-effort limit.
    */
   async checkRateLimit(
     sessionId: string,
     context: SecurityContext
   ): Promise<RateLimitResult> {
+    if (this.env.RATE_LIMITER_DO) {
+      return this.checkDurableRateLimit(this.env.RATE_LIMITER_DO, sessionId, context);
+    }
+    return this.checkKVRateLimit(sessionId);
+  }
+
+  private async checkDurableRateLimit(
+    namespace: DurableObjectNamespace,
+    sessionId: string,
+    context: SecurityContext
+  ): Promise<RateLimitResult> {
+    const limits = this.config.rateLimiting;
+    const checks: Array<[string, RateLimitRule]> = [[`session:${sessionId}`, {
+      requestsPerMinute: limits.requestsPerMinute,
+      burstAllowance: limits.burstAllowance
+    }]];
+    if (context.ipAddress && context.ipAddress !== 'unknown') {
+      checks.push([`ip:${context.ipAddress}`, limits.perIp]);
+    }
+
+    try {
+      if (context.apiKey) {
+        // Limiter keys carry a digest so API keys never appear in object names
+        checks.push([`api_key:${await sha256Hex(context.apiKey)}`, limits.perApiKey]);
+      }
+      // Keys are limited independently; a request refused by one still counts against the others
+      const results = await Promise.all(checks.map(([key, rule]) => takeRateLimit(namespace, key, rule)));
+      const denied = results.find(result => !result.allowed);
+      if (denied) {
+        return denied;
+      }
+      return results.reduce((tightest, result) => result.remaining < tightest.remaining ? result : tightest);
+    } catch (error) {
+      console.error('Rate limit check failed:', error);
+      return this.rateLimitFailure(Date.now());
+    }
+  }
+
+  // Read-modify-write on KV counters; concurrent requests can slip past the limit
+  private async checkKVRateLimit(sessionId: string): Promise<RateLimitResult> {
     const now = Date.now();
     const minuteKey = `rate_limit:${sessionId}:${Math.floor(now / 60000)}`;
-    const hourKey = `rate_limit:${sessionId}:${Math.floor(now / 3600000)}`;
-    const sessionKey = `active_sessions:${sessionId}`;
 
     try {
       // Check requests per minute
@@ -141,32 +218,10 @@ export class SecurityManager {
         };
       }
 
-      // Check tokens per hour (approximate based on requests)
-      const hourCount = await this.env.CHAT_KV.get(hourKey);
-      const currentHourRequests = hourCount ? parseInt(hourCount) : 0;
-      const estimatedTokens = currentHourRequests * 500; // Rough estimate
-
-      if (estimatedTokens >= this.config.rateLimiting.tokensPerHour) {
-        return {
-          allowed: false,
-          remaining: 0,
-          resetTime: Math.ceil(now / 3600000) * 3600000,
-          reason: 'Rate limit exceeded: token limit reached'
-        };
-      }
-
-      // Update counters
-      await Promise.all([
-        this.env.CHAT_KV.put(minuteKey, (currentMinuteRequests + 1).toString(), {
-          expirationTtl: 120 // 2 minutes
-        }),
-        this.env.CHAT_KV.put(hourKey, (currentHourRequests + 1).toString(), {
-          expirationTtl: 7200 // 2 hours
-        }),
-        this.env.CHAT_KV.put(sessionKey, now.toString(), {
-          expirationTtl: 3600 // 1 hour
-        })
-      ]);
+      // Update counter
+      await this.env.CHAT_KV.put(minuteKey, (currentMinuteRequests + 1).toString(), {
+        expirationTtl: 120 // 2 minutes
+      });
 
       return {
         allowed: true,
@@ -176,13 +231,105 @@ export class SecurityManager {
 
     } catch (error) {
       console.error('Rate limit check failed:', error);
-      // Fail open - allow request if rate limiting fails
+      return this.rateLimitFailure(now);
+    }
+  }
+
+  /**
+   * Count the session against the sessions active for the caller's IP address and user
+   */
+  async checkConcurrentSessions(context: SecurityContext): Promise<SessionLimitResult> {
+    const owners: SessionOwner[] = [];
+    if (context.ipAddress && context.ipAddress !== 'unknown') {
+      owners.push({ scope: 'ip', id: context.ipAddress });
+    }
+    if (context.userId) {
+      owners.push({ scope: 'user', id: context.userId });
+    }
+    if (owners.length === 0) {
+      return { allowed: true, owners: [] };
+    }
+
+    const limits = this.config.rateLimiting;
+    try {
+      return await createSessionRegistry(this.env).admit(owners, context.sessionId, {
+        maxSessions: limits.concurrentSessions,
+        idleMs: limits.sessionIdleMinutes * 60 * 1000,
+        policy: limits.concurrentSessionPolicy
+      });
+    } catch (error) {
+      console.error('Concurrent session check failed:', error);
+      return this.failsClosed()
+        ? { allowed: false, reason: 'Session limits unavailable: request refused', owners: [] }
+        : { allowed: true, owners: [] };
+    }
+  }
+
+  /**
+   * Check the token budgets of the session and, when known, the user and tenant
+   */
+  async checkTokenQuota(context: SecurityContext): Promise<TokenQuotaResult> {
+    try {
+      return await createTokenLedger(this.env).check(this.quotaSubjects(context));
+    } catch (error) {
+      console.error('Token quota check failed:', error);
+      return this.failsClosed()
+        ? { allowed: false, reason: 'Token budget unavailable: request refused', budgets: [] }
+        : { allowed: true, budgets: [] };
+    }
+  }
+
+  /**
+   * Record the tokens a model call actually used; returns the budgets afterwards,
+   * or null when the ledger could not be updated
+   */
+  async recordTokenUsage(context: SecurityContext, usage: AIResponse['usage']): Promise<TokenQuotaResult | null> {
+    const promptTokens = usage?.prompt_tokens || 0;
+    // Providers that only report a total have it counted as completion tokens
+    const completionTokens = Math.max(usage?.completion_tokens || 0, (usage?.total_tokens || 0) - promptTokens);
+
+    try {
+      return await createTokenLedger(this.env).record(this.quotaSubjects(context), { promptTokens, completionTokens });
+    } catch (error) {
+      console.error('Token usage could not be recorded:', error);
+      return null;
+    }
+  }
+
+  private quotaSubjects(context: SecurityContext): QuotaSubject[] {
+    const { tokensPerHour, tokenBudgets } = this.config.rateLimiting;
+    const subjects: QuotaSubject[] = [
+      { scope: 'session', id: context.sessionId, budget: { tokensPerHour, ...tokenBudgets.session } }
+    ];
+    if (context.userId) {
+      subjects.push({ scope: 'user', id: context.userId, budget: tokenBudgets.user });
+    }
+    if (context.tenantId) {
+      subjects.push({ scope: 'tenant', id: context.tenantId, budget: tokenBudgets.tenant });
+    }
+    return subjects;
+  }
+
+  // RATE_LIMIT_FAILURE_MODE overrides the configured policy
+  private failsClosed(): boolean {
+    return (this.env.RATE_LIMIT_FAILURE_MODE || this.config.rateLimiting.failureMode) === 'closed';
+  }
+
+  private rateLimitFailure(now: number): RateLimitResult {
+    const resetTime = Math.ceil(now / 60000) * 60000;
+    if (this.failsClosed()) {
       return {
-        allowed: true,
-        remaining: this.config.rateLimiting.requestsPerMinute,
-        resetTime: Math.ceil(now / 60000) * 60000
+        allowed: false,
+        remaining: 0,
+        resetTime,
+        reason: 'Rate limit unavailable: request refused'
       };
     }
+    return {
+      allowed: true,
+      remaining: this.config.rateLimiting.requestsPerMinute,
+      resetTime
+    };
   }
 
   /**
@@ -311,12 +458,18 @@ export class SecurityManager {
     allowed: boolean;
     filteredContent: string;
     rateLimitResult: RateLimitResult;
+    tokenQuotaResult: TokenQuotaResult;
+    sessionLimitResult: SessionLimitResult;
     piiResult: PIIDetectionResult;
     contentResult: ContentFilterResult;
     violations: string[];
   }> {
-    // Check rate limits
-    const rateLimitResult = await this.checkRateLimit(sessionId, context);
+    // Check request rate limits, token budgets and concurrent sessions
+    const [rateLimitResult, tokenQuotaResult, sessionLimitResult] = await Promise.all([
+      this.checkRateLimit(sessionId, context),
+      this.checkTokenQuota(context),
+      this.checkConcurrentSessions(context)
+    ]);
     
     // Sanitize input
     const sanitizedContent = this.sanitizeInput(content);
@@ -332,12 +485,20 @@ export class SecurityManager {
     if (!rateLimitResult.allowed) {
       violations.push(rateLimitResult.reason || 'Rate limit exceeded');
     }
+
+    if (!tokenQuotaResult.allowed) {
+      violations.push(tokenQuotaResult.reason || 'Rate limit exceeded: token limit reached');
+    }
+
+    if (!sessionLimitResult.allowed) {
+      violations.push(sessionLimitResult.reason || 'Concurrent session limit reached');
+    }
     
     if (!contentResult.allowed) {
       violations.push(...contentResult.violations);
     }
     
-    const allowed = rateLimitResult.allowed && contentResult.allowed;
+    const allowed = rateLimitResult.allowed && tokenQuotaResult.allowed && sessionLimitResult.allowed && contentResult.allowed;
     
     // Log security events
     if (piiResult.hasPII) {
@@ -350,6 +511,8 @@ export class SecurityManager {
       await this.logSecurityEvent('REQUEST_BLOCKED', context, {
         violations,
         rateLimitExceeded: !rateLimitResult.allowed,
+        tokenBudgetExceeded: !tokenQuotaResult.allowed,
+        sessionLimitExceeded: !sessionLimitResult.allowed,
         contentViolations: contentResult.violations
       });
     }
@@ -358,6 +521,8 @@ export class SecurityManager {
       allowed,
       filteredContent: contentResult.filteredContent,
       rateLimitResult,
+      tokenQuotaResult,
+      sessionLimitResult,
       piiResult,
       contentResult,
       violations
@@ -371,7 +536,8 @@ export class SecurityManager {
 export function extractSecurityContext(
   request: Request,
   requestId: string,
-  sessionId: string
+  sessionId: string,
+  principal?: Principal
 ): SecurityContext {
   return {
     requestId,
@@ -380,6 +546,10 @@ export function extractSecurityContext(
                request.headers.get('X-Forwarded-For') || 
                'unknown',
     userAgent: request.headers.get('User-Agent') || 'unknown',
+    apiKey: request.headers.get('X-API-Key') || undefined,
+    // Only identities established by authentication count towards user and tenant limits
+    userId: principal?.userId,
+    tenantId: principal?.tenantId,
     timestamp: Date.now()
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,180 @@
+// Concurrent session limits: the sessions active for each IP address and user are tracked,
+// and a session beyond the limit is refused or takes the slot of the least recently used one
+import { WorkerBindings } from './types';
+
+export type SessionOwnerScope = 'ip' | 'user';
+export type SessionLimitPolicy = 'reject' | 'evict';
+
+export interface SessionLimitRule {
+  maxSessions: number;
+  // A session with no requests for this long no longer counts as active
+  idleMs: number;
+  policy: SessionLimitPolicy;
+}
+
+export interface SessionOwner {
+  scope: SessionOwnerScope;
+  id: string;
+}
+
+// Last request time per active session; evicted sessions are remembered until they would have gone idle
+export interface SessionRegistryState {
+  active: Record<string, number>;
+  evicted: Record<string, number>;
+}
+
+export interface SessionOwnerStatus {
+  scope: SessionOwnerScope;
+  active: number;
+  limit: number;
+  evicted: string[];
+  allowed: boolean;
+}
+
+export interface SessionLimitResult {
+  allowed: boolean;
+  reason?: string;
+  owners: SessionOwnerStatus[];
+}
+
+const KV_PREFIX = 'active_sessions:';
+
+const OWNER_LABELS: Record<SessionOwnerScope, string> = { ip: 'IP address', user: 'user' };
+
+export function ownerKey(owner: SessionOwner): string {
+  return `${owner.scope}:${owner.id}`;
+}
+
+// Registers a request from the session against one owner; mutates the state
+export function admitSession(
+  state: SessionRegistryState,
+  scope: SessionOwnerScope,
+  sessionId: string,
+  rule: SessionLimitRule,
+  now: number
+): SessionOwnerStatus {
+  for (const [id, lastSeen] of Object.entries(state.active)) {
+    if (now - lastSeen >= rule.idleMs) {
+      delete state.active[id];
+    }
+  }
+  for (const [id, evictedAt] of Object.entries(state.evicted)) {
+    if (now - evictedAt >= rule.idleMs) {
+      delete state.evicted[id];
+    }
+  }
+
+  const status = (allowed: boolean, evicted: string[] = []): SessionOwnerStatus => ({
+    scope,
+    active: Object.keys(state.active).length,
+    limit: rule.maxSessions,
+    evicted,
+    allowed
+  });
+
+  if (state.evicted[sessionId] !== undefined) {
+    return status(false);
+  }
+  if (state.active[sessionId] !== undefined || Object.keys(state.active).length < rule.maxSessions) {
+    state.active[sessionId] = now;
+    return status(true);
+  }
+  if (rule.policy === 'reject') {
+    return status(false);
+  }
+
+  // Free slots by evicting the sessions that have been quiet the longest
+  const byAge = Object.entries(state.active).sort(([, a], [, b]) => a - b);
+  const evicted = byAge.slice(0, byAge.length - rule.maxSessions + 1).map(([id]) => id);
+  for (const id of evicted) {
+    delete state.active[id];
+    state.evicted[id] = now;
+  }
+  state.active[sessionId] = now;
+  return status(true, evicted);
+}
+
+export function combineSessionLimits(owners: SessionOwnerStatus[], sessionWasEvicted: boolean): SessionLimitResult {
+  const refused = owners.find(owner => !owner.allowed);
+  if (!refused) {
+    return { allowed: true, owners };
+  }
+  return {
+    allowed: false,
+    reason: sessionWasEvicted
+      ? `Session ended: too many concurrent sessions for this ${OWNER_LABELS[refused.scope]}`
+      : `Concurrent session limit reached: ${refused.limit} active sessions per ${OWNER_LABELS[refused.scope]}`,
+    owners
+  };
+}
+
+export function isSessionLimitRule(rule: any): rule is SessionLimitRule {
+  return !!rule
+    && Number.isInteger(rule.maxSessions) && rule.maxSessions > 0
+    && typeof rule.idleMs === 'number' && rule.idleMs > 0
+    && (rule.policy === 'reject' || rule.policy === 'evict');
+}
+
+export interface SessionRegistry {
+  // Counts the request's session against each owner; an owner that refuses it has still
+  // seen the others register it, and that entry goes idle on its own
+  admit(owners: SessionOwner[], sessionId: string, rule: SessionLimitRule): Promise<SessionLimitResult>;
+}
+
+// Registries live in the owner's RateLimiterDO, so sessions started in parallel are counted exactly
+export class DurableObjectSessionRegistry implements SessionRegistry {
+  constructor(private namespace: DurableObjectNamespace) {}
+
+  async admit(owners: SessionOwner[], sessionId: string, rule: SessionLimitRule): Promise<SessionLimitResult> {
+    const results = await Promise.all(owners.map(async owner => {
+      const stub = this.namespace.get(this.namespace.idFromName(ownerKey(owner)));
+      const response = await stub.fetch('https://rate-limiter/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'session', scope: owner.scope, sessionId, rule })
+      });
+      if (!response.ok) {
+        throw new Error(`Session registry responded with ${response.status}`);
+      }
+      return ((await response.json()) as any) as { status: SessionOwnerStatus; wasEvicted: boolean };
+    }));
+    return combineSessionLimits(results.map(result => result.status), results.some(result => result.wasEvicted));
+  }
+}
+
+// Stand-in without the Durable Object; sessions started in parallel can overwrite each other
+export class KVSessionRegistry implements SessionRegistry {
+  constructor(private kv: KVNamespace) {}
+
+  async admit(owners: SessionOwner[], sessionId: string, rule: SessionLimitRule): Promise<SessionLimitResult> {
+    const now = Date.now();
+    let wasEvicted = false;
+    const statuses = await Promise.all(owners.map(async owner => {
+      const key = KV_PREFIX + ownerKey(owner);
+      const state = parseRegistry(await this.kv.get(key));
+      wasEvicted = wasEvicted || state.evicted[sessionId] !== undefined;
+      const status = admitSession(state, owner.scope, sessionId, rule, now);
+      await this.kv.put(key, JSON.stringify(state), { expirationTtl: Math.max(60, Math.ceil(rule.idleMs / 1000)) });
+      return status;
+    }));
+    return combineSessionLimits(statuses, wasEvicted);
+  }
+}
+
+function parseRegistry(raw: string | null): SessionRegistryState {
+  try {
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (parsed && parsed.active && parsed.evicted && typeof parsed.active === 'object' && typeof parsed.evicted === 'object') {
+      return parsed;
+    }
+  } catch {
+    // Unreadable registries start over
+  }
+  return { active: {}, evicted: {} };
+}
+
+export function createSessionRegistry(bindings: WorkerBindings): SessionRegistry {
+  return bindings.RATE_LIMITER_DO
+    ? new DurableObjectSessionRegistry(bindings.RATE_LIMITER_DO)
+    : new KVSessionRegistry(bindings.CHAT_KV);
+}
@@ -0,0 +1,271 @@
+// Durable ticket storage with per-ticket history and session/user/status indexes
+import { WorkerBindings } from './types';
+import type { IssueData, TicketStatus, TicketUpdate } from './ticketing_tool';
+
+export interface TicketEvent {
+  id: string;
+  type: 'created' | 'updated' | 'comment';
+  timestamp: number;
+  actor?: string;
+  // Field changes recorded by 'updated' events
+  changes?: Record<string, { from: any; to: any }>;
+  comment?: string;
+}
+
+// Where a ticket lives in an external helpdesk
+export interface ExternalTicketLink {
+  system: string;
+  id: string;
+  url?: string;
+  syncedAt: number;
+  // Helpdesk comments already copied into the history
+  seenCommentIds: string[];
+}
+
+// Helpdesk state mapped back to our enums by a TicketingBackend
+export interface RemoteTicketState {
+  status: TicketStatus['status'];
+  priority?: TicketStatus['priority'];
+  assignedTo?: string;
+  comments: Array<{ id: string; author: string; body: string; createdAt: number }>;
+}
+
+export interface StoredTicket {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  priority: TicketStatus['priority'];
+  status: TicketStatus['status'];
+  userEmail?: string;
+  attachments?: string[];
+  assignedTo?: string;
+  resolution?: string;
+  sessionId: string;
+  userId?: string;
+  createdAt: number;
+  updatedAt: number;
+  estimatedResolution?: number;
+  external?: ExternalTicketLink;
+  // Set when the helpdesk could not be reached at creation; retried on the next access
+  syncPending?: boolean;
+  events: TicketEvent[];
+}
+
+export interface TicketQuery {
+  sessionId?: string;
+  userId?: string;
+  status?: TicketStatus['status'];
+  limit?: number;
+}
+
+export interface TicketStore {
+  // previous is the stored version being replaced, so indexes can be moved
+  save(ticket: StoredTicket, previous?: StoredTicket | null): Promise<void>;
+  get(id: string): Promise<StoredTicket | null>;
+  // Newest first; at least one of sessionId, userId or status is required
+  list(query: TicketQuery): Promise<StoredTicket[]>;
+}
+
+const TICKET_PREFIX = 'ticket:';
+const INDEX_PREFIX = 'ticket_idx:';
+const DEFAULT_LIST_LIMIT = 20;
+// KV returns at most 1000 keys per list call
+const LIST_PAGE_SIZE = 1000;
+
+// Fields whose changes are recorded in the event history
+const TRACKED_FIELDS = ['status', 'priority', 'assignedTo', 'resolution'] as const;
+
+export class KVTicketStore implements TicketStore {
+  constructor(private kv: KVNamespace) {}
+
+  async save(ticket: StoredTicket, previous?: StoredTicket | null): Promise<void> {
+    await this.kv.put(TICKET_PREFIX + ticket.id, JSON.stringify(ticket));
+
+    // One key per index entry, so concurrent writers never overwrite each other's lists
+    const stale = previous ? indexKeys(previous).filter(key => !indexKeys(ticket).includes(key)) : [];
+    await Promise.all([
+      ...indexKeys(ticket).map(key => this.kv.put(key, '')),
+      ...stale.map(key => this.kv.delete(key))
+    ]);
+  }
+
+  async get(id: string): Promise<StoredTicket | null> {
+    const stored = await this.kv.get(TICKET_PREFIX + id);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  // Index keys list newest first, so pages are read only until the limit is reached
+  async list(query: TicketQuery): Promise<StoredTicket[]> {
+    const prefix = queryPrefix(query);
+    const limit = query.limit || DEFAULT_LIST_LIMIT;
+    const tickets: StoredTicket[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const listed = await this.kv.list({ prefix, cursor, limit: Math.min(LIST_PAGE_SIZE, limit - tickets.length) });
+      const loaded = await Promise.all(listed.keys.map(key => this.get(key.name.slice(key.name.lastIndexOf(':') + 1))));
+      tickets.push(...selectTickets(loaded.filter((ticket): ticket is StoredTicket => ticket !== null), { ...query, limit }));
+      cursor = listed.list_complete ? undefined : listed.cursor;
+    } while (cursor && tickets.length < limit);
+
+    return selectTickets(tickets, query);
+  }
+}
+
+// Local stand-in for development without KV and for tests
+export class InMemoryTicketStore implements TicketStore {
+  private tickets: Map<string, StoredTicket> = new Map();
+
+  async save(ticket: StoredTicket): Promise<void> {
+    this.tickets.set(ticket.id, structuredClone(ticket));
+  }
+
+  async get(id: string): Promise<StoredTicket | null> {
+    const ticket = this.tickets.get(id);
+    return ticket ? structuredClone(ticket) : null;
+  }
+
+  async list(query: TicketQuery): Promise<StoredTicket[]> {
+    queryPrefix(query);
+    return selectTickets([...this.tickets.values()].map(ticket => structuredClone(ticket)), query);
+  }
+}
+
+// Shared by every request in an isolate that has no KV binding
+const localStore = new InMemoryTicketStore();
+
+export function createTicketStore(bindings: Partial<WorkerBindings> | undefined): TicketStore {
+  return typeof bindings?.CHAT_KV?.get === 'function'
+    ? new KVTicketStore(bindings.CHAT_KV)
+    : localStore;
+}
+
+export function createTicketRecord(
+  id: string,
+  issue: IssueData,
+  owner: { sessionId: string; userId?: string },
+  estimatedResolution: number,
+  now: number = Date.now()
+): StoredTicket {
+  return {
+    id,
+    title: issue.title,
+    description: issue.description,
+    category: issue.category,
+    priority: issue.priority,
+    status: 'open',
+    userEmail: issue.userEmail,
+    attachments: issue.attachments,
+    sessionId: owner.sessionId,
+    userId: owner.userId,
+    createdAt: now,
+    updatedAt: now,
+    estimatedResolution,
+    events: [{ id: `${id}-1`, type: 'created', timestamp: now, actor: owner.userId || owner.sessionId }]
+  };
+}
+
+// Apply an update and append what changed (and any comment) to the history
+export function applyTicketUpdate(ticket: StoredTicket, update: TicketUpdate, actor?: string): StoredTicket {
+  const now = Date.now();
+  const updated: StoredTicket = { ...ticket, events: [...ticket.events], updatedAt: now };
+  const changes: Record<string, { from: any; to: any }> = {};
+
+  for (const field of TRACKED_FIELDS) {
+    if (update[field] !== undefined && update[field] !== ticket[field]) {
+      changes[field] = { from: ticket[field], to: update[field] };
+      (updated as any)[field] = update[field];
+    }
+  }
+
+  if (Object.keys(changes).length > 0) {
+    updated.events.push({ id: `${ticket.id}-${updated.events.length + 1}`, type: 'updated', timestamp: now, actor, changes });
+  }
+  if (update.comment) {
+    updated.events.push({ id: `${ticket.id}-${updated.events.length + 1}`, type: 'comment', timestamp: now, actor, comment: update.comment });
+  }
+
+  return updated;
+}
+
+// Merge helpdesk changes into the local record. Agent comments become comment
+// events; comments we pushed ourselves come back from the helpdesk and are skipped.
+export function applyRemoteState(ticket: StoredTicket, remote: RemoteTicketState): StoredTicket {
+  if (!ticket.external) {
+    return ticket;
+  }
+
+  const system = ticket.external.system;
+  const updated = applyTicketUpdate(ticket, {
+    status: remote.status,
+    priority: remote.priority,
+    assignedTo: remote.assignedTo
+  }, system);
+
+  const seen = new Set(ticket.external.seenCommentIds);
+  const ownBodies = new Set([
+    ticket.description,
+    ...ticket.events.filter(event => event.type === 'comment').map(event => event.comment)
+  ]);
+
+  for (const comment of remote.comments) {
+    if (seen.has(comment.id)) {
+      continue;
+    }
+    seen.add(comment.id);
+    if (!ownBodies.has(comment.body)) {
+      updated.events.push({
+        id: `${ticket.id}-${updated.events.length + 1}`,
+        type: 'comment',
+        timestamp: comment.createdAt,
+        actor: `${system}:${comment.author}`,
+        comment: comment.body
+      });
+    }
+  }
+
+  if (updated.events.length === ticket.events.length) {
+    updated.updatedAt = ticket.updatedAt;
+  }
+  updated.external = { ...ticket.external, syncedAt: Date.now(), seenCommentIds: [...seen] };
+  return updated;
+}
+
+// Entries sort by inverted update time, so KV lists the most recently updated ticket first
+function indexKeys(ticket: StoredTicket): string[] {
+  const entry = `${String(Number.MAX_SAFE_INTEGER - ticket.updatedAt).padStart(16, '0')}:${ticket.id}`;
+  const keys = [
+    `${INDEX_PREFIX}session:${ticket.sessionId}:${entry}`,
+    `${INDEX_PREFIX}status:${ticket.status}:${entry}`
+  ];
+  if (ticket.userId) {
+    keys.push(`${INDEX_PREFIX}user:${ticket.userId}:${entry}`);
+  }
+  return keys;
+}
+
+// The most selective index for the query: session, then user, then status
+function queryPrefix(query: TicketQuery): string {
+  if (query.sessionId) {
+    return `${INDEX_PREFIX}session:${query.sessionId}:`;
+  }
+  if (query.userId) {
+    return `${INDEX_PREFIX}user:${query.userId}:`;
+  }
+  if (query.status) {
+    return `${INDEX_PREFIX}status:${query.status}:`;
+  }
+  throw new Error('Ticket query needs a sessionId, userId or status');
+}
+
+function selectTickets(tickets: StoredTicket[], query: TicketQuery): StoredTicket[] {
+  return tickets
+    .filter(ticket =>
+      (!query.sessionId || ticket.sessionId === query.sessionId) &&
+      (!query.userId || ticket.userId === query.userId) &&
+      (!query.status || ticket.status === query.status)
+    )
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, query.limit || DEFAULT_LIST_LIMIT);
+}
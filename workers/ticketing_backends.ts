@@ -0,0 +1,428 @@
+// Helpdesk connectors behind TicketingTool: Zendesk, Jira Service Management,
+// Freshdesk, and the built-in store
+import { WorkerBindings } from './types';
+import type { TicketStatus, TicketUpdate } from './ticketing_tool';
+import type { RemoteTicketState, StoredTicket } from './ticket_store';
+
+type Status = TicketStatus['status'];
+type Priority = TicketStatus['priority'];
+
+export interface CreatedExternalTicket {
+  id: string;
+  url?: string;
+}
+
+export interface TicketingBackend {
+  // Recorded as ExternalTicketLink.system and as the actor of synced changes
+  readonly name: string;
+  // Returns null when tickets stay in the built-in store
+  create(ticket: StoredTicket): Promise<CreatedExternalTicket | null>;
+  // Push a local update to the ticket's external counterpart
+  update(ticket: StoredTicket, update: TicketUpdate): Promise<void>;
+  // Current helpdesk state, or null when there is nothing to sync
+  fetch(ticket: StoredTicket): Promise<RemoteTicketState | null>;
+}
+
+export type TicketingBackendType = 'builtin' | 'zendesk' | 'jira' | 'freshdesk';
+
+export interface TicketingBackendConfig {
+  type: TicketingBackendType;
+  // e.g. https://acme.zendesk.com, https://acme.atlassian.net, https://acme.freshdesk.com
+  baseUrl?: string;
+  // Zendesk and Jira authenticate as this agent
+  email?: string;
+  // Name of the binding that holds the API token, so secrets stay out of the config
+  apiTokenBinding?: string;
+  // Jira Service Management only
+  serviceDeskId?: string;
+  requestTypeId?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// Tickets are kept only in the worker's own store
+export class BuiltInTicketingBackend implements TicketingBackend {
+  readonly name = 'builtin';
+
+  async create(): Promise<CreatedExternalTicket | null> {
+    return null;
+  }
+
+  async update(): Promise<void> {}
+
+  async fetch(): Promise<RemoteTicketState | null> {
+    return null;
+  }
+}
+
+// Build the backend from env.TICKETING_BACKEND (JSON TicketingBackendConfig),
+// falling back to the built-in store when unset or invalid
+export function createTicketingBackend(env: Partial<WorkerBindings> | undefined): TicketingBackend {
+  const raw = env?.TICKETING_BACKEND;
+  if (!raw) {
+    return new BuiltInTicketingBackend();
+  }
+
+  try {
+    const config = (typeof raw === 'string' ? JSON.parse(raw) : raw) as TicketingBackendConfig;
+    switch (config.type) {
+      case 'builtin':
+        return new BuiltInTicketingBackend();
+      case 'zendesk':
+        return new ZendeskBackend(config, readToken(env!, config, 'ZENDESK_API_TOKEN'));
+      case 'jira':
+        return new JiraServiceManagementBackend(config, readToken(env!, config, 'JIRA_API_TOKEN'));
+      case 'freshdesk':
+        return new FreshdeskBackend(config, readToken(env!, config, 'FRESHDESK_API_KEY'));
+      default:
+        throw new Error(`Unknown ticketing backend type: ${(config as any).type}`);
+    }
+  } catch (error) {
+    console.warn('Invalid TICKETING_BACKEND, using the built-in store:', (error as Error).message);
+    return new BuiltInTicketingBackend();
+  }
+}
+
+function readToken(env: Partial<WorkerBindings>, config: TicketingBackendConfig, defaultBinding: string): string {
+  const token = (env as any)[config.apiTokenBinding || defaultBinding];
+  if (!token) {
+    throw new Error(`${config.type}: API token binding ${config.apiTokenBinding || defaultBinding} is not set`);
+  }
+  return token;
+}
+
+// Shared HTTP plumbing for the REST adapters
+abstract class RestTicketingBackend implements TicketingBackend {
+  abstract readonly name: string;
+  protected baseUrl: string;
+  private timeoutMs: number;
+
+  constructor(protected config: TicketingBackendConfig) {
+    if (!config.baseUrl) {
+      throw new Error(`${config.type}: baseUrl is required`);
+    }
+    this.baseUrl = config.baseUrl.replace(/\/$/, '');
+    this.timeoutMs = config.timeoutMs || DEFAULT_TIMEOUT_MS;
+  }
+
+  abstract create(ticket: StoredTicket): Promise<CreatedExternalTicket | null>;
+  abstract update(ticket: StoredTicket, update: TicketUpdate): Promise<void>;
+  abstract fetch(ticket: StoredTicket): Promise<RemoteTicketState | null>;
+
+  protected abstract authorization(): string;
+
+  protected async request(method: string, path: string, body?: unknown): Promise<any> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': this.authorization(),
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+
+    if (!response.ok) {
+      throw new Error(`${this.name} API error: ${response.status} on ${method} ${path}`);
+    }
+
+    return response.status === 204 ? null : response.json();
+  }
+
+  protected externalId(ticket: StoredTicket): string {
+    if (!ticket.external?.id) {
+      throw new Error(`Ticket ${ticket.id} has no ${this.name} counterpart`);
+    }
+    return ticket.external.id;
+  }
+}
+
+// Statuses that several of ours share on the helpdesk (e.g. open and in_progress
+// on Freshdesk) keep the local value instead of flapping on every sync
+function resolveStatus<T>(local: Status, remote: T, toRemote: Record<Status, T>, fromRemote: (remote: T) => Status): Status {
+  return toRemote[local] === remote ? local : fromRemote(remote);
+}
+
+function describeTicket(ticket: StoredTicket): string {
+  const lines = [ticket.description, '', `Category: ${ticket.category}`, `Reference: ${ticket.id}`];
+  if (ticket.userEmail) {
+    lines.push(`Customer: ${ticket.userEmail}`);
+  }
+  return lines.join('\n');
+}
+
+const ZENDESK_STATUS: Record<Status, string> = {
+  open: 'new',
+  in_progress: 'open',
+  waiting_for_customer: 'pending',
+  resolved: 'solved',
+  closed: 'closed'
+};
+
+const ZENDESK_PRIORITY: Record<Priority, string> = {
+  low: 'low',
+  medium: 'normal',
+  high: 'high',
+  urgent: 'urgent'
+};
+
+export class ZendeskBackend extends RestTicketingBackend {
+  readonly name = 'zendesk';
+
+  constructor(config: TicketingBackendConfig, private apiToken: string) {
+    super(config);
+  }
+
+  async create(ticket: StoredTicket): Promise<CreatedExternalTicket> {
+    const data = await this.request('POST', '/api/v2/tickets.json', {
+      ticket: {
+        subject: ticket.title,
+        comment: { body: describeTicket(ticket) },
+        priority: ZENDESK_PRIORITY[ticket.priority],
+        status: ZENDESK_STATUS[ticket.status],
+        tags: [ticket.category, 'supportbot'],
+        external_id: ticket.id,
+        ...(ticket.userEmail ? { requester: { email: ticket.userEmail } } : {})
+      }
+    });
+
+    return { id: String(data.ticket.id), url: `${this.baseUrl}/agent/tickets/${data.ticket.id}` };
+  }
+
+  async update(ticket: StoredTicket, update: TicketUpdate): Promise<void> {
+    await this.request('PUT', `/api/v2/tickets/${this.externalId(ticket)}.json`, {
+      ticket: {
+        ...(update.status ? { status: ZENDESK_STATUS[update.status] } : {}),
+        ...(update.priority ? { priority: ZENDESK_PRIORITY[update.priority] } : {}),
+        ...(update.comment ? { comment: { body: update.comment, public: false } } : {})
+      }
+    });
+  }
+
+  async fetch(ticket: StoredTicket): Promise<RemoteTicketState> {
+    const id = this.externalId(ticket);
+    const [{ ticket: remote }, { comments }] = await Promise.all([
+      this.request('GET', `/api/v2/tickets/${id}.json`),
+      this.request('GET', `/api/v2/tickets/${id}/comments.json`)
+    ]);
+
+    return {
+      status: resolveStatus(ticket.status, remote.status, ZENDESK_STATUS, status => {
+        switch (status) {
+          case 'new': return 'open';
+          case 'pending': return 'waiting_for_customer';
+          case 'solved': return 'resolved';
+          case 'closed': return 'closed';
+          default: return 'in_progress'; // open, hold
+        }
+      }),
+      priority: fromRemotePriority(ZENDESK_PRIORITY, remote.priority),
+      assignedTo: remote.assignee_id ? String(remote.assignee_id) : undefined,
+      // The first comment is the description we sent at creation
+      comments: (comments || []).slice(1).map((comment: any) => ({
+        id: String(comment.id),
+        author: String(comment.author_id),
+        body: comment.body,
+        createdAt: Date.parse(comment.created_at) || Date.now()
+      }))
+    };
+  }
+
+  protected authorization(): string {
+    return `Basic ${btoa(`${this.config.email}/token:${this.apiToken}`)}`;
+  }
+}
+
+// Jira workflows are customizable; these are the Service Management defaults
+const JIRA_STATUS: Record<Status, string> = {
+  open: 'open',
+  in_progress: 'in progress',
+  waiting_for_customer: 'waiting for customer',
+  resolved: 'resolved',
+  closed: 'closed'
+};
+
+const JIRA_PRIORITY: Record<Priority, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  urgent: 'Highest'
+};
+
+export class JiraServiceManagementBackend extends RestTicketingBackend {
+  readonly name = 'jira';
+
+  constructor(config: TicketingBackendConfig, private apiToken: string) {
+    super(config);
+    if (!config.serviceDeskId || !config.requestTypeId) {
+      throw new Error('jira: serviceDeskId and requestTypeId are required');
+    }
+  }
+
+  async create(ticket: StoredTicket): Promise<CreatedExternalTicket> {
+    const data = await this.request('POST', '/rest/servicedeskapi/request', {
+      serviceDeskId: this.config.serviceDeskId,
+      requestTypeId: this.config.requestTypeId,
+      requestFieldValues: {
+        summary: ticket.title,
+        description: describeTicket(ticket),
+        priority: { name: JIRA_PRIORITY[ticket.priority] },
+        labels: [ticket.category.replace(/\s+/g, '-'), 'supportbot']
+      }
+    });
+
+    return { id: data.issueKey, url: data._links?.web };
+  }
+
+  async update(ticket: StoredTicket, update: TicketUpdate): Promise<void> {
+    const key = this.externalId(ticket);
+
+    if (update.priority) {
+      await this.request('PUT', `/rest/api/3/issue/${key}`, {
+        fields: { priority: { name: JIRA_PRIORITY[update.priority] } }
+      });
+    }
+
+    // Status changes go through the workflow transition that leads to the target status
+    if (update.status) {
+      const { values } = await this.request('GET', `/rest/servicedeskapi/request/${key}/transition`);
+      const target = JIRA_STATUS[update.status];
+      const transition = (values || []).find((candidate: any) => candidate.name.toLowerCase() === target);
+      if (!transition) {
+        throw new Error(`jira: no transition to "${target}" from the current status of ${key}`);
+      }
+      await this.request('POST', `/rest/servicedeskapi/request/${key}/transition`, { id: transition.id });
+    }
+
+    if (update.comment) {
+      await this.request('POST', `/rest/servicedeskapi/request/${key}/comment`, {
+        body: update.comment,
+        public: false
+      });
+    }
+  }
+
+  async fetch(ticket: StoredTicket): Promise<RemoteTicketState> {
+    const key = this.externalId(ticket);
+    const [request, { values: comments }] = await Promise.all([
+      this.request('GET', `/rest/servicedeskapi/request/${key}`),
+      this.request('GET', `/rest/servicedeskapi/request/${key}/comment`)
+    ]);
+
+    const priorityField = (request.requestFieldValues || []).find((field: any) => field.fieldId === 'priority');
+
+    return {
+      status: resolveStatus(ticket.status, String(request.currentStatus?.status || '').toLowerCase(), JIRA_STATUS, status => {
+        const known = (Object.keys(JIRA_STATUS) as Status[]).find(ours => JIRA_STATUS[ours] === status);
+        if (known) {
+          return known;
+        }
+        // Custom workflow statuses fall back to their category
+        switch (request.currentStatus?.statusCategory) {
+          case 'NEW': return 'open';
+          case 'DONE': return 'resolved';
+          default: return 'in_progress';
+        }
+      }),
+      priority: fromRemotePriority(JIRA_PRIORITY, priorityField?.value?.name),
+      comments: (comments || []).map((comment: any) => ({
+        id: String(comment.id),
+        author: comment.author?.displayName || comment.author?.accountId || 'unknown',
+        body: comment.body,
+        createdAt: comment.created?.epochMillis || Date.now()
+      }))
+    };
+  }
+
+  protected authorization(): string {
+    return `Basic ${btoa(`${this.config.email}:${this.apiToken}`)}`;
+  }
+}
+
+// Freshdesk has no separate in-progress status; open covers both
+const FRESHDESK_STATUS: Record<Status, number> = {
+  open: 2,
+  in_progress: 2,
+  waiting_for_customer: 3,
+  resolved: 4,
+  closed: 5
+};
+
+const FRESHDESK_PRIORITY: Record<Priority, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  urgent: 4
+};
+
+const FRESHDESK_SOURCE_CHAT = 7;
+
+export class FreshdeskBackend extends RestTicketingBackend {
+  readonly name = 'freshdesk';
+
+  constructor(config: TicketingBackendConfig, private apiKey: string) {
+    super(config);
+  }
+
+  async create(ticket: StoredTicket): Promise<CreatedExternalTicket> {
+    const data = await this.request('POST', '/api/v2/tickets', {
+      subject: ticket.title,
+      description: describeTicket(ticket).replace(/\n/g, '<br>'),
+      email: ticket.userEmail || `${ticket.sessionId}@supportbot.invalid`,
+      priority: FRESHDESK_PRIORITY[ticket.priority],
+      status: FRESHDESK_STATUS[ticket.status],
+      source: FRESHDESK_SOURCE_CHAT,
+      tags: [ticket.category, 'supportbot']
+    });
+
+    return { id: String(data.id), url: `${this.baseUrl}/a/tickets/${data.id}` };
+  }
+
+  async update(ticket: StoredTicket, update: TicketUpdate): Promise<void> {
+    const id = this.externalId(ticket);
+
+    if (update.status || update.priority) {
+      await this.request('PUT', `/api/v2/tickets/${id}`, {
+        ...(update.status ? { status: FRESHDESK_STATUS[update.status] } : {}),
+        ...(update.priority ? { priority: FRESHDESK_PRIORITY[update.priority] } : {})
+      });
+    }
+
+    if (update.comment) {
+      await this.request('POST', `/api/v2/tickets/${id}/notes`, { body: update.comment, private: true });
+    }
+  }
+
+  async fetch(ticket: StoredTicket): Promise<RemoteTicketState> {
+    const remote = await this.request('GET', `/api/v2/tickets/${this.externalId(ticket)}?include=conversations`);
+
+    return {
+      status: resolveStatus(ticket.status, remote.status, FRESHDESK_STATUS, status => {
+        switch (status) {
+          case 3: return 'waiting_for_customer';
+          case 4: return 'resolved';
+          case 5: return 'closed';
+          default: return 'open'; // 2 and custom statuses
+        }
+      }),
+      priority: fromRemotePriority(FRESHDESK_PRIORITY, remote.priority),
+      assignedTo: remote.responder_id ? String(remote.responder_id) : undefined,
+      comments: (remote.conversations || []).map((conversation: any) => ({
+        id: String(conversation.id),
+        author: String(conversation.user_id),
+        body: conversation.body_text ?? conversation.body,
+        createdAt: Date.parse(conversation.created_at) || Date.now()
+      }))
+    };
+  }
+
+  protected authorization(): string {
+    return `Basic ${btoa(`${this.apiKey}:X`)}`;
+  }
+}
+
+function fromRemotePriority<T>(mapping: Record<Priority, T>, remote: T | undefined): Priority | undefined {
+  return (Object.keys(mapping) as Priority[]).find(ours => mapping[ours] === remote);
+}
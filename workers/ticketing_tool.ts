@@ -1,6 +1,17 @@
 // Ticketing Tool implementation
 
 import { Tool, ToolContext, ToolResult } from './tools.js';
+import {
+  ExternalTicketLink,
+  StoredTicket,
+  TicketStore,
+  applyRemoteState,
+  applyTicketUpdate,
+  createTicketRecord,
+  createTicketStore
+} from './ticket_store';
+import { TicketingBackend, createTicketingBackend } from './ticketing_backends';
+import { enqueueSession } from './agent_queue';
 
 export interface IssueData {
   title: string;
@@ -17,6 +28,7 @@ export interface TicketResult {
   createdAt: Date;
   estimatedResolution?: Date;
   assignedTo?: string;
+  external?: ExternalTicketLink;
 }
 
 export interface TicketStatus {
@@ -40,6 +52,19 @@ export interface TicketUpdate {
   comment?: string;
 }
 
+// Target resolution time per priority; also the SLA deadline in the agent queue
+export function calculateEstimatedResolution(priority: string, createdAt: Date): Date {
+  const resolutionHours = {
+    urgent: 4,
+    high: 24,
+    medium: 72,
+    low: 168 // 1 week
+  };
+
+  const hours = resolutionHours[priority as keyof typeof resolutionHours] || 72;
+  return new Date(createdAt.getTime() + hours * 60 * 60 * 1000);
+}
+
 export class TicketingTool implements Tool {
   name = 'ticketing';
   description = 'Create support tickets and check ticket status';
@@ -48,8 +73,8 @@ export class TicketingTool implements Tool {
     properties: {
       action: {
         type: 'string',
-        enum: ['create', 'status', 'update'],
-        description: 'The action to perform: create a new ticket, check status, or update existing ticket'
+        enum: ['create', 'status', 'update', 'list'],
+        description: 'The action to perform: create a new ticket, check status, update an existing ticket, or list the customer\'s tickets'
       },
       ticketData: {
         type: 'object',
@@ -85,18 +110,27 @@ export class TicketingTool implements Tool {
           resolution: { type: 'string' },
           comment: { type: 'string' }
         }
+      },
+      status: {
+        type: 'string',
+        enum: ['open', 'in_progress', 'waiting_for_customer', 'resolved', 'closed'],
+        description: 'Only list tickets in this status'
       }
     },
     required: ['action']
   };
 
+  // Defaults to the store for the caller's bindings (KV, or in-memory without KV)
+  // and the helpdesk configured in TICKETING_BACKEND
+  constructor(private store?: TicketStore, private backend?: TicketingBackend) {}
+
   async execute(params: any, context: ToolContext): Promise<ToolResult> {
     try {
       // Validate action parameter
-      if (!params || !params.action || !['create', 'status', 'update'].includes(params.action)) {
+      if (!params || !params.action || !['create', 'status', 'update', 'list'].includes(params.action)) {
         return {
           success: false,
-          error: 'Invalid action parameter: must be "create", "status", or "update"'
+          error: 'Invalid action parameter: must be "create", "status", "update", or "list"'
         };
       }
 
@@ -107,6 +141,8 @@ export class TicketingTool implements Tool {
           return await this.fetchStatus(params.ticketId, context);
         case 'update':
           return await this.updateTicket(params.ticketId, params.updateData, context);
+        case 'list':
+          return await this.listTickets(params.status, context);
         default:
           return {
             success: false,
@@ -154,38 +190,45 @@ export class TicketingTool implements Tool {
       };
     }
 
-    // Simulate ticket creation (in real implementation, this would call external API)
     const ticketId = this.generateTicketId();
     const now = new Date();
     
     // Calculate estimated resolution based on priority
-    const estimatedResolution = this.calculateEstimatedResolution(issueData.priority, now);
+    const estimatedResolution = calculateEstimatedResolution(issueData.priority, now);
 
-    const ticketResult: TicketResult = {
+    const ticket = createTicketRecord(
       ticketId,
-      status: {
-        id: ticketId,
-        status: 'open',
-        priority: issueData.priority,
-        title: issueData.title,
-        description: issueData.description,
-        createdAt: now,
-        updatedAt: now,
-        estimatedResolution
-      },
-      createdAt: now,
-      estimatedResolution
-    };
+      issueData,
+      { sessionId: context.sessionId, userId: context.userId },
+      estimatedResolution.getTime(),
+      now.getTime()
+    );
+    const store = this.getStore(context);
+    await store.save(ticket);
+
+    await enqueueSession(context.bindings, {
+      sessionId: context.sessionId,
+      reason: 'ticket',
+      priority: issueData.priority,
+      slaDeadline: estimatedResolution.getTime(),
+      title: issueData.title,
+      ticketId,
+      userId: context.userId
+    });
 
-    // Store ticket in mock storage (in real implementation, this would be persistent)
-    await this.storeTicket(ticketResult, context);
+    // The local record is the source of truth; a helpdesk outage only delays the export
+    const { ticket: synced, syncError } = await this.exportTicket(ticket, context);
+    if (synced !== ticket) {
+      await store.save(synced, ticket);
+    }
 
     return {
       success: true,
-      data: ticketResult,
+      data: this.toTicketResult(synced),
       metadata: {
         sessionId: context.sessionId,
-        createdAt: now.toISOString()
+        createdAt: now.toISOString(),
+        ...(syncError ? { syncError } : {})
       }
     };
   }
@@ -198,22 +241,28 @@ export class TicketingTool implements Tool {
       };
     }
 
-    // Simulate fetching ticket status (in real implementation, this would query external system)
-    const ticketStatus = await this.getTicketFromStorage(ticketId, context);
+    const store = this.getStore(context);
+    const stored = await store.get(ticketId);
 
-    if (!ticketStatus) {
+    if (!stored || !this.ownsTicket(stored, context)) {
       return {
         success: false,
         error: `Ticket not found: ${ticketId}`
       };
     }
 
+    const { ticket, syncError } = await this.syncTicket(stored, context);
+    if (ticket !== stored) {
+      await store.save(ticket, stored);
+    }
+
     return {
       success: true,
-      data: ticketStatus,
+      data: { ...this.toTicketResult(ticket), history: ticket.events },
       metadata: {
         sessionId: context.sessionId,
-        fetchedAt: new Date().toISOString()
+        fetchedAt: new Date().toISOString(),
+        ...(syncError ? { syncError } : {})
       }
     };
   }
@@ -238,8 +287,9 @@ export class TicketingTool implements Tool {
     }
 
     // Fetch existing ticket
-    const existingTicket = await this.getTicketFromStorage(ticketId, context);
-    if (!existingTicket) {
+    const store = this.getStore(context);
+    const existingTicket = await store.get(ticketId);
+    if (!existingTicket || !this.ownsTicket(existingTicket, context)) {
       return {
         success: false,
         error: `Ticket not found: ${ticketId}`
@@ -261,69 +311,149 @@ export class TicketingTool implements Tool {
       };
     }
 
-    // Update ticket
-    const updatedTicket: TicketResult = {
-      ...existingTicket,
-      status: {
-        ...existingTicket.status,
-        ...updateData,
-        updatedAt: new Date()
+    // Update ticket and record the change in its history
+    let updatedTicket = applyTicketUpdate(existingTicket, updateData, context.userId || context.sessionId);
+    await store.save(updatedTicket, existingTicket);
+
+    let syncError: string | undefined;
+    if (updatedTicket.syncPending) {
+      const exported = await this.exportTicket(updatedTicket, context);
+      syncError = exported.syncError;
+      if (exported.ticket !== updatedTicket) {
+        await store.save(exported.ticket, updatedTicket);
+        updatedTicket = exported.ticket;
+      }
+    } else if (updatedTicket.external) {
+      try {
+        await this.getBackend(context).update(updatedTicket, updateData);
+      } catch (error) {
+        syncError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    return {
+      success: true,
+      data: { ...this.toTicketResult(updatedTicket), history: updatedTicket.events },
+      metadata: {
+        sessionId: context.sessionId,
+        updatedAt: new Date().toISOString(),
+        updatedFields: Object.keys(updateData),
+        ...(syncError ? { syncError } : {})
       }
     };
+  }
 
-    // Store updated ticket
-    await this.storeTicket(updatedTicket, context);
+  // Tickets of the signed-in user across sessions, or of the current session for anonymous users
+  private async listTickets(status: TicketStatus['status'] | undefined, context: ToolContext): Promise<ToolResult> {
+    if (status && !['open', 'in_progress', 'waiting_for_customer', 'resolved', 'closed'].includes(status)) {
+      return {
+        success: false,
+        error: 'Invalid status: must be open, in_progress, waiting_for_customer, resolved, or closed'
+      };
+    }
+
+    const tickets = await this.getStore(context).list(
+      context.userId ? { userId: context.userId, status } : { sessionId: context.sessionId, status }
+    );
 
     return {
       success: true,
-      data: updatedTicket,
+      data: {
+        tickets: tickets.map(ticket => this.toTicketResult(ticket)),
+        totalFound: tickets.length
+      },
       metadata: {
         sessionId: context.sessionId,
-        updatedAt: new Date().toISOString(),
-        updatedFields: Object.keys(updateData)
+        fetchedAt: new Date().toISOString()
       }
     };
   }
 
-  private generateTicketId(): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(2, 8);
-    return `TKT-${timestamp}-${random}`.toUpperCase();
+  // Tickets belong to the session that opened them and, once signed in, to that user.
+  // Other callers are told the ticket does not exist rather than that it is someone else's.
+  private ownsTicket(ticket: StoredTicket, context: ToolContext): boolean {
+    return ticket.sessionId === context.sessionId || (!!ticket.userId && ticket.userId === context.userId);
   }
 
-  private calculateEstimatedResolution(priority: string, createdAt: Date): Date {
-    const resolutionHours = {
-      urgent: 4,
-      high: 24,
-      medium: 72,
-      low: 168 // 1 week
-    };
+  private getStore(context: ToolContext): TicketStore {
+    return this.store || createTicketStore(context.bindings);
+  }
 
-    const hours = resolutionHours[priority as keyof typeof resolutionHours] || 72;
-    return new Date(createdAt.getTime() + hours * 60 * 60 * 1000);
+  private getBackend(context: ToolContext): TicketingBackend {
+    return this.backend || createTicketingBackend(context.bindings);
   }
 
-  private async storeTicket(ticket: TicketResult, context: ToolContext): Promise<void> {
-    // In a real implementation, this would store in a database or external system
-    // For now, we'll simulate storage using the session context
-    if (!context.conversationContext) {
-      context.conversationContext = {};
-    }
-    
-    if (!context.conversationContext.tickets) {
-      context.conversationContext.tickets = {};
+  // Create the helpdesk counterpart; on failure the ticket is flagged for a retry
+  private async exportTicket(
+    ticket: StoredTicket,
+    context: ToolContext
+  ): Promise<{ ticket: StoredTicket; syncError?: string }> {
+    const backend = this.getBackend(context);
+    try {
+      const created = await backend.create(ticket);
+      if (!created) {
+        return { ticket };
+      }
+      const { syncPending, ...rest } = ticket;
+      return {
+        ticket: { ...rest, external: { system: backend.name, ...created, syncedAt: Date.now(), seenCommentIds: [] } }
+      };
+    } catch (error) {
+      const syncError = error instanceof Error ? error.message : String(error);
+      return { ticket: ticket.syncPending ? ticket : { ...ticket, syncPending: true }, syncError };
     }
-    
-    context.conversationContext.tickets[ticket.ticketId] = ticket;
   }
 
-  private async getTicketFromStorage(ticketId: string, context: ToolContext): Promise<TicketResult | null> {
-    // In a real implementation, this would fetch from a database or external system
-    if (!context.conversationContext?.tickets) {
-      return null;
+  // Retry a pending export, or pull status and agent comments from the helpdesk
+  private async syncTicket(
+    ticket: StoredTicket,
+    context: ToolContext
+  ): Promise<{ ticket: StoredTicket; syncError?: string }> {
+    if (ticket.syncPending) {
+      return this.exportTicket(ticket, context);
     }
-    
-    return context.conversationContext.tickets[ticketId] || null;
+    if (!ticket.external) {
+      return { ticket };
+    }
+
+    try {
+      const remote = await this.getBackend(context).fetch(ticket);
+      return { ticket: remote ? applyRemoteState(ticket, remote) : ticket };
+    } catch (error) {
+      return { ticket, syncError: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private toTicketResult(ticket: StoredTicket): TicketResult {
+    const estimatedResolution = ticket.estimatedResolution !== undefined
+      ? new Date(ticket.estimatedResolution)
+      : undefined;
+
+    return {
+      ticketId: ticket.id,
+      status: {
+        id: ticket.id,
+        status: ticket.status,
+        priority: ticket.priority,
+        title: ticket.title,
+        description: ticket.description,
+        createdAt: new Date(ticket.createdAt),
+        updatedAt: new Date(ticket.updatedAt),
+        assignedTo: ticket.assignedTo,
+        resolution: ticket.resolution,
+        estimatedResolution
+      },
+      createdAt: new Date(ticket.createdAt),
+      estimatedResolution,
+      assignedTo: ticket.assignedTo,
+      external: ticket.external
+    };
+  }
+
+  private generateTicketId(): string {
+    const timestamp = Date.now();
+    const random = Math.random().toString(36).substring(2, 8);
+    return `TKT-${timestamp}-${random}`.toUpperCase();
   }
 
   private isRetryableError(error: unknown): boolean {
@@ -349,4 +479,30 @@ export class TicketingTool implements Tool {
     
     return false;
   }
-}
\ No newline at end of file
+}
+
+// Closes a ticket that should not have been opened, e.g. when the workflow that
+// created it is rolled back. Shares storage and helpdesk sync with TicketingTool.
+export class CancelTicketTool implements Tool {
+  name = 'cancel_ticket';
+  description = 'Cancel a support ticket by closing it with a reason';
+  parameters = {
+    type: 'object',
+    properties: {
+      ticketId: { type: 'string', description: 'Ticket to cancel' },
+      reason: { type: 'string', description: 'Why the ticket is cancelled' }
+    },
+    required: ['ticketId']
+  };
+
+  constructor(private ticketing: TicketingTool = new TicketingTool()) {}
+
+  async execute(params: { ticketId: string; reason?: string }, context: ToolContext): Promise<ToolResult> {
+    const reason = params?.reason || 'Cancelled';
+    return this.ticketing.execute({
+      action: 'update',
+      ticketId: params?.ticketId,
+      updateData: { status: 'closed', resolution: reason, comment: `Ticket cancelled: ${reason}` }
+    }, context);
+  }
+}
@@ -0,0 +1,248 @@
+// Token budgets: real prompt and completion tokens reported by the models are recorded
+// per session, user and tenant, and checked against hourly, daily and monthly limits
+import { WorkerBindings } from './types';
+
+export type QuotaScope = 'session' | 'user' | 'tenant';
+export type QuotaWindow = 'hour' | 'day' | 'month';
+
+export interface TokenBudget {
+  tokensPerHour?: number;
+  tokensPerDay?: number;
+  tokensPerMonth?: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface QuotaSubject {
+  scope: QuotaScope;
+  id: string;
+  budget: TokenBudget;
+}
+
+interface WindowUsage extends TokenUsage {
+  start: number;
+}
+
+// Usage in the current clock hour, UTC day and UTC calendar month
+export interface TokenLedgerState {
+  hour: WindowUsage;
+  day: WindowUsage;
+  month: WindowUsage;
+  updatedAt: number;
+}
+
+export interface BudgetStatus {
+  scope: QuotaScope;
+  window: QuotaWindow;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetTime: number;
+}
+
+export interface TokenQuotaResult {
+  allowed: boolean;
+  reason?: string;
+  // The exhausted budget when refused, otherwise the one with the fewest tokens left
+  tightest?: BudgetStatus;
+  budgets: BudgetStatus[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const KV_PREFIX = 'token_usage:';
+
+const BUDGET_FIELDS: Array<[QuotaWindow, keyof TokenBudget]> = [
+  ['hour', 'tokensPerHour'],
+  ['day', 'tokensPerDay'],
+  ['month', 'tokensPerMonth']
+];
+
+const WINDOW_LABELS: Record<QuotaWindow, string> = { hour: 'hourly', day: 'daily', month: 'monthly' };
+
+export function subjectKey(subject: Pick<QuotaSubject, 'scope' | 'id'>): string {
+  return `${subject.scope}:${subject.id}`;
+}
+
+function windowStart(window: QuotaWindow, now: number): number {
+  if (window === 'hour') {
+    return Math.floor(now / HOUR_MS) * HOUR_MS;
+  }
+  if (window === 'day') {
+    return Math.floor(now / DAY_MS) * DAY_MS;
+  }
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+function windowEnd(window: QuotaWindow, start: number): number {
+  if (window === 'hour') {
+    return start + HOUR_MS;
+  }
+  if (window === 'day') {
+    return start + DAY_MS;
+  }
+  const date = new Date(start);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+}
+
+// When a ledger's last window closes and it holds nothing worth keeping
+export function ledgerExpiry(ledger: TokenLedgerState): number {
+  return windowEnd('month', ledger.month.start);
+}
+
+// Start new windows for any that have closed since the ledger was last written
+export function advanceLedger(stored: TokenLedgerState | null | undefined, now: number): TokenLedgerState {
+  const roll = (window: QuotaWindow, current?: WindowUsage): WindowUsage => {
+    const start = windowStart(window, now);
+    return current && current.start === start
+      ? { ...current }
+      : { start, promptTokens: 0, completionTokens: 0 };
+  };
+
+  return {
+    hour: roll('hour', stored?.hour),
+    day: roll('day', stored?.day),
+    month: roll('month', stored?.month),
+    updatedAt: now
+  };
+}
+
+export function addUsage(ledger: TokenLedgerState, usage: TokenUsage): void {
+  for (const window of [ledger.hour, ledger.day, ledger.month]) {
+    window.promptTokens += usage.promptTokens;
+    window.completionTokens += usage.completionTokens;
+  }
+}
+
+export function evaluateBudget(ledger: TokenLedgerState, scope: QuotaScope, budget: TokenBudget): BudgetStatus[] {
+  const statuses: BudgetStatus[] = [];
+  for (const [window, field] of BUDGET_FIELDS) {
+    const limit = budget[field];
+    if (limit === undefined) {
+      continue;
+    }
+    const usage = ledger[window];
+    const used = usage.promptTokens + usage.completionTokens;
+    statuses.push({
+      scope,
+      window,
+      limit,
+      used,
+      remaining: Math.max(0, limit - used),
+      resetTime: windowEnd(window, usage.start)
+    });
+  }
+  return statuses;
+}
+
+// A request may start while every budget has tokens left; the call that crosses
+// a limit still completes, and the next request is refused
+export function combineQuota(budgets: BudgetStatus[]): TokenQuotaResult {
+  const exhausted = budgets.filter(status => status.remaining <= 0);
+  if (exhausted.length > 0) {
+    // Report the budget that stays closed the longest
+    const blocking = exhausted.reduce((latest, status) => status.resetTime > latest.resetTime ? status : latest);
+    return {
+      allowed: false,
+      reason: `Rate limit exceeded: token limit reached (${blocking.scope} ${WINDOW_LABELS[blocking.window]} budget)`,
+      tightest: blocking,
+      budgets
+    };
+  }
+
+  const tightest = budgets.reduce<BudgetStatus | undefined>(
+    (lowest, status) => !lowest || status.remaining < lowest.remaining ? status : lowest,
+    undefined
+  );
+  return { allowed: true, tightest, budgets };
+}
+
+export function isTokenBudget(budget: any): budget is TokenBudget {
+  return !!budget && typeof budget === 'object'
+    && BUDGET_FIELDS.every(([, field]) => budget[field] === undefined || (typeof budget[field] === 'number' && budget[field] >= 0));
+}
+
+export interface TokenLedger {
+  check(subjects: QuotaSubject[]): Promise<TokenQuotaResult>;
+  // Adds the usage to every subject and reports the budgets afterwards
+  record(subjects: QuotaSubject[], usage: TokenUsage): Promise<TokenQuotaResult>;
+}
+
+// Ledgers live in the same RateLimiterDO as the subject's request limits, so
+// concurrent calls add up exactly
+export class DurableObjectTokenLedger implements TokenLedger {
+  constructor(private namespace: DurableObjectNamespace) {}
+
+  async check(subjects: QuotaSubject[]): Promise<TokenQuotaResult> {
+    return this.post(subjects, { action: 'quota' });
+  }
+
+  async record(subjects: QuotaSubject[], usage: TokenUsage): Promise<TokenQuotaResult> {
+    return this.post(subjects, { action: 'record', usage });
+  }
+
+  private async post(subjects: QuotaSubject[], body: Record<string, any>): Promise<TokenQuotaResult> {
+    const results = await Promise.all(subjects.map(async subject => {
+      const stub = this.namespace.get(this.namespace.idFromName(subjectKey(subject)));
+      const response = await stub.fetch('https://rate-limiter/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body, scope: subject.scope, budget: subject.budget })
+      });
+      if (!response.ok) {
+        throw new Error(`Token ledger responded with ${response.status}`);
+      }
+      return ((await response.json()) as any).budgets as BudgetStatus[];
+    }));
+    return combineQuota(results.flat());
+  }
+}
+
+// Stand-in without the Durable Object; KV read-modify-write can drop usage from concurrent calls
+export class KVTokenLedger implements TokenLedger {
+  constructor(private kv: KVNamespace) {}
+
+  async check(subjects: QuotaSubject[]): Promise<TokenQuotaResult> {
+    const now = Date.now();
+    const budgets = await Promise.all(subjects.map(async subject =>
+      evaluateBudget(advanceLedger(await this.read(subject), now), subject.scope, subject.budget)
+    ));
+    return combineQuota(budgets.flat());
+  }
+
+  async record(subjects: QuotaSubject[], usage: TokenUsage): Promise<TokenQuotaResult> {
+    const now = Date.now();
+    const budgets = await Promise.all(subjects.map(async subject => {
+      const ledger = advanceLedger(await this.read(subject), now);
+      addUsage(ledger, usage);
+      await this.kv.put(KV_PREFIX + subjectKey(subject), JSON.stringify(ledger), {
+        expirationTtl: Math.max(60, Math.ceil((ledgerExpiry(ledger) - now) / 1000))
+      });
+      return evaluateBudget(ledger, subject.scope, subject.budget);
+    }));
+    return combineQuota(budgets.flat());
+  }
+
+  private async read(subject: QuotaSubject): Promise<TokenLedgerState | null> {
+    const raw = await this.kv.get(KV_PREFIX + subjectKey(subject));
+    if (!raw) {
+      return null;
+    }
+    try {
+      const parsed = JSON.parse(raw);
+      return parsed && typeof parsed === 'object' && parsed.hour ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export function createTokenLedger(bindings: WorkerBindings): TokenLedger {
+  return bindings.RATE_LIMITER_DO
+    ? new DurableObjectTokenLedger(bindings.RATE_LIMITER_DO)
+    : new KVTokenLedger(bindings.CHAT_KV);
+}
@@ -1,11 +1,14 @@
 // Tool Registry - Central registration and management of all tools
 
-import { ToolRouter, ToolContext, ToolResult } from './tools.js';
+import { Tool, ToolRouter, ToolContext, ToolResult } from './tools.js';
 import { KnowledgeBaseTool } from './knowledge_base_tool.js';
-import { TicketingTool } from './ticketing_tool.js';
+import { CancelTicketTool, TicketingTool } from './ticketing_tool.js';
+import { NotificationTool } from './notification_tool.js';
 
 export class ToolRegistry {
   private router: ToolRouter;
+  // Tools only workflows may run; they are left out of the schema offered to models
+  private workflowTools: Set<string> = new Set();
 
   constructor() {
     // Initialize router with custom retry configuration
@@ -34,6 +37,12 @@ export class ToolRegistry {
     // Register Ticketing Tool
     const ticketingTool = new TicketingTool();
     this.router.registerTool(ticketingTool);
+
+    // Register workflow-only tools
+    for (const tool of [new NotificationTool(), new CancelTicketTool(ticketingTool)]) {
+      this.router.registerTool(tool);
+      this.workflowTools.add(tool.name);
+    }
   }
 
   async executeTool(
@@ -41,11 +50,19 @@ export class ToolRegistry {
     params: any,
     context: ToolContext
   ): Promise<ToolResult> {
+    // The chat loop only offers model tools, but a model may still name any tool
+    if (this.workflowTools.has(toolName) && !context.fromWorkflow) {
+      return {
+        success: false,
+        error: `Tool '${toolName}' can only be run by workflows`,
+        metadata: { workflowOnly: true }
+      };
+    }
     return this.router.executeTool(toolName, params, context);
   }
 
   getAvailableTools(): Array<{name: string, description: string, parameters: any}> {
-    return this.router.listTools().map(tool => ({
+    return this.modelTools().map(tool => ({
       name: tool.name,
       description: tool.description,
       parameters: tool.parameters
@@ -53,29 +70,55 @@ export class ToolRegistry {
   }
 
   getToolSchema(): any {
-    // Return OpenAI-compatible tool schema for AI model
-    return this.router.listTools().map(tool => ({
+    // Return OpenAI-compatible tool schema for AI model. Names are the sanitized
+    // aliases that chat history also uses, so every provider sees one name per tool
+    return this.modelTools().map(tool => ({
       type: 'function',
       function: {
-        name: tool.name,
+        name: ToolRegistry.toFunctionName(tool.name),
         description: tool.description,
         parameters: tool.parameters
       }
     }));
   }
 
+  // Resolve a function name returned by a model back to a registered tool.
+  // Function-calling APIs only accept [a-zA-Z0-9_-] in names, so models are
+  // offered and answer with the sanitized alias (e.g. kb_search for kb.search).
+  resolveToolName(name: string): string | undefined {
+    const tools = this.modelTools();
+    const exactMatch = tools.find(tool => tool.name === name);
+    if (exactMatch) {
+      return exactMatch.name;
+    }
+
+    return tools.find(tool => ToolRegistry.toFunctionName(tool.name) === name)?.name;
+  }
+
+  private modelTools(): Tool[] {
+    return this.router.listTools().filter(tool => !this.workflowTools.has(tool.name));
+  }
+
+  static toFunctionName(toolName: string): string {
+    return toolName.replace(/[^a-zA-Z0-9_-]/g, '_');
+  }
+
   // Helper method to create tool context from worker bindings
   static createToolContext(
     sessionId: string,
     bindings: any,
     userId?: string,
-    conversationContext?: any
+    conversationContext?: any,
+    fromWorkflow?: boolean,
+    signal?: AbortSignal
   ): ToolContext {
     return {
       sessionId,
       userId,
       conversationContext,
-      bindings
+      bindings,
+      fromWorkflow,
+      signal
     };
   }
 }
@@ -1,4 +1,5 @@
 // Tool integration system for AI Support Bot
+import { CircuitBreakerRegistry } from './circuit_breaker';
 
 export interface Tool {
   name: string;
@@ -12,6 +13,10 @@ export interface ToolContext {
   userId?: string;
   conversationContext?: any;
   bindings: any; // Worker bindings for accessing external services
+  // Set only by workflow steps; workflow-only tools refuse every other caller
+  fromWorkflow?: boolean;
+  // Aborted when the workflow step running the tool times out; no further attempt is started
+  signal?: AbortSignal;
 }
 
 export interface ToolResult {
@@ -32,6 +37,7 @@ export interface RetryConfig {
 export class ToolRouter {
   private tools: Map<string, Tool> = new Map();
   private retryConfig: RetryConfig;
+  private localBreakers?: CircuitBreakerRegistry;
 
   constructor(retryConfig?: Partial<RetryConfig>) {
     this.retryConfig = {
@@ -78,14 +84,36 @@ export class ToolRouter {
     params: any, 
     context: ToolContext
   ): Promise<ToolResult> {
+    const breakers = this.getCircuitBreakers(context);
+    const breakerName = `tool:${tool.name}`;
+
+    if (!await breakers.allowRequest(breakerName)) {
+      return {
+        success: false,
+        error: `CIRCUIT_OPEN: Tool '${tool.name}' is temporarily unavailable`,
+        metadata: { circuitState: 'open' }
+      };
+    }
+
     let lastError: string = '';
     
     for (let attempt = 1; attempt <= this.retryConfig.maxAttempts; attempt++) {
+      // The caller gave up; its breaker is not charged for that
+      if (context.signal?.aborted) {
+        return {
+          success: false,
+          error: `Tool '${tool.name}' was aborted: ${context.signal.reason instanceof Error ? context.signal.reason.message : 'aborted'}`,
+          metadata: { aborted: true, attempts: attempt - 1 }
+        };
+      }
+
       try {
         const result = await tool.execute(params, context);
         
-        // If successful or non-retryable error, return immediately
+        // If successful or non-retryable error, return immediately; either
+        // way the tool's backend answered, so the breaker stays closed
         if (result.success || !this.isRetryableError(result.error)) {
+          await breakers.recordSuccess(breakerName);
           return result;
         }
         
@@ -108,6 +136,8 @@ export class ToolRouter {
       }
     }
 
+    await breakers.recordFailure(breakerName);
+
     return {
       success: false,
       error: `Tool execution failed after ${this.retryConfig.maxAttempts} attempts: ${lastError}`,
@@ -118,6 +148,18 @@ export class ToolRouter {
     };
   }
 
+  // Shared KV-backed breakers when the worker bindings are available,
+  // otherwise state local to this router
+  private getCircuitBreakers(context: ToolContext): CircuitBreakerRegistry {
+    if (typeof context.bindings?.CHAT_KV?.get === 'function') {
+      return new CircuitBreakerRegistry(context.bindings);
+    }
+    if (!this.localBreakers) {
+      this.localBreakers = new CircuitBreakerRegistry(undefined);
+    }
+    return this.localBreakers;
+  }
+
   private isRetryableError(error?: string): boolean {
     if (!error) return false;
     return this.retryConfig.retryableErrors.some(retryableError => 
@@ -4,10 +4,12 @@ export interface ChatMessage {
   id: string;
   sessionId: string;
   content: string;
-  role: 'user' | 'assistant';
+  // 'agent' marks replies from a human support agent during a handoff
+  role: 'user' | 'assistant' | 'agent';
   timestamp: number;
   metadata?: {
     toolCalls?: ToolCall[];
+    agentId?: string;
     voiceEnabled?: boolean;
     voiceTranscript?: string;
     voiceConfidence?: number;
@@ -19,16 +21,28 @@ export interface ChatMessage {
 
 export interface SessionState {
   id: string;
+  // Set only from an authenticated caller when the session is created
   userId?: string;
-  status: 'active' | 'idle' | 'ended';
+  tenantId?: string;
+  // 'handed_off' while a human agent has taken over; the bot stays muted
+  status: 'active' | 'idle' | 'ended' | 'handed_off';
   createdAt: number;
   lastActivity: number;
+  handoff?: SessionHandoff;
+}
+
+export interface SessionHandoff {
+  agentId: string;
+  claimedAt: number;
+  // Conversation summary generated for the agent when they claimed the session
+  summary: string;
 }
 
 export interface ConversationMemory {
   sessionId: string;
   messages: ChatMessage[];
   summary: string;
+  summarizedThroughId?: string; // Newest message already folded into summary
   context: Record<string, any>;
   lastSummaryAt: number;
   ttl: number;
@@ -41,6 +55,8 @@ export interface ConversationContext {
   userProfile?: UserProfile;
   activeTopics: string[];
   resolvedIssues: string[];
+  // Present while a human agent owns the session
+  handoff?: SessionHandoff;
 }
 
 export interface UserProfile {
@@ -85,7 +101,18 @@ export interface WorkerBindings {
   ARCHIVE_R2: R2Bucket;
   WORKFLOWS: any; // Cloudflare Workflows binding - type not yet available in @cloudflare/workers-types
   OPENAI_API_KEY?: string;
+  ANTHROPIC_API_KEY?: string;
   MAX_TOKENS?: string;
+  MODEL_CHAINS?: string; // JSON ModelChainConfig; see model_providers.ts
+  KB_INDEX?: VectorizeIndex; // Optional; without it KB vectors are kept next to the chunks in KV
+  TICKETING_BACKEND?: string; // JSON TicketingBackendConfig; see ticketing_backends.ts
+  AGENT_NOTIFICATION_WEBHOOK?: string; // Optional; receives send_notification posts from workflows
+  AGENT_QUEUE_DO?: DurableObjectNamespace; // Optional; sessions waiting for a human agent
+  WORKFLOW_STATE_DO?: DurableObjectNamespace; // Optional; without it workflow executions live in memory
+  RATE_LIMITER_DO?: DurableObjectNamespace; // Optional; without it rate limits use best-effort KV counters
+  RATE_LIMIT_FAILURE_MODE?: 'open' | 'closed'; // Overrides SecurityConfig.rateLimiting.failureMode
+  SESSION_TOKEN_SECRET?: string; // Signs session tokens; required for chat and session routes
+  API_KEYS?: string; // JSON ApiKeyConfig[] for server-to-server callers; see auth.ts
 }
 
 // Memory operations interface
@@ -106,7 +133,7 @@ export interface Session {
   metadata: SessionMetadata;
 }
 
-export type SessionStatus = 'active' | 'idle' | 'ended';
+export type SessionStatus = 'active' | 'idle' | 'ended' | 'handed_off';
 
 export interface SessionMetadata {
   userAgent?: string;
@@ -269,6 +296,9 @@ export interface CircuitBreaker {
   recoveryTimeout: number;
   lastFailureTime: number;
   consecutiveFailures: number;
+  // The half-open trial call in flight, if any; it lapses at probeExpiresAt
+  probeId?: string;
+  probeExpiresAt?: number;
 }
 
 // Validation functions
@@ -282,7 +312,7 @@ export function validateChatMessage(message: any): message is ChatMessage {
     return false;
   }
   
-  if (!['user', 'assistant'].includes(message.role)) {
+  if (!['user', 'assistant', 'agent'].includes(message.role)) {
     return false;
   }
 
@@ -327,6 +357,9 @@ export function validateChatMessage(message: any): message is ChatMessage {
     if (metadata.toolCalls !== undefined && !Array.isArray(metadata.toolCalls)) {
       return false;
     }
+    if (metadata.agentId !== undefined && typeof metadata.agentId !== 'string') {
+      return false;
+    }
   }
 
   return true;
@@ -338,13 +371,14 @@ export function validateSessionState(state: any): state is SessionState {
     state !== null &&
     typeof state.id === 'string' &&
     state.id.trim().length > 0 &&
-    ['active', 'idle', 'ended'].includes(state.status) &&
+    ['active', 'idle', 'ended', 'handed_off'].includes(state.status) &&
     typeof state.createdAt === 'number' &&
     state.createdAt > 0 &&
     typeof state.lastActivity === 'number' &&
     state.lastActivity > 0 &&
     state.lastActivity >= state.createdAt &&
-    (state.userId === undefined || typeof state.userId === 'string')
+    (state.userId === undefined || typeof state.userId === 'string') &&
+    (state.tenantId === undefined || typeof state.tenantId === 'string')
   );
 }
 
@@ -424,6 +458,10 @@ export function generateToolCallId(): string {
   return `tool_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
 }
 
+export function generateDocumentId(): string {
+  return `doc_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
 export function generateWorkflowId(): string {
   return `wf_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
 }
@@ -481,15 +519,15 @@ export function createFailureResponse(error: ErrorResponse): APIResponse {
 
 // Type guards for runtime type checking
 export function isValidSessionStatus(status: string): status is SessionStatus {
-  return ['active', 'idle', 'ended'].includes(status);
+  return ['active', 'idle', 'ended', 'handed_off'].includes(status);
 }
 
 export function isValidTicketStatus(status: string): status is TicketStatus {
   return ['open', 'in_progress', 'resolved', 'closed'].includes(status);
 }
 
-export function isValidMessageRole(role: string): role is 'user' | 'assistant' {
-  return ['user', 'assistant'].includes(role);
+export function isValidMessageRole(role: string): role is ChatMessage['role'] {
+  return ['user', 'assistant', 'agent'].includes(role);
 }
 
 export function isValidWorkflowStepStatus(status: string): status is 'pending' | 'running' | 'completed' | 'failed' {
@@ -1,5 +1,6 @@
 // Workflow orchestration system for complex operations
 import { ToolCall, ToolResult, ToolContext, ConversationContext } from './types';
+import { WorkflowStore, InMemoryWorkflowStore, createExecutionId, isFinished } from './workflow_store';
 
 // Core workflow interfaces
 export interface WorkflowStep {
@@ -9,11 +10,41 @@ export interface WorkflowStep {
   output?: any;
   retryCount: number;
   maxRetries: number;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'compensating';
+  // Per-attempt limit in milliseconds; every attempt is also bounded by the workflow timeout
+  timeout?: number;
+  // Safe to run again after an attempt timed out. A timed-out attempt may still have taken
+  // effect, so only idempotent steps are retried after one.
+  idempotent?: boolean;
+  // Ids of the steps this one waits for. Without it a step waits for the step before it;
+  // [] lets it start right away. Steps whose dependencies are done run in parallel.
+  dependsOn?: string[];
+  // Checked against context.variables when the step is due; the step is skipped if it fails
+  condition?: StepCondition | StepCondition[];
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'compensating' | 'compensated' | 'skipped';
   executedAt?: number;
   completedAt?: number;
   error?: string;
+  // Input of the last attempt after templates; compensation receives it with the output
+  resolvedInput?: any;
+  // Undoes this step when the workflow fails or is cancelled after it completed. Its input
+  // may read {{steps.<this step>.output}}. Without one, the handler's compensate is used.
   compensationStep?: WorkflowStep;
+  // Outcome of undoing this step; a failed compensation leaves the step completed
+  compensation?: StepCompensation;
+}
+
+export interface StepCompensation {
+  status: 'completed' | 'failed';
+  startedAt: number;
+  completedAt: number;
+  error?: string;
+}
+
+export interface StepCondition {
+  // Dotted path into context.variables, e.g. 'step_kb_search_output.data.total'
+  path: string;
+  operator: 'exists' | 'not_exists' | 'equals' | 'not_equals' | 'gt' | 'lt' | 'empty' | 'not_empty';
+  value?: any;
 }
 
 export interface WorkflowDefinition {
@@ -21,6 +52,8 @@ export interface WorkflowDefinition {
   name: string;
   description: string;
   steps: WorkflowStep[];
+  // Not run: a failed or cancelled execution undoes each completed step through its own
+  // compensationStep or handler. Kept so existing definitions still type-check.
   compensationSteps?: WorkflowStep[];
   timeout: number; // milliseconds
   retryConfig: RetryConfig;
@@ -30,14 +63,24 @@ export interface WorkflowExecution {
   id: string;
   workflowId: string;
   sessionId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'compensated';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'compensated' | 'cancelled';
   currentStepIndex: number;
   startedAt: number;
+  // Set when a failed execution was run again from its failed step; the deadline restarts here
+  replayedAt?: number;
+  // Last persisted progress; a running execution that stops updating was abandoned
+  updatedAt: number;
+  // Engine driving the execution; set when it starts and when another engine takes it over
+  runnerId?: string;
   completedAt?: number;
   context: WorkflowContext;
   idempotencyKey: string;
   steps: WorkflowStep[];
   error?: string;
+  // Set when the workflow deadline, not a step, ended the execution
+  timedOut?: boolean;
+  // Set by cancelExecution; the engine driving the execution stops and compensates
+  cancelRequested?: boolean;
 }
 
 export interface WorkflowContext {
@@ -46,6 +89,10 @@ export interface WorkflowContext {
   conversationContext: ConversationContext;
   bindings: any;
   variables: Record<string, any>;
+  // The workflow's own input, referenced from step inputs as {{input.*}}
+  input?: Record<string, any>;
+  // Aborted when the step attempt or the workflow times out; handlers should pass it to their I/O
+  signal?: AbortSignal;
 }
 
 export interface RetryConfig {
@@ -62,7 +109,12 @@ export interface WorkflowResult {
   executionId: string;
   result?: any;
   error?: string;
+  // Every completed step that could be undone was undone
   compensated?: boolean;
+  // Steps whose compensation failed, so their effects are still in place
+  compensationFailures?: Array<{ stepId: string; error: string }>;
+  timedOut?: boolean;
+  cancelled?: boolean;
   metadata: {
     duration: number;
     stepsCompleted: number;
@@ -70,11 +122,18 @@ export interface WorkflowResult {
   };
 }
 
+// An execution that has been claimed and is running in the background
+export interface WorkflowRun {
+  executionId: string;
+  completion: Promise<WorkflowResult>;
+}
+
 // Workflow step handler interface
 export interface StepHandler {
   name: string;
   execute(input: any, context: WorkflowContext): Promise<any>;
-  compensate?(input: any, context: WorkflowContext): Promise<void>;
+  // Undo a completed step, given the input it ran with and the output it produced
+  compensate?(input: any, output: any, context: WorkflowContext): Promise<void>;
   validate?(input: any): boolean;
 }
 
@@ -104,12 +163,22 @@ export interface EscalationInput {
   notificationChannels?: string[];
 }
 
+// A running execution without progress for this long is taken over by the next request
+const STALE_EXECUTION_MS = 5 * 60 * 1000;
+
 // Workflow execution engine
 export class WorkflowEngine {
   private stepHandlers: Map<string, StepHandler> = new Map();
-  private activeExecutions: Map<string, WorkflowExecution> = new Map();
+  private store: WorkflowStore;
+  // Executions being driven by this engine, as opposed to by another isolate, with the
+  // tail of their writes so parallel branches never save out of order
+  private runningHere: Map<string, Promise<void>> = new Map();
+  // Live state of those executions, so a cancellation can abort them straight away
+  private activeRuns: Map<string, { execution: WorkflowExecution; controller: AbortController }> = new Map();
+  private runnerId: string = crypto.randomUUID();
 
-  constructor() {
+  constructor(store?: WorkflowStore) {
+    this.store = store || new InMemoryWorkflowStore();
     this.registerBuiltInHandlers();
   }
 
@@ -118,24 +187,32 @@ export class WorkflowEngine {
     this.stepHandlers.set(handler.name, handler);
   }
 
+  getStepHandlerNames(): string[] {
+    return Array.from(this.stepHandlers.keys());
+  }
+
   // Execute a workflow
   async executeWorkflow(
     definition: WorkflowDefinition,
     context: WorkflowContext,
     idempotencyKey?: string
   ): Promise<WorkflowResult> {
-    const executionId = this.generateExecutionId();
-    const key = idempotencyKey || executionId;
+    const { completion } = await this.startWorkflow(definition, context, idempotencyKey);
+    return await completion;
+  }
 
-    // Check for existing execution with same idempotency key
-    const existingExecution = this.findExecutionByIdempotencyKey(key);
-    if (existingExecution) {
-      // Wait for existing execution to complete if it's still running
-      if (existingExecution.status === 'running' || existingExecution.status === 'pending') {
-        return await this.waitForExecution(existingExecution);
-      }
-      return this.getExecutionResult(existingExecution);
-    }
+  // Claim an execution and return its id without waiting for it to finish. A repeated
+  // idempotency key returns the execution that owns the key.
+  async startWorkflow(
+    definition: WorkflowDefinition,
+    context: WorkflowContext,
+    idempotencyKey?: string
+  ): Promise<WorkflowRun> {
+    validateWorkflowDefinition(definition);
+
+    const executionId = createExecutionId(idempotencyKey || undefined);
+    const key = idempotencyKey || executionId;
+    const now = Date.now();
 
     const execution: WorkflowExecution = {
       id: executionId,
@@ -143,77 +220,292 @@ export class WorkflowEngine {
       sessionId: context.sessionId,
       status: 'pending',
       currentStepIndex: 0,
-      startedAt: Date.now(),
+      startedAt: now,
+      updatedAt: now,
+      runnerId: this.runnerId,
       context,
       idempotencyKey: key,
       steps: JSON.parse(JSON.stringify(definition.steps)), // Deep copy
     };
 
-    this.activeExecutions.set(executionId, execution);
+    // Another execution with the same idempotency key wins the claim
+    const owner = await this.store.claim(execution);
+    if (owner.id !== execution.id) {
+      if (isFinished(owner)) {
+        return { executionId: owner.id, completion: Promise.resolve(this.getExecutionResult(owner)) };
+      }
+      // The isolate driving it is gone; continue where it stopped, unless another request
+      // took it over first
+      if (!this.runningHere.has(owner.id) && now - owner.updatedAt > STALE_EXECUTION_MS) {
+        const taken = await this.store.takeover(owner.id, owner.updatedAt, this.runnerId);
+        if (taken) {
+          taken.context = { ...taken.context, bindings: context.bindings };
+          return { executionId: owner.id, completion: this.runExecution(taken, definition) };
+        }
+      }
+      return { executionId: owner.id, completion: this.waitForExecution(owner.id) };
+    }
+
+    return { executionId: execution.id, completion: this.runExecution(execution, definition) };
+  }
+
+  // Continue an unfinished execution from its current step, e.g. after the isolate
+  // that started it was evicted. Finished executions just report their result.
+  async resumeExecution(
+    executionId: string,
+    definition: WorkflowDefinition,
+    bindings: any
+  ): Promise<WorkflowResult> {
+    const execution = await this.store.get(executionId);
+    if (!execution) {
+      throw new Error(`Workflow execution not found: ${executionId}`);
+    }
+    if (isFinished(execution)) {
+      return this.getExecutionResult(execution);
+    }
+    if (this.runningHere.has(executionId)) {
+      return await this.waitForExecution(executionId);
+    }
+
+    const taken = await this.store.takeover(executionId, execution.updatedAt, this.runnerId);
+    if (!taken) {
+      return await this.waitForExecution(executionId);
+    }
+    taken.context = { ...taken.context, bindings };
+    return await this.runExecution(taken, definition);
+  }
+
+  // Stop an unfinished execution and compensate its completed steps. An execution driven
+  // by another isolate is flagged and stops at its next step boundary; one nobody drives
+  // any more is compensated here.
+  async cancelExecution(
+    executionId: string,
+    definition: WorkflowDefinition,
+    bindings: any
+  ): Promise<WorkflowExecution> {
+    const run = this.activeRuns.get(executionId);
+    if (run) {
+      run.execution.cancelRequested = true;
+      run.controller.abort(new Error(`Workflow execution ${executionId} was cancelled`));
+      await this.waitForExecution(executionId);
+      return (await this.store.get(executionId))!;
+    }
+
+    const execution = await this.store.requestCancel(executionId);
+    if (!execution) {
+      throw new Error(`Workflow execution not found: ${executionId}`);
+    }
+    if (isFinished(execution)) {
+      throw new Error(`Workflow execution ${executionId} has already finished`);
+    }
+    if (this.runningHere.has(executionId) || Date.now() - execution.updatedAt <= STALE_EXECUTION_MS) {
+      return execution;
+    }
+
+    execution.context = { ...execution.context, bindings };
+    await this.executeCompensation(execution, definition);
+    execution.status = 'cancelled';
+    execution.error = `Workflow execution ${executionId} was cancelled`;
+    execution.completedAt = Date.now();
+    execution.updatedAt = execution.completedAt;
+    await this.store.save(execution);
+    return execution;
+  }
+
+  // Run a failed execution again from the steps that failed. Completed steps keep their
+  // output, including those whose compensation failed; steps that were undone run again.
+  // Returns null when another request replayed the execution first.
+  async replayExecution(
+    executionId: string,
+    definition: WorkflowDefinition,
+    bindings: any
+  ): Promise<WorkflowRun | null> {
+    const execution = await this.store.get(executionId);
+    if (!execution) {
+      throw new Error(`Workflow execution not found: ${executionId}`);
+    }
+    if (execution.status !== 'failed' && execution.status !== 'compensated') {
+      throw new Error(`Workflow execution ${executionId} is ${execution.status}; only failed executions can be replayed`);
+    }
+
+    const variables = { ...execution.context.variables };
+    for (const step of execution.steps) {
+      if (['failed', 'compensating', 'compensated', 'running'].includes(step.status)) {
+        delete variables[`step_${step.id}_output`];
+        step.status = 'pending';
+        step.retryCount = 0;
+        step.output = undefined;
+        step.resolvedInput = undefined;
+        step.error = undefined;
+        step.executedAt = undefined;
+        step.completedAt = undefined;
+      }
+      step.compensation = undefined;
+    }
+
+    const failedStatus = execution.status;
+    execution.context = { ...execution.context, variables, bindings };
+    execution.status = 'running';
+    execution.runnerId = this.runnerId;
+    execution.replayedAt = Date.now();
+    execution.updatedAt = execution.replayedAt;
+    execution.error = undefined;
+    execution.timedOut = undefined;
+    execution.completedAt = undefined;
+    if (!await this.store.claimReplay(execution, failedStatus)) {
+      return null;
+    }
+    return { executionId, completion: this.runExecution(execution, definition) };
+  }
+
+  // Persisted state of an execution, including per-step output and errors
+  async getExecution(executionId: string): Promise<WorkflowExecution | null> {
+    return await this.store.get(executionId);
+  }
+
+  private async runExecution(
+    execution: WorkflowExecution,
+    definition: WorkflowDefinition
+  ): Promise<WorkflowResult> {
+    this.runningHere.set(execution.id, Promise.resolve());
+
+    // The deadline counts from the original start, so a resumed execution keeps its budget
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => controller.abort(new Error(`Workflow ${definition.id} timed out after ${definition.timeout}ms`)),
+      Math.max(0, (execution.replayedAt ?? execution.startedAt) + definition.timeout - Date.now())
+    );
+    execution.context.signal = controller.signal;
+    this.activeRuns.set(execution.id, { execution, controller });
 
     try {
       execution.status = 'running';
+      await this.persist(execution);
       const result = await this.executeSteps(execution, definition);
       execution.status = 'completed';
       execution.completedAt = Date.now();
+      await this.persist(execution);
       return result;
     } catch (error) {
       execution.status = 'failed';
       execution.error = error instanceof Error ? error.message : String(error);
       execution.completedAt = Date.now();
+      if (controller.signal.aborted && !execution.cancelRequested) {
+        execution.timedOut = true;
+      }
 
-      // Attempt compensation if configured
-      if (definition.compensationSteps && definition.compensationSteps.length > 0) {
-        try {
-          await this.executeCompensation(execution, definition);
-          execution.status = 'compensated';
-        } catch (compensationError) {
-          console.error('Compensation failed:', compensationError);
-        }
+      // Compensation must not inherit the expired deadline
+      execution.context.signal = undefined;
+
+      // Undo what completed; an execution is only compensated if every undo succeeded
+      const fullyCompensated = await this.executeCompensation(execution, definition);
+      if (execution.cancelRequested) {
+        execution.status = 'cancelled';
+      } else if (fullyCompensated) {
+        execution.status = 'compensated';
       }
 
+      await this.persist(execution);
+      if (error instanceof Error) {
+        // Callers that catch the failure can see what was and was not undone
+        (error as any).workflowResult = this.getExecutionResult(execution);
+      }
       throw error;
     } finally {
-      // Clean up after some time
-      setTimeout(() => {
-        this.activeExecutions.delete(executionId);
-      }, 300000); // 5 minutes
+      clearTimeout(timer);
+      execution.context.signal = undefined;
+      this.runningHere.delete(execution.id);
+      this.activeRuns.delete(execution.id);
     }
   }
 
-  // Execute workflow steps sequentially
+  // Losing a progress write only costs resumability, so it never fails the workflow.
+  // The store reports cancellations requested elsewhere, which abort the run here.
+  private async persist(execution: WorkflowExecution): Promise<void> {
+    execution.updatedAt = Date.now();
+    const save = (this.runningHere.get(execution.id) || Promise.resolve())
+      .then(() => this.store.save(execution))
+      .then(({ cancelRequested }) => {
+        const run = this.activeRuns.get(execution.id);
+        if (cancelRequested && run && !run.execution.cancelRequested) {
+          run.execution.cancelRequested = true;
+          run.controller.abort(new Error(`Workflow execution ${execution.id} was cancelled`));
+        }
+      })
+      .catch(error => {
+        console.warn(`Failed to persist workflow execution ${execution.id}:`, error instanceof Error ? error.message : error);
+      });
+    this.runningHere.set(execution.id, save);
+    await save;
+  }
+
+  // Execute workflow steps as a dependency graph: each step starts once the steps it
+  // depends on have finished, so independent branches run in parallel
   private async executeSteps(
     execution: WorkflowExecution,
     definition: WorkflowDefinition
   ): Promise<WorkflowResult> {
     const startTime = Date.now();
+    const dependencies = resolveDependencies(execution.steps, definition.id);
+    const running = new Map<number, Promise<void>>();
     let totalRetries = 0;
     let stepsCompleted = 0;
+    let failure: Error | null = null;
 
-    for (let i = 0; i < execution.steps.length; i++) {
-      execution.currentStepIndex = i;
-      const step = execution.steps[i]!;
-      const handler = this.stepHandlers.get(step.name);
+    // Steps finished before a resume keep their output; a step that was running is run again
+    for (const step of execution.steps) {
+      if (step.status === 'completed') {
+        totalRetries += step.retryCount;
+        stepsCompleted++;
+      } else if (step.status === 'running') {
+        step.status = 'pending';
+      }
+    }
+
+    const isDone = (index: number) => {
+      const status = execution.steps[index]!.status;
+      return status === 'completed' || status === 'skipped';
+    };
 
+    const runStep = async (index: number): Promise<void> => {
+      execution.currentStepIndex = index;
+      const step = execution.steps[index]!;
+
+      if (step.condition && !evaluateCondition(step.condition, execution.context.variables)) {
+        step.status = 'skipped';
+        step.completedAt = Date.now();
+        await this.persist(execution);
+        return;
+      }
+
+      const handler = this.stepHandlers.get(step.name);
       if (!handler) {
-        const duration = Date.now() - startTime;
         throw new Error(`No handler registered for step: ${step.name}`);
       }
 
+      // Nothing new starts once the workflow has timed out or been cancelled
+      if (execution.context.signal?.aborted) {
+        throw execution.context.signal.reason;
+      }
+
+      const input = resolveTemplates(step.input, templateScope(execution));
+
       // Validate input if handler supports it
-      if (handler.validate && !handler.validate(step.input)) {
-        const duration = Date.now() - startTime;
+      if (handler.validate && !handler.validate(input)) {
         throw new Error(`Invalid input for step ${step.name}`);
       }
 
       step.status = 'running';
       step.executedAt = Date.now();
+      step.resolvedInput = input;
+      await this.persist(execution);
 
       try {
         // Execute step with retry logic
         const result = await this.executeStepWithRetry(
           handler,
           step,
+          input,
           execution.context,
           definition.retryConfig
         );
@@ -231,24 +523,45 @@ export class WorkflowEngine {
             [`step_${step.id}_output`]: result,
           };
         }
+        await this.persist(execution);
       } catch (error) {
         step.status = 'failed';
         step.error = error instanceof Error ? error.message : String(error);
         step.completedAt = Date.now();
         totalRetries += step.retryCount;
-        
-        // Calculate duration before throwing
-        const duration = Date.now() - startTime;
-        
-        // Re-throw with duration metadata preserved
-        const enhancedError = error instanceof Error ? error : new Error(String(error));
-        (enhancedError as any).workflowMetadata = {
-          duration,
-          stepsCompleted,
-          retriesUsed: totalRetries
-        };
-        throw enhancedError;
+        throw error;
       }
+    };
+
+    while (true) {
+      // A failure stops new steps from starting; branches already running finish first
+      if (!failure) {
+        execution.steps.forEach((step, index) => {
+          if (step.status === 'pending' && !running.has(index) && dependencies[index]!.every(isDone)) {
+            running.set(index, runStep(index).catch(error => {
+              failure = failure || (error instanceof Error ? error : new Error(String(error)));
+            }).finally(() => {
+              running.delete(index);
+            }));
+          }
+        });
+      }
+
+      if (running.size === 0) {
+        break;
+      }
+      await Promise.race(running.values());
+    }
+
+    if (failure) {
+      // Re-throw with duration metadata preserved
+      const enhancedError: Error = failure;
+      (enhancedError as any).workflowMetadata = {
+        duration: Date.now() - startTime,
+        stepsCompleted,
+        retriesUsed: totalRetries
+      };
+      throw enhancedError;
     }
 
     const duration = Date.now() - startTime;
@@ -268,6 +581,7 @@ export class WorkflowEngine {
   private async executeStepWithRetry(
     handler: StepHandler,
     step: WorkflowStep,
+    input: any,
     context: WorkflowContext,
     retryConfig: RetryConfig
   ): Promise<any> {
@@ -278,16 +592,18 @@ export class WorkflowEngine {
         if (attempt > 0) {
           // Calculate delay with backoff and jitter
           const delay = this.calculateRetryDelay(attempt, retryConfig);
-          await this.sleep(delay);
+          await this.untilAborted(this.sleep(delay), context.signal);
         }
 
         step.retryCount = attempt;
-        return await handler.execute(step.input, context);
+        return await this.executeAttempt(handler, step, input, context);
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
         
-        // Check if error is retryable
-        const isRetryable = this.isRetryableError(lastError, retryConfig);
+        // Check if error is retryable; nothing is retried past the workflow deadline
+        const isRetryable = !context.signal?.aborted && ((lastError as any).stepTimedOut
+          ? step.idempotent === true
+          : this.isRetryableError(lastError, retryConfig));
         
         if (!isRetryable || attempt >= step.maxRetries) {
           step.retryCount = attempt;
@@ -301,33 +617,109 @@ export class WorkflowEngine {
     throw lastError || new Error('Unknown error during step execution');
   }
 
-  // Execute compensation steps in reverse order
+  // One handler call with a signal of its own, aborted when the step timeout or the workflow
+  // deadline passes, so the handler and the tools it runs stop instead of carrying on unseen
+  private async executeAttempt(handler: StepHandler, step: WorkflowStep, input: any, context: WorkflowContext): Promise<any> {
+    const controller = new AbortController();
+    const workflowSignal = context.signal;
+    const forwardAbort = () => controller.abort(workflowSignal!.reason);
+    if (workflowSignal?.aborted) {
+      forwardAbort();
+    } else {
+      workflowSignal?.addEventListener('abort', forwardAbort, { once: true });
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    if (step.timeout !== undefined) {
+      timer = setTimeout(() => {
+        const error = new Error(`Step ${step.name} exceeded its ${step.timeout}ms timeout`);
+        (error as any).stepTimedOut = true;
+        controller.abort(error);
+      }, step.timeout);
+    }
+
+    try {
+      return await this.untilAborted(handler.execute(input, { ...context, signal: controller.signal }), controller.signal);
+    } finally {
+      clearTimeout(timer);
+      workflowSignal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+
+  // Settle with the abort reason as soon as the signal fires
+  private untilAborted<T>(work: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+      return work;
+    }
+    if (signal.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    let onAbort!: () => void;
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+    return Promise.race([work, aborted]).finally(() => signal.removeEventListener('abort', onAbort));
+  }
+
+  // Saga rollback: undo completed steps in the reverse order they completed, each through
+  // its own compensationStep or its handler's compensate, with the input it ran with and
+  // the output it produced. A failed undo is recorded and the rollback carries on.
+  // Returns whether every step that needed undoing was undone.
   private async executeCompensation(
     execution: WorkflowExecution,
     definition: WorkflowDefinition
-  ): Promise<void> {
-    if (!definition.compensationSteps) return;
-
+  ): Promise<boolean> {
     console.log(`Starting compensation for execution ${execution.id}`);
 
-    // Execute compensation steps in reverse order of completed steps
-    const completedSteps = execution.steps.filter(step => step.status === 'completed');
-    
-    for (let i = completedSteps.length - 1; i >= 0; i--) {
-      const step = completedSteps[i]!;
-      const handler = this.stepHandlers.get(step.name);
+    const completedSteps = execution.steps
+      .map((step, index) => ({ step, index }))
+      .filter(({ step }) => step.status === 'completed' && !step.compensation)
+      .sort((a, b) => (b.step.completedAt ?? 0) - (a.step.completedAt ?? 0) || b.index - a.index)
+      .map(({ step }) => step);
+    let allUndone = true;
 
-      if (handler?.compensate) {
-        try {
-          step.status = 'compensating';
-          await handler.compensate(step.output, execution.context);
-          console.log(`Compensated step: ${step.name}`);
-        } catch (error) {
-          console.error(`Failed to compensate step ${step.name}:`, error);
-          // Continue with other compensation steps
+    for (const step of completedSteps) {
+      const compensationStep = step.compensationStep;
+      const handler = this.stepHandlers.get(compensationStep ? compensationStep.name : step.name);
+      if (!compensationStep && !handler?.compensate) {
+        continue;
+      }
+
+      const startedAt = Date.now();
+      step.status = 'compensating';
+      await this.persist(execution);
+
+      try {
+        if (!handler) {
+          throw new Error(`No handler registered for compensation step: ${compensationStep!.name}`);
         }
+        if (compensationStep) {
+          const input = resolveTemplates(compensationStep.input, templateScope(execution));
+          await this.executeStepWithRetry(handler, compensationStep, input, execution.context, definition.retryConfig);
+        } else {
+          await handler.compensate!(step.resolvedInput ?? step.input, step.output, execution.context);
+        }
+
+        step.status = 'compensated';
+        step.compensation = { status: 'completed', startedAt, completedAt: Date.now() };
+        console.log(`Compensated step: ${step.name}`);
+      } catch (error) {
+        allUndone = false;
+        step.status = 'completed';
+        step.compensation = {
+          status: 'failed',
+          startedAt,
+          completedAt: Date.now(),
+          error: error instanceof Error ? error.message : String(error)
+        };
+        console.error(`Failed to compensate step ${step.name}:`, error);
       }
+      await this.persist(execution);
     }
+
+    return allUndone;
   }
 
   // Helper methods
@@ -369,38 +761,33 @@ export class WorkflowEngine {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
-  private generateExecutionId(): string {
-    return `wf_exec_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
-  }
-
-  private findExecutionByIdempotencyKey(key: string): WorkflowExecution | undefined {
-    for (const execution of this.activeExecutions.values()) {
-      if (execution.idempotencyKey === key) {
-        return execution;
-      }
-    }
-    return undefined;
-  }
-
-  private async waitForExecution(execution: WorkflowExecution): Promise<WorkflowResult> {
-    // Poll for completion with timeout
+  private async waitForExecution(executionId: string): Promise<WorkflowResult> {
+    // Poll the store for completion with timeout
     const maxWaitTime = 30000; // 30 seconds
     const pollInterval = 100; // 100ms
     const waitStartTime = Date.now();
 
-    while (execution.status === 'running' || execution.status === 'pending') {
+    while (true) {
+      const execution = await this.store.get(executionId);
+      if (!execution) {
+        throw new Error(`Workflow execution not found: ${executionId}`);
+      }
+      if (isFinished(execution)) {
+        return this.getExecutionResult(execution);
+      }
       if (Date.now() - waitStartTime > maxWaitTime) {
         throw new Error('Timeout waiting for existing workflow execution');
       }
       await this.sleep(pollInterval);
     }
-
-    return this.getExecutionResult(execution);
   }
 
   private getExecutionResult(execution: WorkflowExecution): WorkflowResult {
     const completedSteps = execution.steps.filter(s => s.status === 'completed').length;
     const totalRetries = execution.steps.reduce((sum, s) => sum + s.retryCount, 0);
+    const compensationFailures = execution.steps
+      .filter(step => step.compensation?.status === 'failed')
+      .map(step => ({ stepId: step.id, error: step.compensation!.error! }));
 
     return {
       success: execution.status === 'completed',
@@ -408,6 +795,9 @@ export class WorkflowEngine {
       result: execution.steps[execution.steps.length - 1]?.output,
       error: execution.error,
       compensated: execution.status === 'compensated',
+      compensationFailures: compensationFailures.length > 0 ? compensationFailures : undefined,
+      timedOut: execution.timedOut,
+      cancelled: execution.status === 'cancelled',
       metadata: {
         duration: (execution.completedAt || Date.now()) - execution.startedAt,
         stepsCompleted: completedSteps,
@@ -451,6 +841,25 @@ export class WorkflowEngine {
       },
     });
 
+    // Join handler: merges the outputs of the listed steps, keyed by step id;
+    // skipped steps are left out
+    this.registerStepHandler({
+      name: 'join',
+      async execute(input: { steps: string[] }, context: WorkflowContext): Promise<any> {
+        const merged: Record<string, any> = {};
+        for (const id of input.steps) {
+          const output = context.variables[`step_${id}_output`];
+          if (output !== undefined) {
+            merged[id] = output;
+          }
+        }
+        return merged;
+      },
+      validate(input: any): boolean {
+        return input && Array.isArray(input.steps);
+      },
+    });
+
     // Data persistence handler
     this.registerStepHandler({
       name: 'persist_data',
@@ -462,7 +871,7 @@ export class WorkflowEngine {
           timestamp: Date.now(),
         };
       },
-      async compensate(input: { key: string }, context: WorkflowContext): Promise<void> {
+      async compensate(input: { key: string }, output: any, context: WorkflowContext): Promise<void> {
         // Remove the stored data
         console.log(`Compensating: removing data for key ${input.key}`);
       },
@@ -473,6 +882,222 @@ export class WorkflowEngine {
   }
 }
 
+// For each step (by index), the indexes of the steps it waits for. Unknown ids and
+// cycles are rejected up front.
+function resolveDependencies(steps: WorkflowStep[], workflowId: string): number[][] {
+  const indexById = new Map<string, number>();
+  const duplicateIds = new Set<string>();
+  steps.forEach((step, index) => {
+    if (indexById.has(step.id)) {
+      duplicateIds.add(step.id);
+    }
+    indexById.set(step.id, index);
+  });
+
+  const dependencies = steps.map((step, index) => {
+    if (!step.dependsOn) {
+      return index > 0 ? [index - 1] : [];
+    }
+    return step.dependsOn.map(id => {
+      if (!indexById.has(id)) {
+        throw new Error(`Step ${step.id} depends on unknown step ${id}`);
+      }
+      if (duplicateIds.has(id)) {
+        throw new Error(`Step ${step.id} depends on ${id}, which is not a unique step id`);
+      }
+      return indexById.get(id)!;
+    });
+  });
+
+  const visited = new Set<number>();
+  const visiting = new Set<number>();
+  const visit = (index: number): void => {
+    if (visiting.has(index)) {
+      throw new Error(`Workflow ${workflowId} has a dependency cycle through step ${steps[index]!.id}`);
+    }
+    if (visited.has(index)) {
+      return;
+    }
+    visiting.add(index);
+    dependencies[index]!.forEach(visit);
+    visiting.delete(index);
+    visited.add(index);
+  };
+  dependencies.forEach((_, index) => visit(index));
+
+  return dependencies;
+}
+
+// Step inputs may embed {{expression}} templates. Expressions are dotted paths under
+// steps.<id>.output / steps.<id>.status, input (the workflow input), session (id, userId)
+// or variables. A string that is a single template takes the referenced value as is;
+// templates inside longer strings are replaced with its text.
+const TEMPLATE_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const TEMPLATE_ROOTS = ['steps', 'input', 'session', 'variables'];
+
+interface TemplateScope {
+  steps: Record<string, { output: any; status: WorkflowStep['status'] }>;
+  input: Record<string, any>;
+  session: { id: string; userId?: string };
+  variables: Record<string, any>;
+}
+
+function templateScope(execution: WorkflowExecution): TemplateScope {
+  const steps: TemplateScope['steps'] = {};
+  for (const step of execution.steps) {
+    steps[step.id] = { output: step.output, status: step.status };
+  }
+  return {
+    steps,
+    input: execution.context.input || {},
+    session: { id: execution.context.sessionId, userId: execution.context.userId },
+    variables: execution.context.variables
+  };
+}
+
+// Split 'steps.<id>.rest' on the longest known step id, since ids may contain dots
+function splitStepReference(path: string, stepIds: string[]): { id: string; rest: string[] } | null {
+  const reference = path.slice('steps.'.length);
+  const id = stepIds
+    .filter(candidate => reference === candidate || reference.startsWith(`${candidate}.`))
+    .sort((a, b) => b.length - a.length)[0];
+  return id === undefined ? null : { id, rest: reference.slice(id.length + 1).split('.').filter(Boolean) };
+}
+
+function lookup(expression: string, scope: TemplateScope): any {
+  if (expression.startsWith('steps.')) {
+    const reference = splitStepReference(expression, Object.keys(scope.steps));
+    return reference
+      ? reference.rest.reduce<any>((value, key) => value?.[key], scope.steps[reference.id])
+      : undefined;
+  }
+  return expression.split('.').reduce<any>((value, key) => value?.[key], scope);
+}
+
+export function resolveTemplates(value: any, scope: TemplateScope): any {
+  if (typeof value === 'string') {
+    const whole = value.match(/^\{\{\s*([^{}]*?)\s*\}\}$/);
+    if (whole) {
+      return lookup(whole[1]!, scope);
+    }
+    return value.replace(TEMPLATE_PATTERN, (_, expression: string) => {
+      const resolved = lookup(expression, scope);
+      if (resolved === undefined || resolved === null) {
+        return '';
+      }
+      return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveTemplates(item, scope));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveTemplates(item, scope)]));
+  }
+  return value;
+}
+
+function collectTemplates(value: any, found: string[] = []): string[] {
+  if (typeof value === 'string') {
+    for (const match of value.matchAll(TEMPLATE_PATTERN)) {
+      found.push(match[1]!);
+    }
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectTemplates(item, found));
+  }
+  return found;
+}
+
+// Check the step graph and every template: roots must be known, and a step may only
+// read steps it (transitively) depends on, since anything else may not have run yet
+export function validateWorkflowDefinition(definition: WorkflowDefinition): void {
+  const dependencies = resolveDependencies(definition.steps, definition.id);
+  const stepIds = definition.steps.map(step => step.id);
+  const problems: string[] = [];
+
+  const upstream = (index: number, seen: Set<number> = new Set()): Set<number> => {
+    for (const dependency of dependencies[index]!) {
+      if (!seen.has(dependency)) {
+        seen.add(dependency);
+        upstream(dependency, seen);
+      }
+    }
+    return seen;
+  };
+
+  // A compensation step runs after its step completed, so it may also read that step
+  const checkTemplates = (input: any, label: string, readable: Set<number>) => {
+    for (const expression of collectTemplates(input)) {
+      const root = expression.split('.')[0]!;
+      if (!TEMPLATE_ROOTS.includes(root)) {
+        problems.push(`${label}: unknown template root in {{${expression}}}`);
+        continue;
+      }
+      if (root !== 'steps') {
+        continue;
+      }
+
+      const reference = splitStepReference(expression, stepIds);
+      if (!reference) {
+        problems.push(`${label}: {{${expression}}} references an unknown step`);
+        continue;
+      }
+      if (reference.rest[0] !== 'output' && reference.rest[0] !== 'status') {
+        problems.push(`${label}: {{${expression}}} must read steps.${reference.id}.output or .status`);
+      }
+      const referenced = stepIds.indexOf(reference.id);
+      if (stepIds.lastIndexOf(reference.id) !== referenced) {
+        problems.push(`${label}: {{${expression}}} references ${reference.id}, which is not a unique step id`);
+      } else if (!readable.has(referenced)) {
+        problems.push(`${label}: {{${expression}}} references ${reference.id}, which it does not depend on`);
+      }
+    }
+  };
+
+  definition.steps.forEach((step, index) => {
+    checkTemplates(step.input, `step ${step.id}`, upstream(index));
+    if (step.compensationStep) {
+      checkTemplates(step.compensationStep.input, `compensation of step ${step.id}`, upstream(index).add(index));
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid workflow definition ${definition.id}: ${problems.join('; ')}`);
+  }
+}
+
+export function evaluateCondition(condition: StepCondition | StepCondition[], variables: Record<string, any>): boolean {
+  if (Array.isArray(condition)) {
+    return condition.every(item => evaluateCondition(item, variables));
+  }
+
+  const actual = condition.path.split('.').reduce<any>((value, key) => value?.[key], variables);
+  const isEmpty = actual === undefined || actual === null || actual === '' ||
+    (Array.isArray(actual) && actual.length === 0) ||
+    (typeof actual === 'object' && !Array.isArray(actual) && Object.keys(actual).length === 0);
+
+  switch (condition.operator) {
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'not_exists':
+      return actual === undefined || actual === null;
+    case 'equals':
+      return actual === condition.value;
+    case 'not_equals':
+      return actual !== condition.value;
+    case 'gt':
+      return typeof actual === 'number' && actual > condition.value;
+    case 'lt':
+      return typeof actual === 'number' && actual < condition.value;
+    case 'empty':
+      return isEmpty;
+    case 'not_empty':
+      return !isEmpty;
+    default:
+      throw new Error(`Unknown condition operator: ${(condition as StepCondition).operator}`);
+  }
+}
+
 // Default retry configuration
 export const DEFAULT_RETRY_CONFIG: RetryConfig = {
   maxAttempts: 3,
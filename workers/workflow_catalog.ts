@@ -0,0 +1,354 @@
+// Workflow definitions authored as JSON or YAML: schema checks, versioned storage in KV
+// and registration into WORKFLOW_REGISTRY at runtime, so a flow can change without a deploy
+import { parse as parseYaml } from 'yaml';
+import { WorkerBindings } from './types';
+import {
+  WorkflowDefinition,
+  WorkflowStep,
+  DEFAULT_RETRY_CONFIG,
+  validateWorkflowDefinition
+} from './workflow';
+import { registerWorkflowDefinition } from './workflow_definitions';
+
+export type DefinitionFormat = 'json' | 'yaml';
+
+export interface StoredWorkflowDefinition {
+  workflowId: string;
+  version: number;
+  format: DefinitionFormat;
+  // The document as uploaded, comments and all
+  source: string;
+  definition: WorkflowDefinition;
+  uploadedAt: number;
+}
+
+export interface WorkflowDefinitionVersions {
+  workflowId: string;
+  activeVersion: number;
+  versions: Array<{ version: number; format: DefinitionFormat; uploadedAt: number }>;
+}
+
+export interface ParsedWorkflowDefinition {
+  definition?: WorkflowDefinition;
+  errors: string[];
+}
+
+export const MAX_DEFINITION_SIZE = 64 * 1024;
+
+const WORKFLOW_ID_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+const STEP_ID_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+// Path segments under /api/workflows that cannot double as workflow ids
+const RESERVED_WORKFLOW_IDS = ['executions', 'definitions'];
+const MAX_STEPS = 50;
+const MAX_STEP_RETRIES = 10;
+const MAX_WORKFLOW_TIMEOUT_MS = 15 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+const DEFINITION_FIELDS = ['id', 'name', 'description', 'timeout', 'retryConfig', 'steps'];
+const STEP_FIELDS = ['id', 'name', 'input', 'maxRetries', 'timeout', 'idempotent', 'dependsOn', 'condition', 'compensationStep'];
+const RETRY_FIELDS = ['maxAttempts', 'backoffStrategy', 'baseDelay', 'maxDelay', 'retryableErrors', 'jitterFactor'];
+const BACKOFF_STRATEGIES = ['exponential', 'linear', 'fixed'];
+const CONDITION_OPERATORS = ['exists', 'not_exists', 'equals', 'not_equals', 'gt', 'lt', 'empty', 'not_empty'];
+
+const INDEX_KEY = 'workflow_definitions';
+const versionsKey = (workflowId: string) => `workflow_definition:${workflowId}`;
+const versionKey = (workflowId: string, version: number) => `workflow_definition:${workflowId}:v${version}`;
+
+// Stored definitions are re-read at most this often per isolate
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+// Parse and check an authored definition. Fields left out get the engine defaults:
+// retryConfig falls back to DEFAULT_RETRY_CONFIG, and a step without maxRetries gets
+// retryConfig.maxAttempts - 1 retries.
+export function parseWorkflowDefinition(
+  source: string,
+  format: DefinitionFormat,
+  knownHandlers: string[]
+): ParsedWorkflowDefinition {
+  if (source.length > MAX_DEFINITION_SIZE) {
+    return { errors: [`definition exceeds ${MAX_DEFINITION_SIZE} characters`] };
+  }
+
+  let raw: any;
+  try {
+    raw = format === 'yaml' ? parseYaml(source) : JSON.parse(source);
+  } catch (error) {
+    return { errors: [`could not parse ${format.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const errors = validateDefinitionSchema(raw, knownHandlers);
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const definition = normalizeDefinition(raw);
+  try {
+    // Dependencies, cycles and template references
+    validateWorkflowDefinition(definition);
+  } catch (error) {
+    return { errors: [error instanceof Error ? error.message : String(error)] };
+  }
+  return { definition, errors: [] };
+}
+
+export function validateDefinitionSchema(raw: any, knownHandlers: string[]): string[] {
+  if (!isObject(raw)) {
+    return ['definition must be an object'];
+  }
+
+  const errors: string[] = [];
+  errors.push(...unknownFields(raw, DEFINITION_FIELDS, 'definition'));
+
+  if (typeof raw.id !== 'string' || !WORKFLOW_ID_PATTERN.test(raw.id)) {
+    errors.push('id must be 1-64 lowercase letters, digits or "_", starting with a letter');
+  } else if (RESERVED_WORKFLOW_IDS.includes(raw.id)) {
+    errors.push(`id ${raw.id} is reserved`);
+  }
+  if (typeof raw.name !== 'string' || raw.name.trim().length === 0) {
+    errors.push('name is required');
+  }
+  if (raw.description !== undefined && typeof raw.description !== 'string') {
+    errors.push('description must be a string');
+  }
+  if (!isPositiveNumber(raw.timeout) || raw.timeout > MAX_WORKFLOW_TIMEOUT_MS) {
+    errors.push(`timeout must be a number of milliseconds up to ${MAX_WORKFLOW_TIMEOUT_MS}`);
+  }
+  if (raw.retryConfig !== undefined) {
+    errors.push(...validateRetryConfig(raw.retryConfig));
+  }
+
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+    errors.push('steps must be a non-empty array');
+  } else if (raw.steps.length > MAX_STEPS) {
+    errors.push(`steps must not exceed ${MAX_STEPS}`);
+  } else {
+    raw.steps.forEach((step: any, index: number) => {
+      errors.push(...validateStep(step, `steps[${index}]`, knownHandlers, raw.timeout));
+    });
+  }
+
+  return errors;
+}
+
+function validateRetryConfig(config: any): string[] {
+  if (!isObject(config)) {
+    return ['retryConfig must be an object'];
+  }
+
+  const errors = unknownFields(config, RETRY_FIELDS, 'retryConfig');
+  const merged = { ...DEFAULT_RETRY_CONFIG, ...config };
+  if (!Number.isInteger(merged.maxAttempts) || merged.maxAttempts < 1 || merged.maxAttempts > MAX_STEP_RETRIES + 1) {
+    errors.push(`retryConfig.maxAttempts must be an integer from 1 to ${MAX_STEP_RETRIES + 1}`);
+  }
+  if (!BACKOFF_STRATEGIES.includes(merged.backoffStrategy)) {
+    errors.push(`retryConfig.backoffStrategy must be one of ${BACKOFF_STRATEGIES.join(', ')}`);
+  }
+  if (!isPositiveNumber(merged.baseDelay)) {
+    errors.push('retryConfig.baseDelay must be a positive number of milliseconds');
+  }
+  if (!isPositiveNumber(merged.maxDelay) || merged.maxDelay > MAX_RETRY_DELAY_MS) {
+    errors.push(`retryConfig.maxDelay must be a number of milliseconds up to ${MAX_RETRY_DELAY_MS}`);
+  } else if (isPositiveNumber(merged.baseDelay) && merged.maxDelay < merged.baseDelay) {
+    errors.push('retryConfig.maxDelay must not be less than retryConfig.baseDelay');
+  }
+  if (!Array.isArray(merged.retryableErrors) || merged.retryableErrors.some((item: any) => typeof item !== 'string')) {
+    errors.push('retryConfig.retryableErrors must be an array of strings');
+  }
+  if (typeof merged.jitterFactor !== 'number' || merged.jitterFactor < 0 || merged.jitterFactor > 1) {
+    errors.push('retryConfig.jitterFactor must be between 0 and 1');
+  }
+  return errors;
+}
+
+function validateStep(step: any, path: string, knownHandlers: string[], workflowTimeout: any): string[] {
+  if (!isObject(step)) {
+    return [`${path} must be an object`];
+  }
+
+  const label = typeof step.id === 'string' ? `step ${step.id}` : path;
+  const errors = unknownFields(step, STEP_FIELDS, label);
+
+  if (typeof step.id !== 'string' || !STEP_ID_PATTERN.test(step.id)) {
+    errors.push(`${path}: id must be 1-64 letters, digits, ".", "_" or "-"`);
+  }
+  if (typeof step.name !== 'string') {
+    errors.push(`${label}: name must name a step handler`);
+  } else if (!knownHandlers.includes(step.name)) {
+    errors.push(`${label}: no step handler named ${step.name}`);
+  }
+  if (step.maxRetries !== undefined &&
+      (!Number.isInteger(step.maxRetries) || step.maxRetries < 0 || step.maxRetries > MAX_STEP_RETRIES)) {
+    errors.push(`${label}: maxRetries must be an integer from 0 to ${MAX_STEP_RETRIES}`);
+  }
+  if (step.timeout !== undefined) {
+    if (!isPositiveNumber(step.timeout)) {
+      errors.push(`${label}: timeout must be a positive number of milliseconds`);
+    } else if (isPositiveNumber(workflowTimeout) && step.timeout > workflowTimeout) {
+      errors.push(`${label}: timeout must not exceed the workflow timeout`);
+    }
+  }
+  if (step.idempotent !== undefined && typeof step.idempotent !== 'boolean') {
+    errors.push(`${label}: idempotent must be true or false`);
+  }
+  if (step.dependsOn !== undefined &&
+      (!Array.isArray(step.dependsOn) || step.dependsOn.some((id: any) => typeof id !== 'string'))) {
+    errors.push(`${label}: dependsOn must be an array of step ids`);
+  }
+  if (step.condition !== undefined) {
+    const conditions = Array.isArray(step.condition) ? step.condition : [step.condition];
+    if (conditions.some((condition: any) => !isObject(condition) || typeof condition.path !== 'string' ||
+        !CONDITION_OPERATORS.includes(condition.operator))) {
+      errors.push(`${label}: condition needs a path and an operator (${CONDITION_OPERATORS.join(', ')})`);
+    }
+  }
+  if (step.compensationStep !== undefined) {
+    errors.push(...validateStep(step.compensationStep, `${label}.compensationStep`, knownHandlers, workflowTimeout));
+  }
+
+  return errors;
+}
+
+function normalizeDefinition(raw: any): WorkflowDefinition {
+  const retryConfig = { ...DEFAULT_RETRY_CONFIG, ...raw.retryConfig };
+  const normalizeStep = (step: any): WorkflowStep => ({
+    ...step,
+    input: step.input ?? {},
+    maxRetries: step.maxRetries ?? retryConfig.maxAttempts - 1,
+    retryCount: 0,
+    status: 'pending',
+    compensationStep: step.compensationStep ? normalizeStep(step.compensationStep) : undefined
+  });
+
+  return {
+    id: raw.id,
+    name: raw.name,
+    description: raw.description || '',
+    timeout: raw.timeout,
+    retryConfig,
+    steps: raw.steps.map(normalizeStep)
+  };
+}
+
+function unknownFields(value: Record<string, any>, allowed: string[], label: string): string[] {
+  return Object.keys(value)
+    .filter(key => !allowed.includes(key))
+    .map(key => `${label}: unknown field ${key}`);
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveNumber(value: any): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+// Every upload becomes a new version and the active one; older versions stay
+// readable and can be activated again to roll back. Uploads are operator actions,
+// so the read-modify-write of the version list is not guarded against concurrent writers.
+export class WorkflowDefinitionStore {
+  constructor(private kv: KVNamespace) {}
+
+  async save(definition: WorkflowDefinition, source: string, format: DefinitionFormat): Promise<StoredWorkflowDefinition> {
+    const versions = await this.getVersions(definition.id);
+    const version = (versions?.versions.reduce((max, entry) => Math.max(max, entry.version), 0) || 0) + 1;
+    const stored: StoredWorkflowDefinition = {
+      workflowId: definition.id,
+      version,
+      format,
+      source,
+      definition,
+      uploadedAt: Date.now()
+    };
+
+    await this.kv.put(versionKey(definition.id, version), JSON.stringify(stored));
+    await this.kv.put(versionsKey(definition.id), JSON.stringify({
+      workflowId: definition.id,
+      activeVersion: version,
+      versions: [...(versions?.versions || []), { version, format, uploadedAt: stored.uploadedAt }]
+    }));
+
+    const ids = await this.listWorkflowIds();
+    if (!ids.includes(definition.id)) {
+      await this.kv.put(INDEX_KEY, JSON.stringify([...ids, definition.id]));
+    }
+    return stored;
+  }
+
+  // The active version unless a version is given
+  async get(workflowId: string, version?: number): Promise<StoredWorkflowDefinition | null> {
+    const wanted = version ?? (await this.getVersions(workflowId))?.activeVersion;
+    if (wanted === undefined) {
+      return null;
+    }
+    return await this.kv.get(versionKey(workflowId, wanted), 'json') as StoredWorkflowDefinition | null;
+  }
+
+  async getVersions(workflowId: string): Promise<WorkflowDefinitionVersions | null> {
+    return await this.kv.get(versionsKey(workflowId), 'json') as WorkflowDefinitionVersions | null;
+  }
+
+  async activate(workflowId: string, version: number): Promise<StoredWorkflowDefinition | null> {
+    const versions = await this.getVersions(workflowId);
+    const stored = versions?.versions.some(entry => entry.version === version)
+      ? await this.get(workflowId, version)
+      : null;
+    if (!versions || !stored) {
+      return null;
+    }
+
+    await this.kv.put(versionsKey(workflowId), JSON.stringify({ ...versions, activeVersion: version }));
+    return stored;
+  }
+
+  async listWorkflowIds(): Promise<string[]> {
+    return (await this.kv.get(INDEX_KEY, 'json') as string[] | null) || [];
+  }
+}
+
+// Which stored version each workflow id is registered from in this isolate
+const registeredVersions = new Map<string, { version: number; uploadedAt: number }>();
+// When each KV namespace was last read, so separate environments refresh independently
+const refreshedAt = new WeakMap<object, number>();
+
+export function registerStoredDefinition(stored: StoredWorkflowDefinition): void {
+  registerWorkflowDefinition(stored.definition);
+  registeredVersions.set(stored.workflowId, { version: stored.version, uploadedAt: stored.uploadedAt });
+}
+
+export function getRegisteredVersion(workflowId: string): number | undefined {
+  return registeredVersions.get(workflowId)?.version;
+}
+
+// Register the active version of every stored definition that this isolate has not
+// registered yet. Stored definitions replace built-ins with the same id; one that fails
+// to register leaves the previous definition in place.
+export async function refreshWorkflowDefinitions(bindings: Partial<WorkerBindings>): Promise<void> {
+  const kv = bindings.CHAT_KV;
+  if (typeof kv?.get !== 'function') {
+    return;
+  }
+  const now = Date.now();
+  if (now - (refreshedAt.get(kv) ?? 0) < REFRESH_INTERVAL_MS) {
+    return;
+  }
+  refreshedAt.set(kv, now);
+
+  const store = new WorkflowDefinitionStore(kv);
+  try {
+    for (const workflowId of await store.listWorkflowIds()) {
+      const stored = await store.get(workflowId);
+      const registered = registeredVersions.get(workflowId);
+      if (!stored || (registered?.version === stored.version && registered.uploadedAt === stored.uploadedAt)) {
+        continue;
+      }
+      try {
+        registerStoredDefinition(stored);
+      } catch (error) {
+        console.warn(`Stored workflow ${workflowId} v${stored.version} was not registered:`, error);
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to load stored workflow definitions:', error);
+  }
+}
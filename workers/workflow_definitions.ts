@@ -2,7 +2,8 @@
 import { 
   WorkflowDefinition, 
   WorkflowStep, 
-  DEFAULT_RETRY_CONFIG
+  DEFAULT_RETRY_CONFIG,
+  validateWorkflowDefinition
 } from './workflow';
 
 // Export input types for use in other modules
@@ -18,6 +19,7 @@ export interface ToolChainInput {
   query: string;
   context?: any;
   toolCalls?: any[];
+  parallelExecution?: boolean;
 }
 
 export interface EscalationInput {
@@ -27,6 +29,10 @@ export interface EscalationInput {
   context?: any;
 }
 
+// Per-attempt limit for model calls, so a stalled call is retried instead of holding the workflow;
+// model calls change nothing, so those steps are marked idempotent
+const AI_STEP_TIMEOUT_MS = 30000;
+
 // Complex query processing workflow
 export const COMPLEX_QUERY_WORKFLOW: WorkflowDefinition = {
   id: 'complex_query_processing',
@@ -44,6 +50,8 @@ export const COMPLEX_QUERY_WORKFLOW: WorkflowDefinition = {
       },
       retryCount: 0,
       maxRetries: 2,
+      timeout: AI_STEP_TIMEOUT_MS,
+      idempotent: true,
       status: 'pending'
     },
     {
@@ -53,7 +61,7 @@ export const COMPLEX_QUERY_WORKFLOW: WorkflowDefinition = {
         toolCall: {
           id: 'kb_search',
           name: 'kb.search',
-          parameters: {}
+          parameters: { query: '{{input.query}}' }
         }
       },
       retryCount: 0,
@@ -69,6 +77,8 @@ export const COMPLEX_QUERY_WORKFLOW: WorkflowDefinition = {
       },
       retryCount: 0,
       maxRetries: 2,
+      timeout: AI_STEP_TIMEOUT_MS,
+      idempotent: true,
       status: 'pending'
     },
     {
@@ -82,19 +92,6 @@ export const COMPLEX_QUERY_WORKFLOW: WorkflowDefinition = {
       maxRetries: 2,
       status: 'pending'
     }
-  ],
-  compensationSteps: [
-    {
-      id: 'cleanup_temp_data',
-      name: 'persist_data',
-      input: {
-        key: 'temp_cleanup',
-        data: null
-      },
-      retryCount: 0,
-      maxRetries: 1,
-      status: 'pending'
-    }
   ]
 };
 
@@ -117,6 +114,8 @@ export const TOOL_CHAIN_WORKFLOW: WorkflowDefinition = {
       },
       retryCount: 0,
       maxRetries: 1,
+      timeout: AI_STEP_TIMEOUT_MS,
+      idempotent: true,
       status: 'pending'
     },
     {
@@ -155,6 +154,8 @@ export const TOOL_CHAIN_WORKFLOW: WorkflowDefinition = {
       },
       retryCount: 0,
       maxRetries: 2,
+      timeout: AI_STEP_TIMEOUT_MS,
+      idempotent: true,
       status: 'pending'
     }
   ]
@@ -175,10 +176,12 @@ export const ESCALATION_WORKFLOW: WorkflowDefinition = {
       id: 'assess_urgency',
       name: 'ai_query',
       input: {
-        query: 'Assess issue urgency and determine escalation path',
+        query: 'Assess urgency and determine the escalation path for issue: "{{input.issue}}"',
       },
       retryCount: 0,
       maxRetries: 2,
+      timeout: AI_STEP_TIMEOUT_MS,
+      idempotent: true,
       status: 'pending'
     },
     {
@@ -188,7 +191,12 @@ export const ESCALATION_WORKFLOW: WorkflowDefinition = {
         toolCall: {
           id: 'ticket_creation',
           name: 'create_ticket',
-          parameters: {}
+          parameters: {
+            title: '{{input.ticketData.title}}',
+            description: '{{input.ticketData.description}}\n\nUrgency assessment: {{steps.assess_urgency.output.response}}',
+            priority: '{{input.ticketData.priority}}',
+            category: '{{input.ticketData.category}}'
+          }
         }
       },
       retryCount: 0,
@@ -202,7 +210,11 @@ export const ESCALATION_WORKFLOW: WorkflowDefinition = {
         toolCall: {
           id: 'notification',
           name: 'send_notification',
-          parameters: {}
+          parameters: {
+            ticketId: '{{steps.create_ticket.output.data.ticketId}}',
+            priority: '{{input.ticketData.priority}}',
+            message: 'Escalated: {{input.ticketData.title}}'
+          }
         }
       },
       retryCount: 0,
@@ -213,8 +225,12 @@ export const ESCALATION_WORKFLOW: WorkflowDefinition = {
       id: 'update_session',
       name: 'persist_data',
       input: {
-        key: 'escalation_status',
-        data: {}
+        key: 'escalation_status:{{session.id}}',
+        data: {
+          ticketId: '{{steps.create_ticket.output.data.ticketId}}',
+          priority: '{{input.ticketData.priority}}',
+          status: 'escalated'
+        }
       },
       retryCount: 0,
       maxRetries: 2,
@@ -224,37 +240,12 @@ export const ESCALATION_WORKFLOW: WorkflowDefinition = {
       id: 'generate_handoff_summary',
       name: 'ai_query',
       input: {
-        query: 'Generate comprehensive handoff summary for human agent',
-      },
-      retryCount: 0,
-      maxRetries: 2,
-      status: 'pending'
-    }
-  ],
-  compensationSteps: [
-    {
-      id: 'cancel_ticket',
-      name: 'execute_tool',
-      input: {
-        toolCall: {
-          id: 'ticket_cancellation',
-          name: 'cancel_ticket',
-          parameters: {}
-        }
+        query: 'Generate a comprehensive handoff summary for the human agent taking ticket {{steps.create_ticket.output.data.ticketId}} about: "{{input.issue}}"',
       },
       retryCount: 0,
       maxRetries: 2,
-      status: 'pending'
-    },
-    {
-      id: 'revert_session_state',
-      name: 'persist_data',
-      input: {
-        key: 'session_revert',
-        data: null
-      },
-      retryCount: 0,
-      maxRetries: 1,
+      timeout: AI_STEP_TIMEOUT_MS,
+      idempotent: true,
       status: 'pending'
     }
   ]
@@ -291,6 +282,8 @@ export const DATA_PROCESSING_WORKFLOW: WorkflowDefinition = {
       },
       retryCount: 0,
       maxRetries: 3,
+      timeout: AI_STEP_TIMEOUT_MS,
+      idempotent: true,
       status: 'pending'
     },
     {
@@ -301,6 +294,8 @@ export const DATA_PROCESSING_WORKFLOW: WorkflowDefinition = {
       },
       retryCount: 0,
       maxRetries: 3,
+      timeout: AI_STEP_TIMEOUT_MS,
+      idempotent: true,
       status: 'pending'
     },
     {
@@ -311,6 +306,8 @@ export const DATA_PROCESSING_WORKFLOW: WorkflowDefinition = {
       },
       retryCount: 0,
       maxRetries: 2,
+      timeout: AI_STEP_TIMEOUT_MS,
+      idempotent: true,
       status: 'pending'
     },
     {
@@ -324,25 +321,28 @@ export const DATA_PROCESSING_WORKFLOW: WorkflowDefinition = {
       maxRetries: 3,
       status: 'pending'
     }
-  ],
-  compensationSteps: [
-    {
-      id: 'cleanup_processing_data',
-      name: 'persist_data',
-      input: {
-        key: 'cleanup_temp',
-        data: null
-      },
-      retryCount: 0,
-      maxRetries: 1,
-      status: 'pending'
-    }
   ]
 };
 
+// Parameters for tools suggested from a query alone, filled from the workflow input
+const QUERY_TOOL_PARAMETERS: Record<string, Record<string, any>> = {
+  'kb.search': { query: '{{input.query}}' },
+  create_ticket: {
+    title: '{{input.query}}',
+    description: '{{input.query}}',
+    priority: '{{input.priority}}',
+    category: 'general'
+  },
+  fetch_status: {}
+};
+
 // Workflow factory functions
 export function createComplexQueryWorkflow(input: SupportWorkflowInput): WorkflowDefinition {
-  const workflow = { ...COMPLEX_QUERY_WORKFLOW };
+  // Copy the steps so customizing them leaves the shared definition untouched
+  const workflow = {
+    ...COMPLEX_QUERY_WORKFLOW,
+    steps: COMPLEX_QUERY_WORKFLOW.steps.map(step => ({ ...step, input: { ...step.input } }))
+  };
   
   // Customize steps based on input
   workflow.steps[0]!.input.query = `Analyze this user query: "${input.query}"`;
@@ -358,7 +358,7 @@ export function createComplexQueryWorkflow(input: SupportWorkflowInput): Workflo
           toolCall: {
             id: `tool_${index}`,
             name: toolName,
-            parameters: {}
+            parameters: { ...QUERY_TOOL_PARAMETERS[toolName] }
           }
         },
         retryCount: 0,
@@ -374,7 +374,8 @@ export function createComplexQueryWorkflow(input: SupportWorkflowInput): Workflo
 export function createToolChainWorkflow(input: ToolChainInput): WorkflowDefinition {
   const workflow = { ...TOOL_CHAIN_WORKFLOW };
   
-  // Replace dynamic steps with actual tool calls
+  // Replace dynamic steps with actual tool calls; a failed tool leaves its error
+  // for aggregation instead of stopping the chain
   workflow.steps = workflow.steps.filter(step => step.name !== 'execute_tool');
   
   // Handle both toolCalls and tools array
@@ -383,7 +384,7 @@ export function createToolChainWorkflow(input: ToolChainInput): WorkflowDefiniti
       workflow.steps.splice(1 + index, 0, {
         id: `tool_${index}`,
         name: 'execute_tool',
-        input: { toolCall },
+        input: { toolCall, continueOnFailure: true },
         retryCount: 0,
         maxRetries: 2,
         status: 'pending'
@@ -400,7 +401,8 @@ export function createToolChainWorkflow(input: ToolChainInput): WorkflowDefiniti
             id: `tool_${index}`,
             name: toolName,
             parameters: {}
-          }
+          },
+          continueOnFailure: true
         },
         retryCount: 0,
         maxRetries: 2,
@@ -408,17 +410,39 @@ export function createToolChainWorkflow(input: ToolChainInput): WorkflowDefiniti
       });
     });
   }
+
+  // Run every tool straight after validation and merge their results before aggregation
+  const toolIds = workflow.steps.filter(step => step.name === 'execute_tool').map(step => step.id);
+  if (input.parallelExecution && toolIds.length > 1) {
+    workflow.steps = workflow.steps.flatMap(step => {
+      if (step.name === 'execute_tool') {
+        return [{ ...step, dependsOn: ['validate_tools'] }];
+      }
+      if (step.id === 'aggregate_results') {
+        return [
+          {
+            id: 'merge_tool_results',
+            name: 'join',
+            input: { steps: toolIds },
+            retryCount: 0,
+            maxRetries: 0,
+            dependsOn: toolIds,
+            status: 'pending' as const
+          },
+          { ...step, dependsOn: ['merge_tool_results'] }
+        ];
+      }
+      return [step];
+    });
+  }
   
   return workflow;
 }
 
 export function createEscalationWorkflow(input: EscalationInput): WorkflowDefinition {
-  const workflow = { ...ESCALATION_WORKFLOW };
-  
-  // Customize steps based on input
-  workflow.steps[0]!.input.query = `Assess urgency for issue: "${input.issue}"`;
-  workflow.steps[1]!.input.toolCall.parameters = input.ticketData;
-  workflow.steps[4]!.input.query = `Generate handoff summary for: "${input.issue}"`;
+  // Steps read the issue and ticket data from the workflow input through templates.
+  // An uploaded definition with the same id replaces the built-in one.
+  const workflow = { ...(WORKFLOW_REGISTRY.get(ESCALATION_WORKFLOW.id) || ESCALATION_WORKFLOW) };
   
   // Adjust timeout based on priority
   if (input.ticketData.priority === 'urgent') {
@@ -429,12 +453,17 @@ export function createEscalationWorkflow(input: EscalationInput): WorkflowDefini
 }
 
 // Workflow registry
-export const WORKFLOW_REGISTRY = new Map<string, WorkflowDefinition>([
-  [COMPLEX_QUERY_WORKFLOW.id, COMPLEX_QUERY_WORKFLOW],
-  [TOOL_CHAIN_WORKFLOW.id, TOOL_CHAIN_WORKFLOW],
-  [ESCALATION_WORKFLOW.id, ESCALATION_WORKFLOW],
-  [DATA_PROCESSING_WORKFLOW.id, DATA_PROCESSING_WORKFLOW],
-]);
+export const WORKFLOW_REGISTRY = new Map<string, WorkflowDefinition>();
+
+// Definitions are checked when registered so a bad template or dependency fails here
+// rather than halfway through an execution
+export function registerWorkflowDefinition(definition: WorkflowDefinition): void {
+  validateWorkflowDefinition(definition);
+  WORKFLOW_REGISTRY.set(definition.id, definition);
+}
+
+[COMPLEX_QUERY_WORKFLOW, TOOL_CHAIN_WORKFLOW, ESCALATION_WORKFLOW, DATA_PROCESSING_WORKFLOW]
+  .forEach(registerWorkflowDefinition);
 
 export function getWorkflowDefinition(id: string): WorkflowDefinition | undefined {
   return WORKFLOW_REGISTRY.get(id);
@@ -3,9 +3,12 @@ import {
   WorkflowEngine, 
   WorkflowDefinition, 
   WorkflowContext, 
+  WorkflowExecution,
   WorkflowResult,
+  WorkflowRun,
   StepHandler 
 } from './workflow';
+import { createWorkflowStore } from './workflow_store';
 import { 
   createComplexQueryWorkflow,
   createToolChainWorkflow,
@@ -16,20 +19,42 @@ import {
   EscalationInput
 } from './workflow_definitions';
 import { ConversationContext, ToolCall, ToolResult, WorkerBindings } from './types';
+import { QueuePriority, enqueueSession } from './agent_queue';
+import { calculateEstimatedResolution } from './ticketing_tool';
+import { ToolRegistry, toolRegistry } from './tool_registry';
+import { refreshWorkflowDefinitions } from './workflow_catalog';
+
+// Workflow definitions name ticket operations as tools of their own; the registry
+// exposes them as actions of the ticketing tool
+const WORKFLOW_TOOL_CALLS: Record<string, (parameters: Record<string, any>) => { name: string; params: any }> = {
+  create_ticket: parameters => ({ name: 'ticketing', params: { action: 'create', ticketData: parameters } }),
+  fetch_status: parameters => parameters.ticketId
+    ? { name: 'ticketing', params: { action: 'status', ticketId: parameters.ticketId } }
+    : { name: 'ticketing', params: { action: 'list', status: parameters.status } }
+};
+
+// How to undo a workflow tool call when the workflow is rolled back
+const WORKFLOW_TOOL_UNDO: Record<string, (result: ToolResult) => ToolCall | null> = {
+  create_ticket: result => result.data?.ticketId
+    ? { id: 'undo_create_ticket', name: 'cancel_ticket', parameters: { ticketId: result.data.ticketId, reason: 'Workflow rolled back' } }
+    : null
+};
 
 export interface SupportWorkflow {
   processComplexQuery(query: string, context: ConversationContext): Promise<WorkflowResult>;
-  executeToolChain(tools: ToolCall[]): Promise<WorkflowResult>;
+  executeToolChain(tools: ToolCall[], parallelExecution?: boolean): Promise<WorkflowResult>;
   handleEscalation(ticketData: any): Promise<WorkflowResult>;
 }
 
 export class WorkflowService implements SupportWorkflow {
   private engine: WorkflowEngine;
   private bindings: WorkerBindings;
+  private tools: ToolRegistry;
 
-  constructor(bindings: WorkerBindings) {
-    this.engine = new WorkflowEngine();
+  constructor(bindings: WorkerBindings, tools: ToolRegistry = toolRegistry) {
+    this.engine = new WorkflowEngine(createWorkflowStore(bindings));
     this.bindings = bindings;
+    this.tools = tools;
     this.registerCustomHandlers();
   }
 
@@ -41,12 +66,12 @@ export class WorkflowService implements SupportWorkflow {
     const input: SupportWorkflowInput = {
       query,
       context,
-      priority: this.determinePriority(query),
+      priority: determinePriority(query),
       tools: this.suggestTools(query)
     };
 
     const workflowDef = createComplexQueryWorkflow(input);
-    const workflowContext = this.createWorkflowContext(context);
+    const workflowContext = this.createWorkflowContext(context, { query, priority: input.priority });
 
     // Generate idempotency key based on session and query
     const idempotencyKey = `complex_query_${context.sessionId}_${this.hashString(query)}`;
@@ -54,12 +79,14 @@ export class WorkflowService implements SupportWorkflow {
     return await this.engine.executeWorkflow(workflowDef, workflowContext, idempotencyKey);
   }
 
-  // Execute a chain of tools
-  async executeToolChain(toolCalls: ToolCall[]): Promise<WorkflowResult> {
+  // Execute a chain of tools, one after another or side by side
+  async executeToolChain(toolCalls: ToolCall[], parallelExecution: boolean = false): Promise<WorkflowResult> {
     const input = {
       tools: toolCalls.map(tc => tc.name),
+      toolCalls,
       query: 'Execute tool chain',
-      context: {} as ConversationContext
+      context: {} as ConversationContext,
+      parallelExecution
     };
 
     const workflowDef = createToolChainWorkflow(input);
@@ -93,8 +120,24 @@ export class WorkflowService implements SupportWorkflow {
       }
     };
 
+    // Escalated sessions wait for an agent even if the workflow itself fails
+    const queuePriority = higherPriority(ticketData.priority as QueuePriority, determinePriority(ticketData.issue));
+    await enqueueSession(this.bindings, {
+      sessionId: ticketData.context.sessionId,
+      reason: 'escalation',
+      priority: queuePriority,
+      slaDeadline: calculateEstimatedResolution(queuePriority, new Date()).getTime(),
+      title: ticketData.title,
+      userId: ticketData.context.userProfile?.id
+    });
+
+    await refreshWorkflowDefinitions(this.bindings);
     const workflowDef = createEscalationWorkflow(input);
-    const workflowContext = this.createWorkflowContext(ticketData.context);
+    const workflowContext = this.createWorkflowContext(ticketData.context, {
+      issue: input.issue,
+      priority: input.priority,
+      ticketData: input.ticketData
+    });
 
     // Generate idempotency key for escalation
     const idempotencyKey = `escalation_${ticketData.context.sessionId}_${this.hashString(ticketData.issue)}`;
@@ -106,17 +149,58 @@ export class WorkflowService implements SupportWorkflow {
   async executeWorkflowById(
     workflowId: string,
     context: ConversationContext,
-    input?: any
+    input?: any,
+    idempotencyKey?: string
   ): Promise<WorkflowResult> {
+    const { completion } = await this.startWorkflowById(workflowId, context, input, idempotencyKey);
+    return await completion;
+  }
+
+  // Start a predefined workflow without waiting for it to finish
+  async startWorkflowById(
+    workflowId: string,
+    context: ConversationContext,
+    input?: any,
+    idempotencyKey?: string
+  ): Promise<WorkflowRun> {
+    await refreshWorkflowDefinitions(this.bindings);
     const workflowDef = getWorkflowDefinition(workflowId);
     if (!workflowDef) {
       throw new Error(`Workflow not found: ${workflowId}`);
     }
 
-    const workflowContext = this.createWorkflowContext(context, input);
-    const idempotencyKey = `${workflowId}_${context.sessionId}_${Date.now()}`;
+    const workflowContext = this.createWorkflowContext(context, input, input);
+    const key = idempotencyKey || `${workflowId}_${context.sessionId}_${Date.now()}`;
 
-    return await this.engine.executeWorkflow(workflowDef, workflowContext, idempotencyKey);
+    return await this.engine.startWorkflow(workflowDef, workflowContext, key);
+  }
+
+  // Pick up an execution whose isolate went away. Retry, compensation and timeout
+  // settings come from the registered definition; the steps come from the execution.
+  async resumeExecution(executionId: string): Promise<WorkflowResult> {
+    const workflowDef = await this.getDefinitionFor(executionId);
+    return await this.engine.resumeExecution(executionId, workflowDef, this.bindings);
+  }
+
+  // Stop a running execution and compensate the steps it completed
+  async cancelExecution(executionId: string): Promise<WorkflowExecution> {
+    const workflowDef = await this.getDefinitionFor(executionId);
+    return await this.engine.cancelExecution(executionId, workflowDef, this.bindings);
+  }
+
+  // Run a failed execution again from its failed steps
+  async replayExecution(executionId: string): Promise<WorkflowRun | null> {
+    const workflowDef = await this.getDefinitionFor(executionId);
+    return await this.engine.replayExecution(executionId, workflowDef, this.bindings);
+  }
+
+  async getExecution(executionId: string): Promise<WorkflowExecution | null> {
+    return await this.engine.getExecution(executionId);
+  }
+
+  // Handlers an uploaded definition may name in its steps
+  getStepHandlerNames(): string[] {
+    return this.engine.getStepHandlerNames();
   }
 
   // Register custom step handlers that integrate with the support bot system
@@ -156,31 +240,45 @@ export class WorkflowService implements SupportWorkflow {
       }
     });
 
-    // Tool execution handler that integrates with existing tools
+    // Tool execution handler backed by the tool registry
+    const tools = this.tools;
+    const runTool = async (toolCall: ToolCall, context: WorkflowContext): Promise<ToolResult> => {
+      const call = WORKFLOW_TOOL_CALLS[toolCall.name]?.(toolCall.parameters || {})
+        || { name: toolCall.name, params: toolCall.parameters || {} };
+      const toolContext = ToolRegistry.createToolContext(
+        context.sessionId,
+        context.bindings,
+        context.userId,
+        context.conversationContext,
+        true,
+        context.signal
+      );
+      return tools.executeTool(call.name, call.params, toolContext);
+    };
+
     this.engine.registerStepHandler({
       name: 'execute_tool',
-      async execute(input: { toolCall: ToolCall }, context: WorkflowContext): Promise<ToolResult> {
-        try {
-          // This would integrate with the existing tool registry
-          // For now, simulate tool execution based on tool name
-          const { toolCall } = input;
-          
-          switch (toolCall.name) {
-            case 'kb.search':
-              return await (this as any).executeKnowledgeBaseSearch(toolCall, context);
-            case 'create_ticket':
-              return await (this as any).executeTicketCreation(toolCall, context);
-            case 'fetch_status':
-              return await (this as any).executeStatusFetch(toolCall, context);
-            default:
-              throw new Error(`Unknown tool: ${toolCall.name}`);
-          }
-        } catch (error) {
-          return {
-            success: false,
-            error: error instanceof Error ? error.message : String(error),
-            metadata: { executedAt: Date.now() }
-          };
+      async execute(input: { toolCall: ToolCall; continueOnFailure?: boolean }, context: WorkflowContext): Promise<ToolResult> {
+        const { toolCall } = input;
+        const result = await runTool(toolCall, context);
+
+        // A failed tool fails the step, so the engine retries it or rolls the workflow back,
+        // unless the step only gathers results for a later step to weigh
+        if (!result.success && !input.continueOnFailure) {
+          throw new Error(`Tool ${toolCall.name} failed: ${result.error || 'Unknown error'}`);
+        }
+
+        return result;
+      },
+      async compensate(input: { toolCall: ToolCall }, output: ToolResult, context: WorkflowContext): Promise<void> {
+        const undo = WORKFLOW_TOOL_UNDO[input.toolCall.name]?.(output);
+        if (!undo) {
+          return;
+        }
+
+        const result = await runTool(undo, context);
+        if (!result.success) {
+          throw new Error(`Tool ${undo.name} failed: ${result.error || 'Unknown error'}`);
         }
       },
       validate(input: any): boolean {
@@ -217,11 +315,10 @@ export class WorkflowService implements SupportWorkflow {
           throw new Error(`Data persistence failed: ${errorMsg}`);
         }
       },
-      async compensate(input: { key: string }, context: WorkflowContext): Promise<void> {
-        try {
+      // A stored value is removed; a delete cannot be undone
+      async compensate(input: { key: string }, output: { stored?: boolean }, context: WorkflowContext): Promise<void> {
+        if (output?.stored) {
           await context.bindings.CHAT_KV.delete(input.key);
-        } catch (error) {
-          console.error(`Failed to compensate data persistence for key ${input.key}:`, error);
         }
       },
       validate(input: any): boolean {
@@ -230,101 +327,32 @@ export class WorkflowService implements SupportWorkflow {
     });
   }
 
-  // Helper methods for tool execution
-  private async executeKnowledgeBaseSearch(toolCall: ToolCall, context: WorkflowContext): Promise<ToolResult> {
-    // Simulate knowledge base search
-    const query = toolCall.parameters.query || 'default search';
-    
-    return {
-      success: true,
-      data: {
-        results: [
-          {
-            title: `Knowledge Base Result for: ${query}`,
-            content: `This is a simulated knowledge base result for the query: ${query}`,
-            relevance: 0.85,
-            source: 'kb_article_123'
-          }
-        ],
-        total: 1,
-        query
-      },
-      metadata: {
-        executedAt: Date.now(),
-        source: 'knowledge_base'
-      }
-    };
-  }
-
-  private async executeTicketCreation(toolCall: ToolCall, context: WorkflowContext): Promise<ToolResult> {
-    // Simulate ticket creation
-    const ticketData = toolCall.parameters;
-    const ticketId = `TICKET-${Date.now()}`;
-    
-    return {
-      success: true,
-      data: {
-        ticketId,
-        status: 'created',
-        title: ticketData.title || 'Support Request',
-        priority: ticketData.priority || 'medium',
-        assignee: null,
-        createdAt: Date.now()
-      },
-      metadata: {
-        executedAt: Date.now(),
-        source: 'ticketing_system'
-      }
-    };
-  }
+  // Helper methods
+  private async getDefinitionFor(executionId: string): Promise<WorkflowDefinition> {
+    const execution = await this.engine.getExecution(executionId);
+    if (!execution) {
+      throw new Error(`Workflow execution not found: ${executionId}`);
+    }
 
-  private async executeStatusFetch(toolCall: ToolCall, context: WorkflowContext): Promise<ToolResult> {
-    // Simulate status fetch
-    const ticketId = toolCall.parameters.ticketId;
-    
-    return {
-      success: true,
-      data: {
-        ticketId,
-        status: 'in_progress',
-        assignee: 'agent_123',
-        lastUpdate: Date.now() - 3600000, // 1 hour ago
-        estimatedResolution: Date.now() + 7200000 // 2 hours from now
-      },
-      metadata: {
-        executedAt: Date.now(),
-        source: 'ticketing_system'
-      }
-    };
+    await refreshWorkflowDefinitions(this.bindings);
+    const workflowDef = getWorkflowDefinition(execution.workflowId);
+    if (!workflowDef) {
+      throw new Error(`Workflow not found: ${execution.workflowId}`);
+    }
+    return workflowDef;
   }
 
-  // Helper methods
-  private createWorkflowContext(context: ConversationContext, variables?: any): WorkflowContext {
+  private createWorkflowContext(context: ConversationContext, input?: any, variables?: any): WorkflowContext {
     return {
       sessionId: context.sessionId,
       userId: context.userProfile?.id,
       conversationContext: context,
       bindings: this.bindings,
-      variables: variables || {}
+      variables: variables || {},
+      input: input || {}
     };
   }
 
-  private determinePriority(query: string): 'low' | 'medium' | 'high' | 'urgent' {
-    const urgentKeywords = ['urgent', 'critical', 'emergency', 'down', 'broken'];
-    const highKeywords = ['important', 'asap', 'quickly', 'soon'];
-    
-    const lowerQuery = query.toLowerCase();
-    
-    if (urgentKeywords.some(keyword => lowerQuery.includes(keyword))) {
-      return 'urgent';
-    }
-    if (highKeywords.some(keyword => lowerQuery.includes(keyword))) {
-      return 'high';
-    }
-    
-    return 'medium';
-  }
-
   private suggestTools(query: string): string[] {
     const tools: string[] = [];
     const lowerQuery = query.toLowerCase();
@@ -353,4 +381,26 @@ export class WorkflowService implements SupportWorkflow {
     }
     return Math.abs(hash).toString(36);
   }
-}
\ No newline at end of file
+}
+
+// Keyword-based urgency of a customer query; also ranks the agent queue
+export function determinePriority(query: string): 'low' | 'medium' | 'high' | 'urgent' {
+  const urgentKeywords = ['urgent', 'critical', 'emergency', 'down', 'broken'];
+  const highKeywords = ['important', 'asap', 'quickly', 'soon'];
+  
+  const lowerQuery = query.toLowerCase();
+  
+  if (urgentKeywords.some(keyword => lowerQuery.includes(keyword))) {
+    return 'urgent';
+  }
+  if (highKeywords.some(keyword => lowerQuery.includes(keyword))) {
+    return 'high';
+  }
+  
+  return 'medium';
+}
+
+function higherPriority(a: QueuePriority | undefined, b: QueuePriority): QueuePriority {
+  const order: QueuePriority[] = ['low', 'medium', 'high', 'urgent'];
+  return a && order.indexOf(a) > order.indexOf(b) ? a : b;
+}
@@ -0,0 +1,346 @@
+// Durable workflow execution state: idempotency claims, per-step progress and results
+import { WorkerBindings } from './types';
+import type { WorkflowExecution } from './workflow';
+
+export interface WorkflowStore {
+  // Stores the execution unless a live execution already holds its idempotency key;
+  // returns whichever execution owns the key afterwards
+  claim(execution: WorkflowExecution): Promise<WorkflowExecution>;
+  // Keeps a pending cancellation on the stored execution and reports it to the saver
+  save(execution: WorkflowExecution): Promise<{ cancelRequested: boolean }>;
+  get(executionId: string): Promise<WorkflowExecution | null>;
+  // Flags an unfinished execution for cancellation; returns the stored execution
+  requestCancel(executionId: string): Promise<WorkflowExecution | null>;
+  // Hands an unfinished execution to runnerId unless it was saved since expectedUpdatedAt;
+  // null when it finished or another runner got there first
+  takeover(executionId: string, expectedUpdatedAt: number, runnerId: string): Promise<WorkflowExecution | null>;
+  // Stores an execution reset for replay if the stored one still has expectedStatus;
+  // false when another replay claimed it first
+  claimReplay(execution: WorkflowExecution, expectedStatus: WorkflowExecution['status']): Promise<boolean>;
+}
+
+const EXECUTION_PREFIX = 'execution:';
+const IDEMPOTENCY_PREFIX = 'idempotency:';
+// Executions are spread over objects by the hash of their idempotency key, so claims on
+// one key always meet in the same object. Ids from before sharding live in this one.
+const LEGACY_STORE_NAME = 'executions';
+const SHARD_PATTERN = /^wf_exec_([0-9a-f]{8})_/;
+// A finished execution answers repeats of its idempotency key for this long
+export const IDEMPOTENCY_WINDOW_MS = 5 * 60 * 1000;
+// Finished executions stay queryable for this long
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Execution ids name the shard that holds the execution. An execution without an
+// idempotency key is its own key, so it may go to any shard.
+export function createExecutionId(idempotencyKey?: string): string {
+  const shard = idempotencyKey === undefined
+    ? Math.floor(Math.random() * 0x100000000).toString(16).padStart(8, '0')
+    : shardOf(idempotencyKey);
+  return `wf_exec_${shard}_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
+// FNV-1a; only needs to spread keys evenly
+function shardOf(idempotencyKey: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < idempotencyKey.length; i++) {
+    hash = Math.imul(hash ^ idempotencyKey.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function storeName(executionId: string): string {
+  const shard = SHARD_PATTERN.exec(executionId)?.[1];
+  return shard ? `executions:${shard}` : LEGACY_STORE_NAME;
+}
+
+export function isFinished(execution: WorkflowExecution): boolean {
+  return execution.status !== 'pending' && execution.status !== 'running';
+}
+
+function holdsKey(execution: WorkflowExecution, now: number): boolean {
+  return !isFinished(execution) || now - (execution.completedAt || execution.updatedAt) < IDEMPOTENCY_WINDOW_MS;
+}
+
+// A cancellation only sticks to executions that are still running
+function pendingCancel(stored: WorkflowExecution | null | undefined): boolean {
+  return !!stored && !isFinished(stored) && !!stored.cancelRequested;
+}
+
+// Bindings and the abort signal are live objects; the engine restores them when an execution resumes
+function toStored(execution: WorkflowExecution): WorkflowExecution {
+  return structuredClone({ ...execution, context: { ...execution.context, bindings: undefined, signal: undefined } });
+}
+
+export class WorkflowStateDO implements DurableObject {
+  private state: DurableObjectState;
+
+  constructor(state: DurableObjectState, env: WorkerBindings) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    try {
+      const url = new URL(request.url);
+
+      if (request.method === 'GET') {
+        const execution = await this.getExecution(url.searchParams.get('id') || '');
+        return execution
+          ? jsonResponse({ execution })
+          : jsonResponse({ error: { code: 'NOT_FOUND', message: 'Workflow execution not found' } }, 404);
+      }
+
+      if (request.method !== 'POST') {
+        return new Response('Method not allowed', { status: 405 });
+      }
+
+      const body = await request.json() as any;
+      switch (body.action) {
+        case 'claim':
+          return jsonResponse({ execution: await this.claim(body.execution) });
+        case 'save':
+          return jsonResponse({ saved: true, ...await this.save(body.execution) });
+        case 'cancel': {
+          const execution = await this.requestCancel(body.executionId);
+          return execution
+            ? jsonResponse({ execution })
+            : jsonResponse({ error: { code: 'NOT_FOUND', message: 'Workflow execution not found' } }, 404);
+        }
+        case 'takeover':
+          return jsonResponse({ execution: await this.takeover(body.executionId, body.expectedUpdatedAt, body.runnerId) });
+        case 'claimReplay':
+          return jsonResponse({ claimed: await this.claimReplay(body.execution, body.expectedStatus) });
+        default:
+          return new Response('Invalid action', { status: 400 });
+      }
+    } catch (error) {
+      console.error('WorkflowStateDO error:', error);
+      return jsonResponse({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+    }
+  }
+
+  // Drop finished executions past retention, then wake again for the next one due
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    const stored = await this.state.storage.list<WorkflowExecution>({ prefix: EXECUTION_PREFIX });
+    let nextExpiry: number | null = null;
+
+    for (const execution of stored.values()) {
+      if (!isFinished(execution)) {
+        continue;
+      }
+      const expiresAt = (execution.completedAt || execution.updatedAt) + RETENTION_MS;
+      if (expiresAt > now) {
+        nextExpiry = Math.min(nextExpiry ?? expiresAt, expiresAt);
+        continue;
+      }
+      await this.state.storage.delete(EXECUTION_PREFIX + execution.id);
+      if (await this.state.storage.get(IDEMPOTENCY_PREFIX + execution.idempotencyKey) === execution.id) {
+        await this.state.storage.delete(IDEMPOTENCY_PREFIX + execution.idempotencyKey);
+      }
+    }
+
+    if (nextExpiry !== null) {
+      await this.state.storage.setAlarm(nextExpiry);
+    }
+  }
+
+  private async claim(execution: WorkflowExecution): Promise<WorkflowExecution> {
+    const ownerId = await this.state.storage.get<string>(IDEMPOTENCY_PREFIX + execution.idempotencyKey);
+    const owner = ownerId ? await this.getExecution(ownerId) : null;
+    if (owner && holdsKey(owner, Date.now())) {
+      return owner;
+    }
+
+    await this.state.storage.put(IDEMPOTENCY_PREFIX + execution.idempotencyKey, execution.id);
+    await this.state.storage.put(EXECUTION_PREFIX + execution.id, execution);
+    return execution;
+  }
+
+  private async save(execution: WorkflowExecution): Promise<{ cancelRequested: boolean }> {
+    const cancelRequested = pendingCancel(await this.getExecution(execution.id));
+    await this.state.storage.put(EXECUTION_PREFIX + execution.id, cancelRequested ? { ...execution, cancelRequested } : execution);
+    if (isFinished(execution) && await this.state.storage.getAlarm() === null) {
+      await this.state.storage.setAlarm(Date.now() + RETENTION_MS);
+    }
+    return { cancelRequested };
+  }
+
+  private async requestCancel(executionId: string): Promise<WorkflowExecution | null> {
+    const execution = await this.getExecution(executionId);
+    if (execution && !isFinished(execution) && !execution.cancelRequested) {
+      execution.cancelRequested = true;
+      await this.state.storage.put(EXECUTION_PREFIX + executionId, execution);
+    }
+    return execution;
+  }
+
+  // Requests to one object run one at a time, so only the first of two runners that saw
+  // the same stale execution gets it
+  private async takeover(executionId: string, expectedUpdatedAt: number, runnerId: string): Promise<WorkflowExecution | null> {
+    const execution = await this.getExecution(executionId);
+    if (!execution || isFinished(execution) || execution.updatedAt !== expectedUpdatedAt) {
+      return null;
+    }
+    execution.runnerId = runnerId;
+    execution.updatedAt = Date.now();
+    await this.state.storage.put(EXECUTION_PREFIX + executionId, execution);
+    return execution;
+  }
+
+  private async claimReplay(execution: WorkflowExecution, expectedStatus: WorkflowExecution['status']): Promise<boolean> {
+    const stored = await this.getExecution(execution.id);
+    if (!stored || stored.status !== expectedStatus) {
+      return false;
+    }
+    await this.state.storage.put(EXECUTION_PREFIX + execution.id, execution);
+    return true;
+  }
+
+  private async getExecution(executionId: string): Promise<WorkflowExecution | null> {
+    return (await this.state.storage.get<WorkflowExecution>(EXECUTION_PREFIX + executionId)) || null;
+  }
+}
+
+function jsonResponse(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+export class DurableObjectWorkflowStore implements WorkflowStore {
+  constructor(private namespace: DurableObjectNamespace) {}
+
+  async claim(execution: WorkflowExecution): Promise<WorkflowExecution> {
+    const result = await this.post(execution.id, { action: 'claim', execution: toStored(execution) });
+    return result.execution;
+  }
+
+  async save(execution: WorkflowExecution): Promise<{ cancelRequested: boolean }> {
+    const result = await this.post(execution.id, { action: 'save', execution: toStored(execution) });
+    return { cancelRequested: !!result.cancelRequested };
+  }
+
+  async get(executionId: string): Promise<WorkflowExecution | null> {
+    const response = await this.stub(executionId).fetch(`https://workflow-state/?id=${encodeURIComponent(executionId)}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Workflow state store responded with ${response.status}`);
+    }
+    return ((await response.json()) as any).execution;
+  }
+
+  async requestCancel(executionId: string): Promise<WorkflowExecution | null> {
+    const result = await this.post(executionId, { action: 'cancel', executionId }, true);
+    return result ? result.execution : null;
+  }
+
+  async takeover(executionId: string, expectedUpdatedAt: number, runnerId: string): Promise<WorkflowExecution | null> {
+    const result = await this.post(executionId, { action: 'takeover', executionId, expectedUpdatedAt, runnerId });
+    return result.execution;
+  }
+
+  async claimReplay(execution: WorkflowExecution, expectedStatus: WorkflowExecution['status']): Promise<boolean> {
+    const result = await this.post(execution.id, { action: 'claimReplay', execution: toStored(execution), expectedStatus });
+    return !!result.claimed;
+  }
+
+  private stub(executionId: string): DurableObjectStub {
+    return this.namespace.get(this.namespace.idFromName(storeName(executionId)));
+  }
+
+  private async post(executionId: string, body: Record<string, any>, allowMissing: boolean = false): Promise<any> {
+    const response = await this.stub(executionId).fetch('https://workflow-state/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    if (allowMissing && response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Workflow state store responded with ${response.status}`);
+    }
+    return response.json();
+  }
+}
+
+// Per-engine stand-in for development without the Durable Object and for tests;
+// state does not outlive the isolate
+export class InMemoryWorkflowStore implements WorkflowStore {
+  private executions: Map<string, WorkflowExecution> = new Map();
+  private idempotencyKeys: Map<string, string> = new Map();
+
+  async claim(execution: WorkflowExecution): Promise<WorkflowExecution> {
+    const now = Date.now();
+    this.prune(now);
+
+    const ownerId = this.idempotencyKeys.get(execution.idempotencyKey);
+    const owner = ownerId ? this.executions.get(ownerId) : undefined;
+    if (owner && holdsKey(owner, now)) {
+      return structuredClone(owner);
+    }
+
+    this.idempotencyKeys.set(execution.idempotencyKey, execution.id);
+    this.executions.set(execution.id, toStored(execution));
+    return execution;
+  }
+
+  async save(execution: WorkflowExecution): Promise<{ cancelRequested: boolean }> {
+    const cancelRequested = pendingCancel(this.executions.get(execution.id));
+    this.executions.set(execution.id, toStored(cancelRequested ? { ...execution, cancelRequested } : execution));
+    return { cancelRequested };
+  }
+
+  async get(executionId: string): Promise<WorkflowExecution | null> {
+    const execution = this.executions.get(executionId);
+    return execution ? structuredClone(execution) : null;
+  }
+
+  async requestCancel(executionId: string): Promise<WorkflowExecution | null> {
+    const execution = this.executions.get(executionId);
+    if (execution && !isFinished(execution)) {
+      execution.cancelRequested = true;
+    }
+    return execution ? structuredClone(execution) : null;
+  }
+
+  async takeover(executionId: string, expectedUpdatedAt: number, runnerId: string): Promise<WorkflowExecution | null> {
+    const execution = this.executions.get(executionId);
+    if (!execution || isFinished(execution) || execution.updatedAt !== expectedUpdatedAt) {
+      return null;
+    }
+    execution.runnerId = runnerId;
+    execution.updatedAt = Date.now();
+    return structuredClone(execution);
+  }
+
+  async claimReplay(execution: WorkflowExecution, expectedStatus: WorkflowExecution['status']): Promise<boolean> {
+    if (this.executions.get(execution.id)?.status !== expectedStatus) {
+      return false;
+    }
+    this.executions.set(execution.id, toStored(execution));
+    return true;
+  }
+
+  // Without storage limits to lean on, only keep what still answers idempotency checks
+  private prune(now: number): void {
+    for (const [id, execution] of this.executions) {
+      if (!holdsKey(execution, now)) {
+        this.executions.delete(id);
+        if (this.idempotencyKeys.get(execution.idempotencyKey) === id) {
+          this.idempotencyKeys.delete(execution.idempotencyKey);
+        }
+      }
+    }
+  }
+}
+
+export function createWorkflowStore(bindings: Partial<WorkerBindings> | undefined): WorkflowStore {
+  const namespace = bindings?.WORKFLOW_STATE_DO;
+  return namespace
+    ? new DurableObjectWorkflowStore(namespace)
+    : new InMemoryWorkflowStore();
+}